@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const formData = await request.formData();
+
+    const response = await fetch(`${API_BASE_URL}/web/messages/attachments`, {
+      method: 'POST',
+      headers: {
+        'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+        ...(authHeader && { 'Authorization': authHeader }),
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      console.error('Backend response not ok:', response.status, response.statusText);
+      return NextResponse.json(
+        { error: 'Failed to send attachment', details: errorData?.message || `Backend error: ${response.status} ${response.statusText}` },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error sending attachment:', error);
+    return NextResponse.json(
+      { error: 'Failed to send attachment', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
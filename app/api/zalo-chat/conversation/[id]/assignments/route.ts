@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const { id } = await params;
+
+    const response = await fetch(`${API_BASE_URL}/web/conversation/${id}/assignments`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+        ...(authHeader && { 'Authorization': authHeader }),
+      },
+    });
+
+    if (!response.ok) {
+      console.error('Backend response not ok:', response.status, response.statusText);
+      throw new Error(`Backend error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error fetching conversation assignments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation assignments', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const { id } = await params;
+    const body = await request.json();
+
+    const response = await fetch(`${API_BASE_URL}/web/conversation/${id}/assignments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+        ...(authHeader && { 'Authorization': authHeader }),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      console.error('Backend response not ok:', response.status, response.statusText);
+      return NextResponse.json(
+        { error: 'Failed to assign conversation', details: errorData?.message || `Backend error: ${response.status} ${response.statusText}` },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error assigning conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to assign conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const { id } = await params;
+    const body = await request.json();
+
+    const response = await fetch(`${API_BASE_URL}/web/conversation/${id}/notes`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+        ...(authHeader && { 'Authorization': authHeader }),
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      console.error('Backend response not ok:', response.status, response.statusText);
+      return NextResponse.json(
+        { error: 'Failed to save conversation notes', details: errorData?.message || `Backend error: ${response.status} ${response.statusText}` },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error saving conversation notes:', error);
+    return NextResponse.json(
+      { error: 'Failed to save conversation notes', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+"use client";
+import React, { Suspense, useCallback, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/custom/loading-spinner";
+import { ServerResponseAlert } from "@/components/ui/loading/ServerResponseAlert";
+import CustomerDebtLedgerView from "@/components/debt/customer-ledger/CustomerDebtLedgerView";
+import { debtConfigAPI, debtLedgerAPI } from "@/lib/debt-api";
+import type { CustomerDebtLedger, DebtConfig } from "@/types";
+
+// Component that uses useSearchParams - needs to be wrapped in Suspense
+function CustomerDebtContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const customerCode = searchParams.get("code") || "";
+
+  const [alert, setAlert] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+  const [keyword, setKeyword] = useState(customerCode);
+  const [suggestions, setSuggestions] = useState<DebtConfig[]>([]);
+  const [ledger, setLedger] = useState<CustomerDebtLedger | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchLedger = useCallback(async (code: string) => {
+    try {
+      setLoading(true);
+      setLedger(await debtLedgerAPI.getByCustomer(code));
+    } catch (error: any) {
+      console.error("Error fetching customer debt ledger:", error);
+      setLedger(null);
+      setAlert({
+        type: "error",
+        message: error.response?.data?.message || "Lỗi khi tải sổ công nợ khách hàng!",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setKeyword(customerCode);
+    if (customerCode) fetchLedger(customerCode);
+    else setLedger(null);
+  }, [customerCode, fetchLedger]);
+
+  // Gợi ý mã khách hàng khi gõ
+  useEffect(() => {
+    const term = keyword.trim();
+    if (!term || term === customerCode) {
+      setSuggestions([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      debtConfigAPI
+        .search(term, 10)
+        .then((res) => setSuggestions(res.data || []))
+        .catch(() => setSuggestions([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [keyword, customerCode]);
+
+  const openCustomer = (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+    if (trimmed === customerCode) fetchLedger(trimmed);
+    else router.replace(`/dashboard/customer-debt?code=${encodeURIComponent(trimmed)}`);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto overflow-x-hidden p-6">
+      <Card className="w-full max-w-full">
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4">
+          <CardTitle className="text-xl font-bold">📒 Sổ công nợ khách hàng</CardTitle>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              openCustomer(keyword);
+            }}
+          >
+            <Input
+              list="customer-debt-suggestions"
+              placeholder="Nhập mã khách hàng..."
+              value={keyword}
+              onChange={(e) => setKeyword(e.target.value)}
+              className="w-64"
+            />
+            <datalist id="customer-debt-suggestions">
+              {suggestions.map((config) => (
+                <option key={config.id} value={config.customer_code}>
+                  {config.customer_name}
+                </option>
+              ))}
+            </datalist>
+            <Button type="submit" variant="gradient" disabled={loading || !keyword.trim()}>
+              Xem sổ công nợ
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {alert && (
+            <ServerResponseAlert
+              type={alert.type}
+              message={alert.message}
+              onClose={() => setAlert(null)}
+            />
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-16">
+              <LoadingSpinner />
+              <span>Đang tải sổ công nợ...</span>
+            </div>
+          ) : ledger ? (
+            <CustomerDebtLedgerView ledger={ledger} onShowAlert={setAlert} />
+          ) : (
+            <div className="py-16 text-center text-gray-500">
+              Nhập mã khách hàng để xem toàn bộ phiếu nợ, lịch sử nhắc nợ và sao kê.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function CustomerDebtPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center h-64 text-gray-500">Đang tải...</div>
+      }
+    >
+      <CustomerDebtContent />
+    </Suspense>
+  );
+}
@@ -13,6 +13,7 @@ import PaginatedTable from "@/components/ui/pagination/PaginatedTable";
 import type { Filters } from "@/components/ui/pagination/PaginatedTable";
 import DebtConfigModal from "@/components/debt/debt-setting/DebtConfigModal";
 import AddManualDebtModal from "@/components/debt/debt-setting/AddManualDebtModal";
+import DebtReminderTemplateModal from "@/components/debt/debt-setting/DebtReminderTemplateModal";
 import { ServerResponseAlert } from "@/components/ui/loading/ServerResponseAlert";
 import { LoadingSpinner } from "@/components/ui/custom/loading-spinner";
 import { getAccessToken } from "@/lib/auth";
@@ -59,6 +60,7 @@ export default function DebtSettingsPage() {
   );
   const [showConfigModal, setShowConfigModal] = useState(false);
   const [showAddManualModal, setShowAddManualModal] = useState(false);
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
   const [alert, setAlert] = useState<{ type: any; message: string } | null>(
     null
   );
@@ -691,6 +693,18 @@ export default function DebtSettingsPage() {
               </Button>
             </PDynamic>
 
+            <PDynamic
+              permission={{ departmentSlug: "cong-no", action: "create" }}
+            >
+              <Button
+                variant="outline"
+                onClick={() => setShowTemplateModal(true)}
+                className="text-sm"
+              >
+                📝 Mẫu tin nhắc nợ
+              </Button>
+            </PDynamic>
+
             <Button
               onClick={() => forceUpdate()}
               variant="outline"
@@ -777,6 +791,12 @@ export default function DebtSettingsPage() {
         onClose={() => setShowAddManualModal(false)}
         onSave={handleModalManualSave}
       />
+
+      <DebtReminderTemplateModal
+        open={showTemplateModal}
+        onClose={() => setShowTemplateModal(false)}
+        onShowAlert={setAlert}
+      />
     </div>
   );
 }
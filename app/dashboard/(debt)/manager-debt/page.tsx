@@ -14,6 +14,7 @@ import PaginatedTable from "@/components/ui/pagination/PaginatedTable";
 import DebtManagement from "../../../../components/debt/manager-debt/DebtManagement";
 import ImportPayDateModal from "../../../../components/debt/manager-debt/ImportPayDateModal";
 import ImportRollbackDialog from "../../../../components/debt/manager-debt/ImportRollbackDialog";
+import DebtImportPreviewDialog from "../../../../components/debt/manager-debt/DebtImportPreviewDialog";
 import ConfirmDialog from "@/components/ui/ConfirmDialog";
 import { getAccessToken } from "@/lib/auth";
 import {
@@ -48,7 +49,7 @@ export default function ManagerDebtPage() {
   const [showImportRollback, setShowImportRollback] = useState(false);
   const [showDeleteAllConfirm, setShowDeleteAllConfirm] = useState(false);
   const [isDeletingAll, setIsDeletingAll] = useState(false);
-  const [isImporting, setIsImporting] = useState(false);
+  const [showImportPreview, setShowImportPreview] = useState(false);
   const [isRollingBack, setIsRollingBack] = useState(false);
   const isInitializedRef = useRef(false);
   const {
@@ -476,93 +477,6 @@ export default function ManagerDebtPage() {
     setPageSize(10);
   }, []);
 
-  // Handle Excel import
-  const handleExcelImport = async (file: File) => {
-    const token = getAccessToken();
-    if (!token || isImporting) return;
-
-    setIsImporting(true); // Bắt đầu loading
-
-    const formData = new FormData();
-    formData.append("file", file);
-
-    try {
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/debts/import-excel`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-          body: formData,
-        }
-      );
-
-      const result = await res.json();
-
-      if (res.ok) {
-        // Xử lý kết quả import với thông tin chi tiết - type safety
-        let importedCount = 0;
-        let errorCount = 0;
-
-        if (Array.isArray(result.imported)) {
-          importedCount = result.imported.length;
-        } else if (typeof result.imported === "number") {
-          importedCount = result.imported;
-        } else if (result.imported) {
-          importedCount = Number(result.imported) || 0;
-        }
-
-        if (Array.isArray(result.errors)) {
-          errorCount = result.errors.length;
-        } else if (typeof result.errors === "number") {
-          errorCount = result.errors;
-        } else if (result.errors) {
-          errorCount = Number(result.errors) || 0;
-        }
-
-        // Đảm bảo message luôn là string hợp lệ
-        let message = `Import thành công ${importedCount} bản ghi`;
-        if (errorCount > 0) {
-          message += ` (có ${errorCount} lỗi)`;
-        } else {
-          message += "!";
-        }
-
-        setAlert({ type: "success", message: message });
-
-        React.startTransition(() => {
-          forceUpdate();
-          refreshStats();
-        });
-      } else {
-        // Đảm bảo message luôn là string
-        let errorMessage = "Import thất bại!";
-        if (result.message) {
-          if (typeof result.message === "string") {
-            errorMessage = result.message;
-          } else if (Array.isArray(result.message)) {
-            errorMessage = result.message.join(", ");
-          } else if (typeof result.message === "object") {
-            errorMessage = JSON.stringify(result.message);
-          } else {
-            errorMessage = String(result.message);
-          }
-        }
-
-        setAlert({
-          type: "error",
-          message: errorMessage,
-        });
-      }
-    } catch (error) {
-      console.error("Import error:", error);
-      setAlert({ type: "error", message: "Lỗi khi import file!" });
-    } finally {
-      setIsImporting(false); // Kết thúc loading
-    }
-  };
-
   // Handle debt edit
   const handleEditDebt = async (
     debt: any,
@@ -774,12 +688,12 @@ export default function ManagerDebtPage() {
   return (
     <div className="h-full overflow-hidden relative">
       {/* Loading overlay cho import */}
-      {(isImporting || isRollingBack) && (
+      {isRollingBack && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 flex flex-col items-center gap-4">
             <div className="animate-spin rounded-full h-12 w-12 border-4 border-t-transparent border-r-pink-500 border-b-purple-500 border-l-indigo-500"></div>
             <span className="text-lg font-semibold">
-              {isImporting ? "Đang import file Excel..." : "Đang khôi phục dữ liệu..."}
+              Đang khôi phục dữ liệu...
             </span>
           </div>
         </div>
@@ -815,37 +729,13 @@ export default function ManagerDebtPage() {
               <PDynamic
                 permission={{ departmentSlug: "cong-no", action: "import" }}
               >
-                <form id="excel-upload-form" style={{ display: "inline" }}>
-                  <input
-                    type="file"
-                    accept=".xlsx,.xls,.csv"
-                    id="excel-upload-input"
-                    style={{ display: "none" }}
-                    disabled={isImporting}
-                    onChange={(e) => {
-                      if (isImporting) return; // Ngăn import khi đang loading
-                      const file = e.target.files && e.target.files[0];
-                      if (file) {
-                        handleExcelImport(file);
-                        e.target.value = "";
-                      }
-                    }}
-                  />
-                  <Button
-                    variant="import"
-                    type="button"
-                    disabled={isImporting}
-                    onClick={() => {
-                      if (isImporting) return; // Ngăn click khi đang import
-                      const input = document.getElementById(
-                        "excel-upload-input"
-                      ) as HTMLInputElement | null;
-                      if (input) input.click();
-                    }}
-                  >
-                    {isImporting ? "Đang import..." : "+ Nhập file Excel"}
-                  </Button>
-                </form>
+                <Button
+                  variant="import"
+                  type="button"
+                  onClick={() => setShowImportPreview(true)}
+                >
+                  + Nhập file Excel
+                </Button>
               </PDynamic>
 
               <PDynamic
@@ -854,7 +744,6 @@ export default function ManagerDebtPage() {
                 <Button
                   variant="edit"
                   onClick={() => setShowImportRollback(true)}
-                  disabled={isImporting}
                 >
                   🔄 Khôi phục dữ liệu công nợ
                 </Button>
@@ -998,6 +887,7 @@ export default function ManagerDebtPage() {
                     onReload={handleRefresh}
                     onEdit={handleEditDebt}
                     onDelete={handleDeleteDebt}
+                    onShowAlert={setAlert}
                   />
                 </PaginatedTable>
               </div>
@@ -1060,6 +950,23 @@ export default function ManagerDebtPage() {
           }}
         />
 
+        {/* Import Preview Dialog */}
+        <DebtImportPreviewDialog
+          open={showImportPreview}
+          onOpenChange={setShowImportPreview}
+          customerOptions={customerOptions}
+          onSuccess={(message) => {
+            setAlert({ type: "success", message });
+            React.startTransition(() => {
+              forceUpdate();
+              refreshStats();
+            });
+          }}
+          onError={(message) => {
+            setAlert({ type: "error", message });
+          }}
+        />
+
         {/* Import Rollback Dialog */}
         <ImportRollbackDialog
           open={showImportRollback}
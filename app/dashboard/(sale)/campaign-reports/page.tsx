@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { BarChart3, Download, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import CampaignFunnelChart from "@/components/sale/reports/CampaignFunnelChart";
+import CampaignComparison from "@/components/sale/reports/CampaignComparison";
+import ReplyTimeDistributionChart from "@/components/sale/reports/ReplyTimeDistributionChart";
+import CampaignBreakdownTable from "@/components/sale/reports/CampaignBreakdownTable";
+import { campaignAPI } from "@/lib/campaign-api";
+import { usePermission } from "@/hooks/usePermission";
+import { useCampaignFilters } from "@/hooks/useCampaignFilters";
+import { CampaignReport, CampaignType } from "@/types";
+import { exportCampaignReportXlsx } from "@/utils/campaignReport";
+
+const ALL_DEPARTMENTS = "all";
+
+export default function CampaignReportsPage() {
+  const { canAccess } = usePermission();
+  const canRead = canAccess("chien-dich", "read");
+  const isAdmin = canAccess("admin", "read");
+  const { options } = useCampaignFilters();
+
+  const [campaignType, setCampaignType] = useState<CampaignType>(CampaignType.HOURLY_KM);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [departmentId, setDepartmentId] = useState(ALL_DEPARTMENTS);
+  const [report, setReport] = useState<CampaignReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    if (!canRead) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await campaignAPI.getReport({
+        campaign_type: campaignType,
+        from_date: fromDate || undefined,
+        to_date: toDate || undefined,
+        departments: departmentId !== ALL_DEPARTMENTS ? [departmentId] : undefined,
+      });
+      setReport(data);
+    } catch (error: any) {
+      console.error("Error loading campaign report:", error);
+      setError(error.response?.data?.message || error.message || "Có lỗi xảy ra khi tải báo cáo");
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [canRead, campaignType, fromDate, toDate, departmentId]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleExport = async () => {
+    if (!report) return;
+    try {
+      setExporting(true);
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/[:.]/g, "-");
+      await exportCampaignReportXlsx(report, `bao_cao_chien_dich_${campaignType}_${timestamp}.xlsx`);
+      toast.success("Đã xuất báo cáo");
+    } catch (error) {
+      console.error("Error exporting campaign report:", error);
+      toast.error("Không thể xuất báo cáo");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!canRead) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[400px] text-center">
+        <div className="text-6xl mb-4">🔒</div>
+        <h2 className="text-xl font-semibold mb-2">Không có quyền truy cập</h2>
+        <p className="text-gray-600">Bạn không có quyền truy cập trang này.</p>
+      </div>
+    );
+  }
+
+  return (
+    <main className="flex flex-col gap-4 pt-0 pb-0">
+      <div className="bg-muted text-muted-foreground rounded-xl md:min-h-min">
+        <div className="rounded-xl border bg-background p-6 shadow-sm h-auto overflow-hidden space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center">
+                <BarChart3 className="h-6 w-6 text-purple-600" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Báo cáo chiến dịch</h1>
+                <p className="text-sm text-gray-600 mt-1">
+                  Phễu gửi tin, so sánh chiến dịch cùng loại và tốc độ phản hồi của khách
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={campaignType} onValueChange={(v) => setCampaignType(v as CampaignType)}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.campaignTypes.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isAdmin && (
+                <Select value={departmentId} onValueChange={setDepartmentId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Phòng ban" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_DEPARTMENTS}>Tất cả phòng ban</SelectItem>
+                    {options.departments.map((d) => (
+                      <SelectItem key={d.value} value={String(d.value)}>{d.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Input type="date" className="w-40" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+              <Input type="date" className="w-40" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+              <Button variant="outline" size="icon" onClick={loadReport} disabled={loading} title="Tải lại">
+                <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+              </Button>
+              <Button variant="outline" onClick={handleExport} disabled={!report || exporting}>
+                {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                Xuất Excel
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+              Không thể tải báo cáo: {error}
+            </div>
+          )}
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <CampaignFunnelChart data={report?.funnel || {}} loading={loading && !report} />
+            <ReplyTimeDistributionChart data={report?.reply_time_distribution || null} loading={loading && !report} />
+          </div>
+
+          <CampaignComparison campaigns={report?.campaigns || []} loading={loading && !report} />
+
+          <CampaignBreakdownTable
+            byDepartment={report?.by_department || []}
+            byEmployee={report?.by_employee || []}
+            loading={loading && !report}
+          />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -3,7 +3,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { PlusIcon, RefreshCw, Archive, Download } from "lucide-react"; // ✅ THÊM Archive icon
+import { PlusIcon, RefreshCw, Archive, Download, ShieldCheck, Layers, ClipboardCheck, BookCopy, Inbox, CalendarDays, Table2 } from "lucide-react"; // ✅ THÊM Archive icon
 import {
   Accordion,
   AccordionContent,
@@ -14,11 +14,12 @@ import PaginatedTable, {
   Filters,
 } from "@/components/ui/pagination/PaginatedTable";
 import CampaignManagement from "@/components/sale/CampaignManagement";
-import { campaignAPI, type CampaignFilters } from "@/lib/campaign-api";
+import { campaignAPI, campaignTemplateAPI, type CampaignFilters } from "@/lib/campaign-api";
 import {
   type Campaign,
   CampaignType,
   CampaignStatus,
+  CampaignTemplate,
   CampaignWithDetails,
 } from "@/types";
 import { usePermission } from "@/hooks/usePermission";
@@ -26,7 +27,17 @@ import { PDynamic } from "@/components/common/PDynamic";
 import { ServerResponseAlert } from "@/components/ui/loading/ServerResponseAlert";
 import StatBox from "@/components/common/StatBox";
 import CampaignModal from "@/components/sale/CampaignModal";
+import CampaignContactPolicyModal from "@/components/sale/CampaignContactPolicyModal";
+import CampaignSegmentsModal from "@/components/sale/CampaignSegmentsModal";
+import CampaignApprovalQueueModal from "@/components/sale/CampaignApprovalQueueModal";
+import CampaignTemplatesModal from "@/components/sale/CampaignTemplatesModal";
+import CustomerLogModal from "@/components/sale/CampaignCustomerLogModal.tsx";
+import CampaignCalendar from "@/components/sale/CampaignCalendar";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useCampaignFilters } from "@/hooks/useCampaignFilters";
+import { useCampaignApproval } from "@/hooks/useCampaignApproval";
+import { useNotifications } from "@/hooks/useNotifications";
+import { toast } from "sonner";
 import { usePaginationSync } from "@/hooks/usePaginationSync"; // ✅ NEW IMPORT
 import { transformToCampaignWithDetails } from "@/utils/campaignUtils";
 
@@ -48,6 +59,7 @@ interface Alert {
 // Constants
 const STATUS_OPTIONS = [
   { value: CampaignStatus.DRAFT, label: "Bản nháp" },
+  { value: CampaignStatus.PENDING_APPROVAL, label: "Chờ duyệt" },
   { value: CampaignStatus.SCHEDULED, label: "Đã lên lịch" },
   { value: CampaignStatus.RUNNING, label: "Đang chạy" },
   { value: CampaignStatus.PAUSED, label: "Tạm dừng" },
@@ -150,6 +162,14 @@ export default function CampaignPage() {
   const [alert, setAlert] = useState<Alert | null>(null);
   const [createModalOpen, setCreateModalOpen] = useState(false);
   const [isViewingArchived, setIsViewingArchived] = useState(false);
+  const [contactPolicyOpen, setContactPolicyOpen] = useState(false);
+  const [segmentsOpen, setSegmentsOpen] = useState(false);
+  const [approvalQueueOpen, setApprovalQueueOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [replyInboxOpen, setReplyInboxOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<"table" | "calendar">("table");
+  // Mẫu đang dùng để tạo chiến dịch mới (null = tạo từ đầu)
+  const [createFromTemplate, setCreateFromTemplate] = useState<CampaignTemplate | null>(null);
 
   // ✅ THÊM: Lấy pageSize từ localStorage
   const getInitialPageSize = useCallback(() => {
@@ -193,6 +213,38 @@ export default function CampaignPage() {
     loadCampaigns,
   } = useCampaignData(canRead, pagination.state, isViewingArchived);
 
+  const {
+    settings: approvalSettings,
+    canApprove,
+    requiresApproval,
+    pendingCount,
+    refreshPending,
+    updateSettings: updateApprovalSettings,
+  } = useCampaignApproval();
+
+  // Thông báo duyệt chiến dịch (gửi duyệt / đã duyệt / bị từ chối) -> tải lại danh sách
+  const { notifications } = useNotifications();
+  const seenApprovalNotificationsRef = React.useRef<Set<number> | null>(null);
+  useEffect(() => {
+    const approvalNotifications = notifications.filter(
+      (n) => n.type === "campaign_approval" && n.is_read === 0
+    );
+    // Lần tải đầu chỉ ghi nhận, không báo lại thông báo cũ
+    if (seenApprovalNotificationsRef.current === null) {
+      seenApprovalNotificationsRef.current = new Set(approvalNotifications.map((n) => n.id));
+      return;
+    }
+    const seen = seenApprovalNotificationsRef.current;
+    const fresh = approvalNotifications.filter((n) => !seen.has(n.id));
+    if (fresh.length === 0) return;
+    fresh.forEach((n) => {
+      seen.add(n.id);
+      toast.info(n.title, { description: n.content });
+    });
+    loadCampaigns();
+    refreshPending();
+  }, [notifications, loadCampaigns, refreshPending]);
+
   // Memoized calculations
   const statsData = useMemo(
     () => [
@@ -335,13 +387,31 @@ export default function CampaignPage() {
   );
 
   const handleCreateCampaign = useCallback(() => {
+    setCreateFromTemplate(null);
+    setCreateModalOpen(true);
+  }, []);
+
+  const handleUseTemplate = useCallback((template: CampaignTemplate) => {
+    setTemplatesOpen(false);
+    setIsViewingArchived(false);
+    setCreateFromTemplate(template);
     setCreateModalOpen(true);
   }, []);
 
+  const handleCreateModalOpenChange = useCallback((open: boolean) => {
+    setCreateModalOpen(open);
+    if (!open) setCreateFromTemplate(null);
+  }, []);
+
   const handleCampaignCreated = useCallback(
     async (data: any) => {
       try {
         await campaignAPI.create(data);
+        if (createFromTemplate) {
+          campaignTemplateAPI
+            .markUsed(createFromTemplate.id)
+            .catch((error) => console.error("Error marking template used:", error));
+        }
         setCreateModalOpen(false);
         setAlert({
           type: "success",
@@ -358,7 +428,7 @@ export default function CampaignPage() {
         throw error;
       }
     },
-    [loadCampaigns]
+    [loadCampaigns, createFromTemplate]
   );
 
   const handleRefresh = useCallback(() => {
@@ -482,6 +552,73 @@ export default function CampaignPage() {
                   </span>
                 </Button>
 
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setContactPolicyOpen(true)}
+                  className="transition-all duration-200 hover:bg-gray-50"
+                >
+                  <span className="flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4" />
+                    <span>Chặn & giới hạn</span>
+                  </span>
+                </Button>
+
+                {canApprove && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setApprovalQueueOpen(true)}
+                    className="transition-all duration-200 hover:bg-gray-50"
+                  >
+                    <span className="flex items-center gap-2">
+                      <ClipboardCheck className="h-4 w-4" />
+                      <span>Duyệt chiến dịch</span>
+                      {pendingCount > 0 && (
+                        <span className="rounded-full bg-amber-500 px-1.5 text-xs text-white">
+                          {pendingCount}
+                        </span>
+                      )}
+                    </span>
+                  </Button>
+                )}
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setReplyInboxOpen(true)}
+                  className="transition-all duration-200 hover:bg-gray-50"
+                >
+                  <span className="flex items-center gap-2">
+                    <Inbox className="h-4 w-4" />
+                    <span>Hộp thư phản hồi</span>
+                  </span>
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setTemplatesOpen(true)}
+                  className="transition-all duration-200 hover:bg-gray-50"
+                >
+                  <span className="flex items-center gap-2">
+                    <BookCopy className="h-4 w-4" />
+                    <span>Mẫu chiến dịch</span>
+                  </span>
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setSegmentsOpen(true)}
+                  className="transition-all duration-200 hover:bg-gray-50"
+                >
+                  <span className="flex items-center gap-2">
+                    <Layers className="h-4 w-4" />
+                    <span>Phân khúc</span>
+                  </span>
+                </Button>
+
                 {/* ✅ THÊM NÚT TẢI FILE MẪU */}
                 <Button
                   type="button"
@@ -555,6 +692,32 @@ export default function CampaignPage() {
         {/* Campaign Table */}
         <Card className="shadow-sm border-0">
           <CardContent className="p-3">
+            {!isViewingArchived && (
+              <Tabs
+                value={viewMode}
+                onValueChange={(v) => setViewMode(v as "table" | "calendar")}
+                className="mb-3"
+              >
+                <TabsList>
+                  <TabsTrigger value="table">
+                    <Table2 className="h-4 w-4 mr-1" />
+                    Bảng
+                  </TabsTrigger>
+                  <TabsTrigger value="calendar">
+                    <CalendarDays className="h-4 w-4 mr-1" />
+                    Lịch
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+            {viewMode === "calendar" && !isViewingArchived ? (
+              <CampaignCalendar
+                campaignTypeOptions={CAMPAIGN_TYPE_OPTIONS}
+                departments={options.departments}
+                canFilterDepartment={isAdmin}
+                onChanged={loadCampaigns}
+              />
+            ) : (
             <PaginatedTable
               key={`pagination-${pagination.page}-${pagination.pageSize}`}
               enableSearch={true}
@@ -589,8 +752,12 @@ export default function CampaignPage() {
                 expectedRowCount={pagination.pageSize}
                 startIndex={(pagination.page - 1) * pagination.pageSize}
                 onReload={loadCampaigns}
+                requiresApproval={requiresApproval}
+                canApprove={canApprove}
+                onApprovalChanged={refreshPending}
               />
             </PaginatedTable>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -599,11 +766,53 @@ export default function CampaignPage() {
       {!isViewingArchived && (
         <CampaignModal
           open={createModalOpen}
-          onOpenChange={setCreateModalOpen}
+          onOpenChange={handleCreateModalOpenChange}
           onSubmit={handleCampaignCreated}
           mode="create"
+          templateData={createFromTemplate}
+        />
+      )}
+
+      <CustomerLogModal
+        isOpen={replyInboxOpen}
+        onClose={() => setReplyInboxOpen(false)}
+        customer={null}
+        mode="inbox"
+      />
+
+      <CampaignTemplatesModal
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        campaignTypeOptions={options.campaignTypes}
+        onUseTemplate={handleUseTemplate}
+      />
+
+      <CampaignContactPolicyModal
+        open={contactPolicyOpen}
+        onOpenChange={setContactPolicyOpen}
+        canEditSuppressions={canCreate}
+        canEditPolicy={isAdmin || isManager}
+      />
+
+      {canApprove && (
+        <CampaignApprovalQueueModal
+          open={approvalQueueOpen}
+          onOpenChange={setApprovalQueueOpen}
+          settings={approvalSettings}
+          onUpdateSettings={updateApprovalSettings}
+          onChanged={() => {
+            loadCampaigns();
+            refreshPending();
+          }}
         />
       )}
+
+      <CampaignSegmentsModal
+        open={segmentsOpen}
+        onOpenChange={setSegmentsOpen}
+        canEdit={canCreate}
+        showDepartmentFilter={isAdmin}
+      />
     </div>
   );
 }
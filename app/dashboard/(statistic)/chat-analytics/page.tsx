@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useContext, useMemo, useState } from "react";
+import { Clock, MessageCircle, MessagesSquare, RefreshCw, UserX, Users } from "lucide-react";
+import StatsCard from "@/components/debt/debt-statistic/StatsCard";
+import ResponseTimeChart from "@/components/zalo-chat/analytics/ResponseTimeChart";
+import UnansweredAgeChart from "@/components/zalo-chat/analytics/UnansweredAgeChart";
+import MessageHeatmap from "@/components/zalo-chat/analytics/MessageHeatmap";
+import ConversationTypeChart from "@/components/zalo-chat/analytics/ConversationTypeChart";
+import { EmployeeFilterModal } from "@/components/zalo-chat/layout/parts/EmployeeFilterModal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AuthContext } from "@/contexts/AuthContext";
+import { useDynamicPermission } from "@/hooks/useDynamicPermission";
+import { useDashboardStats } from "@/hooks/zalo-chat/useDashboardStats";
+import { DashboardPeriod } from "@/types/zalo-chat";
+import { formatResponseTime } from "@/lib/zalo-chat-helper";
+
+const PERIOD_OPTIONS: Array<{ value: DashboardPeriod; label: string }> = [
+  { value: "today", label: "Hôm nay" },
+  { value: "week", label: "7 ngày qua" },
+  { value: "month", label: "30 ngày qua" },
+  { value: "custom", label: "Tùy chọn" },
+];
+
+export default function ChatAnalyticsPage() {
+  const { user } = useContext(AuthContext);
+  const { isAdmin, isManager } = useDynamicPermission();
+
+  const [period, setPeriod] = useState<DashboardPeriod>("week");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [selectedEmployeeIds, setSelectedEmployeeIds] = useState<number[]>([]);
+  const [showEmployeeFilter, setShowEmployeeFilter] = useState(false);
+
+  const { data, isLoading, error, refetch } = useDashboardStats({
+    period,
+    from_date: fromDate || null,
+    to_date: toDate || null,
+    user_ids: selectedEmployeeIds,
+  });
+
+  const analytics = data?.analytics;
+  const totalUnanswered = useMemo(
+    () => Object.values(analytics?.unanswered_by_age || {}).reduce((sum, n) => sum + (n || 0), 0),
+    [analytics?.unanswered_by_age]
+  );
+
+  return (
+    <main className="flex flex-col gap-4 pt-0 pb-0">
+      <div className="bg-muted text-muted-foreground rounded-xl md:min-h-min">
+        <div className="rounded-xl border bg-background p-6 shadow-sm h-auto overflow-hidden space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
+                <MessagesSquare className="h-6 w-6 text-blue-600" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">Thống kê chat</h1>
+                <p className="text-sm text-gray-600 mt-1">
+                  Tốc độ phản hồi, hội thoại tồn đọng và lưu lượng tin nhắn Zalo
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={period} onValueChange={(v) => setPeriod(v as DashboardPeriod)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERIOD_OPTIONS.map(o => (
+                    <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {period === "custom" && (
+                <>
+                  <Input type="date" className="w-40" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+                  <Input type="date" className="w-40" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+                </>
+              )}
+              {(isAdmin || isManager) && (
+                <Button variant="outline" onClick={() => setShowEmployeeFilter(true)}>
+                  <Users className="h-4 w-4 mr-1" />
+                  {selectedEmployeeIds.length > 0 ? `${selectedEmployeeIds.length} nhân viên` : "Tất cả nhân viên"}
+                </Button>
+              )}
+              <Button variant="outline" size="icon" onClick={refetch} disabled={isLoading} title="Tải lại">
+                <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600">
+              Không thể tải thống kê chat: {error}
+            </div>
+          )}
+
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+            <StatsCard
+              title="Tin nhắn mới"
+              value={data?.period_stats.new_messages ?? 0}
+              icon={MessageCircle}
+              color="text-blue-600"
+              description={`${data?.period_stats.new_conversations ?? 0} hội thoại mới`}
+            />
+            <StatsCard
+              title="Phản hồi trung bình"
+              value={formatResponseTime(data?.performance.avg_response_time)}
+              icon={Clock}
+              color="text-green-600"
+            />
+            <StatsCard
+              title="Chưa trả lời"
+              value={totalUnanswered}
+              icon={UserX}
+              color="text-orange-600"
+              description={`${analytics?.unanswered_by_age?.over_3d ?? 0} hội thoại chờ quá 3 ngày`}
+            />
+            <StatsCard
+              title="Nhân viên hoạt động"
+              value={data?.period_stats.active_users ?? 0}
+              icon={Users}
+              color="text-purple-600"
+            />
+          </div>
+
+          <ResponseTimeChart data={analytics?.response_time_by_employee || []} loading={isLoading && !data} />
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <UnansweredAgeChart data={analytics?.unanswered_by_age || null} loading={isLoading && !data} />
+            <ConversationTypeChart data={analytics?.conversation_type_stats || []} loading={isLoading && !data} />
+          </div>
+
+          <MessageHeatmap data={analytics?.message_heatmap || []} loading={isLoading && !data} />
+        </div>
+      </div>
+
+      <EmployeeFilterModal
+        isOpen={showEmployeeFilter}
+        onClose={() => setShowEmployeeFilter(false)}
+        onApply={(employeeIds) => {
+          setSelectedEmployeeIds(employeeIds);
+          setShowEmployeeFilter(false);
+        }}
+        selectedEmployeeIds={selectedEmployeeIds}
+        isAdmin={isAdmin}
+        isManager={isManager}
+        managedDepartments={user?.departments?.map(d => d.id) || []}
+      />
+    </main>
+  );
+}
@@ -24,6 +24,7 @@ import EmployeePerformanceChart from "@/components/debt/debt-statistic/EmployeeP
 import AgingDailyChart from "@/components/debt/debt-statistic/AgingDailyChart";
 import PayLaterDailyChart from "@/components/debt/debt-statistic/PayLaterDailyChart";
 import CustomerResponseChart from "@/components/debt/debt-statistic/CustomerResponseChart";
+import PaymentPromisesPanel from "@/components/debt/debt-statistic/PaymentPromisesPanel";
 import { Debt } from "@/types";
 import { DateRange } from "react-day-picker";
 import { 
@@ -540,6 +541,11 @@ const DebtStatisticsDashboard: React.FC = () => {
     return rows;
   }, [agingDaily, selectedDates, agingLabels]);
 
+  const forecastInput = useMemo(
+    () => ({ aging: agingData, agingDaily, trends: trendData, employees: employeeData }),
+    [agingData, agingDaily, trendData, employeeData]
+  );
+
   const payLaterLabels = useMemo(() => {
     const set = new Set<string>();
     const src = Array.isArray(payLaterDaily) ? payLaterDaily : (payLaterDaily ? [payLaterDaily as any] : []);
@@ -1048,10 +1054,11 @@ const DebtStatisticsDashboard: React.FC = () => {
 
           {/* Advanced Analytics Tabs */}
           <Tabs defaultValue="overview" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="overview">Tổng quan</TabsTrigger>
               <TabsTrigger value="aging">Phân tích nợ quá hạn</TabsTrigger>
               <TabsTrigger value="promise_not_met">Phân tích ngày trễ hẹn</TabsTrigger>
+              <TabsTrigger value="payment_promises">Lời hẹn thanh toán</TabsTrigger>
               <TabsTrigger value="customer_responded">Phân tích khách hàng đã trả lời</TabsTrigger>
             </TabsList>
 
@@ -1066,6 +1073,7 @@ const DebtStatisticsDashboard: React.FC = () => {
                 pieData={pieData}
                 onChartClick={handleChartClick}
                 loading={loading}
+                forecast={forecastInput}
               />
             </TabsContent>
 
@@ -1092,6 +1100,11 @@ const DebtStatisticsDashboard: React.FC = () => {
               />
             </TabsContent>
 
+            {/* Lời hẹn thanh toán */}
+            <TabsContent value="payment_promises">
+              <PaymentPromisesPanel from={debouncedFilters.from} to={debouncedFilters.to} />
+            </TabsContent>
+
             {/* Phân tích khách hàng đã trả lời */}
             <TabsContent value="customer_responded">
               <CustomerResponseChart 
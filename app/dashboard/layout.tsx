@@ -28,6 +28,7 @@ import NotificationBell from "@/components/common/NotificationBell";
 import { ProfileModal } from "@/components/dashboard/ProfileModal";
 import { ChangePasswordModal } from "@/components/auth/ChangePasswordModal";
 import { SocketPortal } from "@/components/socket/SocketPortal";
+import { DebtSocket } from "@/components/socket/DebtSocket";
 import { useWebSocketContext } from "@/contexts/WebSocketContext";
 import { ViewRoleGuard } from "@/components/common/ViewRoleGuard";
 import { TutorialProvider } from "@/contexts/TutorialContext";
@@ -160,10 +161,32 @@ export default function DashboardLayout({
     }, 100);
   };
 
+  // Báo NV công nợ khi khách lỡ hẹn thanh toán
+  const handleDebtPromiseBroken = React.useCallback(
+    (data: any) => {
+      if (!currentUser || data?.employee_id !== currentUser.id) return;
+      const amount = Number(data.amount || 0).toLocaleString("vi-VN");
+      toast.warning(
+        `Khách ${data.customer_raw_code} lỡ hẹn thanh toán ${amount}đ (HĐ ${data.invoice_code})`,
+        {
+          action: {
+            label: "Xem sổ nợ",
+            onClick: () =>
+              router.push(
+                `/dashboard/customer-debt?code=${encodeURIComponent(data.customer_raw_code)}`
+              ),
+          },
+        }
+      );
+    },
+    [currentUser, router]
+  );
+
   return (
     <TutorialProvider>
       <SidebarProvider>
         <SocketPortal />
+        <DebtSocket onDebtPromiseBroken={handleDebtPromiseBroken} />
         {currentUser && (
         <LoginSocket
           userId={currentUser.id}
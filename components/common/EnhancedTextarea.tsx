@@ -1,4 +1,4 @@
-import { Sparkles, AlertCircle, Zap, Plus } from "lucide-react";
+import { Sparkles, AlertCircle, Zap, Plus, Braces } from "lucide-react";
 import React, { useState, useRef, useMemo, useEffect } from "react";
 
 interface ValidationResult {
@@ -6,8 +6,13 @@ interface ValidationResult {
   invalidMatches: string[];
   invalidChars: string[];
   missingMustHave: string[];
+  unknownVariables: string[];
 }
 
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+// Đoạn "{{abc" ngay trước con trỏ -> đang gõ tên biến
+const VARIABLE_TRIGGER = /\{\{([a-zA-Z0-9_]*)$/;
+
 const validateBrackets = (
   text: string,
   validPatterns: string[],
@@ -19,6 +24,7 @@ const validateBrackets = (
       invalidMatches: [],
       invalidChars: [],
       missingMustHave: [],
+      unknownVariables: [],
     };
   }
 
@@ -135,6 +141,7 @@ const validateBrackets = (
     invalidMatches: allInvalidMatches,
     invalidChars: [...new Set(invalidChars)],
     missingMustHave,
+    unknownVariables: [],
   };
 };
 
@@ -147,6 +154,11 @@ interface InsertButton {
   id: string;
 }
 
+interface TemplateVariable {
+  key: string;
+  label: string;
+}
+
 interface EnhancedTextareaProps {
   value: string;
   onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
@@ -163,6 +175,7 @@ interface EnhancedTextareaProps {
   autoPrefixEnabledDefault?: boolean; // NEW: default state for auto insertion
   autoPrefixPattern?: string; // NEW: pattern to auto insert (default [QC])
   showAutoPrefixToggle?: boolean; // NEW: show/hide toggle
+  variables?: TemplateVariable[]; // Biến {{key}} hợp lệ, có gợi ý khi gõ "{{"
 }
 
 const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
@@ -183,6 +196,7 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
   autoPrefixEnabledDefault = false,
   autoPrefixPattern = "",
   showAutoPrefixToggle = true,
+  variables = [],
 }) => {
   const [cursorPosition, setCursorPosition] = useState(0);
   const [isAnimating, setIsAnimating] = useState(false);
@@ -190,21 +204,44 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
   const [autoPrefixEnabled, setAutoPrefixEnabled] = useState<boolean>(autoPrefixEnabledDefault);
   const autoInsertRef = useRef(false); // prevent double insertion loop
 
+  const [variableQuery, setVariableQuery] = useState<string | null>(null);
+  const [activeVariableIndex, setActiveVariableIndex] = useState(0);
+
   // Valid patterns from provided buttons
-  const validPatterns = useMemo(() => insertButtons.map((b) => b.text), [insertButtons]);
+  const validPatterns = useMemo(
+    () => [...insertButtons.map((b) => b.text), ...variables.map((v) => `{{${v.key}}}`)],
+    [insertButtons, variables]
+  );
   const mustHavePatterns = useMemo(() => mustHavePatternsProp, [mustHavePatternsProp]);
 
-  const validationResult = useMemo(() => {
+  const validationResult = useMemo((): ValidationResult => {
     if (!enableValidation || !value) {
       return {
         isValid: true,
         invalidMatches: [],
         invalidChars: [],
         missingMustHave: [],
+        unknownVariables: [],
       };
     }
-    return validateBrackets(value, validPatterns, mustHavePatterns);
-  }, [value, enableValidation, validPatterns, mustHavePatterns]);
+    const result = validateBrackets(value, validPatterns, mustHavePatterns);
+    if (variables.length === 0) return result;
+    const knownKeys = new Set(variables.map((v) => v.key));
+    const unknownVariables = Array.from(
+      new Set(Array.from(value.matchAll(VARIABLE_PATTERN), (m) => m[1]).filter((k) => !knownKeys.has(k)))
+    );
+    return {
+      ...result,
+      isValid: result.isValid && unknownVariables.length === 0,
+      unknownVariables,
+    };
+  }, [value, enableValidation, validPatterns, mustHavePatterns, variables]);
+
+  const variableSuggestions = useMemo(() => {
+    if (variableQuery === null) return [];
+    const q = variableQuery.toLowerCase();
+    return variables.filter((v) => v.key.toLowerCase().includes(q) || v.label.toLowerCase().includes(q));
+  }, [variables, variableQuery]);
 
   const hasValidationErrors = !validationResult.isValid;
 
@@ -213,12 +250,14 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
     invalidCharsCount: number;
     invalidMatchesCount: number;
     missingMustHaveCount: number;
+    unknownVariablesCount: number;
     lastErrorMessage: string | null;
   }>({
     isValid: true,
     invalidCharsCount: 0,
     invalidMatchesCount: 0,
     missingMustHaveCount: 0,
+    unknownVariablesCount: 0,
     lastErrorMessage: null,
   });
 
@@ -229,13 +268,15 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
     const invalidCharsCount = validationResult.invalidChars.length;
     const invalidMatchesCount = validationResult.invalidMatches.length;
     const missingMustHaveCount = validationResult.missingMustHave.length;
+    const unknownVariablesCount = validationResult.unknownVariables.length;
 
     const prev = validationStateRef.current;
     const changed =
       prev.isValid !== isValid ||
       prev.invalidCharsCount !== invalidCharsCount ||
       prev.invalidMatchesCount !== invalidMatchesCount ||
-      prev.missingMustHaveCount !== missingMustHaveCount;
+      prev.missingMustHaveCount !== missingMustHaveCount ||
+      prev.unknownVariablesCount !== unknownVariablesCount;
     if (!changed) return;
 
     validationStateRef.current = {
@@ -243,6 +284,7 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
       invalidCharsCount,
       invalidMatchesCount,
       missingMustHaveCount,
+      unknownVariablesCount,
       lastErrorMessage: null,
     };
 
@@ -261,6 +303,9 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
     if (missingMustHaveCount > 0) {
       errorMessage += `\n• Thiếu cụm bắt buộc: ${validationResult.missingMustHave.join(", ")}`;
     }
+    if (unknownVariablesCount > 0) {
+      errorMessage += `\n• Biến không tồn tại: ${validationResult.unknownVariables.map((k) => `{{${k}}}`).join(", ")}`;
+    }
     errorMessage += `\n• Được phép: ${validPatterns.map((p) => `"${p}"`).join(", ")}`;
     validationStateRef.current.lastErrorMessage = errorMessage;
     onValidationChange(errorMessage);
@@ -269,6 +314,7 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
     validationResult.invalidChars.length,
     validationResult.invalidMatches.length,
     validationResult.missingMustHave.length,
+    validationResult.unknownVariables.length,
     enableValidation,
     onValidationChange,
     fieldName,
@@ -277,6 +323,7 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
     validationResult.invalidChars,
     validationResult.invalidMatches,
     validationResult.missingMustHave,
+    validationResult.unknownVariables,
   ]);
 
   const getButtonStyle = (color: string, hoverColor: string) => {
@@ -288,13 +335,67 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
   const getButtonClasses = (color: string, hoverColor: string) =>
     color.startsWith("#") ? `hover:brightness-110 transition-all duration-200` : `bg-gradient-to-r ${color} ${hoverColor}`;
 
+  const updateVariableQuery = (text: string, caret: number) => {
+    if (variables.length === 0) return;
+    const match = VARIABLE_TRIGGER.exec(text.slice(0, caret));
+    const next = match ? match[1] : null;
+    if (next !== variableQuery) setActiveVariableIndex(0);
+    setVariableQuery(next);
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     onChange(e);
     setCursorPosition(e.target.selectionStart);
+    updateVariableQuery(e.target.value, e.target.selectionStart);
   };
   const handleCursorChange = (
     e: React.MouseEvent<HTMLTextAreaElement> | React.KeyboardEvent<HTMLTextAreaElement>
-  ) => setCursorPosition((e.target as HTMLTextAreaElement).selectionStart);
+  ) => {
+    const target = e.target as HTMLTextAreaElement;
+    setCursorPosition(target.selectionStart);
+    // Phím điều hướng trong danh sách gợi ý không làm mới truy vấn
+    if ("key" in e && ["ArrowUp", "ArrowDown", "Enter", "Tab", "Escape"].includes(e.key)) return;
+    updateVariableQuery(target.value, target.selectionStart);
+  };
+
+  const selectVariable = (variable: TemplateVariable) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const caret = textarea.selectionStart;
+    const match = VARIABLE_TRIGGER.exec(value.slice(0, caret));
+    if (!match) return;
+    const start = caret - match[0].length;
+    // Bỏ "}}" có sẵn ngay sau con trỏ để không bị lặp
+    const after = value.slice(caret).replace(/^[a-zA-Z0-9_]*\}\}/, "");
+    const token = `{{${variable.key}}}`;
+    const newText = value.slice(0, start) + token + after;
+    const syntheticEvent = { target: { ...textarea, value: newText } } as React.ChangeEvent<HTMLTextAreaElement>;
+    onChange(syntheticEvent);
+    setVariableQuery(null);
+    const nextCaret = start + token.length;
+    setCursorPosition(nextCaret);
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(nextCaret, nextCaret);
+    }, 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (variableSuggestions.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveVariableIndex((i) => (i + 1) % variableSuggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveVariableIndex((i) => (i - 1 + variableSuggestions.length) % variableSuggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      selectVariable(variableSuggestions[activeVariableIndex] || variableSuggestions[0]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setVariableQuery(null);
+    }
+  };
 
   const insertText = (textToInsert: string) => {
     const textarea = textareaRef.current;
@@ -429,6 +530,23 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
                 );
               })}
             </div>
+            {variables.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                <Braces className="w-3.5 h-3.5 text-purple-500" />
+                <span className="text-xs text-gray-500">Biến (gõ {"{{"} để gợi ý):</span>
+                {variables.map((v) => (
+                  <button
+                    key={v.key}
+                    type="button"
+                    onClick={() => insertText(`{{${v.key}}}`)}
+                    className="px-2 py-0.5 rounded-full text-xs font-mono bg-purple-50 text-purple-700 border border-purple-200 hover:bg-purple-100"
+                    title={v.label}
+                  >
+                    {`{{${v.key}}}`}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
         <div className="relative">
@@ -438,6 +556,8 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
             onChange={handleChange}
             onClick={handleCursorChange}
             onKeyUp={handleCursorChange}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setVariableQuery(null)}
             placeholder={placeholder}
             rows={rows}
             className={`w-full p-3 bg-transparent resize-none border-none outline-none transition-all duration-200 placeholder-gray-400 ${
@@ -445,6 +565,25 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
             } ${hasValidationErrors ? "text-red-900" : ""} ${className}`}
             maxLength={maxLength}
           />
+          {variableSuggestions.length > 0 && (
+            <div className="absolute left-3 right-3 top-full mt-1 z-30 max-h-48 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg">
+              {variableSuggestions.map((v, index) => (
+                <button
+                  key={v.key}
+                  type="button"
+                  className={`w-full text-left px-3 py-1.5 flex items-center justify-between gap-3 text-sm ${
+                    index === activeVariableIndex ? "bg-purple-50" : "hover:bg-gray-50"
+                  }`}
+                  onMouseEnter={() => setActiveVariableIndex(index)}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => selectVariable(v)}
+                >
+                  <span className="font-mono text-purple-700">{`{{${v.key}}}`}</span>
+                  <span className="text-xs text-gray-500 truncate">{v.label}</span>
+                </button>
+              ))}
+            </div>
+          )}
           <div className="absolute bottom-2 right-3 flex items-center gap-2">
             {enableValidation && (
               <div
@@ -538,6 +677,18 @@ const EnhancedTextarea: React.FC<EnhancedTextareaProps> = ({
               ))}
             </div>
           </div>
+          {validationResult.unknownVariables.length > 0 && (
+            <div className="mb-3">
+              <p className="text-xs text-red-600 mb-2">Biến không tồn tại:</p>
+              <div className="flex flex-wrap gap-1">
+                {validationResult.unknownVariables.map((k) => (
+                  <span key={k} className="px-2 py-1 bg-red-200 text-red-800 rounded text-sm font-mono">
+                    {`{{${k}}}`}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
           {validationResult.missingMustHave.length > 0 && (
             <div className="mb-3">
               <p className="text-xs text-red-600 mb-2">Thiếu cụm bắt buộc:</p>
@@ -0,0 +1,268 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { MessageCircle } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import StatBox from "@/components/common/StatBox";
+import { PDynamic } from "@/components/common/PDynamic";
+import DebtDetailDialog from "../debt-setting/DebtDetailDialog";
+import type { CustomerDebtLedger, DebtLedgerEventType } from "@/types";
+import {
+  DEBT_LEDGER_EVENT_META,
+  buildDebtLedgerEvents,
+  exportDebtStatementXlsx,
+  getDebtRemaining,
+  getDebtStatusLabel,
+  isDebtPaid,
+  printDebtStatement,
+  summarizeDebtLedger,
+} from "@/utils/debtLedger";
+
+interface CustomerDebtLedgerViewProps {
+  ledger: CustomerDebtLedger;
+  onShowAlert?: (alert: { type: "success" | "error"; message: string }) => void;
+}
+
+type TimelineFilter = "all" | "invoice" | "reminder";
+
+const INVOICE_EVENTS: DebtLedgerEventType[] = ["issued", "pay_later", "paid"];
+
+const formatDate = (value?: string | Date | boolean | null) =>
+  value && typeof value !== "boolean" ? new Date(value).toLocaleDateString("vi-VN") : "--";
+
+export default function CustomerDebtLedgerView({ ledger, onShowAlert }: CustomerDebtLedgerViewProps) {
+  const [timelineFilter, setTimelineFilter] = useState<TimelineFilter>("all");
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const summary = useMemo(() => summarizeDebtLedger(ledger), [ledger]);
+  const events = useMemo(() => buildDebtLedgerEvents(ledger), [ledger]);
+  const visibleEvents = useMemo(
+    () =>
+      events.filter((e) =>
+        timelineFilter === "all"
+          ? true
+          : timelineFilter === "invoice"
+          ? INVOICE_EVENTS.includes(e.type)
+          : !INVOICE_EVENTS.includes(e.type)
+      ),
+    [events, timelineFilter]
+  );
+
+  // Nhân viên bán hàng phụ trách, gom từ các phiếu nợ
+  const saleNames = useMemo(
+    () =>
+      Array.from(
+        new Set(ledger.debts.map((d) => d.sale?.fullName || d.sale_name_raw).filter((n): n is string => !!n))
+      ),
+    [ledger.debts]
+  );
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      await exportDebtStatementXlsx(
+        ledger,
+        `sao_ke_cong_no_${ledger.customer_code}_${new Date().toISOString().slice(0, 10)}.xlsx`
+      );
+    } catch (error) {
+      console.error("Error exporting debt statement:", error);
+      onShowAlert?.({ type: "error", message: "Lỗi khi xuất sao kê công nợ!" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!printDebtStatement(ledger)) {
+      onShowAlert?.({ type: "error", message: "Trình duyệt đã chặn cửa sổ in, vui lòng cho phép popup!" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 rounded-xl border p-4">
+        <div className="space-y-1">
+          <div className="text-lg font-semibold">
+            {ledger.customer_code}
+            {ledger.customer_name && <span className="text-gray-600"> - {ledger.customer_name}</span>}
+          </div>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+            {ledger.customer_type && <span>Loại KH: {ledger.customer_type}</span>}
+            <span>NV công nợ: {ledger.employee?.fullName || "--"}</span>
+            <span>NV bán hàng: {saleNames.length ? saleNames.join(", ") : "--"}</span>
+          </div>
+          <div className="text-sm">
+            {ledger.conversation_id ? (
+              <a
+                href={`/zalo-chat?conversation_id=${ledger.conversation_id}`}
+                target="_blank"
+                rel="noopener"
+                className="inline-flex items-center gap-1 text-sky-700 hover:underline"
+              >
+                <MessageCircle className="h-4 w-4" /> Mở hội thoại Zalo
+              </a>
+            ) : ledger.conv_id ? (
+              <span className="text-gray-500">Hội thoại Zalo: {ledger.conv_id}</span>
+            ) : (
+              <span className="text-gray-400">Chưa có hội thoại Zalo</span>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handlePrint}>
+            🖨️ In sao kê
+          </Button>
+          <PDynamic permission={{ departmentSlug: "cong-no", action: "export" }}>
+            <Button variant="export" onClick={handleExport} disabled={isExporting}>
+              {isExporting ? "Đang xuất..." : "📥 Xuất Excel"}
+            </Button>
+          </PDynamic>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+        <StatBox label="Tổng phát sinh" value={summary.total_amount.toLocaleString()} />
+        <StatBox label="Đã thanh toán" value={summary.paid_amount.toLocaleString()} />
+        <StatBox label="Còn lại" value={summary.remaining.toLocaleString()} />
+        <StatBox label="Quá hạn" value={summary.overdue_amount.toLocaleString()} />
+        <StatBox label="Phiếu chưa thanh toán" value={`${summary.open_count}/${ledger.debts.length}`} />
+      </div>
+
+      <div className="border rounded-xl shadow-inner overflow-x-auto">
+        <Table className="min-w-[700px]">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="px-3 py-2 text-center">Số chứng từ</TableHead>
+              <TableHead className="px-3 py-2 text-center">Số hóa đơn</TableHead>
+              <TableHead className="px-3 py-2 text-center">Ngày chứng từ</TableHead>
+              <TableHead className="px-3 py-2 text-center">Ngày đến hạn</TableHead>
+              <TableHead className="px-3 py-2 text-center">Ngày hẹn thanh toán</TableHead>
+              <TableHead className="px-3 py-2 text-right">Thành tiền</TableHead>
+              <TableHead className="px-3 py-2 text-right">Còn lại</TableHead>
+              <TableHead className="px-3 py-2 text-center">Trạng thái</TableHead>
+              <TableHead className="px-3 py-2 text-left">NV bán hàng</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ledger.debts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="h-20 text-center text-gray-500">
+                  Khách hàng chưa có phiếu công nợ
+                </TableCell>
+              </TableRow>
+            ) : (
+              ledger.debts.map((debt, idx) => (
+                <TableRow key={debt.id} className={idx % 2 === 0 ? "bg-gray-100" : ""}>
+                  <TableCell className="px-3 py-2 text-center">{debt.invoice_code}</TableCell>
+                  <TableCell className="px-3 py-2 text-center">{debt.bill_code}</TableCell>
+                  <TableCell className="px-3 py-2 text-center">{formatDate(debt.issue_date)}</TableCell>
+                  <TableCell className="px-3 py-2 text-center">{formatDate(debt.due_date)}</TableCell>
+                  <TableCell className="px-3 py-2 text-center">{formatDate(debt.pay_later)}</TableCell>
+                  <TableCell className="px-3 py-2 text-right">{Number(debt.total_amount || 0).toLocaleString()}</TableCell>
+                  <TableCell className="px-3 py-2 text-right font-semibold">
+                    {getDebtRemaining(debt).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="px-3 py-2 text-center">
+                    <span
+                      className={
+                        isDebtPaid(debt)
+                          ? "text-green-600 font-semibold"
+                          : debt.status === "pay_later"
+                          ? "text-blue-600 font-semibold"
+                          : "text-red-600 font-semibold"
+                      }
+                    >
+                      {getDebtStatusLabel(debt.status)}
+                    </span>
+                  </TableCell>
+                  <TableCell className="px-3 py-2">{debt.sale?.fullName || debt.sale_name_raw || "--"}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="rounded-xl border p-4">
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-semibold">🕒 Dòng thời gian</h3>
+          <div className="flex gap-2">
+            {(
+              [
+                ["all", "Tất cả"],
+                ["invoice", "Hóa đơn"],
+                ["reminder", "Nhắc nợ"],
+              ] as const
+            ).map(([value, label]) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={timelineFilter === value ? "default" : "outline"}
+                onClick={() => setTimelineFilter(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {visibleEvents.length === 0 ? (
+          <div className="py-8 text-center text-gray-500">Chưa có sự kiện nào</div>
+        ) : (
+          <ol className="relative ml-3 border-l border-gray-200">
+            {visibleEvents.map((event) => {
+              const meta = DEBT_LEDGER_EVENT_META[event.type];
+              return (
+                <li key={event.key} className="mb-5 ml-6">
+                  <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white ring-4 ring-white">
+                    {meta.icon}
+                  </span>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className={meta.color}>
+                      {meta.label}
+                    </Badge>
+                    <span className="font-medium">{event.title}</span>
+                    {event.amount !== undefined && (
+                      <span className="text-sm text-gray-600">{event.amount.toLocaleString()}đ</span>
+                    )}
+                    <time className="text-xs text-gray-500">{event.at.toLocaleString("vi-VN")}</time>
+                  </div>
+                  {event.message && (
+                    <p className="mt-1 line-clamp-3 whitespace-pre-line text-sm text-gray-700">{event.message}</p>
+                  )}
+                  {event.history_id && (
+                    <Button
+                      size="sm"
+                      variant="link"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => setHistoryId(String(event.history_id))}
+                    >
+                      Xem chi tiết lần nhắc
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      <DebtDetailDialog
+        open={!!historyId}
+        onClose={() => setHistoryId(null)}
+        debtConfigId={historyId}
+        onShowAlert={onShowAlert}
+        isHistory={true}
+      />
+    </div>
+  );
+}
@@ -621,6 +621,18 @@ export default function DebtDetailDialog({
                         borderClass="border-orange-300"
                       />
 
+                      {debtDetail?.extra_reminders?.map((reminder) => (
+                        <MessageCard
+                          key={reminder.step}
+                          title={`Nhắc nợ lần ${reminder.step}`}
+                          time={reminder.remind_time ? get({ tempField: reminder.remind_time }, "tempField", "Chưa nhắc") : "Chưa nhắc"}
+                          message={reminder.message || "--"}
+                          icon="🚨"
+                          bgClass="bg-gradient-to-br from-rose-50 to-rose-100"
+                          borderClass="border-rose-300"
+                        />
+                      ))}
+
                       <MessageCard
                         title="Tin nhắn nhắc kinh doanh"
                         message={debtDetail?.business_remind_message || "--"}
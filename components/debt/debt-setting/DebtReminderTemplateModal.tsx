@@ -0,0 +1,375 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { debtConfigAPI, debtReminderTemplateAPI } from "@/lib/debt-api";
+import { useDebounce } from "@/hooks/useDebounce";
+import type { DebtConfig, DebtCustomerType, DebtReminderContext, DebtReminderTemplate } from "@/types";
+import {
+  DEBT_CUSTOMER_TYPE_LABELS,
+  DEBT_REMINDER_VARIABLES,
+  MAX_DEBT_REMINDER_STEPS,
+  buildDebtReminderValues,
+  buildDefaultDebtTemplate,
+  findUnknownDebtVariables,
+  getDebtStepDates,
+  getDebtStepLabel,
+  renderDebtReminderMessage,
+} from "@/utils/debtReminder";
+
+const MAX_GAP_DAY = 10;
+const CUSTOMER_TYPES = Object.keys(DEBT_CUSTOMER_TYPE_LABELS) as DebtCustomerType[];
+// Ô đang soạn: chỉ số bậc hoặc "business"
+type ActiveField = number | "business";
+
+interface DebtReminderTemplateModalProps {
+  open: boolean;
+  onClose: () => void;
+  onShowAlert?: (alert: { type: "success" | "error"; message: string }) => void;
+}
+
+export default function DebtReminderTemplateModal({ open, onClose, onShowAlert }: DebtReminderTemplateModalProps) {
+  const [templates, setTemplates] = useState<Record<DebtCustomerType, DebtReminderTemplate>>(() => ({
+    cash: buildDefaultDebtTemplate("cash"),
+    fixed: buildDefaultDebtTemplate("fixed"),
+    "non-fixed": buildDefaultDebtTemplate("non-fixed"),
+  }));
+  const [customerType, setCustomerType] = useState<DebtCustomerType>("cash");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [activeField, setActiveField] = useState<ActiveField>(0);
+  const textareaRefs = useRef<Record<string, HTMLTextAreaElement | null>>({});
+
+  // Xem trước theo một cấu hình công nợ thật
+  const [configSearch, setConfigSearch] = useState("");
+  const [configOptions, setConfigOptions] = useState<DebtConfig[]>([]);
+  const [previewConfig, setPreviewConfig] = useState<DebtConfig | null>(null);
+  const [previewContext, setPreviewContext] = useState<DebtReminderContext | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const debouncedConfigSearch = useDebounce(configSearch, 400);
+
+  const template = templates[customerType];
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    debtReminderTemplateAPI
+      .getAll()
+      .then((data) => {
+        setTemplates((prev) => {
+          const next = { ...prev };
+          (data || []).forEach((t) => {
+            if (t.steps?.length) next[t.customer_type] = t;
+          });
+          return next;
+        });
+      })
+      .catch((error) => {
+        console.error("Error fetching debt reminder templates:", error);
+        onShowAlert?.({ type: "error", message: "Không thể tải mẫu tin nhắc nợ" });
+      })
+      .finally(() => setLoading(false));
+  }, [open, onShowAlert]);
+
+  useEffect(() => {
+    if (!open) return;
+    debtConfigAPI
+      .search(debouncedConfigSearch.trim())
+      .then((res) => setConfigOptions(res.data || []))
+      .catch((error) => console.error("Error searching debt configs:", error));
+  }, [open, debouncedConfigSearch]);
+
+  useEffect(() => {
+    if (!previewConfig) {
+      setPreviewContext(null);
+      return;
+    }
+    setPreviewLoading(true);
+    debtConfigAPI
+      .getReminderContext(previewConfig.id)
+      .then(setPreviewContext)
+      .catch((error) => {
+        console.error("Error fetching reminder context:", error);
+        setPreviewContext(null);
+        onShowAlert?.({ type: "error", message: "Không thể tải dữ liệu công nợ để xem trước" });
+      })
+      .finally(() => setPreviewLoading(false));
+  }, [previewConfig, onShowAlert]);
+
+  // Chọn khách để xem trước thì chuyển sang mẫu của loại khách đó
+  useEffect(() => {
+    if (previewContext?.customer_type && previewContext.customer_type in DEBT_CUSTOMER_TYPE_LABELS) {
+      setCustomerType(previewContext.customer_type);
+    }
+  }, [previewContext]);
+
+  useEffect(() => {
+    if (!open) {
+      setPreviewConfig(null);
+      setConfigSearch("");
+      setActiveField(0);
+    }
+  }, [open]);
+
+  const updateTemplate = useCallback(
+    (updater: (t: DebtReminderTemplate) => DebtReminderTemplate) => {
+      setTemplates((prev) => ({ ...prev, [customerType]: updater(prev[customerType]) }));
+    },
+    [customerType]
+  );
+
+  const updateStep = (index: number, patch: Partial<DebtReminderTemplate["steps"][number]>) =>
+    updateTemplate((t) => ({ ...t, steps: t.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)) }));
+
+  const addStep = () =>
+    updateTemplate((t) => ({
+      ...t,
+      steps: [...t.steps, { label: getDebtStepLabel(t.steps.length), gap_days: 1, message: "" }],
+    }));
+
+  const removeStep = (index: number) => {
+    updateTemplate((t) => ({
+      ...t,
+      steps: t.steps.filter((_, i) => i !== index).map((s, i) => ({ ...s, label: getDebtStepLabel(i) })),
+    }));
+    setActiveField(0);
+  };
+
+  // Chèn biến vào vị trí con trỏ của ô đang soạn
+  const insertVariable = (key: string) => {
+    const token = `{{${key}}}`;
+    const el = textareaRefs.current[String(activeField)];
+    const current = activeField === "business" ? template.business_message : template.steps[activeField]?.message || "";
+    const start = el?.selectionStart ?? current.length;
+    const end = el?.selectionEnd ?? current.length;
+    const next = current.slice(0, start) + token + current.slice(end);
+    if (activeField === "business") updateTemplate((t) => ({ ...t, business_message: next }));
+    else updateStep(activeField, { message: next });
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const previewValues = useMemo(() => (previewContext ? buildDebtReminderValues(previewContext) : null), [previewContext]);
+  const stepDates = useMemo(() => getDebtStepDates(template.steps), [template.steps]);
+
+  const validationError = useMemo(() => {
+    if (template.steps.length === 0) return "Cần ít nhất tin báo nợ";
+    const emptyIndex = template.steps.findIndex((s) => !s.message.trim());
+    if (emptyIndex !== -1) return `${template.steps[emptyIndex].label}: chưa nhập nội dung`;
+    const unknown = findUnknownDebtVariables(
+      [...template.steps.map((s) => s.message), template.business_message].join("\n")
+    );
+    if (unknown.length > 0) return `Biến không hợp lệ: ${unknown.map((k) => `{{${k}}}`).join(", ")}`;
+    return null;
+  }, [template]);
+
+  const handleSave = async () => {
+    if (validationError) return;
+    setSaving(true);
+    try {
+      const saved = await debtReminderTemplateAPI.save(customerType, {
+        steps: template.steps.map((s, i) => ({ ...s, gap_days: i === 0 ? 0 : s.gap_days })),
+        business_message: template.business_message,
+      });
+      if (saved) setTemplates((prev) => ({ ...prev, [customerType]: saved }));
+      onShowAlert?.({
+        type: "success",
+        message: `Đã lưu mẫu tin nhắc nợ cho khách ${DEBT_CUSTOMER_TYPE_LABELS[customerType]}`,
+      });
+    } catch (error: any) {
+      console.error("Error saving debt reminder template:", error);
+      onShowAlert?.({ type: "error", message: error.response?.data?.message || "Lưu mẫu tin nhắc nợ thất bại!" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="!max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>📝 Mẫu tin nhắc nợ</DialogTitle>
+          <DialogDescription>
+            Soạn tin báo nợ, thang nhắc nợ và tin nhắc kinh doanh theo loại khách hàng
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={customerType} onValueChange={(v) => setCustomerType(v as DebtCustomerType)}>
+          <TabsList>
+            {CUSTOMER_TYPES.map((type) => (
+              <TabsTrigger key={type} value={type}>
+                {DEBT_CUSTOMER_TYPE_LABELS[type]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="grid flex-1 grid-cols-1 gap-4 overflow-hidden lg:grid-cols-2">
+          {/* Soạn mẫu */}
+          <div className="space-y-3 overflow-y-auto pr-1">
+            <div className="flex flex-wrap gap-1">
+              {DEBT_REMINDER_VARIABLES.map((v) => (
+                <button
+                  key={v.key}
+                  type="button"
+                  title={v.label}
+                  onClick={() => insertVariable(v.key)}
+                  className="rounded border border-blue-200 bg-blue-50 px-2 py-0.5 font-mono text-xs text-blue-700 hover:bg-blue-100"
+                >
+                  {`{{${v.key}}}`}
+                </button>
+              ))}
+            </div>
+
+            {loading ? (
+              <div className="py-8 text-center text-gray-500">Đang tải mẫu...</div>
+            ) : (
+              template.steps.map((step, index) => (
+                <div key={index} className="space-y-2 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-sm">{step.label}</span>
+                    {index > 0 && (
+                      <>
+                        <span className="ml-auto text-xs text-gray-500">Sau bậc trước</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={MAX_GAP_DAY}
+                          className="h-8 w-16"
+                          value={step.gap_days}
+                          onChange={(e) =>
+                            updateStep(index, {
+                              gap_days: Math.min(MAX_GAP_DAY, Math.max(1, Number(e.target.value) || 1)),
+                            })
+                          }
+                        />
+                        <span className="text-xs text-gray-500">ngày</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 px-2 text-red-600"
+                          onClick={() => removeStep(index)}
+                        >
+                          Xóa
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                  <Textarea
+                    ref={(el) => {
+                      textareaRefs.current[String(index)] = el;
+                    }}
+                    rows={4}
+                    value={step.message}
+                    onFocus={() => setActiveField(index)}
+                    onChange={(e) => updateStep(index, { message: e.target.value })}
+                  />
+                </div>
+              ))
+            )}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addStep}
+              disabled={template.steps.length >= MAX_DEBT_REMINDER_STEPS}
+            >
+              + Thêm bậc nhắc nợ
+            </Button>
+
+            <div className="space-y-2 rounded-lg border border-green-200 bg-green-50/50 p-3">
+              <Label className="text-sm font-semibold">Tin nhắn nhắc kinh doanh</Label>
+              <p className="text-xs text-gray-500">Gửi nhân viên kinh doanh khi khách không phản hồi sau bậc cuối</p>
+              <Textarea
+                ref={(el) => {
+                  textareaRefs.current.business = el;
+                }}
+                rows={3}
+                value={template.business_message}
+                onFocus={() => setActiveField("business")}
+                onChange={(e) => updateTemplate((t) => ({ ...t, business_message: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {/* Xem trước */}
+          <div className="flex flex-col gap-3 overflow-hidden rounded-lg border bg-gray-50 p-3">
+            <div className="space-y-1">
+              <Label className="text-sm">Xem trước với khách hàng</Label>
+              <Input
+                placeholder="Tìm theo mã / tên khách hàng"
+                value={configSearch}
+                onChange={(e) => setConfigSearch(e.target.value)}
+              />
+              {configSearch && configOptions.length > 0 && (
+                <div className="max-h-40 overflow-y-auto rounded border bg-white">
+                  {configOptions.map((config) => (
+                    <button
+                      key={config.id}
+                      type="button"
+                      onClick={() => {
+                        setPreviewConfig(config);
+                        setConfigSearch("");
+                      }}
+                      className="block w-full px-3 py-1.5 text-left text-sm hover:bg-blue-50"
+                    >
+                      <span className="font-mono text-xs text-gray-500">{config.customer_code}</span> {config.customer_name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {previewConfig && (
+                <div className="text-xs text-gray-600">
+                  Đang xem: <b>{previewConfig.customer_name}</b> ({previewConfig.customer_code}) ·{" "}
+                  {previewContext ? `${previewContext.debts.length} phiếu nợ` : previewLoading ? "đang tải..." : "--"}
+                </div>
+              )}
+            </div>
+
+            <div className="flex-1 space-y-3 overflow-y-auto">
+              {template.steps.map((step, index) => (
+                <div key={index} className="rounded-lg border bg-white p-3">
+                  <div className="mb-1 flex items-center justify-between text-xs text-gray-500">
+                    <span className="font-semibold text-gray-700">{step.label}</span>
+                    <span>Dự kiến {stepDates[index]?.toLocaleDateString("vi-VN")}</span>
+                  </div>
+                  <div className="whitespace-pre-line text-sm text-gray-800">
+                    {renderDebtReminderMessage(step.message, previewValues) || "Chưa có nội dung"}
+                  </div>
+                </div>
+              ))}
+              <div className="rounded-lg border border-green-200 bg-white p-3">
+                <div className="mb-1 text-xs font-semibold text-gray-700">Tin nhắn nhắc kinh doanh</div>
+                <div className="whitespace-pre-line text-sm text-gray-800">
+                  {renderDebtReminderMessage(template.business_message, previewValues) || "Chưa có nội dung"}
+                </div>
+              </div>
+              {!previewValues && (
+                <p className="text-xs text-gray-500">Chọn một khách hàng để thay biến bằng dữ liệu công nợ thật.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="items-center">
+          {validationError && <span className="mr-auto text-sm text-red-600">{validationError}</span>}
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Đóng
+          </Button>
+          <Button variant="add" onClick={handleSave} disabled={saving || loading || !!validationError}>
+            {saving ? "Đang lưu..." : `Lưu mẫu ${DEBT_CUSTOMER_TYPE_LABELS[customerType]}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,6 +10,7 @@ import {
 } from '@/components/ui/chart';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import SimpleSelect from './SimpleSelect';
+import CollectionForecastPanel, { CollectionForecastInput } from './CollectionForecastPanel';
 import SmartTooltip from '@/components/ui/charts/SmartTooltip';
 import { 
   BarChart3, 
@@ -50,6 +51,7 @@ interface ChartSectionProps {
   onChartClick: (data: unknown, category: string) => void;
   loading?: boolean;
   error?: string | null;
+  forecast?: CollectionForecastInput;
 }
 
 const BarChartComponent = React.memo<{ data: ChartDataItem[]; onChartClick: any; chartKey: string; activeFilters: string[] }>(
@@ -301,6 +303,7 @@ const ChartSection: React.FC<ChartSectionProps> = ({
   onChartClick,
   loading = false,
   error = null,
+  forecast,
 }) => {
   const [activeFilters, setActiveFilters] = useState<string[]>(['paid', 'promised', 'no_info']);
   const [hoveredLegend, setHoveredLegend] = useState<string | null>(null);
@@ -594,6 +597,14 @@ const ChartSection: React.FC<ChartSectionProps> = ({
             </div>
           </div>
         </div>
+        {forecast && (
+          <CollectionForecastPanel
+            aging={forecast.aging}
+            agingDaily={forecast.agingDaily}
+            trends={forecast.trends}
+            employees={forecast.employees}
+          />
+        )}
       </CardContent>
       
       <style jsx>{`
@@ -0,0 +1,281 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Area,
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoadingSpinner } from '@/components/ui/custom/loading-spinner';
+import { AlertTriangle, CalendarClock } from 'lucide-react';
+import type { AgingData, AgingDailyItem, EmployeePerformance, TrendData } from '@/lib/debt-statistics-api';
+import { debtPromiseAPI } from '@/lib/debt-api';
+import type { DebtPaymentPromise, DebtPromiseStats } from '@/types';
+import { toPromiseDateString } from '@/utils/debtPromise';
+import {
+  FORECAST_HORIZONS,
+  buildCollectionForecast,
+  buildEmployeeForecast,
+  estimatePromiseKeepRate,
+  getForecastHorizonEnd,
+} from '@/utils/debtForecast';
+
+export interface CollectionForecastInput {
+  aging: AgingData[];
+  agingDaily: AgingDailyItem[];
+  trends: TrendData[];
+  employees: EmployeePerformance[];
+}
+
+const PROMISE_PAGE_SIZE = 200;
+
+const formatMoney = (value: number) => Math.round(value).toLocaleString('vi-VN');
+const formatRate = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Lấy hết lời hẹn đang chờ có ngày hẹn trước `to` (gồm cả lời hẹn đã quá ngày)
+const fetchPendingPromises = async (to: string) => {
+  const all: DebtPaymentPromise[] = [];
+  for (let page = 1; ; page++) {
+    const res = await debtPromiseAPI.getAll({ status: 'pending', to, page, limit: PROMISE_PAGE_SIZE });
+    const data = res.data || [];
+    all.push(...data);
+    if (data.length < PROMISE_PAGE_SIZE || all.length >= res.total) return all;
+  }
+};
+
+const CollectionForecastPanel: React.FC<CollectionForecastInput> = ({ aging, agingDaily, trends, employees }) => {
+  const [weeks, setWeeks] = useState<number>(FORECAST_HORIZONS[0]);
+  const [promises, setPromises] = useState<DebtPaymentPromise[]>([]);
+  const [promiseStats, setPromiseStats] = useState<DebtPromiseStats | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Lời hẹn đang chờ là các ngày thanh toán đã biết trước
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchPendingPromises(toPromiseDateString(getForecastHorizonEnd(weeks)))
+      .then((list) => !cancelled && setPromises(list))
+      .catch((error) => {
+        console.error('Error fetching promises for forecast:', error);
+        if (!cancelled) setPromises([]);
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [weeks]);
+
+  useEffect(() => {
+    let cancelled = false;
+    debtPromiseAPI
+      .getStats({})
+      .then((stats) => !cancelled && setPromiseStats(stats))
+      .catch((error) => {
+        console.error('Error fetching promise stats for forecast:', error);
+        if (!cancelled) setPromiseStats(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const keepRate = useMemo(() => estimatePromiseKeepRate(promiseStats), [promiseStats]);
+
+  const forecast = useMemo(
+    () => buildCollectionForecast({ aging, agingDaily, trends, promises, promiseKeepRate: keepRate, weeks }),
+    [aging, agingDaily, trends, promises, keepRate, weeks]
+  );
+  const employeeForecast = useMemo(
+    () => buildEmployeeForecast({ employees, forecast, promises, promiseKeepRate: keepRate, weeks }),
+    [employees, forecast, promises, keepRate, weeks]
+  );
+  const { totals } = forecast;
+
+  const hasData = forecast.buckets.some((b) => b.amount > 0) || promises.length > 0;
+
+  return (
+    <div className="mt-8 rounded-[20px] border border-white/30 bg-white/60 p-6 backdrop-blur-sm">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="flex items-center gap-2 text-xl font-bold text-gray-800">
+            <CalendarClock className="h-5 w-5 text-purple-500" />
+            Dự báo thu nợ
+          </h3>
+          <div className="mt-1 flex flex-wrap gap-2 text-xs">
+            {forecast.buckets.map((b) => (
+              <span
+                key={b.key}
+                className={`rounded-full px-2 py-0.5 ${b.rate ? 'bg-blue-50 text-blue-700' : 'bg-amber-50 text-amber-700'}`}
+                title={b.source === 'trend' ? 'Hiệu chỉnh theo tỉ lệ thu chung của kỳ lọc' : undefined}
+              >
+                {b.key} ngày:{' '}
+                {b.rate
+                  ? `${formatRate(b.rate.expected)}/tuần (${formatRate(b.rate.low)}–${formatRate(b.rate.high)})`
+                  : 'thiếu lịch sử'}
+              </span>
+            ))}
+            <span className={`rounded-full px-2 py-0.5 ${keepRate ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'}`}>
+              {promises.length} lời hẹn đang chờ ·{' '}
+              {keepRate
+                ? `giữ hẹn ${formatRate(keepRate.expected)} (${formatRate(keepRate.low)}–${formatRate(keepRate.high)}, ${keepRate.resolved} lời hẹn đã chốt)`
+                : 'chưa có lịch sử lời hẹn'}
+            </span>
+          </div>
+        </div>
+        <div className="flex rounded-xl border bg-white/70 p-1">
+          {FORECAST_HORIZONS.map((h) => (
+            <button
+              key={h}
+              type="button"
+              onClick={() => setWeeks(h)}
+              className={`rounded-lg px-3 py-1 text-sm font-semibold transition-all ${
+                weeks === h ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white shadow' : 'text-gray-600 hover:bg-white'
+              }`}
+            >
+              {h} tuần
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex h-72 items-center justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : !hasData ? (
+        <div className="flex h-40 items-center justify-center text-gray-500">Không có công nợ còn lại để dự báo</div>
+      ) : (
+        <>
+          {(forecast.unratedAmount > 0 || forecast.unprojectedPromiseAmount > 0 || forecast.unknownAging.length > 0) && (
+            <div className="mb-4 space-y-1 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              {forecast.unratedAmount > 0 && (
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {formatMoney(forecast.unratedAmount)} thuộc nhóm tuổi nợ chưa đủ lịch sử, không đưa vào dự báo
+                </div>
+              )}
+              {forecast.unprojectedPromiseAmount > 0 && (
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  Chưa có lịch sử lời hẹn: {formatMoney(forecast.unprojectedPromiseAmount)} đã hẹn trong kỳ chưa được tính vào
+                  dự kiến thu
+                </div>
+              )}
+              {forecast.unknownAging.map((u) => (
+                <div key={u.label} className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  Không nhận diện được nhóm tuổi nợ &quot;{u.label}&quot; ({formatMoney(u.amount)}), không đưa vào dự báo
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="rounded-xl border bg-white p-3 text-center">
+              <div className="text-xs text-gray-500">Dự kiến thu {weeks} tuần</div>
+              <div className="text-2xl font-bold text-purple-600">{formatMoney(totals.expected)}</div>
+            </div>
+            <div className="rounded-xl border bg-white p-3 text-center">
+              <div className="text-xs text-gray-500">Kịch bản thấp</div>
+              <div className="text-2xl font-bold text-gray-700">{formatMoney(totals.low)}</div>
+            </div>
+            <div className="rounded-xl border bg-white p-3 text-center">
+              <div className="text-xs text-gray-500">Kịch bản cao</div>
+              <div className="text-2xl font-bold text-gray-700">{formatMoney(totals.high)}</div>
+            </div>
+          </div>
+
+          <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={forecast.weeks} margin={{ top: 10, right: 20, left: 20, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="8 8" vertical={false} stroke="rgba(139, 92, 246, 0.2)" />
+                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#6B7280', fontSize: 12 }} />
+                <YAxis
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: '#6B7280', fontSize: 12 }}
+                  tickFormatter={(v: number) => `${Math.round(v / 1_000_000)}tr`}
+                />
+                <Tooltip
+                  formatter={(value: any, name: any) => [
+                    Array.isArray(value) ? `${formatMoney(value[0])} – ${formatMoney(value[1])}` : formatMoney(Number(value)),
+                    name,
+                  ]}
+                />
+                <Area
+                  dataKey="band"
+                  name="Khoảng tin cậy"
+                  stroke="none"
+                  fill="#8B5CF6"
+                  fillOpacity={0.15}
+                  isAnimationActive={false}
+                />
+                <Bar dataKey="aging" name="Theo tuổi nợ" stackId="expected" fill="#60A5FA" radius={[0, 0, 0, 0]} />
+                <Bar dataKey="promised" name="Theo lời hẹn" stackId="expected" fill="#10B981" radius={[6, 6, 0, 0]} />
+                <Line type="monotone" dataKey="expected" name="Dự kiến" stroke="#8B5CF6" strokeWidth={3} dot={{ r: 4 }} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="mt-6 overflow-x-auto rounded-xl border bg-white">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nhân viên</TableHead>
+                  <TableHead className="text-right">Còn phải thu</TableHead>
+                  <TableHead className="text-right">Theo tuổi nợ</TableHead>
+                  <TableHead className="text-right">Theo lời hẹn</TableHead>
+                  <TableHead className="text-right">Dự kiến {weeks} tuần</TableHead>
+                  <TableHead className="text-right">Khoảng tin cậy</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {employeeForecast.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-16 text-center text-gray-500">
+                      Chưa có dữ liệu hiệu suất nhân viên
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  employeeForecast.map((e) => (
+                    <TableRow key={e.employeeCode ?? 'unassigned'}>
+                      <TableCell className={`font-medium ${e.employeeCode ? '' : 'italic text-gray-500'}`}>
+                        {e.employeeCode ?? 'Chưa gán nhân viên'}
+                      </TableCell>
+                      <TableCell className="text-right">{e.employeeCode ? formatMoney(e.outstanding) : '--'}</TableCell>
+                      <TableCell className="text-right">{formatMoney(e.aging)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(e.promised)}</TableCell>
+                      <TableCell className="text-right font-semibold text-purple-600">{formatMoney(e.expected)}</TableCell>
+                      <TableCell className="text-right text-gray-600">
+                        {formatMoney(e.low)} – {formatMoney(e.high)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              <TableFooter>
+                <TableRow className="font-semibold">
+                  <TableCell>Tổng</TableCell>
+                  <TableCell />
+                  <TableCell className="text-right">{formatMoney(totals.aging.expected)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(totals.promised.expected)}</TableCell>
+                  <TableCell className="text-right text-purple-600">{formatMoney(totals.expected)}</TableCell>
+                  <TableCell className="text-right text-gray-600">
+                    {formatMoney(totals.low)} – {formatMoney(totals.high)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default React.memo(CollectionForecastPanel);
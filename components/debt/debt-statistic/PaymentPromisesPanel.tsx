@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Handshake, CheckCircle, AlertCircle, Clock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSpinner } from "@/components/ui/custom/loading-spinner";
+import {
+  BarChart as RBarChart,
+  Bar as RBar,
+  XAxis as RXAxis,
+  YAxis as RYAxis,
+  CartesianGrid as RCartesianGrid,
+  ResponsiveContainer as RResponsiveContainer,
+  Tooltip as RTooltip,
+  Legend as RLegend,
+} from "recharts";
+import StatsCard from "./StatsCard";
+import { debtPromiseAPI } from "@/lib/debt-api";
+import type { DebtPaymentPromise, DebtPromiseStats, DebtPromiseStatus } from "@/types";
+import { DEBT_PROMISE_CHANNEL_LABELS, DEBT_PROMISE_STATUS_META, formatPromiseDate } from "@/utils/debtPromise";
+
+interface PaymentPromisesPanelProps {
+  from?: string;
+  to?: string;
+}
+
+const CHART_STATUSES = ["kept", "partially_kept", "broken"] as const;
+const LIST_LIMIT = 100;
+
+const PaymentPromisesPanel: React.FC<PaymentPromisesPanelProps> = ({ from, to }) => {
+  const [stats, setStats] = useState<DebtPromiseStats | null>(null);
+  const [promises, setPromises] = useState<DebtPaymentPromise[]>([]);
+  const [total, setTotal] = useState(0);
+  const [status, setStatus] = useState<DebtPromiseStatus | "all">("broken");
+  const [loadingStats, setLoadingStats] = useState(false);
+  const [loadingList, setLoadingList] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadingStats(true);
+    debtPromiseAPI
+      .getStats({ from, to })
+      .then((res) => !cancelled && setStats(res))
+      .catch((error) => {
+        console.error("Error fetching promise stats:", error);
+        if (!cancelled) setStats(null);
+      })
+      .finally(() => !cancelled && setLoadingStats(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadingList(true);
+    debtPromiseAPI
+      .getAll({ from, to, status: status === "all" ? undefined : status, page: 1, limit: LIST_LIMIT })
+      .then((res) => {
+        if (cancelled) return;
+        setPromises(res.data || []);
+        setTotal(res.total || 0);
+      })
+      .catch((error) => {
+        console.error("Error fetching promises:", error);
+        if (!cancelled) {
+          setPromises([]);
+          setTotal(0);
+        }
+      })
+      .finally(() => !cancelled && setLoadingList(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, status]);
+
+  const resolvedCount = stats ? stats.kept + stats.partially_kept + stats.broken : 0;
+  const keptRate = resolvedCount ? Math.round((stats!.kept / resolvedCount) * 100) : 0;
+
+  const chartData = useMemo(
+    () =>
+      (stats?.daily || []).map((d) => ({
+        name: new Date(d.date).toLocaleDateString("vi-VN", { day: "2-digit", month: "2-digit" }),
+        kept: d.kept,
+        partially_kept: d.partially_kept,
+        broken: d.broken,
+      })),
+    [stats]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <StatsCard title="Đang chờ" value={stats?.pending ?? 0} icon={Clock} color="text-blue-600" />
+        <StatsCard title="Giữ hẹn" value={stats?.kept ?? 0} icon={CheckCircle} color="text-green-600" />
+        <StatsCard
+          title="Trả một phần"
+          value={stats?.partially_kept ?? 0}
+          icon={Handshake}
+          color="text-amber-600"
+        />
+        <StatsCard title="Lỡ hẹn" value={stats?.broken ?? 0} icon={AlertCircle} color="text-red-600" />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Kết quả lời hẹn theo ngày hẹn</CardTitle>
+          <CardDescription>
+            Tỉ lệ giữ hẹn {keptRate}% · Đã thu {Number(stats?.collected_amount || 0).toLocaleString()} /{" "}
+            {Number(stats?.promised_amount || 0).toLocaleString()}đ đã hẹn
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loadingStats ? (
+            <div className="flex h-[300px] items-center justify-center">
+              <LoadingSpinner />
+            </div>
+          ) : chartData.length === 0 ? (
+            <div className="flex h-[300px] items-center justify-center text-gray-500">Chưa có dữ liệu lời hẹn</div>
+          ) : (
+            <RResponsiveContainer width="100%" height={300}>
+              <RBarChart data={chartData}>
+                <RCartesianGrid strokeDasharray="3 3" />
+                <RXAxis dataKey="name" />
+                <RYAxis allowDecimals={false} />
+                <RTooltip />
+                <RLegend formatter={(value: string) => DEBT_PROMISE_STATUS_META[value as DebtPromiseStatus]?.label || value} />
+                {CHART_STATUSES.map((key) => (
+                  <RBar
+                    key={key}
+                    dataKey={key}
+                    name={key}
+                    stackId="promise"
+                    fill={DEBT_PROMISE_STATUS_META[key].color}
+                  />
+                ))}
+              </RBarChart>
+            </RResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Danh sách lời hẹn</CardTitle>
+            <CardDescription>
+              {total > LIST_LIMIT ? `Hiển thị ${LIST_LIMIT}/${total} lời hẹn` : `${total} lời hẹn`}
+            </CardDescription>
+          </div>
+          <Select value={status} onValueChange={(v) => setStatus(v as DebtPromiseStatus | "all")}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Tất cả trạng thái</SelectItem>
+              {(Object.keys(DEBT_PROMISE_STATUS_META) as DebtPromiseStatus[]).map((s) => (
+                <SelectItem key={s} value={s}>
+                  {DEBT_PROMISE_STATUS_META[s].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Khách hàng</TableHead>
+                <TableHead>Hóa đơn</TableHead>
+                <TableHead>Người hẹn</TableHead>
+                <TableHead>Kênh</TableHead>
+                <TableHead className="text-right">Số tiền hẹn</TableHead>
+                <TableHead className="text-right">Đã trả</TableHead>
+                <TableHead>Ngày hẹn</TableHead>
+                <TableHead>NV công nợ</TableHead>
+                <TableHead>Trạng thái</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loadingList ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-20 text-center">
+                    <LoadingSpinner />
+                  </TableCell>
+                </TableRow>
+              ) : promises.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-20 text-center text-gray-500">
+                    Không có lời hẹn nào
+                  </TableCell>
+                </TableRow>
+              ) : (
+                promises.map((p) => {
+                  const meta = DEBT_PROMISE_STATUS_META[p.status];
+                  const customerCode = p.debt?.customer_raw_code;
+                  return (
+                    <TableRow key={p.id}>
+                      <TableCell>
+                        {customerCode ? (
+                          <Link
+                            href={`/dashboard/customer-debt?code=${encodeURIComponent(customerCode)}`}
+                            className="hover:underline hover:text-blue-600"
+                          >
+                            {customerCode}
+                          </Link>
+                        ) : (
+                          "--"
+                        )}
+                      </TableCell>
+                      <TableCell>{p.debt?.invoice_code || "--"}</TableCell>
+                      <TableCell>{p.promised_by}</TableCell>
+                      <TableCell>{DEBT_PROMISE_CHANNEL_LABELS[p.channel]}</TableCell>
+                      <TableCell className="text-right">{Number(p.amount).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        {p.paid_amount !== null && p.paid_amount !== undefined
+                          ? Number(p.paid_amount).toLocaleString()
+                          : "--"}
+                      </TableCell>
+                      <TableCell>{formatPromiseDate(p.promised_date)}</TableCell>
+                      <TableCell>{p.employee?.fullName || "--"}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={meta.className}>
+                          {meta.label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PaymentPromisesPanel;
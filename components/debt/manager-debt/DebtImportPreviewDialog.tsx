@@ -0,0 +1,478 @@
+"use client";
+import React, { useMemo, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LoadingSpinner } from "@/components/ui/custom/loading-spinner";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import ConfirmDialog from "@/components/ui/ConfirmDialog";
+import { debtImportAPI } from "@/lib/debt-api";
+import type { DebtImportPreview, DebtImportRow } from "@/types";
+import { DEBT_PROMISE_STATUS_META } from "@/utils/debtPromise";
+
+interface DebtImportPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerOptions: { label: string; value: string }[];
+  onSuccess?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+type PreviewTab = "all" | "new" | "changed" | "issues" | "excluded" | "disappeared";
+
+// Bảng lớn chỉ hiển thị tối đa số dòng này cho mỗi tab
+const MAX_VISIBLE_ROWS = 500;
+
+const ISSUE_LABELS: Record<DebtImportRow["issues"][number], string> = {
+  unknown_customer: "Mã KH không tồn tại",
+  unmatched_employee: "Mã NV không khớp",
+};
+
+const formatMoney = (value?: number | null) =>
+  value === null || value === undefined ? "--" : Number(value).toLocaleString("vi-VN");
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString("vi-VN") : "--";
+
+export default function DebtImportPreviewDialog({
+  open,
+  onOpenChange,
+  customerOptions,
+  onSuccess,
+  onError,
+}: DebtImportPreviewDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<DebtImportPreview | null>(null);
+  const [rows, setRows] = useState<DebtImportRow[]>([]);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [edited, setEdited] = useState<Set<number>>(new Set());
+  const [tab, setTab] = useState<PreviewTab>("all");
+  const [sessionName, setSessionName] = useState("");
+  const [isParsing, setIsParsing] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const reset = () => {
+    setPreview(null);
+    setRows([]);
+    setExcluded(new Set());
+    setEdited(new Set());
+    setTab("all");
+    setSessionName("");
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (isCommitting) return;
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      setIsParsing(true);
+      const result = await debtImportAPI.preview(file);
+      setPreview(result);
+      setRows(result.rows || []);
+      setExcluded(new Set());
+      setEdited(new Set());
+      setTab((result.rows || []).some((r) => r.issues.length > 0) ? "issues" : "all");
+      setSessionName(
+        `${file.name.replace(/\.[^.]+$/, "")} - ${new Date().toLocaleString("vi-VN")}`
+      );
+    } catch (error: any) {
+      console.error("Error previewing debt import:", error);
+      onError?.(error.response?.data?.message || "Không thể đọc file công nợ");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateRow = (rowNumber: number, patch: Partial<DebtImportRow>) => {
+    setRows((prev) => prev.map((r) => (r.row_number === rowNumber ? { ...r, ...patch } : r)));
+    setEdited((prev) => new Set(prev).add(rowNumber));
+  };
+
+  const toggleExcluded = (rowNumber: number) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) next.delete(rowNumber);
+      else next.add(rowNumber);
+      return next;
+    });
+  };
+
+  const handleValidate = async () => {
+    const editedRows = rows.filter((r) => edited.has(r.row_number));
+    if (editedRows.length === 0) return;
+    try {
+      setIsValidating(true);
+      const validated = await debtImportAPI.validate(editedRows);
+      const byRow = new Map(validated.map((r) => [r.row_number, r]));
+      setRows((prev) => prev.map((r) => byRow.get(r.row_number) || r));
+      setEdited(new Set());
+    } catch (error: any) {
+      console.error("Error validating debt import rows:", error);
+      onError?.(error.response?.data?.message || "Không thể kiểm tra lại các dòng đã sửa");
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const counts = useMemo(() => {
+    const included = rows.filter((r) => !excluded.has(r.row_number));
+    return {
+      all: rows.length,
+      new: included.filter((r) => r.change === "new").length,
+      changed: included.filter((r) => r.change === "changed").length,
+      issues: included.filter((r) => r.issues.length > 0).length,
+      excluded: excluded.size,
+      disappeared: preview?.disappeared.length || 0,
+      included: included.length,
+    };
+  }, [rows, excluded, preview]);
+
+  const visibleRows = useMemo(() => {
+    const filtered = rows.filter((r) => {
+      const isExcluded = excluded.has(r.row_number);
+      switch (tab) {
+        case "new":
+          return !isExcluded && r.change === "new";
+        case "changed":
+          return !isExcluded && r.change === "changed";
+        case "issues":
+          return !isExcluded && r.issues.length > 0;
+        case "excluded":
+          return isExcluded;
+        default:
+          return true;
+      }
+    });
+    return filtered.slice(0, MAX_VISIBLE_ROWS);
+  }, [rows, excluded, tab]);
+
+  const blockingReason =
+    counts.issues > 0
+      ? `Còn ${counts.issues} dòng lỗi cần sửa hoặc loại bỏ`
+      : edited.size > 0
+      ? `Có ${edited.size} dòng đã sửa chưa kiểm tra lại`
+      : counts.included === 0
+      ? "Không còn dòng nào để nhập"
+      : !sessionName.trim()
+      ? "Vui lòng đặt tên phiên import"
+      : null;
+
+  const handleCommit = async () => {
+    setShowConfirm(false);
+    if (!preview || blockingReason) return;
+    try {
+      setIsCommitting(true);
+      const result = await debtImportAPI.commit({
+        session_name: sessionName.trim(),
+        file_name: preview.file_name,
+        rows: rows.filter((r) => !excluded.has(r.row_number)),
+      });
+      onSuccess?.(`Import thành công ${result.imported} bản ghi vào phiên "${sessionName.trim()}"!`);
+      reset();
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error("Error committing debt import:", error);
+      onError?.(error.response?.data?.message || "Import thất bại!");
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const renderChange = (row: DebtImportRow) => {
+    if (row.change === "new") return <Badge className="bg-green-100 text-green-700">Mới</Badge>;
+    if (row.change === "changed") return <Badge className="bg-blue-100 text-blue-700">Thay đổi</Badge>;
+    return <Badge variant="outline">Không đổi</Badge>;
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-[1200px] max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Nhập file công nợ</DialogTitle>
+          </DialogHeader>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.xls,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files && e.target.files[0];
+              if (file) handleFile(file);
+              e.target.value = "";
+            }}
+          />
+
+          {!preview ? (
+            <div className="flex flex-col items-center justify-center gap-4 py-12">
+              {isParsing ? (
+                <div className="flex items-center gap-2">
+                  <LoadingSpinner />
+                  <span>Đang đọc và so sánh dữ liệu...</span>
+                </div>
+              ) : (
+                <>
+                  <p className="text-gray-600">
+                    Chọn file Excel để xem trước thay đổi. Dữ liệu chỉ được ghi sau khi bạn xác nhận.
+                  </p>
+                  <Button variant="import" onClick={() => fileInputRef.current?.click()}>
+                    + Chọn file Excel
+                  </Button>
+                </>
+              )}
+            </div>
+          ) : (
+            <div className="flex flex-1 flex-col gap-3 overflow-hidden">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="flex-1 min-w-[280px] space-y-1">
+                  <Label htmlFor="import-session-name">Tên phiên import</Label>
+                  <Input
+                    id="import-session-name"
+                    value={sessionName}
+                    onChange={(e) => setSessionName(e.target.value)}
+                  />
+                </div>
+                <div className="text-sm text-gray-600">
+                  📄 {preview.file_name} · {counts.included}/{counts.all} dòng sẽ nhập
+                </div>
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isParsing}>
+                  Chọn file khác
+                </Button>
+                {edited.size > 0 && (
+                  <Button variant="edit" onClick={handleValidate} disabled={isValidating}>
+                    {isValidating ? "Đang kiểm tra..." : `Kiểm tra lại ${edited.size} dòng đã sửa`}
+                  </Button>
+                )}
+              </div>
+
+              <Tabs value={tab} onValueChange={(v) => setTab(v as PreviewTab)}>
+                <TabsList>
+                  <TabsTrigger value="all">Tất cả ({counts.all})</TabsTrigger>
+                  <TabsTrigger value="new">Phiếu mới ({counts.new})</TabsTrigger>
+                  <TabsTrigger value="changed">Đổi số còn lại ({counts.changed})</TabsTrigger>
+                  <TabsTrigger value="disappeared">Không còn trong file ({counts.disappeared})</TabsTrigger>
+                  <TabsTrigger value="issues" className={counts.issues > 0 ? "text-red-600" : ""}>
+                    Cần xử lý ({counts.issues})
+                  </TabsTrigger>
+                  <TabsTrigger value="excluded">Đã loại ({counts.excluded})</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              <div className="flex-1 overflow-auto rounded-md border">
+                {tab === "disappeared" ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Mã KH</TableHead>
+                        <TableHead>Hóa đơn</TableHead>
+                        <TableHead className="text-right">Còn lại hiện tại</TableHead>
+                        <TableHead>NV bán hàng</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.disappeared.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={4} className="h-20 text-center text-gray-500">
+                            Không có phiếu nợ nào bị mất khỏi file
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        preview.disappeared.slice(0, MAX_VISIBLE_ROWS).map((debt) => (
+                          <TableRow key={debt.id}>
+                            <TableCell className="font-mono">{debt.customer_raw_code}</TableCell>
+                            <TableCell>{debt.invoice_code}</TableCell>
+                            <TableCell className="text-right">{formatMoney(debt.remaining)}</TableCell>
+                            <TableCell>{debt.sale_name_raw || "--"}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">Nhập</TableHead>
+                        <TableHead className="w-14">Dòng</TableHead>
+                        <TableHead>Mã KH</TableHead>
+                        <TableHead>Hóa đơn</TableHead>
+                        <TableHead className="text-right">Còn lại</TableHead>
+                        <TableHead>Hạn TT</TableHead>
+                        <TableHead>NV bán hàng</TableHead>
+                        <TableHead>Trạng thái</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleRows.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={8} className="h-20 text-center text-gray-500">
+                            Không có dòng nào
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        visibleRows.map((row) => {
+                          const isExcluded = excluded.has(row.row_number);
+                          return (
+                            <TableRow
+                              key={row.row_number}
+                              className={isExcluded ? "opacity-50" : row.issues.length > 0 ? "bg-red-50/60" : ""}
+                            >
+                              <TableCell>
+                                <Checkbox
+                                  checked={!isExcluded}
+                                  onCheckedChange={() => toggleExcluded(row.row_number)}
+                                />
+                              </TableCell>
+                              <TableCell className="text-gray-500">{row.row_number}</TableCell>
+                              <TableCell>
+                                {row.issues.includes("unknown_customer") && !isExcluded ? (
+                                  <Input
+                                    list="debt-import-customer-codes"
+                                    className="h-8 w-36 font-mono border-red-300"
+                                    value={row.customer_raw_code}
+                                    onChange={(e) => updateRow(row.row_number, { customer_raw_code: e.target.value })}
+                                  />
+                                ) : (
+                                  <span className="font-mono">{row.customer_raw_code}</span>
+                                )}
+                              </TableCell>
+                              <TableCell>{row.invoice_code}</TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                {row.change === "changed" && (
+                                  <span className="mr-1 text-gray-400 line-through">
+                                    {formatMoney(row.previous_remaining)}
+                                  </span>
+                                )}
+                                <span className="font-semibold">{formatMoney(row.remaining)}</span>
+                              </TableCell>
+                              <TableCell>{formatDate(row.due_date)}</TableCell>
+                              <TableCell>
+                                {row.issues.includes("unmatched_employee") && !isExcluded ? (
+                                  <Select
+                                    value={row.employee_code_raw || ""}
+                                    onValueChange={(v) => updateRow(row.row_number, { employee_code_raw: v })}
+                                  >
+                                    <SelectTrigger className="h-8 w-48 border-red-300">
+                                      <SelectValue placeholder={row.employee_code_raw || "Chọn nhân viên"} />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {preview.employees.map((emp) => (
+                                        <SelectItem key={emp.employee_code} value={emp.employee_code}>
+                                          {emp.employee_code} - {emp.full_name}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <span>
+                                    {row.sale_name_raw || "--"}
+                                    {row.employee_code_raw && (
+                                      <span className="ml-1 text-xs text-gray-500">({row.employee_code_raw})</span>
+                                    )}
+                                  </span>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                  {renderChange(row)}
+                                  {row.issues.map((issue) => (
+                                    <Badge key={issue} variant="destructive">
+                                      {ISSUE_LABELS[issue]}
+                                    </Badge>
+                                  ))}
+                                  {edited.has(row.row_number) && <Badge variant="outline">Đã sửa</Badge>}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+              <datalist id="debt-import-customer-codes">
+                {customerOptions.map((c) => (
+                  <option key={c.value} value={c.value} />
+                ))}
+              </datalist>
+
+              {!!preview.promise_updates?.length && (
+                <Alert className="border-blue-200 bg-blue-50">
+                  <AlertDescription className="text-blue-800">
+                    🤝 Import này sẽ chốt {preview.promise_updates.length} lời hẹn thanh toán:{" "}
+                    {(["kept", "partially_kept", "broken"] as const)
+                      .map((status) => ({
+                        status,
+                        count: preview.promise_updates!.filter((u) => u.next_status === status).length,
+                      }))
+                      .filter((x) => x.count > 0)
+                      .map((x) => `${x.count} ${DEBT_PROMISE_STATUS_META[x.status].label.toLowerCase()}`)
+                      .join(", ")}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {blockingReason && (
+                <Alert className="border-orange-200 bg-orange-50">
+                  <AlertDescription className="text-orange-800">⚠️ {blockingReason}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isCommitting}>
+              Hủy
+            </Button>
+            {preview && (
+              <Button variant="add" onClick={() => setShowConfirm(true)} disabled={!!blockingReason || isCommitting}>
+                {isCommitting ? "Đang import..." : `Xác nhận nhập ${counts.included} dòng`}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={showConfirm}
+        title="Xác nhận import công nợ"
+        message={`Nhập ${counts.included} dòng (${counts.new} phiếu mới, ${counts.changed} phiếu thay đổi) vào phiên "${sessionName.trim()}"? Có thể khôi phục lại phiên này trong "Khôi phục dữ liệu công nợ".`}
+        onConfirm={handleCommit}
+        onCancel={() => setShowConfirm(false)}
+        confirmText="Import"
+      />
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import React from "react";
+import Link from "next/link";
 import {
   Table,
   TableHeader,
@@ -9,6 +10,7 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import EditDebtModal from "./EditDebtModal";
+import DebtPromiseDialog from "./DebtPromiseDialog";
 import ConfirmDialog from "@/components/ui/ConfirmDialog";
 import { getAccessToken } from "@/lib/auth";
 import { PDynamic } from "@/components/common/PDynamic";
@@ -22,6 +24,7 @@ interface DebtManagementProps {
   columnAligns?: ("left" | "center" | "right")[];
   onEdit?: (debt: any, data: { note: string; status: string }) => Promise<void>;
   onDelete?: (debt: any) => Promise<void>; // Thêm prop onDelete
+  onShowAlert?: (alert: { type: "success" | "error"; message: string }) => void;
 }
 
 function getDaysBetween(date1?: string | Date, date2?: string | Date) {
@@ -31,7 +34,7 @@ function getDaysBetween(date1?: string | Date, date2?: string | Date) {
   return Math.floor((d2.getTime() - d1.getTime()) / (1000 * 60 * 60 * 24));
 }
 
-export default function DebtManagement({ debts, expectedRowCount, startIndex, onReload, columnAligns, onEdit, onDelete }: DebtManagementProps) {
+export default function DebtManagement({ debts, expectedRowCount, startIndex, onReload, columnAligns, onEdit, onDelete, onShowAlert }: DebtManagementProps) {
   const today = new Date();
   
   const cellClass = "px-3 py-2";
@@ -46,6 +49,7 @@ export default function DebtManagement({ debts, expectedRowCount, startIndex, on
   const [debtToDelete, setDebtToDelete] = React.useState<any>(null);
   const [pendingEditData, setPendingEditData] = React.useState<{ note: string; status: string } | null>(null);
   const [isProcessing, setIsProcessing] = React.useState(false);
+  const [promiseDebt, setPromiseDebt] = React.useState<any>(null);
 
   // Lấy danh sách trạng thái unique từ dữ liệu nợ
   const statusOptions = React.useMemo(() => {
@@ -118,7 +122,7 @@ export default function DebtManagement({ debts, expectedRowCount, startIndex, on
             <TableHead className="px-3 py-2 text-center">Số tiền còn lại</TableHead>
             <TableHead className="px-3 py-2 text-center">Trạng thái</TableHead>
             <TableHead className="px-3 py-2 text-center">Ghi chú</TableHead>
-            <TableHead className="w-36 text-center px-3 py-2">Thao tác</TableHead>
+            <TableHead className="w-52 text-center px-3 py-2">Thao tác</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -143,7 +147,17 @@ export default function DebtManagement({ debts, expectedRowCount, startIndex, on
                 }
               >
                 <TableCell className={cellCenterClass}>{startIndex + idx + 1}</TableCell>
-                <TableCell className={cellLeftClass}>{customerCode}</TableCell>
+                <TableCell className={cellLeftClass}>
+                  {customerCode ? (
+                    <Link
+                      href={`/dashboard/customer-debt?code=${encodeURIComponent(customerCode)}`}
+                      className="hover:underline hover:text-blue-600"
+                      title="Xem sổ công nợ khách hàng"
+                    >
+                      {customerCode}
+                    </Link>
+                  ) : null}
+                </TableCell>
                 <TableCell className={cellLeftClass}>{employeeName}</TableCell>
                 <TableCell className={cellLeftClass}>{saleName}</TableCell>
                 <TableCell className={cellCenterClass}>{debt.invoice_code}</TableCell>
@@ -193,6 +207,16 @@ export default function DebtManagement({ debts, expectedRowCount, startIndex, on
                       Chỉnh sửa
                     </Button>
                   </PDynamic>
+                  <PDynamic permissions={[{ departmentSlug: 'cong-no', action: 'update' }]}>
+                    <Button
+                      size="sm"
+                      variant="view"
+                      onClick={() => setPromiseDebt(debt)}
+                      disabled={isProcessing}
+                    >
+                      Hẹn TT
+                    </Button>
+                  </PDynamic>
                   <PDynamic permissions={[{ departmentSlug: 'cong-no', action: 'delete' }]}>
                     <Button 
                       size="sm" 
@@ -235,6 +259,15 @@ export default function DebtManagement({ debts, expectedRowCount, startIndex, on
         isProcessing={isProcessing}
       />
 
+      {/* Modal hẹn thanh toán */}
+      <DebtPromiseDialog
+        open={!!promiseDebt}
+        onClose={() => setPromiseDebt(null)}
+        debt={promiseDebt}
+        onSaved={onReload}
+        onShowAlert={onShowAlert}
+      />
+
       {/* Confirm dialog cho edit */}
       <ConfirmDialog
         isOpen={showConfirm}
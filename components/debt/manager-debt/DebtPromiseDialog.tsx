@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/custom/loading-spinner";
+import ConfirmDialog from "@/components/ui/ConfirmDialog";
+import { PDynamic } from "@/components/common/PDynamic";
+import { debtPromiseAPI } from "@/lib/debt-api";
+import type { Debt, DebtPaymentPromise, DebtPromiseChannel } from "@/types";
+import {
+  DEBT_PROMISE_CHANNEL_LABELS,
+  DEBT_PROMISE_STATUS_META,
+  formatPromiseDate,
+  toPromiseDateString,
+} from "@/utils/debtPromise";
+
+interface DebtPromiseDialogProps {
+  open: boolean;
+  onClose: () => void;
+  debt: Pick<Debt, "id" | "customer_raw_code" | "invoice_code" | "remaining"> | null;
+  onSaved?: () => void;
+  onShowAlert?: (alert: { type: "success" | "error"; message: string }) => void;
+}
+
+export default function DebtPromiseDialog({ open, onClose, debt, onSaved, onShowAlert }: DebtPromiseDialogProps) {
+  const [promises, setPromises] = useState<DebtPaymentPromise[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [promisedBy, setPromisedBy] = useState("");
+  const [amount, setAmount] = useState("");
+  const [promisedDate, setPromisedDate] = useState<Date | null>(null);
+  const [channel, setChannel] = useState<DebtPromiseChannel>("zalo");
+  const [note, setNote] = useState("");
+  const [cancelTarget, setCancelTarget] = useState<DebtPaymentPromise | null>(null);
+
+  const fetchPromises = useCallback(async () => {
+    if (!debt) return;
+    try {
+      setLoading(true);
+      setPromises(await debtPromiseAPI.getByDebt(debt.id));
+    } catch (error) {
+      console.error("Error fetching debt promises:", error);
+      onShowAlert?.({ type: "error", message: "Lỗi khi tải lịch sử hẹn thanh toán!" });
+    } finally {
+      setLoading(false);
+    }
+  }, [debt, onShowAlert]);
+
+  // Reset form khi mở cho phiếu khác
+  useEffect(() => {
+    if (open && debt) {
+      setPromisedBy("");
+      setAmount(String(Math.round(Number(debt.remaining) || 0)));
+      setPromisedDate(null);
+      setChannel("zalo");
+      setNote("");
+      fetchPromises();
+    }
+  }, [open, debt, fetchPromises]);
+
+  const amountValue = Number(amount.replace(/[^\d]/g, ""));
+  const hasPending = promises.some((p) => p.status === "pending");
+  const canSubmit = !!promisedBy.trim() && amountValue > 0 && !!promisedDate && !submitting;
+
+  const handleSubmit = async () => {
+    if (!debt || !promisedDate || !canSubmit) return;
+    try {
+      setSubmitting(true);
+      await debtPromiseAPI.create({
+        debt_id: debt.id,
+        promised_by: promisedBy.trim(),
+        amount: amountValue,
+        promised_date: toPromiseDateString(promisedDate),
+        channel,
+        note: note.trim() || null,
+      });
+      onShowAlert?.({ type: "success", message: "Đã ghi nhận lời hẹn thanh toán!" });
+      onSaved?.();
+      onClose();
+    } catch (error: any) {
+      console.error("Error creating debt promise:", error);
+      onShowAlert?.({
+        type: "error",
+        message: error.response?.data?.message || "Lỗi khi ghi nhận lời hẹn thanh toán!",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelPromise = async () => {
+    if (!cancelTarget) return;
+    const target = cancelTarget;
+    setCancelTarget(null);
+    try {
+      await debtPromiseAPI.cancel(target.id);
+      await fetchPromises();
+      onSaved?.();
+    } catch (error: any) {
+      console.error("Error cancelling debt promise:", error);
+      onShowAlert?.({ type: "error", message: error.response?.data?.message || "Lỗi khi hủy lời hẹn!" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent showCloseButton className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>
+            Hẹn thanh toán · {debt?.customer_raw_code} / {debt?.invoice_code}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Lịch sử hẹn</div>
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner />
+            </div>
+          ) : promises.length === 0 ? (
+            <div className="rounded-md border border-dashed py-4 text-center text-sm text-gray-500">
+              Chưa có lời hẹn nào cho phiếu này
+            </div>
+          ) : (
+            <div className="max-h-56 space-y-2 overflow-y-auto">
+              {promises.map((p) => {
+                const meta = DEBT_PROMISE_STATUS_META[p.status];
+                return (
+                  <div key={p.id} className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm">
+                    <div className="space-y-0.5">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline" className={meta.className}>
+                          {meta.label}
+                        </Badge>
+                        <span className="font-medium">{Number(p.amount).toLocaleString()}đ</span>
+                        <span>trước {formatPromiseDate(p.promised_date)}</span>
+                      </div>
+                      <div className="text-gray-600">
+                        {p.promised_by} · {DEBT_PROMISE_CHANNEL_LABELS[p.channel]}
+                        {p.created_by && ` · ghi nhận bởi ${p.created_by.fullName}`}
+                      </div>
+                      {p.paid_amount !== null && p.paid_amount !== undefined && p.status !== "pending" && (
+                        <div className="text-gray-600">Đã trả: {Number(p.paid_amount).toLocaleString()}đ</div>
+                      )}
+                      {p.note && <div className="italic text-gray-500">{p.note}</div>}
+                    </div>
+                    {p.status === "pending" && (
+                      <PDynamic permission={{ departmentSlug: "cong-no", action: "update" }}>
+                        <Button size="sm" variant="ghost" className="text-red-600" onClick={() => setCancelTarget(p)}>
+                          Hủy
+                        </Button>
+                      </PDynamic>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 border-t pt-4">
+          <div className="space-y-1">
+            <Label>Người hẹn</Label>
+            <Input value={promisedBy} onChange={(e) => setPromisedBy(e.target.value)} placeholder="VD: Anh Nam - kế toán" />
+          </div>
+          <div className="space-y-1">
+            <Label>Kênh</Label>
+            <Select value={channel} onValueChange={(v) => setChannel(v as DebtPromiseChannel)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DEBT_PROMISE_CHANNEL_LABELS) as DebtPromiseChannel[]).map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {DEBT_PROMISE_CHANNEL_LABELS[c]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Số tiền hẹn</Label>
+            <Input
+              inputMode="numeric"
+              value={amountValue ? amountValue.toLocaleString("vi-VN") : ""}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Ngày hẹn</Label>
+            <DatePicker
+              value={promisedDate ?? undefined}
+              onChange={(date) => setPromisedDate(date ?? null)}
+              placeholder="Chọn ngày hẹn thanh toán"
+              className="w-full"
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            <Label>Ghi chú</Label>
+            <Textarea rows={2} value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+          {hasPending && (
+            <p className="col-span-2 text-xs text-amber-600">
+              Phiếu này đang có lời hẹn chờ; lời hẹn mới sẽ thay thế ngày hẹn thanh toán hiện tại.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="delete" type="button">
+              Hủy
+            </Button>
+          </DialogClose>
+          <Button variant="add" type="button" onClick={handleSubmit} disabled={!canSubmit}>
+            {submitting ? "Đang lưu..." : "Ghi nhận lời hẹn"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+      <ConfirmDialog
+        isOpen={!!cancelTarget}
+        title="Hủy lời hẹn thanh toán"
+        message="Bạn có chắc chắn muốn hủy lời hẹn này? Lời hẹn đã hủy sẽ không được tính giữ / lỡ hẹn."
+        onConfirm={handleCancelPromise}
+        onCancel={() => setCancelTarget(null)}
+      />
+    </Dialog>
+  );
+}
@@ -24,6 +24,7 @@ import { getAccessToken } from "@/lib/auth";
 
 interface ImportSession {
   import_session_id: string;
+  session_name?: string | null;
   created_at: string;
   total_records: number;
   user: {
@@ -189,7 +190,7 @@ export default function ImportRollbackDialog({
                     {sessions.map((session) => (
                       <SelectItem key={session.import_session_id} value={session.import_session_id}>
                         <div className="flex flex-col">
-                          <span className="font-medium">{session.import_session_id}</span>
+                          <span className="font-medium">{session.session_name || session.import_session_id}</span>
                           {/* <span className="font-medium">{session.user.fullName}</span> */}
                           <span className="text-sm text-muted-foreground">
                             {formatDateTime(session.created_at)} - {session.total_records} bản ghi
@@ -207,6 +208,9 @@ export default function ImportRollbackDialog({
               <Alert>
                 <AlertDescription>
                   <div className="space-y-1">
+                    {selectedSession.session_name && (
+                      <div><strong>Tên phiên:</strong> {selectedSession.session_name}</div>
+                    )}
                     <div><strong>Session:</strong> {selectedSession.import_session_id}</div>
                     <div><strong>Thời gian:</strong> {formatDateTime(selectedSession.created_at)}</div>
                     <div><strong>Người Import:</strong> {selectedSession.user.fullName}</div>
@@ -256,7 +260,7 @@ export default function ImportRollbackDialog({
         title="Xác nhận Rollback"
         message={
           selectedSession
-            ? `Bạn có chắc chắn muốn rollback session "${selectedSession.import_session_id}" với ${selectedSession.total_records} bản ghi không? Thao tác này không thể hoàn tác!`
+            ? `Bạn có chắc chắn muốn rollback session "${selectedSession.session_name || selectedSession.import_session_id}" với ${selectedSession.total_records} bản ghi không? Thao tác này không thể hoàn tác!`
             : "Bạn có chắc chắn muốn thực hiện rollback?"
         }
         onConfirm={handleRollback}
@@ -749,6 +749,17 @@ const OrderManagement: React.FC<OrderManagementProps> = ({
     withSkipClear(() => setIsHideModalOpen(true));
   };
 
+  // Mở hội thoại gốc trong Zalo chat (tab mới) và tô sáng tin nhắn đã tạo dòng đơn này
+  const handleOpenInChat = (orderDetail: OrderDetail) => {
+    const conversationId = orderDetail.order?.conversation_id;
+    if (!conversationId) return;
+    setFocusSafely(orderDetail.id);
+    const params = new URLSearchParams({ conversation_id: String(conversationId) });
+    const sourceMessageId = orderDetail.zaloMessageId || orderDetail.metadata?.trigger_message_id;
+    if (sourceMessageId) params.set("zalo_message_id", String(sourceMessageId));
+    window.open(`/zalo-chat?${params.toString()}`, "_blank", "noopener");
+  };
+
   const handleViewClick = (orderDetail: OrderDetail) => {
     setFocusSafely(orderDetail.id);
     setViewingDetail(orderDetail);
@@ -762,7 +773,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({
         typeof metadata === "object" &&
         "trigger_message_id" in metadata
       ) {
-        triggerId = metadata.trigger_message_id;
+        triggerId = metadata.trigger_message_id ?? null;
       }
     } catch (error) {
       console.warn("Error extracting trigger_message_id:", error);
@@ -2088,6 +2099,31 @@ const OrderManagement: React.FC<OrderManagementProps> = ({
                                   </Tooltip>
                                 </POrderDynamic>
 
+                                {orderDetail.order?.conversation_id && (
+                                  <POrderDynamic
+                                    action="read"
+                                    requireAnalysis={viewRequireAnalysis}
+                                  >
+                                    <Tooltip>
+                                      <TooltipTrigger asChild>
+                                        <Button
+                                          onClick={() =>
+                                            handleOpenInChat(orderDetail)
+                                          }
+                                          variant="outline"
+                                          size="sm"
+                                          className="h-7 w-7 p-0 hover:bg-sky-50 hover:text-sky-700 hover:border-sky-300 transition-colors"
+                                        >
+                                          <MessageCircle className="h-3 w-3" />
+                                        </Button>
+                                      </TooltipTrigger>
+                                      <TooltipContent>
+                                        <p>Mở trong chat</p>
+                                      </TooltipContent>
+                                    </Tooltip>
+                                  </POrderDynamic>
+                                )}
+
                                 <POrderDynamic action="update">
                                   <Tooltip>
                                     <TooltipTrigger asChild>
@@ -0,0 +1,349 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  CheckCircle2,
+  FileText,
+  Image as ImageIcon,
+  Link2,
+  Loader2,
+  MessageSquare,
+  Send,
+  ShieldCheck,
+  Undo2,
+  Users,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { campaignAPI, campaignApprovalAPI } from "@/lib/campaign-api";
+import { getDisplayName } from "@/lib/utils";
+import {
+  CampaignApprovalAction,
+  CampaignApprovalEvent,
+  CampaignStatus,
+  CampaignWithDetails,
+} from "@/types";
+
+interface CampaignApprovalDialogProps {
+  campaign: CampaignWithDetails | null;
+  // submit: người tạo gửi duyệt; review: xem nội dung, bình luận, duyệt / từ chối
+  mode: "submit" | "review";
+  canApprove: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const ACTION_CONFIG: Record<CampaignApprovalAction, { label: string; className: string; icon: React.ElementType }> = {
+  submitted: { label: "Gửi duyệt", className: "text-blue-600", icon: Send },
+  withdrawn: { label: "Rút lại yêu cầu", className: "text-gray-600", icon: Undo2 },
+  commented: { label: "Bình luận", className: "text-gray-600", icon: MessageSquare },
+  approved: { label: "Đã duyệt", className: "text-green-600", icon: CheckCircle2 },
+  rejected: { label: "Từ chối", className: "text-red-600", icon: XCircle },
+};
+
+const CUSTOMER_SAMPLE_SIZE = 10;
+
+export default function CampaignApprovalDialog({
+  campaign,
+  mode,
+  canApprove,
+  onClose,
+  onChanged,
+}: CampaignApprovalDialogProps) {
+  const [history, setHistory] = useState<CampaignApprovalEvent[]>([]);
+  const [customers, setCustomers] = useState<Array<{ phone_number: string; full_name: string; salutation?: string }>>([]);
+  const [loading, setLoading] = useState(false);
+  const [note, setNote] = useState("");
+  const [rejectReason, setRejectReason] = useState("");
+  const [showReject, setShowReject] = useState(false);
+  const [busy, setBusy] = useState<"submit" | "comment" | "approve" | "reject" | null>(null);
+
+  const isPending = campaign?.status === CampaignStatus.PENDING_APPROVAL;
+  const attachment = campaign?.messages?.attachment;
+
+  const loadDetails = useCallback(async (id: string) => {
+    try {
+      setLoading(true);
+      const [events, customerResponse] = await Promise.all([
+        campaignApprovalAPI.getHistory(id),
+        campaignAPI.getCampaignCustomers(id, { page: 1, limit: CUSTOMER_SAMPLE_SIZE }),
+      ]);
+      setHistory(events || []);
+      setCustomers(customerResponse?.data || []);
+    } catch (error) {
+      console.error("Error loading approval details:", error);
+      toast.error("Không thể tải thông tin duyệt chiến dịch");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!campaign) return;
+    setNote("");
+    setRejectReason("");
+    setShowReject(false);
+    loadDetails(campaign.id);
+  }, [campaign, loadDetails]);
+
+  const runAction = async (
+    action: "submit" | "comment" | "approve" | "reject",
+    request: () => Promise<unknown>,
+    successMessage: string
+  ) => {
+    try {
+      setBusy(action);
+      await request();
+      toast.success(successMessage);
+      if (action === "comment") {
+        setNote("");
+        if (campaign) setHistory((await campaignApprovalAPI.getHistory(campaign.id)) || []);
+        return;
+      }
+      onChanged();
+      onClose();
+    } catch (error: any) {
+      console.error(`Error performing approval action ${action}:`, error);
+      toast.error(error.response?.data?.message || "Có lỗi xảy ra, vui lòng thử lại");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!campaign) return null;
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-indigo-600" />
+            {mode === "submit" ? "Gửi duyệt chiến dịch" : "Duyệt chiến dịch"}
+          </DialogTitle>
+          <DialogDescription>
+            {campaign.name} · {getDisplayName(campaign.created_by)}
+            {isPending && <Badge className="ml-2 bg-amber-100 text-amber-700 hover:bg-amber-100">Chờ duyệt</Badge>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {/* Nội dung tin nhắn */}
+          <section className="space-y-2">
+            <Label className="text-sm font-semibold">Nội dung tin nhắn</Label>
+            {(campaign.messages?.variants?.length || 0) > 1 ? (
+              campaign.messages.variants!.map((v) => (
+                <div key={v.key} className="rounded-md border bg-gray-50 p-3 text-sm whitespace-pre-wrap">
+                  <Badge variant="outline" className="mb-1">
+                    Biến thể {v.key} · {v.weight}%
+                  </Badge>
+                  <div>{v.text}</div>
+                </div>
+              ))
+            ) : (
+              <div className="rounded-md border bg-gray-50 p-3 text-sm whitespace-pre-wrap">
+                {campaign.messages?.text || <span className="text-gray-400">(Chưa có nội dung)</span>}
+              </div>
+            )}
+            {attachment && (
+              <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+                {(attachment.images?.length || (attachment.type === "image" ? 1 : 0)) > 0 && (
+                  <Badge variant="outline" className="gap-1">
+                    <ImageIcon className="h-3 w-3" />
+                    {attachment.images?.length || 1} ảnh
+                  </Badge>
+                )}
+                {(attachment.files?.length || (attachment.type === "file" ? 1 : 0)) > 0 && (
+                  <Badge variant="outline" className="gap-1">
+                    <FileText className="h-3 w-3" />
+                    {attachment.files?.map((f) => f.filename).join(", ") || attachment.filename || "1 file"}
+                  </Badge>
+                )}
+                {(attachment.links?.length || (attachment.type === "link" ? 1 : 0)) > 0 && (
+                  <Badge variant="outline" className="gap-1">
+                    <Link2 className="h-3 w-3" />
+                    {attachment.links?.map((l) => l.url).join(", ") || attachment.url}
+                  </Badge>
+                )}
+              </div>
+            )}
+            {campaign.reminders?.filter((r) => r.content?.trim()).length > 0 && (
+              <div className="space-y-1">
+                {campaign.reminders
+                  .filter((r) => r.content?.trim())
+                  .map((r, idx) => (
+                    <div key={idx} className="rounded-md border border-dashed p-2 text-xs text-gray-600 whitespace-pre-wrap">
+                      <span className="font-medium">Nhắc lại {idx + 1} (sau {r.minutes} phút):</span> {r.content}
+                    </div>
+                  ))}
+              </div>
+            )}
+          </section>
+
+          {/* Danh sách khách hàng */}
+          <section className="space-y-2">
+            <Label className="text-sm font-semibold flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Khách hàng ({(campaign.customer_count || 0).toLocaleString()})
+            </Label>
+            {loading ? (
+              <div className="text-sm text-gray-500">Đang tải...</div>
+            ) : customers.length === 0 ? (
+              <div className="text-sm text-gray-500">Chưa có khách hàng</div>
+            ) : (
+              <div className="rounded-md border divide-y text-sm">
+                {customers.map((c) => (
+                  <div key={c.phone_number} className="flex justify-between px-3 py-1.5">
+                    <span>
+                      {c.full_name}
+                      {c.salutation && <span className="text-gray-500"> ({c.salutation})</span>}
+                    </span>
+                    <span className="text-gray-500">{c.phone_number}</span>
+                  </div>
+                ))}
+                {(campaign.customer_count || 0) > customers.length && (
+                  <div className="px-3 py-1.5 text-xs text-gray-500">
+                    và {((campaign.customer_count || 0) - customers.length).toLocaleString()} khách khác
+                  </div>
+                )}
+              </div>
+            )}
+          </section>
+
+          {/* Lịch sử duyệt */}
+          <section className="space-y-2">
+            <Label className="text-sm font-semibold">Lịch sử duyệt</Label>
+            {history.length === 0 ? (
+              <div className="text-sm text-gray-500">{loading ? "Đang tải..." : "Chưa có hoạt động"}</div>
+            ) : (
+              <ol className="space-y-2">
+                {history.map((event) => {
+                  const config = ACTION_CONFIG[event.action] || ACTION_CONFIG.commented;
+                  const Icon = config.icon;
+                  return (
+                    <li key={event.id} className="flex gap-2 text-sm">
+                      <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${config.className}`} />
+                      <div>
+                        <div>
+                          <span className="font-medium">{event.actor?.fullName}</span>{" "}
+                          <span className={config.className}>{config.label.toLowerCase()}</span>{" "}
+                          <span className="text-xs text-gray-500">{new Date(event.created_at).toLocaleString("vi-VN")}</span>
+                        </div>
+                        {event.comment && <div className="text-gray-700 whitespace-pre-wrap">{event.comment}</div>}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </section>
+
+          {/* Ghi chú gửi duyệt / bình luận */}
+          <section className="space-y-2">
+            <Label className="text-sm font-semibold">{mode === "submit" ? "Ghi chú cho người duyệt" : "Bình luận"}</Label>
+            <Textarea
+              rows={2}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={mode === "submit" ? "Không bắt buộc" : "Góp ý về nội dung, file đính kèm hoặc danh sách khách"}
+            />
+            {mode === "review" && (
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!note.trim() || busy !== null}
+                  onClick={() =>
+                    runAction("comment", () => campaignApprovalAPI.comment(campaign.id, note.trim()), "Đã gửi bình luận")
+                  }
+                >
+                  {busy === "comment" ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <MessageSquare className="h-4 w-4 mr-1" />}
+                  Gửi bình luận
+                </Button>
+              </div>
+            )}
+          </section>
+
+          {showReject && (
+            <section className="space-y-2">
+              <Label className="text-sm font-semibold text-red-600">Lý do từ chối</Label>
+              <Textarea
+                rows={2}
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="Người tạo sẽ nhận được lý do này"
+              />
+            </section>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={busy !== null}>
+            Đóng
+          </Button>
+          {mode === "submit" && campaign.status === CampaignStatus.DRAFT && (
+            <Button
+              disabled={busy !== null}
+              onClick={() =>
+                runAction(
+                  "submit",
+                  () => campaignApprovalAPI.submit(campaign.id, note.trim() || undefined),
+                  "Đã gửi chiến dịch cho quản lý duyệt"
+                )
+              }
+            >
+              {busy === "submit" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Gửi duyệt
+            </Button>
+          )}
+          {mode === "review" && canApprove && isPending && (
+            <>
+              {showReject ? (
+                <Button
+                  variant="destructive"
+                  disabled={!rejectReason.trim() || busy !== null}
+                  onClick={() =>
+                    runAction("reject", () => campaignApprovalAPI.reject(campaign.id, rejectReason.trim()), "Đã từ chối chiến dịch")
+                  }
+                >
+                  {busy === "reject" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <XCircle className="h-4 w-4 mr-2" />}
+                  Xác nhận từ chối
+                </Button>
+              ) : (
+                <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setShowReject(true)} disabled={busy !== null}>
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Từ chối
+                </Button>
+              )}
+              <Button
+                className="bg-green-600 hover:bg-green-700"
+                disabled={busy !== null}
+                onClick={() =>
+                  runAction(
+                    "approve",
+                    () => campaignApprovalAPI.approve(campaign.id, note.trim() || undefined),
+                    "Đã duyệt, chiến dịch chuyển sang đã lên lịch"
+                  )
+                }
+              >
+                {busy === "approve" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                Duyệt
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Search, ShieldCheck, Users } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { campaignApprovalAPI } from "@/lib/campaign-api";
+import { useDebounce } from "@/hooks/useDebounce";
+import { getDisplayName } from "@/lib/utils";
+import { CampaignApprovalSettings, CampaignWithDetails } from "@/types";
+import { transformToCampaignWithDetails } from "@/utils/campaignUtils";
+import CampaignApprovalDialog from "./CampaignApprovalDialog";
+
+interface CampaignApprovalQueueModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: CampaignApprovalSettings;
+  onUpdateSettings: (data: CampaignApprovalSettings) => Promise<void>;
+  onChanged: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+export default function CampaignApprovalQueueModal({
+  open,
+  onOpenChange,
+  settings,
+  onUpdateSettings,
+  onChanged,
+}: CampaignApprovalQueueModalProps) {
+  const [campaigns, setCampaigns] = useState<CampaignWithDetails[]>([]);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [reviewing, setReviewing] = useState<CampaignWithDetails | null>(null);
+  const debouncedSearch = useDebounce(search, 400);
+
+  const loadPending = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await campaignApprovalAPI.getPending({
+        search: debouncedSearch.trim() || undefined,
+        page: 1,
+        limit: PAGE_SIZE,
+      });
+      setCampaigns((response.data || []).map(transformToCampaignWithDetails));
+      setTotal(response.total || 0);
+    } catch (error) {
+      console.error("Error fetching pending campaigns:", error);
+      toast.error("Không thể tải danh sách chờ duyệt");
+    } finally {
+      setLoading(false);
+    }
+  }, [debouncedSearch]);
+
+  useEffect(() => {
+    if (open) loadPending();
+  }, [open, loadPending]);
+
+  const handleToggleEnabled = async (enabled: boolean) => {
+    try {
+      setSavingSettings(true);
+      await onUpdateSettings({ ...settings, enabled });
+      toast.success(enabled ? "Đã bật duyệt chiến dịch" : "Đã tắt duyệt chiến dịch");
+    } catch (error: any) {
+      console.error("Error updating approval settings:", error);
+      toast.error(error.response?.data?.message || "Không thể lưu cấu hình duyệt");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-indigo-600" />
+              Duyệt chiến dịch
+            </DialogTitle>
+            <DialogDescription>
+              Chiến dịch của nhân viên cần được quản lý duyệt trước khi lên lịch gửi
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div>
+              <Label className="text-sm font-medium">Bắt buộc duyệt chiến dịch</Label>
+              <p className="text-xs text-gray-500 mt-1">
+                Khi bật, nhân viên chỉ có thể gửi duyệt; quản lý chiến dịch duyệt thì chiến dịch mới được lên lịch
+              </p>
+            </div>
+            <Switch checked={settings.enabled} disabled={savingSettings} onCheckedChange={handleToggleEnabled} />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+              <Input className="pl-8" placeholder="Tìm theo tên chiến dịch" value={search} onChange={(e) => setSearch(e.target.value)} />
+            </div>
+            <span className="text-sm text-gray-500">{total.toLocaleString()} chờ duyệt</span>
+          </div>
+
+          <div className="flex-1 overflow-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Chiến dịch</TableHead>
+                  <TableHead>Người tạo</TableHead>
+                  <TableHead className="text-right">Khách hàng</TableHead>
+                  <TableHead>Ngày tạo</TableHead>
+                  <TableHead className="w-28" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading && campaigns.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-gray-500">Đang tải...</TableCell>
+                  </TableRow>
+                ) : campaigns.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-gray-500">Không có chiến dịch chờ duyệt</TableCell>
+                  </TableRow>
+                ) : (
+                  campaigns.map((campaign) => (
+                    <TableRow key={campaign.id}>
+                      <TableCell className="font-medium">{campaign.name}</TableCell>
+                      <TableCell className="text-sm">{getDisplayName(campaign.created_by)}</TableCell>
+                      <TableCell className="text-right">
+                        <span className="inline-flex items-center gap-1">
+                          <Users className="h-3 w-3 text-gray-400" />
+                          {(campaign.customer_count || 0).toLocaleString()}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {new Date(campaign.created_at).toLocaleString("vi-VN")}
+                      </TableCell>
+                      <TableCell>
+                        <Button size="sm" variant="outline" onClick={() => setReviewing(campaign)}>
+                          Xem & duyệt
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <CampaignApprovalDialog
+        campaign={reviewing}
+        mode="review"
+        canApprove
+        onClose={() => setReviewing(null)}
+        onChanged={() => {
+          loadPending();
+          onChanged();
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,365 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight, GripVertical, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { campaignAPI } from "@/lib/campaign-api";
+import { cn, getDisplayName } from "@/lib/utils";
+import { CampaignCustomerOverlap, CampaignStatus, CampaignType, CampaignWithDetails } from "@/types";
+import { transformToCampaignWithDetails } from "@/utils/campaignUtils";
+import { toDateKey } from "@/utils/campaignSimulation";
+import {
+  CAMPAIGN_TYPE_COLORS,
+  CalendarOccurrence,
+  buildCalendarOccurrences,
+  buildDraftReschedule,
+  findCalendarConflicts,
+  getDraftRescheduleError,
+  isCalendarDraggable,
+  isSundayKey,
+} from "@/utils/campaignCalendar";
+
+interface CampaignCalendarProps {
+  campaignTypeOptions: Array<{ value: string; label: string }>;
+  departments: Array<{ value: number; label: string }>;
+  canFilterDepartment: boolean;
+  onChanged?: () => void;
+}
+
+type CalendarView = "month" | "week";
+
+const ALL = "all";
+const CALENDAR_STATUSES = [CampaignStatus.DRAFT, CampaignStatus.SCHEDULED, CampaignStatus.RUNNING];
+const CALENDAR_PAGE_SIZE = 500;
+const WEEKDAY_LABELS = ["T2", "T3", "T4", "T5", "T6", "T7", "CN"];
+
+const startOfWeek = (date: Date) => {
+  const offset = (date.getDay() + 6) % 7; // Thứ 2 là đầu tuần
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export default function CampaignCalendar({
+  campaignTypeOptions,
+  departments,
+  canFilterDepartment,
+  onChanged,
+}: CampaignCalendarProps) {
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [department, setDepartment] = useState<string>(ALL);
+  const [campaigns, setCampaigns] = useState<CampaignWithDetails[]>([]);
+  const [overlaps, setOverlaps] = useState<CampaignCustomerOverlap[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dragging, setDragging] = useState<CalendarOccurrence | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const loadCampaigns = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await campaignAPI.getAll({
+        statuses: CALENDAR_STATUSES,
+        departments: department === ALL ? undefined : [department],
+        page: 1,
+        pageSize: CALENDAR_PAGE_SIZE,
+      });
+      const data = (response.data || []).map(transformToCampaignWithDetails);
+      setCampaigns(data);
+
+      if (data.length > 1) {
+        try {
+          setOverlaps((await campaignAPI.getCustomerOverlaps(data.map((c) => c.id))) || []);
+        } catch (error) {
+          console.error("Error fetching customer overlaps:", error);
+          setOverlaps([]);
+        }
+      } else {
+        setOverlaps([]);
+      }
+    } catch (error) {
+      console.error("Error fetching calendar campaigns:", error);
+      toast.error("Không thể tải lịch chiến dịch");
+    } finally {
+      setLoading(false);
+    }
+  }, [department]);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  const days = useMemo(() => {
+    if (view === "week") {
+      const start = startOfWeek(cursor);
+      return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+    }
+    const firstOfMonth = new Date(cursor.getFullYear(), cursor.getMonth(), 1);
+    const lastOfMonth = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0);
+    const start = startOfWeek(firstOfMonth);
+    const end = addDays(startOfWeek(lastOfMonth), 6);
+    const result: Date[] = [];
+    for (let d = start; d <= end; d = addDays(d, 1)) result.push(d);
+    return result;
+  }, [view, cursor]);
+
+  const occurrences = useMemo(
+    () => buildCalendarOccurrences(campaigns, days[0], days[days.length - 1]),
+    [campaigns, days]
+  );
+
+  const conflicts = useMemo(() => findCalendarConflicts(occurrences, overlaps), [occurrences, overlaps]);
+
+  const occurrencesByDate = useMemo(() => {
+    const map = new Map<string, CalendarOccurrence[]>();
+    occurrences.forEach((o) => map.set(o.date, [...(map.get(o.date) || []), o]));
+    return map;
+  }, [occurrences]);
+
+  // Mỗi cặp chiến dịch trùng khách chỉ liệt kê một lần, kèm các ngày bị trùng
+  const conflictSummary = useMemo(() => {
+    const pairs = new Map<string, { a: CampaignWithDetails; b: CampaignWithDetails; shared: number; dates: string[] }>();
+    occurrences.forEach((o) => {
+      (conflicts.get(o.key) || []).forEach(({ campaign, sharedCustomers }) => {
+        if (o.campaign.id > campaign.id) return;
+        const key = `${o.campaign.id}|${campaign.id}`;
+        const entry = pairs.get(key) || { a: o.campaign, b: campaign, shared: sharedCustomers, dates: [] };
+        if (!entry.dates.includes(o.date)) entry.dates.push(o.date);
+        pairs.set(key, entry);
+      });
+    });
+    return Array.from(pairs.values());
+  }, [occurrences, conflicts]);
+
+  const todayKey = toDateKey(new Date());
+
+  const handleNavigate = (direction: -1 | 0 | 1) => {
+    if (direction === 0) {
+      setCursor(new Date());
+      return;
+    }
+    setCursor((prev) =>
+      view === "week"
+        ? addDays(prev, direction * 7)
+        : new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+    );
+  };
+
+  const handleDrop = async (dateKey: string) => {
+    const occurrence = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!occurrence || occurrence.date === dateKey) return;
+    if (dateKey < todayKey) {
+      toast.error("Không thể dời lịch về ngày đã qua");
+      return;
+    }
+    if (isSundayKey(dateKey)) {
+      toast.error("Không thể dời lịch sang Chủ nhật");
+      return;
+    }
+
+    const { campaign } = occurrence;
+    const rescheduleError = getDraftRescheduleError(campaign, occurrence.date, dateKey);
+    if (rescheduleError) {
+      toast.error(rescheduleError);
+      return;
+    }
+    const payload = { id: campaign.id, ...buildDraftReschedule(campaign, occurrence.date, dateKey) };
+    try {
+      await campaignAPI.update(campaign.id, payload);
+      setCampaigns((prev) =>
+        prev.map((c) =>
+          c.id === campaign.id
+            ? {
+                ...c,
+                schedule_config: payload.schedule_config,
+                start_date: payload.start_date ?? c.start_date,
+                end_date: payload.end_date ?? c.end_date,
+              }
+            : c
+        )
+      );
+      toast.success(`Đã dời lịch "${campaign.name}" sang ${new Date(`${dateKey}T00:00:00`).toLocaleDateString("vi-VN")}`);
+      onChanged?.();
+    } catch (error: any) {
+      console.error("Error rescheduling campaign:", error);
+      toast.error(error.response?.data?.message || "Không thể dời lịch chiến dịch");
+    }
+  };
+
+  const getTypeLabel = (value: string) => campaignTypeOptions.find((o) => o.value === value)?.label || value;
+
+  const title =
+    view === "week"
+      ? `${days[0].toLocaleDateString("vi-VN")} - ${days[6].toLocaleDateString("vi-VN")}`
+      : `Tháng ${cursor.getMonth() + 1}/${cursor.getFullYear()}`;
+
+  const renderOccurrence = (occurrence: CalendarOccurrence) => {
+    const { campaign } = occurrence;
+    const colors = CAMPAIGN_TYPE_COLORS[campaign.campaign_type as CampaignType] || CAMPAIGN_TYPE_COLORS[CampaignType.HOURLY_KM];
+    const occurrenceConflicts = conflicts.get(occurrence.key) || [];
+    const draggable = isCalendarDraggable(campaign);
+    const tooltip = [
+      campaign.name,
+      getTypeLabel(campaign.campaign_type),
+      `${occurrence.from} - ${occurrence.to}`,
+      `${getDisplayName(campaign.created_by)} · ${campaign.department?.name || ""}`,
+      occurrence.tentative ? "Chưa đặt ngày bắt đầu, hiển thị tạm từ hôm nay" : "",
+      ...occurrenceConflicts.map((c) => `⚠ Trùng ${c.sharedCustomers} khách với "${c.campaign.name}"`),
+      draggable ? "Kéo sang ngày khác để dời lịch" : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    return (
+      <div
+        key={occurrence.key}
+        title={tooltip}
+        draggable={draggable}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          setDragging(occurrence);
+        }}
+        onDragEnd={() => {
+          setDragging(null);
+          setDropTarget(null);
+        }}
+        className={cn(
+          "flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs",
+          colors.chip,
+          occurrence.tentative && "border-dashed opacity-80",
+          campaign.status === CampaignStatus.RUNNING && "font-semibold",
+          occurrenceConflicts.length > 0 && "ring-1 ring-red-400",
+          draggable && "cursor-move"
+        )}
+      >
+        {draggable && <GripVertical className="h-3 w-3 flex-shrink-0 opacity-50" />}
+        {occurrenceConflicts.length > 0 && <AlertTriangle className="h-3 w-3 flex-shrink-0 text-red-500" />}
+        <span className="flex-shrink-0 font-mono">{occurrence.from}</span>
+        <span className="truncate">{campaign.name}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => handleNavigate(-1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => handleNavigate(0)}>
+          Hôm nay
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => handleNavigate(1)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <span className="flex items-center gap-2 font-semibold">
+          <CalendarDays className="h-4 w-4 text-indigo-600" />
+          {title}
+        </span>
+
+        <div className="ml-auto flex items-center gap-2">
+          {canFilterDepartment && (
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger className="w-56 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Tất cả phòng ban</SelectItem>
+                {departments.map((d) => (
+                  <SelectItem key={d.value} value={String(d.value)}>{d.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Tabs value={view} onValueChange={(v) => setView(v as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="month">Tháng</TabsTrigger>
+              <TabsTrigger value="week">Tuần</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="sm" onClick={loadCampaigns} disabled={loading}>
+            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        {campaignTypeOptions.map((o) => (
+          <span key={o.value} className="flex items-center gap-1">
+            <span className={cn("h-2.5 w-2.5 rounded-full", CAMPAIGN_TYPE_COLORS[o.value as CampaignType]?.dot)} />
+            {o.label}
+          </span>
+        ))}
+        <span className="text-gray-400">· Viền nét đứt: bản nháp chưa đặt ngày · Kéo bản nháp để dời lịch</span>
+      </div>
+
+      {conflictSummary.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 space-y-1">
+          <div className="flex items-center gap-2 font-semibold">
+            <AlertTriangle className="h-4 w-4" />
+            {conflictSummary.length} cặp chiến dịch gửi trùng khách trong cùng khung giờ
+          </div>
+          {conflictSummary.map(({ a, b, shared, dates }) => (
+            <div key={`${a.id}|${b.id}`} className="text-xs">
+              &quot;{a.name}&quot; và &quot;{b.name}&quot;: {shared.toLocaleString()} khách trùng, ngày{" "}
+              {dates
+                .sort()
+                .map((d) => new Date(`${d}T00:00:00`).toLocaleDateString("vi-VN", { day: "2-digit", month: "2-digit" }))
+                .join(", ")}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-7 overflow-hidden rounded-md border text-sm">
+        {WEEKDAY_LABELS.map((label) => (
+          <div key={label} className="border-b bg-gray-50 px-2 py-1 text-center text-xs font-semibold text-gray-600">
+            {label}
+          </div>
+        ))}
+        {days.map((date) => {
+          const dateKey = toDateKey(date);
+          const dayOccurrences = occurrencesByDate.get(dateKey) || [];
+          const outsideMonth = view === "month" && date.getMonth() !== cursor.getMonth();
+          return (
+            <div
+              key={dateKey}
+              onDragOver={(e) => {
+                if (!dragging) return;
+                e.preventDefault();
+                setDropTarget(dateKey);
+              }}
+              onDragLeave={() => setDropTarget((prev) => (prev === dateKey ? null : prev))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(dateKey);
+              }}
+              className={cn(
+                "border-b border-r p-1 space-y-1 overflow-y-auto",
+                view === "week" ? "min-h-[420px]" : "h-32",
+                outsideMonth && "bg-gray-50/70 text-gray-400",
+                dateKey < todayKey && "bg-gray-50",
+                dropTarget === dateKey && "bg-indigo-50 ring-2 ring-inset ring-indigo-300"
+              )}
+            >
+              <div
+                className={cn(
+                  "text-xs font-medium",
+                  dateKey === todayKey && "inline-block rounded-full bg-indigo-600 px-1.5 text-white"
+                )}
+              >
+                {date.getDate()}
+              </div>
+              {dayOccurrences.map(renderOccurrence)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Ban, Loader2, Plus, Search, ShieldCheck, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { campaignContactPolicyAPI } from "@/lib/campaign-api";
+import { useDebounce } from "@/hooks/useDebounce";
+import {
+  CampaignContactPolicy,
+  CampaignSkipReason,
+  CampaignSkippedSend,
+  CampaignSuppression,
+} from "@/types";
+
+interface CampaignContactPolicyModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canEditSuppressions: boolean;
+  canEditPolicy: boolean;
+}
+
+const PAGE_SIZE = 50;
+const PHONE_REGEX = /^(0[3|5|7|8|9])+([0-9]{8})$/;
+
+const SKIP_REASON_LABELS: Record<CampaignSkipReason, string> = {
+  suppressed: "Trong danh sách chặn",
+  frequency_cap: "Vượt giới hạn tần suất",
+};
+
+const formatDateTime = (value: string) => {
+  const d = new Date(value);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${pad(d.getDate())}/${pad(d.getMonth() + 1)}/${d.getFullYear()} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export default function CampaignContactPolicyModal({
+  open,
+  onOpenChange,
+  canEditSuppressions,
+  canEditPolicy,
+}: CampaignContactPolicyModalProps) {
+  const [tab, setTab] = useState("suppressions");
+
+  // Danh sách chặn
+  const [suppressions, setSuppressions] = useState<CampaignSuppression[]>([]);
+  const [suppressionTotal, setSuppressionTotal] = useState(0);
+  const [suppressionSearch, setSuppressionSearch] = useState("");
+  const [loadingSuppressions, setLoadingSuppressions] = useState(false);
+  const [newPhone, setNewPhone] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newReason, setNewReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  // Giới hạn tần suất
+  const [policy, setPolicy] = useState<CampaignContactPolicy>({ enabled: false, max_messages: 3, window_days: 7 });
+  const [savingPolicy, setSavingPolicy] = useState(false);
+
+  // Lượt gửi bị bỏ qua
+  const [skipped, setSkipped] = useState<CampaignSkippedSend[]>([]);
+  const [skippedTotal, setSkippedTotal] = useState(0);
+  const [skippedSearch, setSkippedSearch] = useState("");
+  const [skippedReason, setSkippedReason] = useState<CampaignSkipReason | "all">("all");
+  const [loadingSkipped, setLoadingSkipped] = useState(false);
+
+  const debouncedSuppressionSearch = useDebounce(suppressionSearch, 400);
+  const debouncedSkippedSearch = useDebounce(skippedSearch, 400);
+
+  const loadSuppressions = useCallback(async () => {
+    try {
+      setLoadingSuppressions(true);
+      const response = await campaignContactPolicyAPI.getSuppressions({
+        search: debouncedSuppressionSearch.trim() || undefined,
+        page: 1,
+        limit: PAGE_SIZE,
+      });
+      setSuppressions(response.data || []);
+      setSuppressionTotal(response.total || 0);
+    } catch (error) {
+      console.error("Error fetching suppressions:", error);
+      toast.error("Không thể tải danh sách chặn");
+    } finally {
+      setLoadingSuppressions(false);
+    }
+  }, [debouncedSuppressionSearch]);
+
+  const loadSkipped = useCallback(async () => {
+    try {
+      setLoadingSkipped(true);
+      const response = await campaignContactPolicyAPI.getSkippedSends({
+        search: debouncedSkippedSearch.trim() || undefined,
+        reason: skippedReason === "all" ? undefined : skippedReason,
+        page: 1,
+        limit: PAGE_SIZE,
+      });
+      setSkipped(response.data || []);
+      setSkippedTotal(response.total || 0);
+    } catch (error) {
+      console.error("Error fetching skipped sends:", error);
+      toast.error("Không thể tải log lượt bỏ qua");
+    } finally {
+      setLoadingSkipped(false);
+    }
+  }, [debouncedSkippedSearch, skippedReason]);
+
+  useEffect(() => {
+    if (open && tab === "suppressions") loadSuppressions();
+  }, [open, tab, loadSuppressions]);
+
+  useEffect(() => {
+    if (open && tab === "skipped") loadSkipped();
+  }, [open, tab, loadSkipped]);
+
+  useEffect(() => {
+    if (!open) return;
+    campaignContactPolicyAPI
+      .getPolicy()
+      .then((data) => data && setPolicy(data))
+      .catch((error) => console.error("Error fetching contact policy:", error));
+  }, [open]);
+
+  const handleAddSuppression = async () => {
+    const phone = newPhone.trim();
+    if (!PHONE_REGEX.test(phone)) {
+      toast.error("Số điện thoại không đúng định dạng (VD: 0987654321)");
+      return;
+    }
+    try {
+      setSaving(true);
+      await campaignContactPolicyAPI.addSuppression({
+        phone_number: phone,
+        full_name: newName.trim() || undefined,
+        reason: newReason.trim() || undefined,
+      });
+      toast.success(`Đã thêm ${phone} vào danh sách chặn`);
+      setNewPhone("");
+      setNewName("");
+      setNewReason("");
+      loadSuppressions();
+    } catch (error: any) {
+      console.error("Error adding suppression:", error);
+      toast.error(error.response?.data?.message || "Không thể thêm vào danh sách chặn");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveSuppression = async (item: CampaignSuppression) => {
+    try {
+      setRemovingId(item.id);
+      await campaignContactPolicyAPI.removeSuppression(item.id);
+      toast.success(`Đã bỏ chặn ${item.phone_number}`);
+      loadSuppressions();
+    } catch (error: any) {
+      console.error("Error removing suppression:", error);
+      toast.error(error.response?.data?.message || "Không thể bỏ chặn");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const handleSavePolicy = async () => {
+    if (policy.enabled && (policy.max_messages < 1 || policy.window_days < 1)) {
+      toast.error("Số tin và số ngày phải lớn hơn 0");
+      return;
+    }
+    try {
+      setSavingPolicy(true);
+      const saved = await campaignContactPolicyAPI.updatePolicy(policy);
+      if (saved) setPolicy(saved);
+      toast.success("Đã lưu giới hạn tần suất");
+    } catch (error: any) {
+      console.error("Error saving contact policy:", error);
+      toast.error(error.response?.data?.message || "Không thể lưu giới hạn tần suất");
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-amber-600" />
+            Chặn & giới hạn gửi tin
+          </DialogTitle>
+          <DialogDescription>
+            Áp dụng cho tất cả chiến dịch: khách trong danh sách chặn hoặc đã nhận đủ số tin cho phép sẽ bị bỏ qua khi gửi
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab} className="flex-1 min-h-0 flex flex-col">
+          <TabsList>
+            <TabsTrigger value="suppressions">Danh sách chặn</TabsTrigger>
+            <TabsTrigger value="policy">Giới hạn tần suất</TabsTrigger>
+            <TabsTrigger value="skipped">Lượt gửi bị bỏ qua</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="suppressions" className="flex-1 min-h-0 flex flex-col gap-3">
+            {canEditSuppressions && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                <Input placeholder="Số điện thoại" value={newPhone} onChange={(e) => setNewPhone(e.target.value)} />
+                <Input placeholder="Tên khách hàng" value={newName} onChange={(e) => setNewName(e.target.value)} />
+                <Input placeholder="Lý do" value={newReason} onChange={(e) => setNewReason(e.target.value)} />
+                <Button onClick={handleAddSuppression} disabled={saving || !newPhone.trim()}>
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                  Thêm vào danh sách
+                </Button>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                  className="pl-8"
+                  placeholder="Tìm theo SĐT hoặc tên"
+                  value={suppressionSearch}
+                  onChange={(e) => setSuppressionSearch(e.target.value)}
+                />
+              </div>
+              <span className="text-sm text-gray-500">{suppressionTotal.toLocaleString()} SĐT</span>
+            </div>
+            <div className="flex-1 overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Số điện thoại</TableHead>
+                    <TableHead>Tên khách hàng</TableHead>
+                    <TableHead>Lý do</TableHead>
+                    <TableHead>Người thêm</TableHead>
+                    <TableHead>Thời gian</TableHead>
+                    {canEditSuppressions && <TableHead className="w-12" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingSuppressions && suppressions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center text-gray-500">Đang tải...</TableCell>
+                    </TableRow>
+                  ) : suppressions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center text-gray-500">Chưa có SĐT nào bị chặn</TableCell>
+                    </TableRow>
+                  ) : (
+                    suppressions.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell className="font-medium">{item.phone_number}</TableCell>
+                        <TableCell>{item.full_name || "-"}</TableCell>
+                        <TableCell className="text-sm text-gray-600">{item.reason || "-"}</TableCell>
+                        <TableCell className="text-sm">{item.created_by?.fullName || "-"}</TableCell>
+                        <TableCell className="text-sm text-gray-600">{formatDateTime(item.created_at)}</TableCell>
+                        {canEditSuppressions && (
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
+                              onClick={() => handleRemoveSuppression(item)}
+                              disabled={removingId === item.id}
+                              title="Bỏ chặn"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="policy" className="space-y-4">
+            <div className="flex items-center justify-between rounded-lg border p-4">
+              <div>
+                <Label className="text-sm font-medium">Giới hạn số tin chiến dịch mỗi khách</Label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Tính trên tất cả chiến dịch, gồm cả tin nhắn đầu tiên và tin nhắc lại
+                </p>
+              </div>
+              <Switch
+                checked={policy.enabled}
+                disabled={!canEditPolicy}
+                onCheckedChange={(checked) => setPolicy((p) => ({ ...p, enabled: checked }))}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span>Tối đa</span>
+              <Input
+                type="number"
+                min={1}
+                className="w-20"
+                value={policy.max_messages}
+                disabled={!canEditPolicy || !policy.enabled}
+                onChange={(e) => setPolicy((p) => ({ ...p, max_messages: Number(e.target.value) || 0 }))}
+              />
+              <span>tin / khách trong</span>
+              <Input
+                type="number"
+                min={1}
+                className="w-20"
+                value={policy.window_days}
+                disabled={!canEditPolicy || !policy.enabled}
+                onChange={(e) => setPolicy((p) => ({ ...p, window_days: Number(e.target.value) || 0 }))}
+              />
+              <span>ngày gần nhất</span>
+            </div>
+            {canEditPolicy ? (
+              <div className="flex justify-end">
+                <Button onClick={handleSavePolicy} disabled={savingPolicy}>
+                  {savingPolicy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Lưu cấu hình
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Chỉ quản lý chiến dịch mới có thể thay đổi giới hạn này.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="skipped" className="flex-1 min-h-0 flex flex-col gap-3">
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                  className="pl-8"
+                  placeholder="Tìm theo SĐT, tên khách hoặc chiến dịch"
+                  value={skippedSearch}
+                  onChange={(e) => setSkippedSearch(e.target.value)}
+                />
+              </div>
+              <Select value={skippedReason} onValueChange={(v) => setSkippedReason(v as CampaignSkipReason | "all")}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tất cả lý do</SelectItem>
+                  {(Object.keys(SKIP_REASON_LABELS) as CampaignSkipReason[]).map((key) => (
+                    <SelectItem key={key} value={key}>{SKIP_REASON_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-gray-500">{skippedTotal.toLocaleString()} lượt</span>
+            </div>
+            <div className="flex-1 overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Thời gian</TableHead>
+                    <TableHead>Chiến dịch</TableHead>
+                    <TableHead>Khách hàng</TableHead>
+                    <TableHead>Lý do</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingSkipped && skipped.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-24 text-center text-gray-500">Đang tải...</TableCell>
+                    </TableRow>
+                  ) : skipped.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-24 text-center text-gray-500">Chưa có lượt gửi nào bị bỏ qua</TableCell>
+                    </TableRow>
+                  ) : (
+                    skipped.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell className="text-sm text-gray-600">{formatDateTime(item.skipped_at)}</TableCell>
+                        <TableCell className="text-sm">{item.campaign_name}</TableCell>
+                        <TableCell>
+                          <div className="text-sm font-medium">{item.full_name || "-"}</div>
+                          <div className="text-xs text-gray-500">{item.phone_number}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={
+                              item.reason === "suppressed"
+                                ? "border-red-200 bg-red-50 text-red-700"
+                                : "border-amber-200 bg-amber-50 text-amber-700"
+                            }
+                          >
+                            {item.reason === "suppressed" && <Ban className="h-3 w-3 mr-1" />}
+                            {SKIP_REASON_LABELS[item.reason] || item.reason}
+                          </Badge>
+                          {item.detail && <div className="text-xs text-gray-500 mt-1">{item.detail}</div>}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
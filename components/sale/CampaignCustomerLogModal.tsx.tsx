@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { createPortal } from "react-dom";
 import {
   Dialog,
@@ -27,8 +27,22 @@ import {
   Download,
   ExternalLink,
   Bot,
+  Inbox,
+  Keyboard,
+  Megaphone,
 } from "lucide-react";
-import { campaignAPI } from "@/lib/campaign-api";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { campaignAPI, campaignLogAPI } from "@/lib/campaign-api";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { AnimatePresence, motion } from "framer-motion";
@@ -90,6 +104,9 @@ interface CampaignInteractionLog {
     error?: string;
   }>;
   staff_handler_avatar_zalo?: string;
+  // Chỉ có ở chế độ hộp thư (log thuộc nhiều chiến dịch)
+  campaign?: { id: string; name: string };
+  customer?: { id: string; full_name: string; phone_number: string };
 }
 
 interface CustomerWithStatus extends CampaignCustomer {
@@ -108,7 +125,9 @@ interface CustomerLogModalProps {
   isOpen: boolean;
   onClose: () => void;
   customer: CustomerWithStatus | null;
-  campaignId: string;
+  campaignId?: string;
+  // "inbox": mọi log KH phản hồi thuộc các chiến dịch người dùng phụ trách
+  mode?: "customer" | "inbox";
 }
 
 // Constants
@@ -151,6 +170,27 @@ const LOG_STATUS_CONFIG = {
   },
 };
 
+const ALL_STATUS = "all";
+const INBOX_PAGE_SIZE = 200;
+
+// yyyy-MM-dd theo giờ địa phương, khớp với giá trị của input type="date"
+const toDateInputValue = (date: string | Date): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
+    d.getDate()
+  ).padStart(2, "0")}`;
+};
+
+const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  return (
+    ["INPUT", "TEXTAREA", "SELECT", "BUTTON"].includes(el.tagName) ||
+    el.isContentEditable ||
+    !!el.closest("[role='listbox'],[role='option']")
+  );
+};
+
 // Enhanced date formatting
 const formatFullDateTime = (date: string | Date): string => {
   try {
@@ -2028,10 +2068,23 @@ export const CustomerLogModal = ({
   isOpen,
   onClose,
   customer,
-  campaignId,
+  campaignId = "",
+  mode = "customer",
 }: CustomerLogModalProps) => {
+  const isInbox = mode === "inbox";
   const [logs, setLogs] = useState<CampaignInteractionLog[]>([]);
   const [loading, setLoading] = useState(false);
+  const [inboxTotal, setInboxTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<LogStatus | typeof ALL_STATUS>(
+    ALL_STATUS
+  );
+  const [replyFrom, setReplyFrom] = useState("");
+  const [replyTo, setReplyTo] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [staffReply, setStaffReply] = useState("");
+  const [bulkSubmitting, setBulkSubmitting] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
   const [showImageModal, setShowImageModal] = useState(false);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [processedEvents, setProcessedEvents] = useState<Set<string>>(
@@ -2084,6 +2137,113 @@ export const CustomerLogModal = ({
     }
   }, [customer, campaignId]);
 
+  const fetchInboxLogs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await campaignLogAPI.getInbox({
+        status: LogStatus.CUSTOMER_REPLIED,
+        from_date: replyFrom || undefined,
+        to_date: replyTo || undefined,
+        page: 1,
+        limit: INBOX_PAGE_SIZE,
+      });
+      setLogs(response.data || []);
+      setInboxTotal(response.total || 0);
+    } catch (error) {
+      console.error("Error fetching reply inbox:", error);
+      toast.error("Không thể tải hộp thư phản hồi");
+      setLogs([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [replyFrom, replyTo]);
+
+  const visibleLogs = useMemo(
+    () =>
+      logs.filter((log) => {
+        if (statusFilter !== ALL_STATUS && log.status !== statusFilter) {
+          return false;
+        }
+        if (replyFrom || replyTo) {
+          if (!log.customer_replied_at) return false;
+          const day = toDateInputValue(log.customer_replied_at);
+          if (replyFrom && day < replyFrom) return false;
+          if (replyTo && day > replyTo) return false;
+        }
+        return true;
+      }),
+    [logs, statusFilter, replyFrom, replyTo]
+  );
+
+  const selectableLogs = useMemo(
+    () => visibleLogs.filter((log) => log.status !== LogStatus.STAFF_HANDLED),
+    [visibleLogs]
+  );
+
+  const toggleSelect = useCallback((log: CampaignInteractionLog) => {
+    if (log.status === LogStatus.STAFF_HANDLED) return;
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(log.id)) next.delete(log.id);
+      else next.add(log.id);
+      return next;
+    });
+  }, []);
+
+  const allSelected =
+    selectableLogs.length > 0 &&
+    selectableLogs.every((log) => selectedIds.has(log.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      allSelected ? new Set() : new Set(selectableLogs.map((log) => log.id))
+    );
+  };
+
+  const handleBulkMarkHandled = async () => {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0) return;
+    const reply = staffReply.trim();
+    try {
+      setBulkSubmitting(true);
+      const result = await campaignLogAPI.bulkUpdateStatus(
+        ids,
+        LogStatus.STAFF_HANDLED,
+        reply ? { staff_reply_content: reply } : undefined
+      );
+      const handledAt = new Date().toISOString();
+      if (isInbox) {
+        setLogs((prev) => prev.filter((log) => !selectedIds.has(log.id)));
+        setInboxTotal((prev) => Math.max(0, prev - ids.length));
+      } else {
+        setLogs((prev) =>
+          prev.map((log) =>
+            selectedIds.has(log.id)
+              ? {
+                  ...log,
+                  status: LogStatus.STAFF_HANDLED,
+                  staff_handled_at: handledAt,
+                  staff_reply_content: reply || log.staff_reply_content,
+                }
+              : log
+          )
+        );
+      }
+      setSelectedIds(new Set());
+      setStaffReply("");
+      toast.success(
+        `Đã đánh dấu ${result?.updated ?? ids.length} tương tác là đã xử lý`
+      );
+    } catch (error: any) {
+      console.error("Error bulk updating log status:", error);
+      toast.error(
+        error.response?.data?.message || "Không thể cập nhật trạng thái"
+      );
+    } finally {
+      setBulkSubmitting(false);
+    }
+  };
+
   const updateSpecificLog = useCallback(
     async (logId: string, changes: any, logData?: any) => {
       try {
@@ -2209,6 +2369,12 @@ export const CustomerLogModal = ({
       setShowImageModal(false);
       setSelectedImage(null);
       setLogs([]);
+      setSelectedIds(new Set());
+      setStaffReply("");
+      setStatusFilter(ALL_STATUS);
+      setReplyFrom("");
+      setReplyTo("");
+      setFocusedIndex(0);
 
       setTimeout(() => {
         document.body.style.overflow = "";
@@ -2244,6 +2410,21 @@ export const CustomerLogModal = ({
         return;
       }
 
+      // Hộp thư: chỉ tải lại khi có phản hồi mới
+      if (isInbox) {
+        if (
+          isOpen &&
+          events.some(
+            (event: any) =>
+              (event.status || event.changes?.status?.new) ===
+              LogStatus.CUSTOMER_REPLIED
+          )
+        ) {
+          fetchInboxLogs();
+        }
+        return;
+      }
+
       // ✅ Chỉ xử lý events của customer và campaign hiện tại
       if (!customer || !campaignId) return;
 
@@ -2298,12 +2479,15 @@ export const CustomerLogModal = ({
       });
     },
     [
+      isInbox,
+      isOpen,
       customer,
       campaignId,
       processedEvents,
       lastEventTimestamp,
       updateSpecificLog,
       fetchCustomerLogs,
+      fetchInboxLogs,
     ]
   );
 
@@ -2335,11 +2519,67 @@ export const CustomerLogModal = ({
   }, []);
 
   useEffect(() => {
-    if (isOpen && customer) {
+    if (isOpen && customer && !isInbox) {
       fetchCustomerLogs();
     }
   }, [isOpen, customer, campaignId]);
 
+  useEffect(() => {
+    if (isOpen && isInbox) {
+      fetchInboxLogs();
+    }
+  }, [isOpen, isInbox, fetchInboxLogs]);
+
+  // Đổi bộ lọc thì bỏ chọn và đưa con trỏ về đầu danh sách
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setFocusedIndex(0);
+  }, [statusFilter, replyFrom, replyTo]);
+
+  useEffect(() => {
+    setFocusedIndex((prev) => Math.min(prev, Math.max(visibleLogs.length - 1, 0)));
+  }, [visibleLogs.length]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-log-index="${focusedIndex}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [focusedIndex]);
+
+  // Phím tắt kiểu hộp thư: J/K di chuyển, X chọn, Shift+A chọn tất cả
+  useEffect(() => {
+    if (!isOpen || showImageModal) return;
+
+    const handleTriageKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+      if (visibleLogs.length === 0) return;
+
+      switch (e.key) {
+        case "j":
+          e.preventDefault();
+          setFocusedIndex((prev) => Math.min(prev + 1, visibleLogs.length - 1));
+          break;
+        case "k":
+          e.preventDefault();
+          setFocusedIndex((prev) => Math.max(prev - 1, 0));
+          break;
+        case "x": {
+          e.preventDefault();
+          const log = visibleLogs[focusedIndex];
+          if (log) toggleSelect(log);
+          break;
+        }
+        case "A":
+          e.preventDefault();
+          toggleSelectAll();
+          break;
+      }
+    };
+
+    document.addEventListener("keydown", handleTriageKeyDown);
+    return () => document.removeEventListener("keydown", handleTriageKeyDown);
+  }, [isOpen, showImageModal, visibleLogs, focusedIndex, toggleSelect, allSelected]);
+
   const handleCloseImageModal = () => {
     setShowImageModal(false);
     setSelectedImage(null);
@@ -2386,7 +2626,7 @@ export const CustomerLogModal = ({
     };
   }, [isOpen, showImageModal]);
 
-  if (!customer) return null;
+  if (!customer && !isInbox) return null;
 
   return (
     <>
@@ -2487,12 +2727,16 @@ export const CustomerLogModal = ({
                         >
                           <div className="absolute -inset-2 bg-gradient-to-r from-blue-400 to-purple-400 rounded-full opacity-20 blur-lg"></div>
                           <div className="relative bg-gradient-to-br from-blue-500 to-blue-600 rounded-full p-3 shadow-lg">
-                            <MessageCircle className="h-6 w-6 text-white" />
+                            {isInbox ? (
+                              <Inbox className="h-6 w-6 text-white" />
+                            ) : (
+                              <MessageCircle className="h-6 w-6 text-white" />
+                            )}
                           </div>
                         </motion.div>
 
                         <span className="bg-gradient-to-r from-gray-800 via-gray-700 to-gray-800 bg-clip-text text-transparent">
-                          Lịch sử tương tác
+                          {isInbox ? "Hộp thư phản hồi" : "Lịch sử tương tác"}
                         </span>
 
                         <motion.div
@@ -2520,6 +2764,7 @@ export const CustomerLogModal = ({
                       className="text-base text-gray-600 mt-4 select-text"
                     >
                       <div className="flex items-center gap-6 flex-wrap">
+                        {customer && (
                         <div className="flex items-center gap-3 bg-white/60 px-4 py-2 rounded-full shadow-sm border border-gray-200">
                           <div className="w-8 h-8 bg-gradient-to-br from-green-400 to-green-600 rounded-full flex items-center justify-center">
                             <User className="h-4 w-4 text-white" />
@@ -2533,8 +2778,18 @@ export const CustomerLogModal = ({
                             </div>
                           </div>
                         </div>
+                        )}
+
+                        {isInbox && (
+                          <div className="flex items-center gap-2 bg-green-50 px-4 py-2 rounded-full shadow-sm border border-green-200">
+                            <MessageCircle className="h-4 w-4 text-green-600" />
+                            <span className="text-sm font-semibold text-green-700">
+                              {inboxTotal.toLocaleString()} phản hồi chờ xử lý
+                            </span>
+                          </div>
+                        )}
 
-                        {logs.length > 0 && (
+                        {!isInbox && logs.length > 0 && (
                           <motion.div
                             initial={{ opacity: 0, scale: 0.8 }}
                             animate={{ opacity: 1, scale: 1 }}
@@ -2552,8 +2807,97 @@ export const CustomerLogModal = ({
                   </motion.div>
                 </div>
 
+                {/* Bộ lọc & thao tác hàng loạt */}
+                <div className="flex-shrink-0 border-b border-gray-200/60 px-8 py-3 space-y-3 bg-white/40">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <Checkbox
+                        checked={allSelected}
+                        disabled={selectableLogs.length === 0}
+                        onCheckedChange={toggleSelectAll}
+                      />
+                      Chọn tất cả
+                    </label>
+                    {!isInbox && (
+                      <Select
+                        value={statusFilter}
+                        onValueChange={(v) =>
+                          setStatusFilter(v as LogStatus | typeof ALL_STATUS)
+                        }
+                      >
+                        <SelectTrigger className="w-44 h-9 bg-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_STATUS}>Tất cả trạng thái</SelectItem>
+                          {Object.values(LogStatus).map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {LOG_STATUS_CONFIG[status].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <span>Phản hồi từ</span>
+                      <Input
+                        type="date"
+                        className="h-9 w-40 bg-white"
+                        value={replyFrom}
+                        max={replyTo || undefined}
+                        onChange={(e) => setReplyFrom(e.target.value)}
+                      />
+                      <span>đến</span>
+                      <Input
+                        type="date"
+                        className="h-9 w-40 bg-white"
+                        value={replyTo}
+                        min={replyFrom || undefined}
+                        onChange={(e) => setReplyTo(e.target.value)}
+                      />
+                    </div>
+                    {isInbox && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={fetchInboxLogs}
+                        disabled={loading}
+                      >
+                        <RefreshCw
+                          className={cn("h-4 w-4 mr-1", loading && "animate-spin")}
+                        />
+                        Tải lại
+                      </Button>
+                    )}
+                    <span className="ml-auto flex items-center gap-1 text-xs text-gray-400">
+                      <Keyboard className="h-3.5 w-3.5" />
+                      J/K di chuyển · X chọn · Shift+A chọn tất cả
+                    </span>
+                  </div>
+
+                  {selectedIds.size > 0 && (
+                    <div className="flex items-start gap-3">
+                      <Textarea
+                        rows={2}
+                        className="flex-1 bg-white text-sm"
+                        placeholder="Nội dung nhân viên phản hồi (áp dụng cho tất cả tương tác đã chọn, không bắt buộc)"
+                        value={staffReply}
+                        onChange={(e) => setStaffReply(e.target.value)}
+                      />
+                      <Button
+                        onClick={handleBulkMarkHandled}
+                        disabled={bulkSubmitting}
+                      >
+                        <UserCheck className="h-4 w-4 mr-2" />
+                        Đánh dấu đã xử lý ({selectedIds.size})
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
                 {/* Chat Content */}
                 <div
+                  ref={listRef}
                   className="flex-1 px-6 py-4 overflow-y-auto bg-gradient-to-b from-gray-50/50 to-white/50"
                   style={{
                     minHeight: 0,
@@ -2613,7 +2957,7 @@ export const CustomerLogModal = ({
                           </p>
                         </motion.div>
                       </motion.div>
-                    ) : logs.length > 0 ? (
+                    ) : visibleLogs.length > 0 ? (
                       <motion.div
                         key="chats"
                         initial={{ opacity: 0 }}
@@ -2623,9 +2967,11 @@ export const CustomerLogModal = ({
                       >
                         <div className="max-w-5xl mx-auto space-y-6">
                           <AnimatePresence>
-                            {logs.map((log, idx) => (
+                            {visibleLogs.map((log, idx) => (
                               <motion.div
                                 key={log.id}
+                                data-log-index={idx}
+                                onClick={() => setFocusedIndex(idx)}
                                 initial={{
                                   opacity: 0,
                                   y: 40,
@@ -2642,18 +2988,49 @@ export const CustomerLogModal = ({
                                   scale: 0.95,
                                 }}
                                 transition={{
-                                  delay: idx * 0.15,
+                                  delay: Math.min(idx, 8) * 0.15,
                                   duration: 0.6,
                                   type: "spring",
                                   stiffness: 200,
                                   damping: 25,
                                 }}
-                                className="bg-white/70 backdrop-blur-sm rounded-3xl border border-gray-200/80 shadow-lg hover:shadow-xl transition-all duration-500 p-6"
+                                className={cn(
+                                  "bg-white/70 backdrop-blur-sm rounded-3xl border border-gray-200/80 shadow-lg hover:shadow-xl transition-all duration-500 p-6",
+                                  idx === focusedIndex && "ring-2 ring-blue-400",
+                                  selectedIds.has(log.id) && "border-blue-300"
+                                )}
                                 style={{
                                   background:
                                     "linear-gradient(135deg, rgba(255,255,255,0.9) 0%, rgba(248,250,252,0.8) 100%)",
                                 }}
                               >
+                                <div className="flex items-center gap-3 mb-4 text-sm">
+                                  <Checkbox
+                                    checked={selectedIds.has(log.id)}
+                                    disabled={log.status === LogStatus.STAFF_HANDLED}
+                                    onCheckedChange={() => toggleSelect(log)}
+                                  />
+                                  {isInbox && log.customer && (
+                                    <span className="flex items-center gap-1 font-semibold text-gray-800">
+                                      <User className="h-4 w-4 text-gray-400" />
+                                      {log.customer.full_name}
+                                      <span className="font-mono text-xs text-gray-500">
+                                        {log.customer.phone_number}
+                                      </span>
+                                    </span>
+                                  )}
+                                  {isInbox && log.campaign && (
+                                    <span className="flex items-center gap-1 text-gray-600">
+                                      <Megaphone className="h-4 w-4 text-gray-400" />
+                                      {log.campaign.name}
+                                    </span>
+                                  )}
+                                  {log.customer_replied_at && (
+                                    <span className="ml-auto text-xs text-gray-500">
+                                      Phản hồi lúc {formatFullDateTime(log.customer_replied_at)}
+                                    </span>
+                                  )}
+                                </div>
                                 <ZaloChatConversationView
                                   log={log}
                                   onImageClick={handleImageClick}
@@ -2694,13 +3071,25 @@ export const CustomerLogModal = ({
                           transition={{ delay: 0.4 }}
                           className="text-center"
                         >
-                          <h3 className="font-bold text-2xl mb-3 text-gray-600">
-                            Chưa có cuộc hội thoại
-                          </h3>
-                          <p className="text-gray-500 max-w-md text-center leading-relaxed">
-                            Khách hàng này chưa có tin nhắn nào được gửi. <br />
-                            Hãy bắt đầu cuộc hội thoại đầu tiên! 💬
-                          </p>
+                          {logs.length > 0 ? (
+                            <h3 className="font-bold text-2xl mb-3 text-gray-600">
+                              Không có tương tác phù hợp bộ lọc
+                            </h3>
+                          ) : isInbox ? (
+                            <h3 className="font-bold text-2xl mb-3 text-gray-600">
+                              Không còn phản hồi nào chờ xử lý
+                            </h3>
+                          ) : (
+                            <>
+                              <h3 className="font-bold text-2xl mb-3 text-gray-600">
+                                Chưa có cuộc hội thoại
+                              </h3>
+                              <p className="text-gray-500 max-w-md text-center leading-relaxed">
+                                Khách hàng này chưa có tin nhắn nào được gửi. <br />
+                                Hãy bắt đầu cuộc hội thoại đầu tiên! 💬
+                              </p>
+                            </>
+                          )}
                         </motion.div>
                       </motion.div>
                     )}
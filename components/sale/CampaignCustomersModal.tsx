@@ -40,9 +40,10 @@ import {
   AlertCircle,
   Edit,
   Trash,
+  Ban,
 } from "lucide-react";
 import { Campaign } from "@/types";
-import { campaignAPI } from "@/lib/campaign-api";
+import { campaignAPI, campaignContactPolicyAPI } from "@/lib/campaign-api";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { AnimatePresence, motion } from "framer-motion";
@@ -50,6 +51,8 @@ import CustomerLogModal, { LogStatus } from "./CampaignCustomerLogModal.tsx";
 import EditCustomerModal from "./EditCustomerModal";
 import { CampaignSocket } from "@/components/socket/CampaignSocket";
 import ConfirmDialog from "@/components/ui/ConfirmDialog";
+import ContactPolicyWarning from "./ContactPolicyWarning";
+import { useContactPolicyCheck } from "@/hooks/useContactPolicyCheck";
 
 interface CampaignCustomer {
   id: string;
@@ -251,6 +254,20 @@ export default function CampaignCustomersModal({
 
   // ✅ THÊM: Focused row state để highlight row đang được thao tác
   const [focusedRowId, setFocusedRowId] = useState<string | null>(null);
+
+  // Khách bị chặn / đã chạm giới hạn tần suất ở các chiến dịch khác
+  const customerPhones = React.useMemo(
+    () => allCustomersForStats.map((c) => c.phone_number),
+    [allCustomersForStats]
+  );
+  const {
+    checks: contactChecks,
+    policy: contactPolicy,
+    suppressedCount,
+    cappedCount,
+    refresh: refreshContactChecks,
+  } = useContactPolicyCheck(customerPhones, campaign?.id);
+  const [suppressingPhone, setSuppressingPhone] = useState<string | null>(null);
   const skipClearRef = useRef(false);
   const modalOpenRef = useRef(false);
 
@@ -679,9 +696,28 @@ export default function CampaignCustomersModal({
   const handleEditSuccess = () => {
     // Reload customers sau khi edit thành công
     fetchCustomers(searchTerm, statusFilter);
+    fetchTotalCount();
     withSkipClear(() => handleEditModalClose());
   };
 
+  const handleSuppressCustomer = async (customer: CustomerWithStatus) => {
+    try {
+      setSuppressingPhone(customer.phone_number);
+      await campaignContactPolicyAPI.addSuppression({
+        phone_number: customer.phone_number,
+        full_name: customer.full_name,
+        reason: campaign ? `Khách yêu cầu ngừng nhận tin (chiến dịch ${campaign.name})` : undefined,
+      });
+      toast.success(`Đã thêm ${customer.phone_number} vào danh sách chặn`);
+      refreshContactChecks();
+    } catch (error: any) {
+      console.error("Error adding suppression:", error);
+      toast.error(error.response?.data?.message || "Không thể thêm vào danh sách chặn");
+    } finally {
+      setSuppressingPhone(null);
+    }
+  };
+
   const handleDeleteCustomer = async (customer: CustomerWithStatus) => {
     if (!campaign) return;
 
@@ -733,8 +769,10 @@ export default function CampaignCustomersModal({
     try {
       toast.info("Đang xuất báo cáo tổng quan...");
 
-      // ✅ Gọi API exportCampaignSummary (2 sheets)
-      const response = await campaignAPI.exportCampaignSummary(campaign.id);
+      // ✅ Gọi API exportCampaignSummary (2 sheets + sheet so sánh biến thể nếu chiến dịch có A/B)
+      const response = await campaignAPI.exportCampaignSummary(campaign.id, {
+        include_variants: true,
+      });
 
       // ✅ Tạo blob từ response data
       const blob = new Blob([response], {
@@ -1249,6 +1287,16 @@ export default function CampaignCustomersModal({
                   </div>
                 )}
 
+                {(suppressedCount > 0 || cappedCount > 0) && (
+                  <div className="flex-shrink-0 px-4 pt-3">
+                    <ContactPolicyWarning
+                      suppressedCount={suppressedCount}
+                      cappedCount={cappedCount}
+                      policy={contactPolicy}
+                    />
+                  </div>
+                )}
+
                 {/* Table Container */}
                 <div className="flex-1 overflow-hidden">
                   <motion.div
@@ -1343,6 +1391,21 @@ export default function CampaignCustomersModal({
                                       <Phone className="h-3 w-3 text-gray-400" />
                                       {customer.phone_number}
                                     </motion.div>
+                                    {contactChecks[customer.phone_number] && (
+                                      <Badge
+                                        variant="outline"
+                                        className="mt-1 text-[10px] border-amber-300 bg-amber-50 text-amber-700"
+                                        title={
+                                          contactChecks[customer.phone_number]
+                                            .suppression_reason || undefined
+                                        }
+                                      >
+                                        {contactChecks[customer.phone_number]
+                                          .suppressed
+                                          ? "Đã chặn"
+                                          : `Đủ ${contactChecks[customer.phone_number].recent_messages} tin / ${contactPolicy?.window_days ?? 7} ngày`}
+                                      </Badge>
+                                    )}
                                   </TableCell>
                                   <TableCell className="text-center">
                                     <motion.div
@@ -1484,6 +1547,30 @@ export default function CampaignCustomersModal({
                                         </Button>
                                       </motion.div>
 
+                                      {!contactChecks[customer.phone_number]
+                                        ?.suppressed && (
+                                        <motion.div
+                                          whileHover={{ scale: 1.1 }}
+                                          whileTap={{ scale: 0.9 }}
+                                        >
+                                          <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() =>
+                                              handleSuppressCustomer(customer)
+                                            }
+                                            disabled={
+                                              suppressingPhone ===
+                                              customer.phone_number
+                                            }
+                                            className="h-8 w-8 p-0 hover:bg-amber-50 hover:text-amber-600"
+                                            title="Thêm vào danh sách chặn (ngừng gửi tin chiến dịch)"
+                                          >
+                                            <Ban className="h-4 w-4" />
+                                          </Button>
+                                        </motion.div>
+                                      )}
+
                                       {/* Nút edit - CHỈ hiển thị khi campaign là DRAFT */}
                                       {campaign.status === "draft" && (
                                         <>
@@ -40,14 +40,20 @@ import {
   Plus,
   RefreshCw,
   Loader2,
+  FlaskConical,
+  ShieldCheck,
+  BookmarkPlus,
 } from "lucide-react";
-import { campaignAPI } from "@/lib/campaign-api";
+import { campaignAPI, campaignApprovalAPI } from "@/lib/campaign-api";
 import { toast } from "sonner";
 import { usePermission } from "@/hooks/usePermission";
 import { useViewRole } from "@/hooks/useViewRole";
 import { cn, getDisplayName } from "@/lib/utils";
 import CampaignCustomersModal from "./CampaignCustomersModal";
 import CampaignModal from "./CampaignModal";
+import CampaignVariantStatsDialog from "./CampaignVariantStatsDialog";
+import CampaignApprovalDialog from "./CampaignApprovalDialog";
+import CampaignTemplateSaveDialog from "./CampaignTemplateSaveDialog";
 import ConfirmDialog from "../ui/ConfirmDialog";
 import { transformToCampaignWithDetails } from "@/utils/campaignUtils";
 import {
@@ -67,6 +73,15 @@ interface CampaignManagementProps {
   isLoading?: boolean;
   onCreateNew?: () => void;
   availableUsers?: any[];
+  // Duyệt chiến dịch: requiresApproval = người dùng phải gửi duyệt thay vì tự lên lịch
+  requiresApproval?: boolean;
+  canApprove?: boolean;
+  onApprovalChanged?: () => void;
+}
+
+interface ApprovalOptions {
+  requiresApproval: boolean;
+  canApprove: boolean;
 }
 
 // Status config
@@ -77,6 +92,12 @@ const STATUS_CONFIG = {
     color: "bg-gray-100 text-gray-700",
     icon: "📝",
   },
+  [CampaignStatus.PENDING_APPROVAL]: {
+    label: "Chờ duyệt",
+    variant: "outline" as const,
+    color: "bg-amber-100 text-amber-700",
+    icon: "🕓",
+  },
   [CampaignStatus.SCHEDULED]: {
     label: "Đã lên lịch",
     variant: "outline" as const,
@@ -118,10 +139,17 @@ const hasScheduleWarning = (campaign: CampaignWithDetails): boolean => {
 };
 
 const getValidStatusTransitions = (
-  currentStatus: CampaignStatus
+  currentStatus: CampaignStatus,
+  { requiresApproval, canApprove }: ApprovalOptions
 ): CampaignStatus[] => {
   const validTransitions: Record<CampaignStatus, CampaignStatus[]> = {
-    [CampaignStatus.DRAFT]: [CampaignStatus.SCHEDULED],
+    [CampaignStatus.DRAFT]: [
+      requiresApproval ? CampaignStatus.PENDING_APPROVAL : CampaignStatus.SCHEDULED,
+    ],
+    // Người duyệt: duyệt (-> đã lên lịch) / từ chối (-> bản nháp); người tạo: rút lại (-> bản nháp)
+    [CampaignStatus.PENDING_APPROVAL]: canApprove
+      ? [CampaignStatus.SCHEDULED, CampaignStatus.DRAFT]
+      : [CampaignStatus.DRAFT],
     [CampaignStatus.SCHEDULED]: [CampaignStatus.DRAFT],
     [CampaignStatus.RUNNING]: [CampaignStatus.PAUSED],
     [CampaignStatus.PAUSED]: [CampaignStatus.RUNNING],
@@ -132,21 +160,36 @@ const getValidStatusTransitions = (
   return validTransitions[currentStatus] || [];
 };
 
+const getTransitionLabel = (
+  from: CampaignStatus,
+  to: CampaignStatus,
+  canApprove: boolean
+): string => {
+  if (to === CampaignStatus.PENDING_APPROVAL) return "Gửi duyệt";
+  if (from === CampaignStatus.PENDING_APPROVAL) {
+    if (to === CampaignStatus.SCHEDULED) return "Duyệt";
+    return canApprove ? "Từ chối" : "Rút lại yêu cầu duyệt";
+  }
+  return STATUS_CONFIG[to].label;
+};
+
 const StatusDropdown = React.memo(
   ({
     status,
     onChange,
     loading,
     campaign,
+    approval,
   }: {
     status: CampaignStatus;
     onChange: (newStatus: CampaignStatus) => void;
     loading: boolean;
     campaign?: CampaignWithDetails;
+    approval: ApprovalOptions;
   }) => {
     const { isViewRole } = useViewRole();
     const config = STATUS_CONFIG[status] || STATUS_CONFIG[CampaignStatus.DRAFT];
-    const validStatuses = getValidStatusTransitions(status);
+    const validStatuses = getValidStatusTransitions(status, approval);
 
     const hasWarningStatus = useMemo(() => {
       return campaign ? hasScheduleWarning(campaign) : false;
@@ -162,6 +205,8 @@ const StatusDropdown = React.memo(
           return "Bot Python sẽ tự động chuyển thành 'Đang chạy' khi đến thời gian";
         case CampaignStatus.RUNNING:
           return "Bot Python sẽ tự động chuyển thành 'Hoàn thành' khi kết thúc";
+        case CampaignStatus.PENDING_APPROVAL:
+          return "Đang chờ quản lý chiến dịch duyệt";
         default:
           return "";
       }
@@ -244,7 +289,7 @@ const StatusDropdown = React.memo(
                 className="flex items-center gap-2 cursor-pointer"
               >
                 {sConfig.icon}
-                {sConfig.label}
+                {getTransitionLabel(status, s, approval.canApprove)}
               </DropdownMenuItem>
             );
           })}
@@ -340,6 +385,7 @@ const CampaignRow = React.memo(
     onAction,
     onShowCustomers,
     focusedRowId,
+    approval,
   }: {
     campaign: CampaignWithDetails;
     index: number;
@@ -348,6 +394,7 @@ const CampaignRow = React.memo(
     onAction: (action: string, campaign: CampaignWithDetails) => void;
     onShowCustomers: (campaign: CampaignWithDetails) => void;
     focusedRowId: string | null;
+    approval: ApprovalOptions;
   }) => {
     const { canAccess } = usePermission();
     const canUpdate = canAccess("chien-dich", "update");
@@ -356,6 +403,7 @@ const CampaignRow = React.memo(
 
     const isArchived = campaign.status === CampaignStatus.ARCHIVED;
     const hasWarning = hasScheduleWarning(campaign);
+    const variantCount = campaign.messages?.variants?.length || 0;
 
     const canToggleStatus = useMemo(
       () =>
@@ -428,7 +476,29 @@ const CampaignRow = React.memo(
             <div className="text-xs text-gray-500 flex items-center gap-1">
               <Calendar className="h-3 w-3" />
               Tạo: {formatDate(campaign.created_at)}
+              {variantCount > 1 && (
+                <button
+                  type="button"
+                  className="ml-1 inline-flex items-center gap-0.5 rounded bg-purple-50 px-1 text-purple-700 hover:bg-purple-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-purple-300"
+                  title="Xem tỉ lệ phản hồi từng biến thể"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAction("variant-stats", campaign);
+                  }}
+                >
+                  <FlaskConical className="h-3 w-3" />
+                  A/B · {variantCount}
+                </button>
+              )}
             </div>
+            {campaign.status === CampaignStatus.DRAFT && campaign.rejection_reason && (
+              <div
+                className="text-xs text-red-600 line-clamp-2"
+                title={campaign.rejection_reason}
+              >
+                Bị từ chối: {campaign.rejection_reason}
+              </div>
+            )}
           </div>
         </TableCell>
 
@@ -458,6 +528,7 @@ const CampaignRow = React.memo(
             status={campaign.status}
             loading={isLoading}
             campaign={campaign}
+            approval={approval}
             onChange={(newStatus) =>
               onAction("change-status", {
                 id: campaign.id,
@@ -577,6 +648,42 @@ const CampaignRow = React.memo(
                 Xem khách hàng
               </DropdownMenuItem>
 
+              {variantCount > 1 && (
+                <DropdownMenuItem
+                  onClick={() => onAction("variant-stats", campaign)}
+                  className="flex items-center gap-2 cursor-pointer"
+                >
+                  <FlaskConical className="h-4 w-4" />
+                  So sánh biến thể
+                </DropdownMenuItem>
+              )}
+
+              {(campaign.status === CampaignStatus.PENDING_APPROVAL ||
+                approval.requiresApproval ||
+                approval.canApprove) &&
+                !isArchived && (
+                  <DropdownMenuItem
+                    onClick={() => onAction("approval", campaign)}
+                    className="flex items-center gap-2 cursor-pointer"
+                  >
+                    <ShieldCheck className="h-4 w-4" />
+                    {approval.canApprove &&
+                    campaign.status === CampaignStatus.PENDING_APPROVAL
+                      ? "Xem & duyệt"
+                      : "Lịch sử duyệt"}
+                  </DropdownMenuItem>
+                )}
+
+              {canCreate && (
+                <DropdownMenuItem
+                  onClick={() => onAction("save-template", campaign)}
+                  className="flex items-center gap-2 cursor-pointer"
+                >
+                  <BookmarkPlus className="h-4 w-4" />
+                  Lưu làm mẫu
+                </DropdownMenuItem>
+              )}
+
               {isArchived && canCreate && (
                 <>
                   <DropdownMenuSeparator />
@@ -681,6 +788,9 @@ export default function CampaignManagement({
   isLoading = false,
   onCreateNew,
   availableUsers = [],
+  requiresApproval = false,
+  canApprove = false,
+  onApprovalChanged,
 }: CampaignManagementProps) {
   const [campaigns, setCampaigns] =
     useState<CampaignWithDetails[]>(initialCampaigns);
@@ -697,6 +807,18 @@ export default function CampaignManagement({
   const [editingCampaign, setEditingCampaign] =
     useState<CampaignWithDetails | null>(null);
   const [isCopyAndEditMode, setIsCopyAndEditMode] = useState(false);
+  const [variantStatsCampaign, setVariantStatsCampaign] =
+    useState<CampaignWithDetails | null>(null);
+  const [approvalTarget, setApprovalTarget] = useState<{
+    campaign: CampaignWithDetails;
+    mode: "submit" | "review";
+  } | null>(null);
+  const [templateSourceCampaign, setTemplateSourceCampaign] =
+    useState<CampaignWithDetails | null>(null);
+  const approval = useMemo(
+    () => ({ requiresApproval, canApprove }),
+    [requiresApproval, canApprove]
+  );
 
   // ✅ THÊM STATE CHO CREATE MODAL
   const [createModalOpen, setCreateModalOpen] = useState(false);
@@ -951,6 +1073,21 @@ export default function CampaignManagement({
     async (action: string, payload: any) => {
       // ✅ THÊM: Set focus cho row đang được thao tác
       setFocusSafely(payload.id);
+
+      if (action === "variant-stats") {
+        setVariantStatsCampaign(payload);
+        return;
+      }
+
+      if (action === "approval") {
+        setApprovalTarget({ campaign: payload, mode: "review" });
+        return;
+      }
+
+      if (action === "save-template") {
+        setTemplateSourceCampaign(payload);
+        return;
+      }
       
       const canUpdate = canAccess("chien-dich", "update");
       const canDelete = canAccess("chien-dich", "delete");
@@ -1112,6 +1249,31 @@ export default function CampaignManagement({
           case "change-status": {
             if (!payload.newStatus || payload.newStatus === payload.status)
               return;
+
+            // Gửi duyệt / duyệt / từ chối đi qua dialog để xem nội dung và nhập ghi chú, lý do
+            const fullCampaign = campaigns.find((c) => c.id === payload.id);
+            if (
+              fullCampaign &&
+              (payload.newStatus === CampaignStatus.PENDING_APPROVAL ||
+                (payload.status === CampaignStatus.PENDING_APPROVAL && canApprove))
+            ) {
+              setApprovalTarget({
+                campaign: fullCampaign,
+                mode:
+                  payload.newStatus === CampaignStatus.PENDING_APPROVAL
+                    ? "submit"
+                    : "review",
+              });
+              return;
+            }
+
+            if (payload.status === CampaignStatus.PENDING_APPROVAL) {
+              await campaignApprovalAPI.withdraw(payload.id);
+              toast.success("Đã rút lại yêu cầu duyệt");
+              onApprovalChanged?.();
+              break;
+            }
+
             const result = await campaignAPI.updateStatus(
               payload.id,
               payload.newStatus
@@ -1184,6 +1346,9 @@ export default function CampaignManagement({
       showConfirmDialog,
       hideConfirmDialog,
       currentUser,
+      campaigns,
+      canApprove,
+      onApprovalChanged,
     ]
   );
 
@@ -1362,9 +1527,11 @@ export default function CampaignManagement({
       isCustomersModalOpen ||
       createModalOpen ||
       isEditModalOpen ||
-      confirmDialog.isOpen
+      confirmDialog.isOpen ||
+      approvalTarget ||
+      templateSourceCampaign
     );
-  }, [isCustomersModalOpen, createModalOpen, isEditModalOpen, confirmDialog.isOpen]);
+  }, [isCustomersModalOpen, createModalOpen, isEditModalOpen, confirmDialog.isOpen, approvalTarget, templateSourceCampaign]);
 
   // ✅ THÊM: Clear focus khi data thay đổi
   useEffect(() => {
@@ -1442,6 +1609,7 @@ export default function CampaignManagement({
                   onAction={handleAction}
                   onShowCustomers={handleShowCustomers}
                   focusedRowId={focusedRowId}
+                  approval={approval}
                 />
               ))}
 
@@ -1510,6 +1678,27 @@ export default function CampaignManagement({
         campaign={selectedCampaign}
       />
 
+      <CampaignVariantStatsDialog
+        campaign={variantStatsCampaign}
+        onClose={() => setVariantStatsCampaign(null)}
+      />
+
+      <CampaignTemplateSaveDialog
+        campaign={templateSourceCampaign}
+        onClose={() => setTemplateSourceCampaign(null)}
+      />
+
+      <CampaignApprovalDialog
+        campaign={approvalTarget?.campaign ?? null}
+        mode={approvalTarget?.mode ?? "review"}
+        canApprove={canApprove}
+        onClose={() => setApprovalTarget(null)}
+        onChanged={() => {
+          onReload();
+          onApprovalChanged?.();
+        }}
+      />
+
       {/* ✅ THÊM: Create Campaign Modal */}
       <CampaignModal
         open={createModalOpen}
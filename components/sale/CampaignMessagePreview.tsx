@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight, Eye, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCurrentUser } from "@/contexts/CurrentUserContext";
+import { extractTemplateVariables, renderCampaignMessage } from "@/utils/campaignUtils";
+
+interface PreviewCustomer {
+  phone_number: string;
+  full_name: string;
+  salutation?: string;
+  metadata?: Record<string, string>;
+}
+
+interface CampaignMessagePreviewProps {
+  // Nội dung chính + các biến thể (nếu có)
+  messages: Array<{ label: string; text: string }>;
+  customers: PreviewCustomer[];
+}
+
+// Khách hàng mẫu khi chưa import danh sách
+const SAMPLE_CUSTOMER: PreviewCustomer = {
+  phone_number: "0900000000",
+  full_name: "Công ty TNHH ABC",
+  salutation: "Anh Nam",
+};
+
+export default function CampaignMessagePreview({ messages, customers }: CampaignMessagePreviewProps) {
+  const { currentUser } = useCurrentUser();
+  const [index, setIndex] = useState(0);
+  const [search, setSearch] = useState("");
+  const [messageIndex, setMessageIndex] = useState(0);
+
+  useEffect(() => {
+    if (index >= customers.length) setIndex(0);
+  }, [customers.length, index]);
+
+  useEffect(() => {
+    if (messageIndex >= messages.length) setMessageIndex(0);
+  }, [messages.length, messageIndex]);
+
+  const customer = customers[index] || SAMPLE_CUSTOMER;
+  const message = messages[messageIndex] || messages[0];
+  const senderName = currentUser?.zaloName || currentUser?.fullName || "";
+
+  const rendered = useMemo(
+    () => renderCampaignMessage(message?.text || "", customer, senderName),
+    [message?.text, customer, senderName]
+  );
+
+  // Biến có trong nội dung nhưng khách hàng đang xem không có dữ liệu
+  const missingValues = useMemo(
+    () => extractTemplateVariables(rendered),
+    [rendered]
+  );
+
+  const handleSearch = (value: string) => {
+    setSearch(value);
+    const keyword = value.trim().toLowerCase();
+    if (!keyword) return;
+    const found = customers.findIndex(
+      (c) => c.phone_number.includes(keyword) || c.full_name.toLowerCase().includes(keyword)
+    );
+    if (found >= 0) setIndex(found);
+  };
+
+  return (
+    <div className="rounded-lg border bg-gray-50 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm font-medium flex items-center gap-2">
+          <Eye className="h-4 w-4 text-blue-600" />
+          Xem trước tin nhắn
+        </Label>
+        {messages.length > 1 && (
+          <div className="flex gap-1">
+            {messages.map((m, i) => (
+              <Button
+                key={m.label}
+                type="button"
+                size="sm"
+                variant={i === messageIndex ? "default" : "outline"}
+                className="h-7 px-2 text-xs"
+                onClick={() => setMessageIndex(i)}
+              >
+                {m.label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {customers.length > 0 ? (
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            disabled={index === 0}
+            onClick={() => setIndex((i) => Math.max(0, i - 1))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex-1 min-w-0 text-sm">
+            <div className="font-medium truncate">
+              {customer.full_name}
+              {customer.salutation && <span className="text-gray-500"> · {customer.salutation}</span>}
+            </div>
+            <div className="text-xs text-gray-500">
+              {customer.phone_number} · Khách {index + 1}/{customers.length}
+            </div>
+          </div>
+          <div className="relative w-48">
+            <Search className="absolute left-2 top-2 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => handleSearch(e.target.value)}
+              placeholder="Tìm tên hoặc SĐT"
+              className="h-8 pl-8 text-sm"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            disabled={index >= customers.length - 1}
+            onClick={() => setIndex((i) => Math.min(customers.length - 1, i + 1))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Chưa có khách hàng, đang dùng dữ liệu mẫu. Thêm khách hàng ở bước cuối để xem trước theo từng khách.
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <div className="max-w-[85%] rounded-2xl rounded-br-sm bg-blue-600 px-4 py-2 text-sm text-white whitespace-pre-wrap break-words">
+          {rendered.trim() || <span className="italic opacity-70">Chưa có nội dung</span>}
+        </div>
+      </div>
+
+      {missingValues.length > 0 && (
+        <p className="text-xs text-orange-600">
+          Khách hàng này không có dữ liệu cho: {missingValues.map((k) => `{{${k}}}`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
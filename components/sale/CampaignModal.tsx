@@ -74,12 +74,15 @@ import {
   Sunset,
   Pencil,
   ChevronLeft,
+  CalendarClock,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
   CampaignType,
   CampaignFormData,
   Campaign,
+  CampaignMessageVariant,
+  CampaignTemplate,
   CampaignWithDetails,
 } from "@/types";
 import ModernTimePicker from "../common/ModernTimePicker";
@@ -92,6 +95,18 @@ import ModernDaySelector from "../common/ModernDaySelector"; // Import component
 import { useDebounce, useDebouncedCallback } from "@/hooks/useDebounce";
 import { campaignAPI } from "@/lib/campaign-api";
 import EnhancedTextarea from "../common/EnhancedTextarea";
+import CampaignVariantsEditor from "./CampaignVariantsEditor";
+import CampaignMessagePreview from "./CampaignMessagePreview";
+import CampaignSimulationDialog from "./CampaignSimulationDialog";
+import ContactPolicyWarning from "./ContactPolicyWarning";
+import CampaignSegmentPicker from "./CampaignSegmentPicker";
+import { useContactPolicyCheck } from "@/hooks/useContactPolicyCheck";
+import {
+  buildCampaignVariables,
+  extractTemplateVariables,
+  templateToCampaignDraft,
+  toVariableKey,
+} from "@/utils/campaignUtils";
 import StepIndicator from "./StepIndicator";
 
 type SelectionMode = "single" | "adjacent" | "multiple";
@@ -103,6 +118,8 @@ interface CampaignModalProps {
   availableUsers?: Array<{ id: string; fullName: string; email: string }>;
   mode: "create" | "edit"; // Thêm mode prop
   initialData?: CampaignWithDetails | null; // Thêm initial data cho edit mode
+  // Tạo mới từ mẫu chiến dịch (chỉ dùng với mode="create"), bước khách hàng để trống
+  templateData?: CampaignTemplate | null;
 }
 
 const campaignTypeOptions = [
@@ -193,7 +210,19 @@ export default function CampaignModal({
   availableUsers = [],
   mode = "create",
   initialData = null,
+  templateData = null,
 }: CampaignModalProps) {
+  // Dữ liệu điền sẵn: chiến dịch đang sửa hoặc mẫu được chọn khi tạo mới
+  const prefillData = useMemo(
+    () =>
+      mode === "edit"
+        ? initialData
+        : templateData
+        ? templateToCampaignDraft(templateData)
+        : null,
+    [mode, initialData, templateData]
+  );
+
   // Memoized insertButtons để tránh re-creation mỗi render
   const messageInsertButtons = useMemo(
     () => [
@@ -246,6 +275,7 @@ export default function CampaignModal({
   const [startTime, setStartTime] = useState("");
   const [endTime, setEndTime] = useState("");
   const [messageContent, setMessageContent] = useState("");
+  const [messageVariants, setMessageVariants] = useState<CampaignMessageVariant[]>([]);
   const [attachmentType, setAttachmentType] = useState<
     "image" | "link" | "file" | null
   >(null);
@@ -297,8 +327,10 @@ export default function CampaignModal({
   const [customEmails, setCustomEmails] = useState<string[]>([""]);
   const [customerFile, setCustomerFile] = useState<File | null>(null);
   const [uploadedCustomers, setUploadedCustomers] = useState<
-    Array<{ phone_number: string; full_name: string; salutation?: string }>
+    Array<{ phone_number: string; full_name: string; salutation?: string; metadata?: Record<string, string> }>
   >([]);
+  // Phân khúc đang gắn với chiến dịch (nếu khách được lấy từ phân khúc)
+  const [segmentId, setSegmentId] = useState<string | null>(null);
   // Lazy-load list state for customers tab
   const [visibleCount, setVisibleCount] = useState(50);
   const loadMoreRef = useRef<HTMLDivElement | null>(null);
@@ -318,6 +350,21 @@ export default function CampaignModal({
 
   const debouncedCampaignName = useDebounce(campaignName, 300);
   const debouncedMessageContent = useDebounce(messageContent, 400);
+  // Biến cá nhân hóa: {{salutation}}, {{full_name}} + các cột metadata của khách hàng
+  const campaignVariables = useMemo(
+    () => buildCampaignVariables(uploadedCustomers),
+    [uploadedCustomers]
+  );
+  // Cảnh báo khách bị chặn / đã chạm giới hạn tần suất khi thêm vào chiến dịch
+  const uploadedPhones = useMemo(
+    () => uploadedCustomers.map((c) => c.phone_number),
+    [uploadedCustomers]
+  );
+  const {
+    policy: contactPolicy,
+    suppressedCount,
+    cappedCount,
+  } = useContactPolicyCheck(uploadedPhones, initialData?.id);
   const [usersWithEmail, setUsersWithEmail] = useState<
     Array<{
       id: number;
@@ -381,6 +428,9 @@ export default function CampaignModal({
     setMessageValidationError(error);
   }, []);
 
+  const [variantValidationError, setVariantValidationError] = useState<string | null>(null);
+  const [showSimulation, setShowSimulation] = useState(false);
+
   const handleReminderValidationChange = useCallback(
     (index: number, error: string | null) => {
       setReminderValidationErrors((prev) => {
@@ -484,6 +534,11 @@ export default function CampaignModal({
       if (campaign.messages?.text) {
         setMessageContent(campaign.messages.text);
       }
+      setMessageVariants(
+        campaign.messages?.variants && campaign.messages.variants.length > 1
+          ? campaign.messages.variants
+          : []
+      );
 
       // Load attachment if exists
       if (campaign.messages?.attachment) {
@@ -601,6 +656,7 @@ export default function CampaignModal({
       } else {
         setUploadedCustomers([]);
       }
+      setSegmentId(campaign.segment_id || null);
     },
     [handleCampaignTypeChange]
   );
@@ -618,6 +674,7 @@ export default function CampaignModal({
     setIncludeSaturday(true);
     setTimeOfDay("");
     setMessageContent("");
+    setMessageVariants([]);
     handleAttachmentTypeChange(null);
     setAttachmentData("");
     setMultipleImages([]);
@@ -639,6 +696,7 @@ export default function CampaignModal({
     // Reset customer states
     setCustomerFile(null);
     setUploadedCustomers([]);
+    setSegmentId(null);
 
     // ✅ RESET VALIDATION STATES
     setCustomerValidationErrors([]);
@@ -677,12 +735,8 @@ export default function CampaignModal({
 
   // ✅ SỬA LOGIC - TÁCH RIÊNG RECIPIENTS_TO RA KHỎI PHÂN LOẠI
   useEffect(() => {
-    if (
-      mode === "edit" &&
-      initialData?.email_reports &&
-      usersWithEmail.length > 0
-    ) {
-      const { recipients_to, recipients_cc } = initialData.email_reports;
+    if (prefillData?.email_reports && usersWithEmail.length > 0) {
+      const { recipients_to, recipients_cc } = prefillData.email_reports;
 
       // Set recipients_to đầu tiên
       let primaryRecipient = "";
@@ -725,7 +779,7 @@ export default function CampaignModal({
         externalEmails.length > 0 ? [...externalEmails, ""] : [""]
       );
     }
-  }, [usersWithEmail, mode, initialData]);
+  }, [usersWithEmail, prefillData]);
 
   // Tab navigation logic
   const canProceedFromTab1 = Boolean(campaignName?.trim() && selectedType);
@@ -734,6 +788,7 @@ export default function CampaignModal({
   const canProceedFromTab2 = Boolean(
     // ✅ Validation error luôn được check trước
     messageValidationError === null &&
+      variantValidationError === null &&
       attachmentValidationError === null &&
       (mode === "edit" || // Edit mode chỉ skip required field validation
         (messageContent?.trim() &&
@@ -771,6 +826,52 @@ export default function CampaignModal({
     selectedType === CampaignType.HOURLY_KM ||
     selectedType === CampaignType.DAILY_KM;
 
+  // Dùng chung cho submit và mô phỏng lịch gửi
+  const buildScheduleConfig = (): CampaignFormData["schedule_config"] => {
+    if (
+      selectedType === CampaignType.HOURLY_KM ||
+      selectedType === CampaignType.DAILY_KM
+    ) {
+      return {
+        type: "hourly",
+        start_time: startTime || undefined,
+        end_time: endTime || undefined,
+        remind_after_minutes: reminders.length > 0 ? reminders[0].minutes : 0,
+      };
+    }
+    if (selectedType === CampaignType.THREE_DAY_KM) {
+      return {
+        type: "3_day",
+        days_of_week:
+          Array.isArray(selectedDays) && selectedDays.length > 0
+            ? selectedDays
+            : Array.isArray(selectedDays)
+            ? []
+            : [selectedDays as number].filter((d) => d !== 0),
+        time_of_day: timeOfDay || undefined,
+      };
+    }
+    if (
+      selectedType === CampaignType.WEEKLY_SP ||
+      selectedType === CampaignType.WEEKLY_BBG
+    ) {
+      return {
+        type: "weekly",
+        day_of_week: Array.isArray(selectedDays)
+          ? selectedDays[0] || 0
+          : (selectedDays as number) || 0,
+        time_of_day: timeOfDay || undefined,
+      };
+    }
+    return undefined;
+  };
+
+  const canSimulate = needsReminderTab
+    ? Boolean(startTime && endTime)
+    : Boolean(selectedType) &&
+      Boolean(timeOfDay) &&
+      (Array.isArray(selectedDays) ? selectedDays.length > 0 : selectedDays > 0);
+
   // For edit mode, allow proceeding to tab 3 even if some data is missing
 
   const canProceedFromTab3 = Boolean(
@@ -954,6 +1055,13 @@ export default function CampaignModal({
     }
   }, [mode, initialData, open, loadCampaignData]);
 
+  useEffect(() => {
+    if (mode === "create" && templateData && open && prefillData) {
+      loadCampaignData(prefillData);
+      setSegmentId(null);
+    }
+  }, [mode, templateData, open, prefillData, loadCampaignData]);
+
   useEffect(() => {
     if (open) {
       loadUsersWithEmail();
@@ -1707,10 +1815,13 @@ export default function CampaignModal({
         let fullNameIdx = -1,
           phoneNumberIdx = -1,
           salutationIdx = -1;
+        // Các cột còn lại -> metadata, dùng làm biến {{ten_cot}} trong nội dung
+        const metadataIdx: Array<{ idx: number; key: string }> = [];
         header.forEach((h, idx) => {
           if (h === "TÊN KHÁCH HÀNG") fullNameIdx = idx;
-          if (h === "SỐ ĐIỆN THOẠI") phoneNumberIdx = idx;
-          if (h === "NGƯỜI LIÊN HỆ") salutationIdx = idx;
+          else if (h === "SỐ ĐIỆN THOẠI") phoneNumberIdx = idx;
+          else if (h === "NGƯỜI LIÊN HỆ") salutationIdx = idx;
+          else if (toVariableKey(h)) metadataIdx.push({ idx, key: toVariableKey(h) });
         });
 
         // Check required headers
@@ -1760,11 +1871,17 @@ export default function CampaignModal({
               phoneNumberIdx >= 0 ? columns[phoneNumberIdx]?.trim() || "" : "";
             const salutation =
               salutationIdx >= 0 ? columns[salutationIdx]?.trim() || "" : "";
+            const metadata: Record<string, string> = {};
+            metadataIdx.forEach(({ idx, key }) => {
+              const value = columns[idx]?.trim();
+              if (value) metadata[key] = value;
+            });
 
             return {
               phone_number: phoneNumber,
               full_name: fullName,
               salutation,
+              ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
             };
           })
           .filter((customer) => customer.phone_number && customer.full_name);
@@ -1797,7 +1914,7 @@ export default function CampaignModal({
         const duplicatesInFile: string[] = [];
         const uniqueByNorm: Map<
           string,
-          { phone_number: string; full_name: string; salutation?: string }
+          { phone_number: string; full_name: string; salutation?: string; metadata?: Record<string, string> }
         > = new Map();
 
         for (const c of rawCustomers) {
@@ -1821,6 +1938,7 @@ export default function CampaignModal({
           phone_number: string;
           full_name: string;
           salutation?: string;
+          metadata?: Record<string, string>;
         }> = [];
 
         for (const [norm, c] of uniqueByNorm.entries()) {
@@ -1869,11 +1987,17 @@ export default function CampaignModal({
               phoneNumberIdx >= 0 ? columns[phoneNumberIdx]?.trim() || "" : "";
             const salutation =
               salutationIdx >= 0 ? columns[salutationIdx]?.trim() || "" : "";
+            const metadata: Record<string, string> = {};
+            metadataIdx.forEach(({ idx, key }) => {
+              const value = columns[idx]?.trim();
+              if (value) metadata[key] = value;
+            });
 
             return {
               phone_number: phoneNumber,
               full_name: fullName,
               salutation,
+              ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
             };
           })
           .filter((customer) => customer.phone_number && customer.full_name);
@@ -2067,6 +2191,7 @@ export default function CampaignModal({
           phone_number: string;
           full_name: string;
           salutation?: string;
+          metadata?: Record<string, string>;
         }> = [];
 
         if (worksheet.rowCount <= 1) {
@@ -2091,13 +2216,17 @@ export default function CampaignModal({
           phoneNumberCol = 0,
           salutationCol = 0;
         const foundHeaders: string[] = [];
+        // Các cột còn lại -> metadata, dùng làm biến {{ten_cot}} trong nội dung
+        const metadataCols: Array<{ col: number; key: string }> = [];
 
         headerRow.eachCell((cell, colNumber) => {
           const value = cell.value?.toString().trim().toUpperCase();
           foundHeaders.push(value || `CỘT ${colNumber}`);
           if (value === "TÊN KHÁCH HÀNG") fullNameCol = colNumber;
-          if (value === "SỐ ĐIỆN THOẠI") phoneNumberCol = colNumber;
-          if (value === "NGƯỜI LIÊN HỆ") salutationCol = colNumber;
+          else if (value === "SỐ ĐIỆN THOẠI") phoneNumberCol = colNumber;
+          else if (value === "NGƯỜI LIÊN HỆ") salutationCol = colNumber;
+          else if (value && toVariableKey(value))
+            metadataCols.push({ col: colNumber, key: toVariableKey(value) });
         });
 
         const missingHeaders: string[] = [];
@@ -2160,6 +2289,11 @@ export default function CampaignModal({
           const salutation = salutationCol
             ? row.getCell(salutationCol).value?.toString().trim() || ""
             : "";
+          const metadata: Record<string, string> = {};
+          metadataCols.forEach(({ col, key }) => {
+            const value = row.getCell(col).value?.toString().trim();
+            if (value) metadata[key] = value;
+          });
 
           const validationErrors: string[] = [];
 
@@ -2212,6 +2346,7 @@ export default function CampaignModal({
               phone_number: phoneNumber,
               full_name: fullName,
               salutation,
+              ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
             });
             validCustomers++;
 
@@ -2259,6 +2394,7 @@ export default function CampaignModal({
           phone_number: string;
           full_name: string;
           salutation?: string;
+          metadata?: Record<string, string>;
         }> = [];
         const duplicatesAgainstExisting: string[] = [];
 
@@ -2982,6 +3118,27 @@ export default function CampaignModal({
       return;
     }
 
+    // ✅ Biến {{...}} phải có dữ liệu trong danh sách khách hàng (tab nội dung có thể đã đóng)
+    const knownVariableKeys = new Set(campaignVariables.map((v) => v.key));
+    const unknownVariables = extractTemplateVariables(
+      [
+        messageContent,
+        ...messageVariants.map((v) => v.text),
+        ...(needsReminderTab ? reminders.map((r) => r.content || "") : []),
+      ].join("\n")
+    ).filter((key) => !knownVariableKeys.has(key));
+    if (unknownVariables.length > 0) {
+      setAlertSafe?.({
+        type: "error",
+        message: `⚠️ Nội dung dùng biến không tồn tại: ${unknownVariables
+          .map((k) => `{{${k}}}`)
+          .join(", ")}\n\nBiến hợp lệ: ${campaignVariables
+          .map((v) => `{{${v.key}}}`)
+          .join(", ")}\n\n💡 Thêm cột tương ứng vào file khách hàng hoặc sửa lại nội dung.`,
+      });
+      return;
+    }
+
     // ✅ Mode-specific validation
     if (mode === "create") {
       if (
@@ -3054,6 +3211,12 @@ export default function CampaignModal({
         messages: {
           type: "initial",
           text: messageContent || "", // Allow empty message in edit mode
+          variants:
+            messageVariants.length > 1
+              ? messageVariants.map((v) =>
+                  v.key === "A" ? { ...v, text: messageContent || "" } : v
+                )
+              : undefined,
           attachment:
             attachmentType && (attachmentData || multipleImages.length > 0 || multipleFiles.length > 0 || multipleLinks.length > 0)
               ? {
@@ -3082,38 +3245,9 @@ export default function CampaignModal({
       };
 
       // ✅ Schedule config với validation linh hoạt hơn cho edit mode
-      if (
-        selectedType === CampaignType.HOURLY_KM ||
-        selectedType === CampaignType.DAILY_KM
-      ) {
-        campaignData.schedule_config = {
-          type: "hourly",
-          start_time: startTime || undefined,
-          end_time: endTime || undefined,
-          remind_after_minutes: reminders.length > 0 ? reminders[0].minutes : 0,
-        };
-      } else if (selectedType === CampaignType.THREE_DAY_KM) {
-        campaignData.schedule_config = {
-          type: "3_day",
-          days_of_week:
-            Array.isArray(selectedDays) && selectedDays.length > 0
-              ? selectedDays
-              : Array.isArray(selectedDays)
-              ? []
-              : [selectedDays as number].filter((d) => d !== 0),
-          time_of_day: timeOfDay || undefined,
-        };
-      } else if (
-        selectedType === CampaignType.WEEKLY_SP ||
-        selectedType === CampaignType.WEEKLY_BBG
-      ) {
-        campaignData.schedule_config = {
-          type: "weekly",
-          day_of_week: Array.isArray(selectedDays)
-            ? selectedDays[0] || 0
-            : (selectedDays as number) || 0,
-          time_of_day: timeOfDay || undefined,
-        };
+      const scheduleConfig = buildScheduleConfig();
+      if (scheduleConfig) {
+        campaignData.schedule_config = scheduleConfig;
       }
 
       // ✅ Reminders processing
@@ -3166,6 +3300,9 @@ export default function CampaignModal({
       if (uploadedCustomers.length > 0) {
         campaignData.customers = uploadedCustomers;
       }
+      if (segmentId || mode === "edit") {
+        campaignData.segment_id = segmentId;
+      }
 
       console.log("🚀 Submitting campaign data:", campaignData);
 
@@ -3270,8 +3407,13 @@ export default function CampaignModal({
   const roundedProgress = useMemo(() => Math.round(progress), [progress]);
 
   const modalTitle = useMemo(
-    () => (mode === "edit" ? "Chỉnh Sửa Chiến Dịch" : "Tạo Chiến Dịch Mới"),
-    [mode]
+    () =>
+      mode === "edit"
+        ? "Chỉnh Sửa Chiến Dịch"
+        : templateData
+        ? `Tạo Chiến Dịch Từ Mẫu "${templateData.name}"`
+        : "Tạo Chiến Dịch Mới",
+    [mode, templateData]
   );
 
   const submitButtonText = useMemo(
@@ -3378,7 +3520,7 @@ export default function CampaignModal({
       <AnimatePresence mode="wait">
         {open && (
           <Dialog
-            key={`campaign-modal-${mode}-${initialData?.id || "new"}`}
+            key={`campaign-modal-${mode}-${initialData?.id || templateData?.id || "new"}`}
             open={open}
             onOpenChange={handleDialogOpenChange}
             modal={true}
@@ -3924,9 +4066,33 @@ export default function CampaignModal({
                                 autoPrefixPattern="[QC]"
                                 autoPrefixEnabledDefault={true}
                                 showAutoPrefixToggle={true}
+                                variables={campaignVariables}
                               />
                             </motion.div>
 
+                            {/* A/B test nội dung */}
+                            <CampaignVariantsEditor
+                              primaryText={messageContent}
+                              variants={messageVariants}
+                              onChange={setMessageVariants}
+                              customers={uploadedCustomers}
+                              insertButtons={messageInsertButtons}
+                              variables={campaignVariables}
+                              onValidationChange={setVariantValidationError}
+                            />
+
+                            <CampaignMessagePreview
+                              messages={
+                                messageVariants.length > 1
+                                  ? messageVariants.map((v) => ({
+                                      label: `Biến thể ${v.key}`,
+                                      text: v.key === "A" ? messageContent : v.text,
+                                    }))
+                                  : [{ label: "Nội dung", text: messageContent }]
+                              }
+                              customers={uploadedCustomers}
+                            />
+
                             {/* Attachment Type Selector */}
                             <motion.div
                               initial={{ opacity: 0, y: 10 }}
@@ -4089,6 +4255,7 @@ export default function CampaignModal({
                                             insertButtons={
                                               reminderInsertButtons
                                             }
+                                            variables={campaignVariables}
                                             // ✅ Bắt buộc phải có [QC] giống nội dung chính
                                             mustHavePatterns={["[QC]"]}
                                             autoPrefixPattern="[QC]"
@@ -5281,6 +5448,21 @@ export default function CampaignModal({
                               </motion.div>
                             </motion.div>
 
+                            <CampaignSegmentPicker
+                              customers={uploadedCustomers}
+                              segmentId={segmentId}
+                              onApply={(customers, id) => {
+                                setUploadedCustomers(customers);
+                                setSegmentId(id);
+                              }}
+                            />
+
+                            <ContactPolicyWarning
+                              suppressedCount={suppressedCount}
+                              cappedCount={cappedCount}
+                              policy={contactPolicy}
+                            />
+
                             {/* Preview uploaded customers */}
                             <AnimatePresence>
                               {uploadedCustomers.length > 0 && (
@@ -6068,6 +6250,23 @@ export default function CampaignModal({
                     >
                       Hủy
                     </Button>
+                    {selectedType && currentTab !== "basic" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShowSimulation(true)}
+                        disabled={!canSimulate}
+                        className="ml-2 text-blue-600 hover:bg-blue-50"
+                        title={
+                          canSimulate
+                            ? "Xem trước thời điểm gửi tin nhắn và nhắc lại"
+                            : "Vui lòng cấu hình lịch trình trước khi mô phỏng"
+                        }
+                      >
+                        <CalendarClock className="h-4 w-4 mr-1" />
+                        Mô phỏng lịch gửi
+                      </Button>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-2 flex-shrink-0">
@@ -6346,6 +6545,15 @@ export default function CampaignModal({
         onConfirm={confirmDialog.onConfirm}
         onCancel={() => setConfirmDialog({ ...confirmDialog, isOpen: false })}
       />
+
+      <CampaignSimulationDialog
+        open={showSimulation}
+        onOpenChange={setShowSimulation}
+        scheduleConfig={showSimulation ? buildScheduleConfig() : undefined}
+        reminders={needsReminderTab ? reminders.filter((r) => r.minutes > 0) : []}
+        customerCount={uploadedCustomers.length}
+        departmentId={initialData?.department?.id}
+      />
     </>
   );
 }
@@ -0,0 +1,229 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Layers, Loader2, RefreshCw, Save, Unlink } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { campaignSegmentAPI } from "@/lib/campaign-api";
+import { CampaignSegment, CampaignSegmentCustomer } from "@/types";
+import { SEGMENT_SOURCE_LABELS, applySegmentCustomers, diffSegmentCustomers } from "@/utils/campaignSegment";
+
+interface CampaignSegmentPickerProps {
+  customers: CampaignSegmentCustomer[];
+  segmentId: string | null;
+  onApply: (customers: CampaignSegmentCustomer[], segmentId: string | null) => void;
+}
+
+export default function CampaignSegmentPicker({ customers, segmentId, onApply }: CampaignSegmentPickerProps) {
+  const [segments, setSegments] = useState<CampaignSegment[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(segmentId);
+  const [segmentCustomers, setSegmentCustomers] = useState<CampaignSegmentCustomer[] | null>(null);
+  const [loadingCustomers, setLoadingCustomers] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [saveName, setSaveName] = useState("");
+  const [savingSegment, setSavingSegment] = useState(false);
+
+  const selected = segments.find((s) => s.id === selectedId) || null;
+  const attached = segments.find((s) => s.id === segmentId) || null;
+
+  const loadSegments = useCallback(async () => {
+    try {
+      setSegments((await campaignSegmentAPI.getAll()) || []);
+    } catch (error) {
+      console.error("Error fetching segments:", error);
+    }
+  }, []);
+
+  const loadSegmentCustomers = useCallback(async (id: string) => {
+    try {
+      setLoadingCustomers(true);
+      setSegmentCustomers(await campaignSegmentAPI.getCustomers(id));
+    } catch (error: any) {
+      console.error("Error fetching segment customers:", error);
+      toast.error(error.response?.data?.message || "Không thể tải khách của phân khúc");
+      setSegmentCustomers(null);
+    } finally {
+      setLoadingCustomers(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSegments();
+  }, [loadSegments]);
+
+  // Chiến dịch đang sửa đã gắn phân khúc -> chọn sẵn để xem chênh lệch
+  useEffect(() => {
+    setSelectedId(segmentId);
+  }, [segmentId]);
+
+  useEffect(() => {
+    if (selectedId) loadSegmentCustomers(selectedId);
+    else setSegmentCustomers(null);
+  }, [selectedId, loadSegmentCustomers]);
+
+  const diff = useMemo(
+    () => (segmentCustomers ? diffSegmentCustomers(customers, segmentCustomers) : null),
+    [customers, segmentCustomers]
+  );
+
+  const handleRefresh = async () => {
+    if (!selected) return;
+    try {
+      setRefreshing(true);
+      const updated = await campaignSegmentAPI.refresh(selected.id);
+      setSegments((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+      await loadSegmentCustomers(selected.id);
+      toast.success(`Đã làm mới "${updated.name}": ${updated.customer_count.toLocaleString()} khách`);
+    } catch (error: any) {
+      console.error("Error refreshing segment:", error);
+      toast.error(error.response?.data?.message || "Không thể làm mới phân khúc");
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleApply = (mode: "replace" | "merge") => {
+    if (!selected || !segmentCustomers) return;
+    onApply(applySegmentCustomers(customers, segmentCustomers, mode), selected.id);
+    toast.success(
+      mode === "replace"
+        ? `Đã dùng danh sách phân khúc "${selected.name}"`
+        : `Đã thêm ${diff?.added.length.toLocaleString() || 0} khách mới từ "${selected.name}"`
+    );
+  };
+
+  const handleSaveAsSegment = async () => {
+    if (!saveName.trim()) {
+      toast.error("Vui lòng nhập tên phân khúc");
+      return;
+    }
+    try {
+      setSavingSegment(true);
+      const segment = await campaignSegmentAPI.create({
+        name: saveName.trim(),
+        source: "import",
+        customers: customers.map(({ phone_number, full_name, salutation, metadata }) => ({
+          phone_number,
+          full_name,
+          salutation,
+          metadata,
+        })),
+      });
+      setSegments((prev) => [segment, ...prev]);
+      setSaveName("");
+      onApply(customers, segment.id);
+      toast.success(`Đã lưu ${segment.customer_count.toLocaleString()} khách thành phân khúc "${segment.name}"`);
+    } catch (error: any) {
+      console.error("Error saving segment:", error);
+      toast.error(error.response?.data?.message || "Không thể lưu phân khúc");
+    } finally {
+      setSavingSegment(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-indigo-100 bg-indigo-50/40 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-indigo-900">
+          <Layers className="h-4 w-4" />
+          Lấy khách từ phân khúc
+        </div>
+        {attached && (
+          <div className="flex items-center gap-2 text-xs">
+            <Badge variant="secondary">Đang gắn: {attached.name}</Badge>
+            <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => onApply(customers, null)}>
+              <Unlink className="h-3 w-3 mr-1" />
+              Bỏ gắn
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select value={selectedId || ""} onValueChange={setSelectedId}>
+          <SelectTrigger className="flex-1 bg-white">
+            <SelectValue placeholder={segments.length ? "Chọn phân khúc" : "Chưa có phân khúc nào"} />
+          </SelectTrigger>
+          <SelectContent>
+            {segments.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.name} · {SEGMENT_SOURCE_LABELS[s.source]} · {s.customer_count.toLocaleString()} khách
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected?.is_dynamic && (
+          <Button type="button" variant="outline" size="icon" onClick={handleRefresh} disabled={refreshing} title="Làm mới phân khúc">
+            <RefreshCw className={`h-4 w-4 ${refreshing ? "animate-spin" : ""}`} />
+          </Button>
+        )}
+      </div>
+
+      {loadingCustomers && (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Đang tải khách của phân khúc...
+        </div>
+      )}
+
+      {!loadingCustomers && selected && diff && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge variant="outline" className="border-green-200 bg-green-50 text-green-700">
+              +{diff.added.length.toLocaleString()} khách mới
+            </Badge>
+            <Badge variant="outline" className="border-red-200 bg-red-50 text-red-700">
+              -{diff.removed.length.toLocaleString()} không còn trong phân khúc
+            </Badge>
+            <Badge variant="outline" className="border-amber-200 bg-amber-50 text-amber-700">
+              {diff.changed.length.toLocaleString()} đổi tên / xưng hô / dữ liệu
+            </Badge>
+            <Badge variant="outline">{diff.unchanged.toLocaleString()} giữ nguyên</Badge>
+            {selected.last_refreshed_at && (
+              <span className="text-gray-500 self-center">
+                Cập nhật lúc {new Date(selected.last_refreshed_at).toLocaleString("vi-VN")}
+              </span>
+            )}
+          </div>
+          {diff.removed.length > 0 && (
+            <p className="text-xs text-gray-500">
+              Không còn trong phân khúc: {diff.removed.slice(0, 5).map((c) => c.full_name || c.phone_number).join(", ")}
+              {diff.removed.length > 5 && ` và ${diff.removed.length - 5} khách khác`}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => handleApply("replace")}
+              disabled={diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 && segmentId === selected.id}
+            >
+              Thay thế danh sách
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => handleApply("merge")} disabled={diff.added.length === 0}>
+              Chỉ thêm {diff.added.length.toLocaleString()} khách mới
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {customers.length > 0 && (
+        <div className="flex items-center gap-2 border-t border-indigo-100 pt-3">
+          <Input
+            className="flex-1 bg-white"
+            placeholder={`Lưu ${customers.length.toLocaleString()} khách hiện tại thành phân khúc mới`}
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+          />
+          <Button type="button" variant="outline" size="sm" onClick={handleSaveAsSegment} disabled={savingSegment || !saveName.trim()}>
+            {savingSegment ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Lưu phân khúc
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
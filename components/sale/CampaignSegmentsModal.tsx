@@ -0,0 +1,518 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Eye, FileSpreadsheet, Layers, Loader2, Plus, RefreshCw, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MultiSelectCombobox, Option } from "@/components/ui/MultiSelectCombobox";
+import { api } from "@/lib/api";
+import { campaignSegmentAPI } from "@/lib/campaign-api";
+import { useCampaignFilters } from "@/hooks/useCampaignFilters";
+import { useDebounce } from "@/hooks/useDebounce";
+import {
+  CampaignSegment,
+  CampaignSegmentCustomer,
+  CampaignSegmentFilters,
+  CampaignSegmentSource,
+} from "@/types";
+import { SEGMENT_SOURCE_LABELS, parseSegmentCustomersXlsx } from "@/utils/campaignSegment";
+
+interface CampaignSegmentsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canEdit: boolean;
+  showDepartmentFilter?: boolean;
+}
+
+const ALL = "all";
+
+const CUSTOMER_STATUS_LABELS: Record<NonNullable<CampaignSegmentFilters["customer_status"]>, string> = {
+  urgent: "Cần chăm sóc gấp",
+  reminder: "Cần nhắc lại",
+  normal: "Bình thường",
+};
+
+const formatDateTime = (value?: string | null) => {
+  if (!value) return "-";
+  const d = new Date(value);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${pad(d.getDate())}/${pad(d.getMonth() + 1)}/${d.getFullYear()} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export default function CampaignSegmentsModal({
+  open,
+  onOpenChange,
+  canEdit,
+  showDepartmentFilter = false,
+}: CampaignSegmentsModalProps) {
+  const { options } = useCampaignFilters();
+  const [tab, setTab] = useState("list");
+
+  // Danh sách phân khúc
+  const [segments, setSegments] = useState<CampaignSegment[]>([]);
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const debouncedSearch = useDebounce(search, 400);
+
+  // Tạo phân khúc
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [source, setSource] = useState<CampaignSegmentSource>("order_buyers");
+  const [filters, setFilters] = useState<CampaignSegmentFilters>({});
+  const [importedCustomers, setImportedCustomers] = useState<CampaignSegmentCustomer[]>([]);
+  const [importFileName, setImportFileName] = useState("");
+  const [productOptions, setProductOptions] = useState<Option[]>([]);
+  const [preview, setPreview] = useState<{ total: number; sample: CampaignSegmentCustomer[] } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadSegments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await campaignSegmentAPI.getAll({ search: debouncedSearch.trim() || undefined });
+      setSegments(data || []);
+    } catch (error) {
+      console.error("Error fetching segments:", error);
+      toast.error("Không thể tải danh sách phân khúc");
+    } finally {
+      setLoading(false);
+    }
+  }, [debouncedSearch]);
+
+  useEffect(() => {
+    if (open && tab === "list") loadSegments();
+  }, [open, tab, loadSegments]);
+
+  useEffect(() => {
+    if (!open || productOptions.length > 0) return;
+    api
+      .get("/orders/filter-options")
+      .then((response) => setProductOptions(response.data?.products || []))
+      .catch((error) => console.error("Error fetching product options:", error));
+  }, [open, productOptions.length]);
+
+  // Đổi nguồn / điều kiện thì kết quả xem trước không còn đúng
+  useEffect(() => {
+    setPreview(null);
+  }, [source, filters]);
+
+  const resetForm = () => {
+    setName("");
+    setDescription("");
+    setSource("order_buyers");
+    setFilters({});
+    setImportedCustomers([]);
+    setImportFileName("");
+    setPreview(null);
+  };
+
+  const updateFilters = (patch: Partial<CampaignSegmentFilters>) => setFilters((prev) => ({ ...prev, ...patch }));
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const customers = await parseSegmentCustomersXlsx(file);
+      if (customers.length === 0) {
+        toast.error("File không có khách hàng hợp lệ");
+        return;
+      }
+      setImportedCustomers(customers);
+      setImportFileName(file.name);
+      if (!name.trim()) setName(file.name.replace(/\.xlsx?$/i, ""));
+    } catch (error: any) {
+      console.error("Error parsing segment file:", error);
+      toast.error(error.message || "Không thể đọc file Excel");
+    }
+  };
+
+  const handlePreview = async () => {
+    if (source === "import") return;
+    try {
+      setPreviewing(true);
+      setPreview(await campaignSegmentAPI.preview({ source, filters }));
+    } catch (error: any) {
+      console.error("Error previewing segment:", error);
+      toast.error(error.response?.data?.message || "Không thể xem trước phân khúc");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error("Vui lòng nhập tên phân khúc");
+      return;
+    }
+    if (source === "import" && importedCustomers.length === 0) {
+      toast.error("Vui lòng chọn file Excel khách hàng");
+      return;
+    }
+    if (source === "order_buyers" && filters.from_date && filters.to_date && filters.from_date > filters.to_date) {
+      toast.error("Ngày bắt đầu phải trước ngày kết thúc");
+      return;
+    }
+    try {
+      setSaving(true);
+      const segment = await campaignSegmentAPI.create({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        source,
+        filters: source === "import" ? {} : filters,
+        customers: source === "import" ? importedCustomers : undefined,
+      });
+      toast.success(`Đã tạo phân khúc "${segment.name}" (${segment.customer_count.toLocaleString()} khách)`);
+      resetForm();
+      setTab("list");
+    } catch (error: any) {
+      console.error("Error creating segment:", error);
+      toast.error(error.response?.data?.message || "Không thể tạo phân khúc");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRefresh = async (segment: CampaignSegment) => {
+    try {
+      setBusyId(segment.id);
+      const updated = await campaignSegmentAPI.refresh(segment.id);
+      setSegments((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+      toast.success(`Đã làm mới "${segment.name}": ${updated.customer_count.toLocaleString()} khách`);
+    } catch (error: any) {
+      console.error("Error refreshing segment:", error);
+      toast.error(error.response?.data?.message || "Không thể làm mới phân khúc");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (segment: CampaignSegment) => {
+    if (!window.confirm(`Xóa phân khúc "${segment.name}"? Các chiến dịch đã gắn sẽ giữ nguyên danh sách khách hiện tại.`)) return;
+    try {
+      setBusyId(segment.id);
+      await campaignSegmentAPI.delete(segment.id);
+      setSegments((prev) => prev.filter((s) => s.id !== segment.id));
+      toast.success(`Đã xóa phân khúc "${segment.name}"`);
+    } catch (error: any) {
+      console.error("Error deleting segment:", error);
+      toast.error(error.response?.data?.message || "Không thể xóa phân khúc");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describeFilters = (segment: CampaignSegment) => {
+    const f = segment.filters || {};
+    const parts: string[] = [];
+    if (segment.source === "order_buyers") {
+      if (f.products?.length) {
+        const labels = f.products.map(
+          (id) => productOptions.find((p) => String(p.value) === String(id))?.label || id
+        );
+        parts.push(`SP: ${labels.join(", ")}`);
+      }
+      if (f.from_date || f.to_date) parts.push(`${f.from_date || "..."} → ${f.to_date || "..."}`);
+    }
+    if (segment.source === "auto_greeting") {
+      if (f.customer_status) parts.push(CUSTOMER_STATUS_LABELS[f.customer_status]);
+      if (f.conversation_type) parts.push(f.conversation_type === "group" ? "Nhóm" : "Cá nhân");
+      if (f.active_only) parts.push("Đang bật");
+    }
+    return parts.join(" · ") || "-";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-indigo-600" />
+            Phân khúc khách hàng
+          </DialogTitle>
+          <DialogDescription>
+            Danh sách khách đặt tên sẵn, có thể gắn vào bất kỳ chiến dịch nào ở bước chọn khách hàng
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab} className="flex-1 min-h-0 flex flex-col">
+          <TabsList>
+            <TabsTrigger value="list">Danh sách phân khúc</TabsTrigger>
+            {canEdit && <TabsTrigger value="create">Tạo phân khúc</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="list" className="flex-1 min-h-0 flex flex-col gap-3">
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                <Input className="pl-8" placeholder="Tìm theo tên phân khúc" value={search} onChange={(e) => setSearch(e.target.value)} />
+              </div>
+              <span className="text-sm text-gray-500">{segments.length.toLocaleString()} phân khúc</span>
+            </div>
+            <div className="flex-1 overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tên phân khúc</TableHead>
+                    <TableHead>Nguồn</TableHead>
+                    <TableHead>Điều kiện</TableHead>
+                    <TableHead className="text-right">Số khách</TableHead>
+                    <TableHead>Cập nhật</TableHead>
+                    {canEdit && <TableHead className="w-20" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading && segments.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center text-gray-500">Đang tải...</TableCell>
+                    </TableRow>
+                  ) : segments.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center text-gray-500">Chưa có phân khúc nào</TableCell>
+                    </TableRow>
+                  ) : (
+                    segments.map((segment) => (
+                      <TableRow key={segment.id}>
+                        <TableCell>
+                          <div className="font-medium">{segment.name}</div>
+                          {segment.description && <div className="text-xs text-gray-500">{segment.description}</div>}
+                          {segment.created_by && <div className="text-xs text-gray-400">{segment.created_by.fullName}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{SEGMENT_SOURCE_LABELS[segment.source] || segment.source}</Badge>
+                          {segment.is_dynamic && <Badge variant="secondary" className="ml-1">Động</Badge>}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600 max-w-[220px]">{describeFilters(segment)}</TableCell>
+                        <TableCell className="text-right font-medium">{segment.customer_count.toLocaleString()}</TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {formatDateTime(segment.last_refreshed_at || segment.created_at)}
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              {segment.is_dynamic && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 w-8 p-0"
+                                  onClick={() => handleRefresh(segment)}
+                                  disabled={busyId === segment.id}
+                                  title="Làm mới danh sách khách"
+                                >
+                                  <RefreshCw className={`h-4 w-4 ${busyId === segment.id ? "animate-spin" : ""}`} />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
+                                onClick={() => handleDelete(segment)}
+                                disabled={busyId === segment.id}
+                                title="Xóa phân khúc"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+
+          {canEdit && (
+            <TabsContent value="create" className="flex-1 min-h-0 overflow-auto space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Tên phân khúc</Label>
+                  <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="VD: Khách mua sản phẩm A quý 3" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Nguồn khách hàng</Label>
+                  <Select value={source} onValueChange={(v) => setSource(v as CampaignSegmentSource)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SEGMENT_SOURCE_LABELS) as CampaignSegmentSource[]).map((key) => (
+                        <SelectItem key={key} value={key}>{SEGMENT_SOURCE_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <Label>Mô tả</Label>
+                  <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Không bắt buộc" />
+                </div>
+              </div>
+
+              {source === "import" && (
+                <div className="rounded-lg border border-dashed p-4 space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <FileSpreadsheet className="h-4 w-4 text-green-600" />
+                    File Excel khách hàng
+                  </Label>
+                  <Input type="file" accept=".xlsx" onChange={handleImportFile} />
+                  <p className="text-xs text-gray-500">
+                    Cùng định dạng file mẫu của chiến dịch: TÊN KHÁCH HÀNG, SỐ ĐIỆN THOẠI, NGƯỜI LIÊN HỆ (tùy chọn).
+                    Phân khúc import là danh sách tĩnh.
+                  </p>
+                  {importedCustomers.length > 0 && (
+                    <p className="text-sm text-green-700">
+                      {importFileName}: <strong>{importedCustomers.length.toLocaleString()}</strong> khách hợp lệ
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {source === "order_buyers" && (
+                <div className="rounded-lg border p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>Sản phẩm đã mua</Label>
+                    <MultiSelectCombobox
+                      options={productOptions}
+                      value={filters.products || []}
+                      onChange={(vals) => updateFilters({ products: vals.map(String) })}
+                      placeholder="Tất cả sản phẩm"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Mua từ ngày</Label>
+                    <Input
+                      type="date"
+                      value={filters.from_date || ""}
+                      max={filters.to_date || undefined}
+                      onChange={(e) => updateFilters({ from_date: e.target.value || undefined })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Đến ngày</Label>
+                    <Input
+                      type="date"
+                      value={filters.to_date || ""}
+                      min={filters.from_date || undefined}
+                      onChange={(e) => updateFilters({ to_date: e.target.value || undefined })}
+                    />
+                  </div>
+                  {showDepartmentFilter && (
+                    <div className="space-y-1 md:col-span-2">
+                      <Label>Phòng ban</Label>
+                      <MultiSelectCombobox
+                        options={options.departments}
+                        value={filters.departments || []}
+                        onChange={(vals) => updateFilters({ departments: vals.map(String) })}
+                        placeholder="Tất cả phòng ban"
+                      />
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 md:col-span-2">
+                    Phân khúc động: danh sách khách được tính lại theo điều kiện này mỗi khi làm mới.
+                  </p>
+                </div>
+              )}
+
+              {source === "auto_greeting" && (
+                <div className="rounded-lg border p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label>Trạng thái khách</Label>
+                    <Select
+                      value={filters.customer_status || ALL}
+                      onValueChange={(v) =>
+                        updateFilters({ customer_status: v === ALL ? undefined : (v as CampaignSegmentFilters["customer_status"]) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>Tất cả</SelectItem>
+                        {Object.entries(CUSTOMER_STATUS_LABELS).map(([key, label]) => (
+                          <SelectItem key={key} value={key}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Loại hội thoại</Label>
+                    <Select
+                      value={filters.conversation_type || ALL}
+                      onValueChange={(v) =>
+                        updateFilters({ conversation_type: v === ALL ? undefined : (v as "group" | "private") })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>Tất cả</SelectItem>
+                        <SelectItem value="private">Cá nhân</SelectItem>
+                        <SelectItem value="group">Nhóm</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between md:col-span-2">
+                    <Label>Chỉ lấy khách đang bật chào tự động</Label>
+                    <Switch checked={!!filters.active_only} onCheckedChange={(checked) => updateFilters({ active_only: checked })} />
+                  </div>
+                  <p className="text-xs text-gray-500 md:col-span-2">
+                    Chỉ khách có số điện thoại mới được đưa vào phân khúc.
+                  </p>
+                </div>
+              )}
+
+              {source !== "import" && (
+                <div className="space-y-2">
+                  <Button variant="outline" onClick={handlePreview} disabled={previewing}>
+                    {previewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                    Xem trước
+                  </Button>
+                  {preview && (
+                    <div className="rounded-lg bg-indigo-50 p-3 text-sm text-indigo-800">
+                      <p>
+                        Phân khúc hiện có <strong>{preview.total.toLocaleString()}</strong> khách
+                      </p>
+                      {preview.sample.length > 0 && (
+                        <p className="text-xs text-indigo-600 mt-1">
+                          {preview.sample.map((c) => `${c.full_name} (${c.phone_number})`).join(", ")}
+                          {preview.total > preview.sample.length && ", ..."}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={resetForm} disabled={saving}>
+                  Nhập lại
+                </Button>
+                <Button onClick={handleCreate} disabled={saving}>
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                  Tạo phân khúc
+                </Button>
+              </div>
+            </TabsContent>
+          )}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
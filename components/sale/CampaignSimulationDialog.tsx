@@ -0,0 +1,194 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Bell, CalendarClock, Loader2, Send } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useHolidays } from "@/hooks/useHolidays";
+import { useCurrentUser } from "@/contexts/CurrentUserContext";
+import { ScheduleService } from "@/lib/schedule-api";
+import { CampaignFormData } from "@/types";
+import { DepartmentSchedule } from "@/types/schedule";
+import {
+  SIMULATION_DAY_STATUS_LABELS,
+  SimulationDayStatus,
+  simulateCampaignSchedule,
+} from "@/utils/campaignSimulation";
+
+interface CampaignSimulationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scheduleConfig: CampaignFormData["schedule_config"];
+  reminders: Array<{ minutes: number }>;
+  customerCount: number;
+  // Phòng ban của chiến dịch (edit mode), mặc định lấy phòng ban đầu tiên của user
+  departmentId?: number;
+}
+
+const HORIZON_OPTIONS = [7, 14, 30];
+
+const DAY_LABELS = ["", "CN", "T2", "T3", "T4", "T5", "T6", "T7"];
+
+const STATUS_STYLES: Record<SimulationDayStatus, string> = {
+  send: "bg-blue-500",
+  holiday: "bg-red-400",
+  off_day: "bg-gray-300",
+  outside_department_schedule: "bg-orange-400",
+  passed: "bg-gray-300",
+  completed: "bg-green-400",
+};
+
+export default function CampaignSimulationDialog({
+  open,
+  onOpenChange,
+  scheduleConfig,
+  reminders,
+  customerCount,
+  departmentId,
+}: CampaignSimulationDialogProps) {
+  const { currentUser } = useCurrentUser();
+  const { holidaysSet, loading: loadingHolidays } = useHolidays();
+  const [horizon, setHorizon] = useState(7);
+  const [schedules, setSchedules] = useState<DepartmentSchedule[]>([]);
+  const [loadingSchedules, setLoadingSchedules] = useState(false);
+
+  const resolvedDepartmentId = departmentId || currentUser?.departments?.[0]?.id;
+
+  useEffect(() => {
+    if (!open || !resolvedDepartmentId) return;
+    let cancelled = false;
+    setLoadingSchedules(true);
+    ScheduleService.findByDepartment(resolvedDepartmentId)
+      .then((data) => {
+        if (!cancelled) setSchedules(Array.isArray(data) ? data : []);
+      })
+      .catch((error) => {
+        console.error("Error fetching department schedules:", error);
+        if (!cancelled) setSchedules([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSchedules(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, resolvedDepartmentId]);
+
+  const simulation = useMemo(
+    () =>
+      simulateCampaignSchedule({
+        scheduleConfig,
+        reminders,
+        customerCount,
+        holidays: holidaysSet,
+        departmentSchedules: schedules,
+        days: horizon,
+      }),
+    [scheduleConfig, reminders, customerCount, holidaysSet, schedules, horizon]
+  );
+
+  const loading = loadingHolidays || loadingSchedules;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-blue-600" />
+            Mô phỏng lịch gửi
+          </DialogTitle>
+          <DialogDescription>
+            Dự kiến thời điểm gửi tin nhắn và nhắc lại, đã trừ ngày nghỉ lễ và lịch chạy của phòng ban
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Select value={String(horizon)} onValueChange={(v) => setHorizon(Number(v))}>
+            <SelectTrigger className="w-32 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HORIZON_OPTIONS.map((d) => (
+                <SelectItem key={d} value={String(d)}>
+                  {d} ngày tới
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-gray-600">
+            {simulation.totalInitial.toLocaleString()} tin đầu · tối đa {simulation.totalReminders.toLocaleString()} tin nhắc lại
+          </span>
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+        </div>
+
+        {!loading && !simulation.hasDepartmentSchedule && (
+          <div className="flex items-start gap-2 rounded-md border border-orange-200 bg-orange-50 p-2 text-xs text-orange-700">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            Phòng ban chưa có lịch chạy phù hợp với loại chiến dịch này, kết quả chưa tính giới hạn theo lịch phòng ban.
+          </div>
+        )}
+        {customerCount === 0 && (
+          <p className="text-xs text-gray-500">Chưa có khách hàng, chỉ hiển thị các mốc thời gian gửi.</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto pr-1">
+          {simulation.days.length === 0 ? (
+            <div className="h-32 flex items-center justify-center text-sm text-gray-500">
+              Chưa cấu hình đủ lịch trình để mô phỏng
+            </div>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+              {simulation.days.map((day) => (
+                <li key={day.date} className="ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white ${STATUS_STYLES[day.status]}`}
+                  />
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {DAY_LABELS[day.dayOfWeek]}, {day.date.split("-").reverse().join("/")}
+                    </span>
+                    {day.status !== "send" && (
+                      <Badge variant="outline" className="text-xs text-gray-500">
+                        {SIMULATION_DAY_STATUS_LABELS[day.status]}
+                      </Badge>
+                    )}
+                  </div>
+                  {day.events.map((event) => (
+                    <div key={event.label} className="mt-1 flex items-center gap-2 text-xs text-gray-700">
+                      {event.kind === "initial" ? (
+                        <Send className="h-3 w-3 text-blue-600" />
+                      ) : (
+                        <Bell className="h-3 w-3 text-orange-500" />
+                      )}
+                      <span className="w-24 font-mono">
+                        {event.from === event.to ? event.from : `${event.from}–${event.to}`}
+                      </span>
+                      <span>{event.label}</span>
+                      <span className="text-gray-500">· {event.customers.toLocaleString()} khách</span>
+                      {event.skipped > 0 && (
+                        <span className="text-red-600">· {event.skipped.toLocaleString()} khách ngoài khung giờ</span>
+                      )}
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {simulation.totalSkipped > 0 && (
+          <p className="text-xs text-red-600">
+            Có lượt nhắc lại rơi ra ngoài khung giờ chạy và sẽ không được gửi. Cân nhắc giảm thời gian chờ hoặc mở rộng khung giờ.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
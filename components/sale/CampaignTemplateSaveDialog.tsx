@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { campaignTemplateAPI } from "@/lib/campaign-api";
+import { CampaignTemplateScope, CampaignWithDetails } from "@/types";
+import { TEMPLATE_SCOPE_LABELS, buildTemplateContent } from "@/utils/campaignUtils";
+
+interface CampaignTemplateSaveDialogProps {
+  campaign: CampaignWithDetails | null;
+  onClose: () => void;
+}
+
+export default function CampaignTemplateSaveDialog({ campaign, onClose }: CampaignTemplateSaveDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [scope, setScope] = useState<CampaignTemplateScope>("private");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!campaign) return;
+    setName(campaign.name);
+    setDescription("");
+    setScope("private");
+  }, [campaign]);
+
+  const handleSave = async () => {
+    if (!campaign) return;
+    if (!name.trim()) {
+      toast.error("Vui lòng nhập tên mẫu");
+      return;
+    }
+    try {
+      setSaving(true);
+      await campaignTemplateAPI.create({
+        name: name.trim(),
+        description: description.trim() || null,
+        scope,
+        ...buildTemplateContent(campaign),
+      });
+      toast.success(`Đã lưu mẫu "${name.trim()}"`);
+      onClose();
+    } catch (error: any) {
+      console.error("Error saving campaign template:", error);
+      toast.error(error.response?.data?.message || "Không thể lưu mẫu chiến dịch");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookmarkPlus className="h-5 w-5 text-indigo-600" />
+            Lưu làm mẫu chiến dịch
+          </DialogTitle>
+          <DialogDescription>
+            Lưu nội dung tin nhắn, tin nhắc lại, lịch gửi và cấu hình email báo cáo. Danh sách khách hàng không được lưu.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Tên mẫu</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Mô tả</Label>
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Không bắt buộc" />
+          </div>
+          <div className="space-y-1">
+            <Label>Phạm vi</Label>
+            <Select value={scope} onValueChange={(v) => setScope(v as CampaignTemplateScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TEMPLATE_SCOPE_LABELS) as CampaignTemplateScope[]).map((key) => (
+                  <SelectItem key={key} value={key}>{TEMPLATE_SCOPE_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Hủy
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Lưu mẫu
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
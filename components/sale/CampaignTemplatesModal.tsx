@@ -0,0 +1,240 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { BookCopy, Paperclip, Rocket, Search, Share2, Trash2, UserRound } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { campaignTemplateAPI } from "@/lib/campaign-api";
+import { useDebounce } from "@/hooks/useDebounce";
+import { usePermission } from "@/hooks/usePermission";
+import { useCurrentUser } from "@/contexts/CurrentUserContext";
+import { CampaignTemplate, CampaignTemplateScope, CampaignType } from "@/types";
+import { TEMPLATE_SCOPE_LABELS } from "@/utils/campaignUtils";
+
+interface CampaignTemplatesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  campaignTypeOptions: Array<{ value: string; label: string }>;
+  onUseTemplate: (template: CampaignTemplate) => void;
+}
+
+const ALL = "all";
+
+export default function CampaignTemplatesModal({
+  open,
+  onOpenChange,
+  campaignTypeOptions,
+  onUseTemplate,
+}: CampaignTemplatesModalProps) {
+  const { currentUser } = useCurrentUser();
+  const { canAccess } = usePermission();
+  const canCreate = canAccess("chien-dich", "create");
+  const isAdmin = canAccess("admin", "read");
+
+  const [templates, setTemplates] = useState<CampaignTemplate[]>([]);
+  const [search, setSearch] = useState("");
+  const [scope, setScope] = useState<CampaignTemplateScope | typeof ALL>(ALL);
+  const [campaignType, setCampaignType] = useState<string>(ALL);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const debouncedSearch = useDebounce(search, 400);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await campaignTemplateAPI.getAll({
+        search: debouncedSearch.trim() || undefined,
+        scope: scope === ALL ? undefined : scope,
+        campaign_type: campaignType === ALL ? undefined : (campaignType as CampaignType),
+      });
+      setTemplates(data || []);
+    } catch (error) {
+      console.error("Error fetching campaign templates:", error);
+      toast.error("Không thể tải thư viện mẫu");
+    } finally {
+      setLoading(false);
+    }
+  }, [debouncedSearch, scope, campaignType]);
+
+  useEffect(() => {
+    if (open) loadTemplates();
+  }, [open, loadTemplates]);
+
+  const isOwner = (template: CampaignTemplate) =>
+    isAdmin || (!!currentUser && template.created_by?.id === currentUser.id);
+
+  const handleToggleScope = async (template: CampaignTemplate) => {
+    const nextScope: CampaignTemplateScope = template.scope === "private" ? "department" : "private";
+    try {
+      setBusyId(template.id);
+      const updated = await campaignTemplateAPI.update(template.id, { scope: nextScope });
+      setTemplates((prev) => prev.map((t) => (t.id === template.id ? { ...t, ...updated } : t)));
+      toast.success(nextScope === "department" ? "Đã chia sẻ mẫu cho phòng ban" : "Đã chuyển mẫu về cá nhân");
+    } catch (error: any) {
+      console.error("Error updating template scope:", error);
+      toast.error(error.response?.data?.message || "Không thể cập nhật mẫu");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (template: CampaignTemplate) => {
+    if (!window.confirm(`Xóa mẫu "${template.name}"?`)) return;
+    try {
+      setBusyId(template.id);
+      await campaignTemplateAPI.delete(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      toast.success(`Đã xóa mẫu "${template.name}"`);
+    } catch (error: any) {
+      console.error("Error deleting template:", error);
+      toast.error(error.response?.data?.message || "Không thể xóa mẫu");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const getTypeLabel = (value: string) => campaignTypeOptions.find((o) => o.value === value)?.label || value;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookCopy className="h-5 w-5 text-indigo-600" />
+            Thư viện mẫu chiến dịch
+          </DialogTitle>
+          <DialogDescription>
+            Bắt đầu chiến dịch mới từ nội dung, tin nhắc lại, lịch gửi và email báo cáo đã lưu. Bước khách hàng để trống.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Tabs value={scope} onValueChange={(v) => setScope(v as CampaignTemplateScope | typeof ALL)}>
+            <TabsList>
+              <TabsTrigger value={ALL}>Tất cả</TabsTrigger>
+              <TabsTrigger value="private">Của tôi</TabsTrigger>
+              <TabsTrigger value="department">Phòng ban</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            <Input className="pl-8" placeholder="Tìm theo tên mẫu" value={search} onChange={(e) => setSearch(e.target.value)} />
+          </div>
+          <Select value={campaignType} onValueChange={setCampaignType}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Tất cả loại chiến dịch</SelectItem>
+              {campaignTypeOptions.map((o) => (
+                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex-1 overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mẫu</TableHead>
+                <TableHead>Loại chiến dịch</TableHead>
+                <TableHead>Phạm vi</TableHead>
+                <TableHead>Người tạo</TableHead>
+                <TableHead className="text-right">Lượt dùng</TableHead>
+                <TableHead className="w-40" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && templates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-gray-500">Đang tải...</TableCell>
+                </TableRow>
+              ) : templates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-gray-500">
+                    Chưa có mẫu nào. Chọn &quot;Lưu làm mẫu&quot; ở menu thao tác của một chiến dịch để tạo mẫu.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell className="max-w-[280px]">
+                      <div className="font-medium">{template.name}</div>
+                      {template.description && <div className="text-xs text-gray-500">{template.description}</div>}
+                      <div className="text-xs text-gray-400 truncate" title={template.messages?.text}>
+                        {template.messages?.attachment && <Paperclip className="inline h-3 w-3 mr-1" />}
+                        {template.messages?.text}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{getTypeLabel(template.campaign_type)}</TableCell>
+                    <TableCell>
+                      <Badge variant={template.scope === "department" ? "secondary" : "outline"}>
+                        {template.scope === "department" ? (
+                          <Share2 className="h-3 w-3 mr-1" />
+                        ) : (
+                          <UserRound className="h-3 w-3 mr-1" />
+                        )}
+                        {template.scope === "department" && template.department
+                          ? template.department.name
+                          : TEMPLATE_SCOPE_LABELS[template.scope]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{template.created_by?.fullName || "-"}</TableCell>
+                    <TableCell className="text-right">{(template.usage_count || 0).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        {canCreate && (
+                          <Button size="sm" onClick={() => onUseTemplate(template)}>
+                            <Rocket className="h-4 w-4 mr-1" />
+                            Dùng mẫu
+                          </Button>
+                        )}
+                        {isOwner(template) && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              onClick={() => handleToggleScope(template)}
+                              disabled={busyId === template.id}
+                              title={template.scope === "private" ? "Chia sẻ cho phòng ban" : "Chuyển về cá nhân"}
+                            >
+                              <Share2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
+                              onClick={() => handleDelete(template)}
+                              disabled={busyId === template.id}
+                              title="Xóa mẫu"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
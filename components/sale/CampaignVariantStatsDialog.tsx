@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Download, FlaskConical, Loader2, Trophy } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { campaignAPI } from "@/lib/campaign-api";
+import { CampaignVariantStat, CampaignWithDetails } from "@/types";
+
+interface CampaignVariantStatsDialogProps {
+  campaign: CampaignWithDetails | null;
+  onClose: () => void;
+}
+
+// Số lượt gửi tối thiểu để coi tỉ lệ phản hồi của biến thể là đáng tin
+const MIN_SENT_FOR_WINNER = 30;
+
+export default function CampaignVariantStatsDialog({
+  campaign,
+  onClose,
+}: CampaignVariantStatsDialogProps) {
+  const [stats, setStats] = useState<CampaignVariantStat[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!campaign) return;
+    let cancelled = false;
+    setStats(campaign.variant_stats || []);
+    setLoading(true);
+    campaignAPI
+      .getVariantStats(campaign.id)
+      .then((data) => {
+        if (!cancelled) setStats(Array.isArray(data) ? data : []);
+      })
+      .catch((error) => {
+        console.error("Error fetching variant stats:", error);
+        if (!cancelled) toast.error("Không thể tải thống kê biến thể");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [campaign]);
+
+  const variants = campaign?.messages?.variants || [];
+  const eligible = stats.filter((s) => s.sent >= MIN_SENT_FOR_WINNER);
+  const winner =
+    eligible.length > 1
+      ? eligible.reduce((best, s) => (s.reply_rate > best.reply_rate ? s : best))
+      : null;
+
+  const handleExport = async () => {
+    if (!campaign) return;
+    try {
+      setExporting(true);
+      const data = await campaignAPI.exportCampaignSummary(campaign.id, {
+        include_variants: true,
+      });
+      const blob = new Blob([data], {
+        type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/[:.]/g, "-");
+      link.download = `${campaign.name.replace(/[^a-zA-Z0-9]/g, "_")}_ab_report_${timestamp}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+      toast.success("Đã xuất báo cáo A/B");
+    } catch (error) {
+      console.error("Error exporting variant summary:", error);
+      toast.error("Không thể xuất báo cáo");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5 text-purple-600" />
+            So sánh biến thể - {campaign?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Tỉ lệ khách hàng trả lời theo từng phiên bản nội dung tin nhắn đầu tiên
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && stats.length === 0 ? (
+          <div className="h-40 flex items-center justify-center text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Đang tải thống kê...
+          </div>
+        ) : stats.length === 0 ? (
+          <div className="h-40 flex items-center justify-center text-gray-500">
+            Chưa có dữ liệu gửi cho các biến thể
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {stats.map((stat) => {
+              const variant = variants.find((v) => v.key === stat.key);
+              const isWinner = winner?.key === stat.key;
+              return (
+                <div
+                  key={stat.key}
+                  className={`rounded-lg border p-3 ${isWinner ? "border-green-300 bg-green-50" : ""}`}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <Badge variant="outline" className="border-purple-300 text-purple-700">
+                      Biến thể {stat.key}
+                    </Badge>
+                    {variant && <span className="text-xs text-gray-500">Tỉ trọng {variant.weight}%</span>}
+                    {isWinner && (
+                      <span className="flex items-center gap-1 text-xs font-medium text-green-700">
+                        <Trophy className="h-3 w-3" />
+                        Phản hồi tốt nhất
+                      </span>
+                    )}
+                    <span className="ml-auto text-lg font-semibold">{stat.reply_rate.toFixed(1)}%</span>
+                  </div>
+                  <Progress value={stat.reply_rate} className="h-2 mb-2" />
+                  <div className="flex gap-4 text-xs text-gray-600">
+                    <span>{stat.customers.toLocaleString()} khách hàng</span>
+                    <span>{stat.sent.toLocaleString()} đã gửi</span>
+                    <span>{stat.replied.toLocaleString()} đã trả lời</span>
+                  </div>
+                  {variant?.text && (
+                    <p className="mt-2 text-xs text-gray-500 whitespace-pre-wrap line-clamp-2">{variant.text}</p>
+                  )}
+                </div>
+              );
+            })}
+            {!winner && (
+              <p className="text-xs text-gray-500">
+                Cần ít nhất {MIN_SENT_FOR_WINNER} lượt gửi mỗi biến thể để so sánh kết quả.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={handleExport} disabled={exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Xuất báo cáo
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { FlaskConical, Plus, Scale, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import EnhancedTextarea from "../common/EnhancedTextarea";
+import { CampaignMessageVariant } from "@/types";
+import { countVariantSplit, evenVariantWeights, VARIANT_KEYS } from "@/utils/campaignUtils";
+
+interface CampaignVariantsEditorProps {
+  // Biến thể A dùng chung nội dung chính của chiến dịch
+  primaryText: string;
+  variants: CampaignMessageVariant[];
+  onChange: (variants: CampaignMessageVariant[]) => void;
+  customers: Array<{ phone_number: string }>;
+  insertButtons: React.ComponentProps<typeof EnhancedTextarea>["insertButtons"];
+  variables?: React.ComponentProps<typeof EnhancedTextarea>["variables"];
+  onValidationChange: (error: string | null) => void;
+}
+
+export default function CampaignVariantsEditor({
+  primaryText,
+  variants,
+  onChange,
+  customers,
+  insertButtons,
+  variables,
+  onValidationChange,
+}: CampaignVariantsEditorProps) {
+  const [textErrors, setTextErrors] = useState<Record<string, string | null>>({});
+  const enabled = variants.length > 1;
+
+  const rebalance = (list: CampaignMessageVariant[]) => {
+    const weights = evenVariantWeights(list.length);
+    return list.map((v, i) => ({ ...v, key: VARIANT_KEYS[i], weight: weights[i] }));
+  };
+
+  const handleToggle = (checked: boolean) => {
+    setTextErrors({});
+    onChange(
+      checked
+        ? rebalance([
+            { key: "A", text: primaryText, weight: 50 },
+            { key: "B", text: "", weight: 50 },
+          ])
+        : []
+    );
+  };
+
+  const addVariant = () => {
+    if (variants.length >= VARIANT_KEYS.length) return;
+    onChange(rebalance([...variants, { key: "", text: "", weight: 0 }]));
+  };
+
+  const removeVariant = (key: string) => {
+    const rest = variants.filter((v) => v.key !== key);
+    setTextErrors({});
+    onChange(rest.length > 1 ? rebalance(rest) : []);
+  };
+
+  const updateVariant = (key: string, patch: Partial<CampaignMessageVariant>) => {
+    onChange(variants.map((v) => (v.key === key ? { ...v, ...patch } : v)));
+  };
+
+  const handleTextValidation = useCallback((key: string, error: string | null) => {
+    setTextErrors((prev) => (prev[key] === error ? prev : { ...prev, [key]: error }));
+  }, []);
+
+  const totalWeight = variants.reduce((sum, v) => sum + (Number(v.weight) || 0), 0);
+
+  const validationError = useMemo(() => {
+    if (!enabled) return null;
+    if (totalWeight !== 100) return `Tổng tỉ trọng các biến thể phải bằng 100% (hiện tại ${totalWeight}%)`;
+    if (variants.some((v) => v.weight <= 0)) return "Mỗi biến thể phải có tỉ trọng lớn hơn 0%";
+    const empty = variants.find((v) => v.key !== "A" && !v.text.trim());
+    if (empty) return `Biến thể ${empty.key} chưa có nội dung`;
+    const textError = Object.entries(textErrors).find(([key, err]) => err && variants.some((v) => v.key === key));
+    if (textError) return `Biến thể ${textError[0]}: ${textError[1]}`;
+    return null;
+  }, [enabled, totalWeight, variants, textErrors]);
+
+  useEffect(() => {
+    onValidationChange(validationError);
+  }, [validationError, onValidationChange]);
+
+  const split = useMemo(
+    () => (enabled && totalWeight === 100 ? countVariantSplit(customers, variants) : null),
+    [enabled, totalWeight, customers, variants]
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg border border-dashed border-purple-200 bg-purple-50/40 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-sm font-medium flex items-center gap-2">
+          <FlaskConical className="h-4 w-4 text-purple-600" />
+          Thử nghiệm A/B nội dung
+        </Label>
+        <Switch checked={enabled} onCheckedChange={handleToggle} />
+      </div>
+
+      {!enabled ? (
+        <p className="text-xs text-gray-500">
+          Bật để gửi nhiều phiên bản nội dung khác nhau. Mỗi khách hàng luôn nhận cùng một phiên bản
+          (chia theo số điện thoại) và tỉ lệ phản hồi từng phiên bản được thống kê riêng.
+        </p>
+      ) : (
+        <>
+          {variants.map((variant) => (
+            <div key={variant.key} className="rounded-md border bg-white p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="border-purple-300 text-purple-700">
+                  Biến thể {variant.key}
+                </Badge>
+                <div className="flex items-center gap-1 ml-auto">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={99}
+                    value={variant.weight}
+                    onChange={(e) => updateVariant(variant.key, { weight: Math.max(0, Math.min(100, Number(e.target.value) || 0)) })}
+                    className="h-8 w-20 text-right"
+                  />
+                  <span className="text-sm text-gray-500">%</span>
+                  {split && (
+                    <span className="text-xs text-gray-500 ml-2 w-28 text-right">
+                      {(split[variant.key] || 0).toLocaleString()} khách hàng
+                    </span>
+                  )}
+                  {variant.key !== "A" && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-500 hover:text-red-600"
+                      onClick={() => removeVariant(variant.key)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {variant.key === "A" ? (
+                <p className="text-xs text-gray-500 whitespace-pre-wrap line-clamp-3">
+                  {primaryText.trim() || "Dùng nội dung tin nhắn chính ở trên"}
+                </p>
+              ) : (
+                <EnhancedTextarea
+                  value={variant.text}
+                  onChange={(e) => updateVariant(variant.key, { text: e.target.value })}
+                  enableValidation={true}
+                  onValidationChange={(error) => handleTextValidation(variant.key, error)}
+                  placeholder={`Nội dung biến thể ${variant.key}...`}
+                  rows={4}
+                  className="resize-none"
+                  maxLength={10000}
+                  insertButtons={insertButtons}
+                  variables={variables}
+                  showInsertButtons={true}
+                  mustHavePatterns={["[QC]"]}
+                  autoPrefixPattern="[QC]"
+                  autoPrefixEnabledDefault={true}
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addVariant}
+              disabled={variants.length >= VARIANT_KEYS.length}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Thêm biến thể
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(rebalance(variants))}>
+              <Scale className="h-4 w-4 mr-1" />
+              Chia đều
+            </Button>
+            <span className={`text-xs ml-auto ${totalWeight === 100 ? "text-gray-500" : "text-red-600"}`}>
+              Tổng: {totalWeight}%
+            </span>
+          </div>
+
+          {validationError && <p className="text-xs text-red-600">{validationError}</p>}
+        </>
+      )}
+    </div>
+  );
+}
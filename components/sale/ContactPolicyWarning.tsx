@@ -0,0 +1,41 @@
+"use client";
+
+import React from "react";
+import { ShieldAlert } from "lucide-react";
+import { CampaignContactPolicy } from "@/types";
+
+interface ContactPolicyWarningProps {
+  suppressedCount: number;
+  cappedCount: number;
+  policy: CampaignContactPolicy | null;
+  className?: string;
+}
+
+export default function ContactPolicyWarning({
+  suppressedCount,
+  cappedCount,
+  policy,
+  className = "",
+}: ContactPolicyWarningProps) {
+  if (suppressedCount === 0 && cappedCount === 0) return null;
+
+  return (
+    <div className={`flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 ${className}`}>
+      <ShieldAlert className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <div className="space-y-0.5">
+        {suppressedCount > 0 && (
+          <p>
+            <strong>{suppressedCount.toLocaleString()}</strong> khách nằm trong danh sách chặn (đã yêu cầu ngừng nhận tin).
+          </p>
+        )}
+        {cappedCount > 0 && policy?.enabled && (
+          <p>
+            <strong>{cappedCount.toLocaleString()}</strong> khách đã nhận đủ {policy.max_messages} tin chiến dịch trong{" "}
+            {policy.window_days} ngày gần nhất.
+          </p>
+        )}
+        <p className="text-xs text-amber-700">Các khách này sẽ bị bỏ qua khi gửi và được ghi vào log lượt bỏ qua.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { CampaignReportBreakdown } from "@/types";
+import { buildFunnel, formatReplyMinutes, getReplyRate } from "@/utils/campaignReport";
+
+interface CampaignBreakdownTableProps {
+  byDepartment: CampaignReportBreakdown[];
+  byEmployee: CampaignReportBreakdown[];
+  loading?: boolean;
+}
+
+export default function CampaignBreakdownTable({ byDepartment, byEmployee, loading = false }: CampaignBreakdownTableProps) {
+  const [groupBy, setGroupBy] = useState<"department" | "employee">("department");
+  const rows = (groupBy === "department" ? byDepartment : byEmployee)
+    .map((r) => ({ ...r, steps: buildFunnel(r.funnel), replyRate: getReplyRate(r.funnel) }))
+    .sort((a, b) => b.replyRate - a.replyRate);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Hiệu quả theo {groupBy === "department" ? "phòng ban" : "nhân viên"}</CardTitle>
+          <CardDescription>Tổng hợp các chiến dịch theo người tạo và phòng ban phụ trách</CardDescription>
+        </div>
+        <Tabs value={groupBy} onValueChange={(v) => setGroupBy(v as "department" | "employee")}>
+          <TabsList>
+            <TabsTrigger value="department">Phòng ban</TabsTrigger>
+            <TabsTrigger value="employee">Nhân viên</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-40 flex items-center justify-center text-muted-foreground">Đang tải dữ liệu...</div>
+        ) : rows.length === 0 ? (
+          <div className="h-40 flex items-center justify-center text-muted-foreground">Không có dữ liệu</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{groupBy === "department" ? "Phòng ban" : "Nhân viên"}</TableHead>
+                  <TableHead className="text-right">Chiến dịch</TableHead>
+                  <TableHead className="text-right">Khách hàng</TableHead>
+                  <TableHead className="text-right">Đã gửi</TableHead>
+                  <TableHead className="text-right">Trả lời</TableHead>
+                  <TableHead className="text-right">Đã xử lý</TableHead>
+                  <TableHead className="w-48">Tỉ lệ trả lời</TableHead>
+                  <TableHead className="text-right">TG trả lời TB</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((r) => (
+                  <TableRow key={r.id}>
+                    <TableCell className="font-medium">{r.name}</TableCell>
+                    <TableCell className="text-right">{r.campaigns.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{r.customers.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{r.steps[1].count.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{r.steps[3].count.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{r.steps[4].count.toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress value={r.replyRate} className="h-2" />
+                        <span className="w-12 text-right text-sm">{r.replyRate.toFixed(1)}%</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatReplyMinutes(r.avg_reply_minutes)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CampaignReportItem } from "@/types";
+import { buildFunnel, formatReplyMinutes, getReplyRate } from "@/utils/campaignReport";
+
+interface CampaignComparisonProps {
+  campaigns: CampaignReportItem[];
+  loading?: boolean;
+}
+
+const MAX_COMPARE = 4;
+const COMPARE_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#8b5cf6"];
+
+export default function CampaignComparison({ campaigns, loading = false }: CampaignComparisonProps) {
+  const rows = useMemo(
+    () =>
+      campaigns
+        .map((c) => ({ ...c, steps: buildFunnel(c.funnel), replyRate: getReplyRate(c.funnel) }))
+        .sort((a, b) => b.replyRate - a.replyRate),
+    [campaigns]
+  );
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Mặc định so sánh các chiến dịch có tỉ lệ trả lời cao nhất
+  useEffect(() => {
+    setSelectedIds(rows.slice(0, MAX_COMPARE).map((r) => r.campaign_id));
+  }, [rows]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? (prev.length >= MAX_COMPARE ? prev : [...prev, id]) : prev.filter((x) => x !== id)
+    );
+  };
+
+  const selected = rows.filter((r) => selectedIds.includes(r.campaign_id));
+  const chartData = (selected[0]?.steps || []).slice(1).map((step, index) => ({
+    name: step.label,
+    ...Object.fromEntries(selected.map((r) => [r.campaign_id, Number(r.steps[index + 1].rate.toFixed(1))])),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>So sánh chiến dịch</CardTitle>
+        <CardDescription>
+          Tỉ lệ % khách qua từng bước của các chiến dịch cùng loại (chọn tối đa {MAX_COMPARE} chiến dịch)
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-64 flex items-center justify-center text-muted-foreground">Đang tải dữ liệu...</div>
+        ) : rows.length === 0 ? (
+          <div className="h-64 flex items-center justify-center text-muted-foreground">Không có chiến dịch</div>
+        ) : (
+          <>
+            {selected.length > 0 && (
+              <div className="h-72 w-full mb-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="name" tickLine={false} axisLine={false} fontSize={12} />
+                    <YAxis tickLine={false} axisLine={false} fontSize={12} unit="%" domain={[0, 100]} />
+                    <Tooltip formatter={(value) => `${value}%`} />
+                    <Legend />
+                    {selected.map((r, i) => (
+                      <Bar
+                        key={r.campaign_id}
+                        dataKey={r.campaign_id}
+                        name={r.name}
+                        fill={COMPARE_COLORS[i % COMPARE_COLORS.length]}
+                        radius={[4, 4, 0, 0]}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Chiến dịch</TableHead>
+                    <TableHead>Phòng ban</TableHead>
+                    <TableHead className="text-right">Khách hàng</TableHead>
+                    <TableHead className="text-right">Đã gửi</TableHead>
+                    <TableHead className="text-right">Đã nhắc lại</TableHead>
+                    <TableHead className="text-right">Trả lời</TableHead>
+                    <TableHead className="text-right">Đã xử lý</TableHead>
+                    <TableHead className="text-right">Tỉ lệ trả lời</TableHead>
+                    <TableHead className="text-right">TG trả lời TB</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((r) => {
+                    const checked = selectedIds.includes(r.campaign_id);
+                    return (
+                      <TableRow key={r.campaign_id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={checked}
+                            disabled={!checked && selectedIds.length >= MAX_COMPARE}
+                            onCheckedChange={(v) => toggle(r.campaign_id, v === true)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{r.name}</div>
+                          <div className="text-xs text-muted-foreground">{r.created_by?.fullName}</div>
+                        </TableCell>
+                        <TableCell>{r.department?.name || "-"}</TableCell>
+                        <TableCell className="text-right">{r.customers.toLocaleString()}</TableCell>
+                        {r.steps.slice(1).map((step) => (
+                          <TableCell key={step.key} className="text-right">
+                            {step.count.toLocaleString()}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-medium">{r.replyRate.toFixed(1)}%</TableCell>
+                        <TableCell className="text-right">{formatReplyMinutes(r.avg_reply_minutes)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import React from "react";
+import { ChevronDown } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CampaignFunnelCounts, LogStatus } from "@/types";
+import { buildFunnel } from "@/utils/campaignReport";
+
+interface CampaignFunnelChartProps {
+  data: CampaignFunnelCounts;
+  loading?: boolean;
+}
+
+export default function CampaignFunnelChart({ data, loading = false }: CampaignFunnelChartProps) {
+  const funnel = buildFunnel(data);
+  const failed = data[LogStatus.FAILED] || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Phễu chiến dịch</CardTitle>
+        <CardDescription>
+          Số khách đã đi qua từng bước, từ lúc chờ gửi đến khi nhân viên xử lý phản hồi
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-64 flex items-center justify-center text-muted-foreground">Đang tải dữ liệu...</div>
+        ) : funnel[0].count === 0 ? (
+          <div className="h-64 flex items-center justify-center text-muted-foreground">Không có dữ liệu</div>
+        ) : (
+          <div className="space-y-1">
+            {funnel.map((step, index) => (
+              <React.Fragment key={step.key}>
+                {index > 0 && (
+                  <div className="flex items-center gap-1 pl-40 text-xs text-muted-foreground">
+                    <ChevronDown className="h-3 w-3" />
+                    {step.stepRate.toFixed(1)}% chuyển tiếp
+                  </div>
+                )}
+                <div className="flex items-center gap-3">
+                  <span className="w-36 text-sm font-medium text-right">{step.label}</span>
+                  <div className="flex-1 h-8 rounded bg-gray-100">
+                    <div
+                      className="h-8 rounded flex items-center px-2 text-xs font-medium text-white"
+                      style={{ width: `${Math.max(step.rate, 2)}%`, backgroundColor: step.color }}
+                    >
+                      {step.rate >= 10 && `${step.rate.toFixed(1)}%`}
+                    </div>
+                  </div>
+                  <span className="w-20 text-sm text-right">{step.count.toLocaleString()}</span>
+                </div>
+              </React.Fragment>
+            ))}
+            {failed > 0 && (
+              <p className="pt-2 text-xs text-red-600">{failed.toLocaleString()} khách gửi lỗi, không đi tiếp trong phễu</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import React from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Cell, LabelList } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import SmartTooltip from "@/components/ui/charts/SmartTooltip";
+import { CampaignReport } from "@/types";
+import { REPLY_TIME_BUCKETS } from "@/utils/campaignReport";
+
+interface ReplyTimeDistributionChartProps {
+  data: CampaignReport["reply_time_distribution"] | null;
+  loading?: boolean;
+}
+
+export default function ReplyTimeDistributionChart({ data, loading = false }: ReplyTimeDistributionChartProps) {
+  const chartData = REPLY_TIME_BUCKETS.map((b) => ({
+    name: b.label,
+    count: data?.[b.key] || 0,
+    color: b.color,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Thời gian khách trả lời</CardTitle>
+        <CardDescription>Tính từ lúc gửi tin nhắn đến khi khách phản hồi lần đầu</CardDescription>
+      </CardHeader>
+      <CardContent className="px-0">
+        {loading ? (
+          <div className="h-64 flex items-center justify-center text-muted-foreground">Đang tải dữ liệu...</div>
+        ) : (
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} fontSize={12} />
+                <YAxis tickLine={false} axisLine={false} fontSize={12} allowDecimals={false} />
+                <Tooltip
+                  content={
+                    <SmartTooltip
+                      title="Khách trả lời"
+                      customConfig={{ count: { label: "Khách hàng", color: "#10b981" } }}
+                      customFields={["count"]}
+                    />
+                  }
+                />
+                <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                  {chartData.map((item) => (
+                    <Cell key={item.name} fill={item.color} />
+                  ))}
+                  <LabelList position="top" dataKey="count" fontSize={12} />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,6 +15,7 @@ export const AdminSocket = memo(function AdminSocket({
   onCampaignUpdate,
   onCampaignInteractionLogUpdate,
   onCampaignScheduleUpdate,
+  onDebtPromiseBroken,
 }: {
   onUserLogin?: (userId: number, status: string, lastLogin: string) => void;
   onUserLogout?: (userId: number, status: string) => void;
@@ -27,6 +28,7 @@ export const AdminSocket = memo(function AdminSocket({
   onCampaignUpdate?: (data: any) => void;
   onCampaignInteractionLogUpdate?: (data: any) => void;
   onCampaignScheduleUpdate?: (data: any) => void;
+  onDebtPromiseBroken?: (data: any) => void;
 }) {
   useWSHandler('user_login', (data: any) => {
     onUserLogin?.(data.userId, data.status, data.last_login);
@@ -60,6 +62,10 @@ export const AdminSocket = memo(function AdminSocket({
     onDebtUpdate?.(data);
   });
 
+  useWSHandler('debt_promise_broken', (data: any) => {
+    onDebtPromiseBroken?.(data);
+  });
+
   useWSHandler('campaign_realtime_updated', (data: any) => {
     onCampaignUpdate?.(data);
   });
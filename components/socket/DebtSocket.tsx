@@ -2,11 +2,12 @@
 
 import { useEffect } from 'react';
 
-export function DebtSocket({ onDebtLogUpdate, onDebtConfigCreate, onDebtConfigUpdate, onDebtUpdate }: {
+export function DebtSocket({ onDebtLogUpdate, onDebtConfigCreate, onDebtConfigUpdate, onDebtUpdate, onDebtPromiseBroken }: {
   onDebtLogUpdate?: (data: any) => void,
   onDebtConfigCreate?: (data: any) => void,
   onDebtConfigUpdate?: (data: any) => void,
   onDebtUpdate?: (data: any) => void,
+  onDebtPromiseBroken?: (data: any) => void,
 }) {
   useEffect(() => {
     // Listen for debt_log_realtime_updated event
@@ -26,18 +27,24 @@ export function DebtSocket({ onDebtLogUpdate, onDebtConfigCreate, onDebtConfigUp
       onDebtUpdate?.(event.detail);
     };
 
+    const handleDebtPromiseBroken = (event: CustomEvent) => {
+      onDebtPromiseBroken?.(event.detail);
+    };
+
     window.addEventListener('ws_debt_log_realtime_updated', handleDebtLog as EventListener);
     window.addEventListener('ws_debt_config_created', handleDebtConfigCreate as EventListener);
     window.addEventListener('ws_debt_config_realtime_updated', handleDebtConfigUpdate as EventListener);
     window.addEventListener('ws_debt_realtime_updated', handleDebt as EventListener);
+    window.addEventListener('ws_debt_promise_broken', handleDebtPromiseBroken as EventListener);
 
     return () => {
       window.removeEventListener('ws_debt_log_realtime_updated', handleDebtLog as EventListener);
       window.removeEventListener('ws_debt_config_created', handleDebtConfigCreate as EventListener);
       window.removeEventListener('ws_debt_config_realtime_updated', handleDebtConfigUpdate as EventListener);
       window.removeEventListener('ws_debt_realtime_updated', handleDebt as EventListener);
+      window.removeEventListener('ws_debt_promise_broken', handleDebtPromiseBroken as EventListener);
     };
-  }, [onDebtLogUpdate, onDebtConfigCreate, onDebtConfigUpdate, onDebtUpdate]);
+  }, [onDebtLogUpdate, onDebtConfigCreate, onDebtConfigUpdate, onDebtUpdate, onDebtPromiseBroken]);
 
   return null;
 }
@@ -65,6 +65,12 @@ export function SocketPortal() {
     );
   }, []);
 
+  const handleDebtPromiseBroken = useCallback((data: any) => {
+    window.dispatchEvent(
+      new CustomEvent("ws_debt_promise_broken", { detail: data })
+    );
+  }, []);
+
   // New handlers
   const handleCampaignUpdate = useCallback((data: any) => {
     window.dispatchEvent(
@@ -138,6 +144,7 @@ export function SocketPortal() {
         onDebtConfigCreate={handleDebtConfigCreate}
         onDebtConfigUpdate={handleDebtConfigUpdate}
         onDebtUpdate={handleDebtRealtimeUpdate}
+        onDebtPromiseBroken={handleDebtPromiseBroken}
         onCampaignUpdate={handleCampaignUpdate}
         onCampaignInteractionLogUpdate={handleCampaignInteractionLogUpdate}
         onCampaignScheduleUpdate={handleCampaignScheduleRealtimeUpdate}
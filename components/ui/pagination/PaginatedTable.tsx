@@ -340,6 +340,7 @@ export default function PaginatedTable({
         value = s;
         // Map đúng label cho string values
         if (s === "draft") label = "Bản nháp";
+        else if (s === "pending_approval") label = "Chờ duyệt";
         else if (s === "scheduled") label = "Đã lên lịch";
         else if (s === "running") label = "Đang chạy";
         else if (s === "paused") label = "Tạm dừng";
@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import GenericBarChart from '@/components/ui/charts/GenericBarChart';
+import { ConversationTypeStats } from '@/types/zalo-chat';
+import { formatResponseTime } from '@/lib/zalo-chat-helper';
+
+interface ConversationTypeChartProps {
+  data: ConversationTypeStats[];
+  loading?: boolean;
+}
+
+const typeConfig = {
+  conversations: { label: 'Hội thoại', color: '#3b82f6' },
+  messages: { label: 'Tin nhắn', color: '#8b5cf6' },
+  unanswered: { label: 'Chưa trả lời', color: '#f97316' },
+};
+
+const TYPE_LABELS: Record<ConversationTypeStats['conversation_type'], string> = {
+  private: 'Cá nhân',
+  group: 'Nhóm',
+};
+
+const ConversationTypeChart: React.FC<ConversationTypeChartProps> = ({ data, loading = false }) => {
+  const chartData = data.map(item => ({
+    name: TYPE_LABELS[item.conversation_type] || item.conversation_type,
+    timestamp: 0,
+    conversations: item.conversations,
+    messages: item.messages,
+    unanswered: item.unanswered,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Nhóm và cá nhân</CardTitle>
+        <CardDescription>So sánh hội thoại nhóm với hội thoại cá nhân</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-64 flex items-center justify-center text-muted-foreground">Đang tải dữ liệu...</div>
+        ) : data.length === 0 ? (
+          <div className="h-64 flex items-center justify-center text-muted-foreground">Không có dữ liệu</div>
+        ) : (
+          <>
+            <GenericBarChart data={chartData} config={typeConfig} />
+            <div className="grid grid-cols-2 gap-4">
+              {data.map(item => (
+                <div key={item.conversation_type} className="rounded-lg border p-3 text-sm">
+                  <div className="font-medium mb-1">{TYPE_LABELS[item.conversation_type] || item.conversation_type}</div>
+                  <div className="text-muted-foreground">
+                    Phản hồi trung bình: <span className="text-foreground font-medium">{formatResponseTime(item.avg_response_seconds)}</span>
+                  </div>
+                  <div className="text-muted-foreground">
+                    Tin nhắn / hội thoại:{' '}
+                    <span className="text-foreground font-medium">
+                      {item.conversations ? (item.messages / item.conversations).toFixed(1) : 0}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConversationTypeChart;
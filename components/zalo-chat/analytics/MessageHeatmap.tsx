@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MessageHeatmapCell } from '@/types/zalo-chat';
+
+interface MessageHeatmapProps {
+  data: MessageHeatmapCell[];
+  loading?: boolean;
+}
+
+// Hiển thị từ Thứ 2 -> Chủ nhật (weekday backend: 0 = Chủ nhật)
+const WEEKDAYS: Array<{ value: number; label: string }> = [
+  { value: 1, label: 'T2' },
+  { value: 2, label: 'T3' },
+  { value: 3, label: 'T4' },
+  { value: 4, label: 'T5' },
+  { value: 5, label: 'T6' },
+  { value: 6, label: 'T7' },
+  { value: 0, label: 'CN' },
+];
+const HOURS = Array.from({ length: 24 }, (_, i) => i);
+
+const MessageHeatmap: React.FC<MessageHeatmapProps> = ({ data, loading = false }) => {
+  const { grid, max } = useMemo(() => {
+    const map = new Map<string, number>();
+    let maxCount = 0;
+    data.forEach(cell => {
+      const key = `${cell.weekday}-${cell.hour}`;
+      const count = (map.get(key) || 0) + cell.count;
+      map.set(key, count);
+      maxCount = Math.max(maxCount, count);
+    });
+    return { grid: map, max: maxCount };
+  }, [data]);
+
+  const cellStyle = (count: number): React.CSSProperties => {
+    if (!count || !max) return { backgroundColor: '#f3f4f6' };
+    // Độ đậm tỉ lệ với số tin nhắn, tối thiểu 0.15 để ô có dữ liệu vẫn nhìn thấy
+    const opacity = 0.15 + (count / max) * 0.85;
+    return { backgroundColor: `rgba(37, 99, 235, ${opacity.toFixed(2)})` };
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Lưu lượng tin nhắn theo giờ</CardTitle>
+        <CardDescription>Số tin nhắn theo giờ trong ngày và thứ trong tuần</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-64 flex items-center justify-center text-muted-foreground">Đang tải dữ liệu...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="inline-grid gap-1 min-w-full" style={{ gridTemplateColumns: `2.5rem repeat(24, minmax(1.5rem, 1fr))` }}>
+              <div />
+              {HOURS.map(h => (
+                <div key={h} className="text-[10px] text-center text-muted-foreground">{h}</div>
+              ))}
+              {WEEKDAYS.map(day => (
+                <React.Fragment key={day.value}>
+                  <div className="text-xs text-muted-foreground flex items-center">{day.label}</div>
+                  {HOURS.map(h => {
+                    const count = grid.get(`${day.value}-${h}`) || 0;
+                    return (
+                      <div
+                        key={h}
+                        className="h-6 rounded-sm"
+                        style={cellStyle(count)}
+                        title={`${day.label}, ${h}:00 - ${h + 1}:00: ${count} tin nhắn`}
+                      />
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </div>
+            <div className="flex items-center justify-end gap-2 mt-3 text-xs text-muted-foreground">
+              <span>Ít</span>
+              {[0, 0.25, 0.5, 0.75, 1].map(ratio => (
+                <div key={ratio} className="w-4 h-4 rounded-sm" style={cellStyle(Math.max(1, Math.round(ratio * max)))} />
+              ))}
+              <span>Nhiều (tối đa {max})</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MessageHeatmap;
@@ -0,0 +1,103 @@
+'use client';
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import SmartTooltip from '@/components/ui/charts/SmartTooltip';
+import { EmployeeResponseTimeStats } from '@/types/zalo-chat';
+import { formatResponseTime, RESPONSE_TIME_BUCKETS } from '@/lib/zalo-chat-helper';
+
+interface ResponseTimeChartProps {
+  data: EmployeeResponseTimeStats[];
+  loading?: boolean;
+}
+
+const bucketConfig = Object.fromEntries(
+  RESPONSE_TIME_BUCKETS.map(b => [b.key, { label: b.label, color: b.color }])
+);
+
+const ResponseTimeChart: React.FC<ResponseTimeChartProps> = ({ data, loading = false }) => {
+  // Nhân viên phản hồi chậm nhất lên đầu để dễ nhận ra
+  const sorted = [...data].sort((a, b) => b.avg_response_seconds - a.avg_response_seconds);
+  const chartData = sorted.map(e => ({ name: e.full_name, ...e.buckets }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Thời gian phản hồi theo nhân viên</CardTitle>
+        <CardDescription>Phân bố số lượt trả lời theo khoảng thời gian phản hồi khách</CardDescription>
+      </CardHeader>
+      <CardContent className="px-0">
+        {loading ? (
+          <div className="h-80 flex items-center justify-center text-muted-foreground">Đang tải dữ liệu...</div>
+        ) : data.length === 0 ? (
+          <div className="h-80 flex items-center justify-center text-muted-foreground">Không có dữ liệu phản hồi</div>
+        ) : (
+          <>
+            <div className="h-80 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 40 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} fontSize={12} interval={0} />
+                  <YAxis tickLine={false} axisLine={false} fontSize={12} allowDecimals={false} />
+                  <Tooltip
+                    content={
+                      <SmartTooltip
+                        title="Số lượt trả lời"
+                        customConfig={bucketConfig}
+                        customFields={RESPONSE_TIME_BUCKETS.map(b => b.key)}
+                      />
+                    }
+                  />
+                  <Legend formatter={(value) => bucketConfig[value]?.label || value} />
+                  {RESPONSE_TIME_BUCKETS.map(b => (
+                    <Bar key={b.key} dataKey={b.key} stackId="response" fill={b.color} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto px-6 mt-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 font-medium">Nhân viên</th>
+                    <th className="text-right p-2 font-medium">Lượt trả lời</th>
+                    <th className="text-right p-2 font-medium">Trung bình</th>
+                    <th className="text-right p-2 font-medium">Trung vị</th>
+                    <th className="text-right p-2 font-medium">Trên 1 giờ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sorted.map(e => {
+                    const slow = (e.buckets['1_4h'] || 0) + (e.buckets.over_4h || 0);
+                    return (
+                      <tr key={e.user_id} className="border-b hover:bg-gray-50">
+                        <td className="p-2 font-medium">{e.full_name}</td>
+                        <td className="p-2 text-right">{e.total_replies}</td>
+                        <td className="p-2 text-right">{formatResponseTime(e.avg_response_seconds)}</td>
+                        <td className="p-2 text-right">
+                          {e.median_response_seconds !== undefined ? formatResponseTime(e.median_response_seconds) : '-'}
+                        </td>
+                        <td className={`p-2 text-right ${slow > 0 ? 'text-red-600 font-medium' : ''}`}>
+                          {slow}
+                          {e.total_replies > 0 && (
+                            <span className="text-xs text-muted-foreground ml-1">
+                              ({Math.round((slow / e.total_replies) * 100)}%)
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResponseTimeChart;
@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Cell, LabelList } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import SmartTooltip from '@/components/ui/charts/SmartTooltip';
+import { UnansweredAgeBucket } from '@/types/zalo-chat';
+import { UNANSWERED_AGE_BUCKETS } from '@/lib/zalo-chat-helper';
+
+interface UnansweredAgeChartProps {
+  data: Record<UnansweredAgeBucket, number> | null;
+  loading?: boolean;
+}
+
+const UnansweredAgeChart: React.FC<UnansweredAgeChartProps> = ({ data, loading = false }) => {
+  const chartData = UNANSWERED_AGE_BUCKETS.map(b => ({
+    name: b.label,
+    count: data?.[b.key] || 0,
+    color: b.color,
+  }));
+  const total = chartData.reduce((sum, item) => sum + item.count, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Hội thoại chưa trả lời</CardTitle>
+        <CardDescription>
+          {total} hội thoại đang chờ phản hồi, chia theo thời gian chờ từ tin nhắn cuối của khách
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-0">
+        {loading ? (
+          <div className="h-72 flex items-center justify-center text-muted-foreground">Đang tải dữ liệu...</div>
+        ) : (
+          <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} fontSize={12} />
+                <YAxis tickLine={false} axisLine={false} fontSize={12} allowDecimals={false} />
+                <Tooltip
+                  content={
+                    <SmartTooltip
+                      title="Chưa trả lời"
+                      customConfig={{ count: { label: 'Hội thoại', color: '#f97316' } }}
+                      customFields={['count']}
+                    />
+                  }
+                />
+                <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                  {chartData.map(item => (
+                    <Cell key={item.name} fill={item.color} />
+                  ))}
+                  <LabelList position="top" dataKey="count" fontSize={12} />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnansweredAgeChart;
@@ -0,0 +1,68 @@
+"use client";
+
+import React from 'react';
+import { X } from 'lucide-react';
+import MultiImageSelector from '@/components/common/MultiImageSelector';
+import MultiFileSelector from '@/components/common/MultiFileSelector';
+import { CHAT_MAX_ATTACHMENTS } from '@/lib/zalo-chat-helper';
+
+export interface ComposerAttachment {
+  base64: string;
+  filename: string;
+  size?: number;
+  type?: string;
+}
+
+export type ComposerAttachmentMode = 'image' | 'file';
+
+interface ComposerAttachmentsProps {
+  mode: ComposerAttachmentMode;
+  onModeChange: (mode: ComposerAttachmentMode) => void;
+  images: ComposerAttachment[];
+  files: ComposerAttachment[];
+  onImagesChange: (images: ComposerAttachment[]) => void;
+  onFilesChange: (files: ComposerAttachment[]) => void;
+  onClose: () => void;
+}
+
+// Khay đính kèm phía trên ô nhập tin nhắn, dùng lại selector của chiến dịch
+export default function ComposerAttachments({
+  mode,
+  onModeChange,
+  images,
+  files,
+  onImagesChange,
+  onFilesChange,
+  onClose,
+}: ComposerAttachmentsProps) {
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 text-xs rounded-full transition-colors ${active ? 'bg-blue-100 text-blue-700 font-medium' : 'text-gray-600 hover:bg-gray-100'}`;
+
+  return (
+    <div className="mb-3 border border-gray-200 rounded-lg bg-white p-3 max-h-80 overflow-y-auto">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-1">
+          <button className={tabClass(mode === 'image')} onClick={() => onModeChange('image')}>
+            Ảnh ({images.length})
+          </button>
+          <button className={tabClass(mode === 'file')} onClick={() => onModeChange('file')}>
+            Tệp ({files.length})
+          </button>
+        </div>
+        <button className="p-1 hover:bg-gray-100 rounded-full" title="Hủy đính kèm" onClick={onClose}>
+          <X className="h-4 w-4 text-gray-500" />
+        </button>
+      </div>
+
+      {mode === 'image' ? (
+        <MultiImageSelector
+          images={images}
+          onImagesChange={(next) => onImagesChange(next.map(img => ({ ...img, filename: img.filename || 'image.png' })))}
+          maxImages={CHAT_MAX_ATTACHMENTS}
+        />
+      ) : (
+        <MultiFileSelector files={files} onFilesChange={onFilesChange} maxFiles={CHAT_MAX_ATTACHMENTS} />
+      )}
+    </div>
+  );
+}
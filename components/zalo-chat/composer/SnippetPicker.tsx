@@ -0,0 +1,132 @@
+"use client";
+
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { Settings, Users, User as UserIcon, Zap } from 'lucide-react';
+import { ChatSnippet } from '@/types/zalo-chat';
+import { renderSnippet, SnippetContext } from '@/lib/zalo-chat-helper';
+
+export interface SnippetPickerHandle {
+  // Trả về true nếu phím đã được picker xử lý
+  handleKeyDown: (e: React.KeyboardEvent) => boolean;
+}
+
+interface SnippetPickerProps {
+  query: string; // phần sau dấu "/"
+  snippets: ChatSnippet[];
+  isLoading: boolean;
+  context: SnippetContext;
+  onSelect: (text: string) => void;
+  onClose: () => void;
+  onManage: () => void;
+}
+
+const SnippetPicker = forwardRef<SnippetPickerHandle, SnippetPickerProps>(function SnippetPicker(
+  { query, snippets, isLoading, context, onSelect, onClose, onManage },
+  ref
+) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  // Ưu tiên khớp phím tắt, sau đó tới tiêu đề / nội dung
+  const results = useMemo(() => {
+    const keyword = query.toLowerCase();
+    if (!keyword) return snippets;
+    const byShortcut = snippets.filter(s => s.shortcut.toLowerCase().startsWith(keyword));
+    const others = snippets.filter(s => !byShortcut.includes(s) && (
+      s.shortcut.toLowerCase().includes(keyword) ||
+      s.title.toLowerCase().includes(keyword) ||
+      s.content.toLowerCase().includes(keyword)
+    ));
+    return [...byShortcut, ...others];
+  }, [snippets, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    const el = listRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`);
+    el?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const select = (snippet: ChatSnippet | undefined) => {
+    if (snippet) onSelect(renderSnippet(snippet.content, context));
+  };
+
+  useImperativeHandle(ref, () => ({
+    handleKeyDown: (e) => {
+      switch (e.key) {
+        case 'ArrowDown':
+          if (results.length === 0) return false;
+          setActiveIndex(i => (i + 1) % results.length);
+          return true;
+        case 'ArrowUp':
+          if (results.length === 0) return false;
+          setActiveIndex(i => (i - 1 + results.length) % results.length);
+          return true;
+        case 'Enter':
+        case 'Tab':
+          if (results.length === 0) return false;
+          select(results[activeIndex]);
+          return true;
+        case 'Escape':
+          onClose();
+          return true;
+        default:
+          return false;
+      }
+    },
+  }), [results, activeIndex, context, onClose]);
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 bg-white border border-gray-200 rounded-lg shadow-lg z-30 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100 text-xs text-gray-500">
+        <span className="flex items-center gap-1">
+          <Zap className="h-3 w-3" />
+          Câu trả lời nhanh
+          <span className="text-gray-400">· ↑↓ để chọn, Enter để chèn</span>
+        </span>
+        <button
+          className="flex items-center gap-1 text-blue-600 hover:text-blue-700"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={onManage}
+        >
+          <Settings className="h-3 w-3" />
+          Quản lý
+        </button>
+      </div>
+
+      <div ref={listRef} className="max-h-64 overflow-y-auto">
+        {isLoading && snippets.length === 0 ? (
+          <div className="px-3 py-4 text-sm text-gray-500 text-center">Đang tải...</div>
+        ) : results.length === 0 ? (
+          <div className="px-3 py-4 text-sm text-gray-500 text-center">
+            {query ? `Không có câu trả lời nhanh nào khớp "/${query}"` : 'Chưa có câu trả lời nhanh nào'}
+          </div>
+        ) : (
+          results.map((snippet, index) => (
+            <button
+              key={snippet.id}
+              data-index={index}
+              className={`w-full text-left px-3 py-2 flex items-start gap-3 ${index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              onMouseEnter={() => setActiveIndex(index)}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(snippet)}
+            >
+              <span className="font-mono text-xs text-blue-600 mt-0.5 shrink-0">/{snippet.shortcut}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm font-medium text-gray-900 truncate">{snippet.title}</span>
+                <span className="block text-xs text-gray-500 truncate">{renderSnippet(snippet.content, context)}</span>
+              </span>
+              <span className="shrink-0 text-gray-400 mt-0.5" title={snippet.scope === 'department' ? snippet.department?.name || 'Phòng ban' : 'Cá nhân'}>
+                {snippet.scope === 'department' ? <Users className="h-3 w-3" /> : <UserIcon className="h-3 w-3" />}
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default SnippetPicker;
@@ -0,0 +1,448 @@
+"use client";
+
+import React, { useContext, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Edit, Trash2, Plus, Search, Zap, Save, X } from "lucide-react";
+import { toast } from "sonner";
+import { AuthContext } from "@/contexts/AuthContext";
+import { useDynamicPermission } from "@/hooks/useDynamicPermission";
+import { UseChatSnippetsResult } from "@/hooks/zalo-chat/useChatSnippets";
+import { ChatSnippet, ChatSnippetScope } from "@/types/zalo-chat";
+import { SNIPPET_VARIABLES } from "@/lib/zalo-chat-helper";
+
+interface SnippetsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  snippetsState: UseChatSnippetsResult;
+}
+
+interface SnippetFormData {
+  shortcut: string;
+  title: string;
+  content: string;
+  scope: ChatSnippetScope;
+  department_id: number | null;
+}
+
+const EMPTY_FORM: SnippetFormData = {
+  shortcut: "",
+  title: "",
+  content: "",
+  scope: "user",
+  department_id: null,
+};
+
+// Quản lý câu trả lời nhanh ngay trong khung chat
+export default function SnippetsModal({ isOpen, onClose, snippetsState }: SnippetsModalProps) {
+  const { user } = useContext(AuthContext);
+  const { isAdmin, isManager } = useDynamicPermission();
+  const { snippets, isLoading, createSnippet, updateSnippet, deleteSnippet } = snippetsState;
+
+  const departments = user?.departments || [];
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingSnippet, setEditingSnippet] = useState<ChatSnippet | null>(null);
+  const [deletingSnippet, setDeletingSnippet] = useState<ChatSnippet | null>(null);
+  const [formData, setFormData] = useState<SnippetFormData>(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+  const contentRef = useRef<HTMLTextAreaElement | null>(null);
+
+  // Snippet phòng ban chỉ người tạo hoặc quản lý được sửa
+  const canEdit = (snippet: ChatSnippet) =>
+    snippet.user_id === user?.id || (snippet.scope === "department" && (isAdmin || isManager));
+
+  const keyword = searchTerm.toLowerCase();
+  const filteredSnippets = snippets.filter(
+    (snippet) =>
+      snippet.shortcut.toLowerCase().includes(keyword) ||
+      snippet.title.toLowerCase().includes(keyword) ||
+      snippet.content.toLowerCase().includes(keyword)
+  );
+
+  const handleCreate = () => {
+    setIsCreating(true);
+    setEditingSnippet(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleEdit = (snippet: ChatSnippet) => {
+    setEditingSnippet(snippet);
+    setIsCreating(false);
+    setFormData({
+      shortcut: snippet.shortcut,
+      title: snippet.title,
+      content: snippet.content,
+      scope: snippet.scope,
+      department_id: snippet.department_id ?? null,
+    });
+  };
+
+  const handleCancelForm = () => {
+    setIsCreating(false);
+    setEditingSnippet(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const insertVariable = (key: string) => {
+    const token = `{{${key}}}`;
+    const textarea = contentRef.current;
+    const cursorPos = textarea?.selectionStart ?? formData.content.length;
+    const newContent = formData.content.slice(0, cursorPos) + token + formData.content.slice(cursorPos);
+    setFormData({ ...formData, content: newContent });
+    // Focus và set cursor sau khi insert
+    setTimeout(() => {
+      if (textarea) {
+        textarea.focus();
+        textarea.setSelectionRange(cursorPos + token.length, cursorPos + token.length);
+      }
+    }, 10);
+  };
+
+  const handleSave = async () => {
+    const shortcut = formData.shortcut.trim().replace(/^\//, "");
+    if (!shortcut || /\s/.test(shortcut)) {
+      toast.error("Phím tắt không được để trống và không chứa khoảng trắng");
+      return;
+    }
+    if (!formData.title.trim() || !formData.content.trim()) {
+      toast.error("Vui lòng nhập tiêu đề và nội dung");
+      return;
+    }
+    const departmentId = formData.scope === "department" ? formData.department_id ?? departments[0]?.id ?? null : null;
+    if (formData.scope === "department" && !departmentId) {
+      toast.error("Bạn chưa thuộc phòng ban nào để chia sẻ");
+      return;
+    }
+
+    const payload = {
+      shortcut,
+      title: formData.title.trim(),
+      content: formData.content.trim(),
+      scope: formData.scope,
+      department_id: departmentId,
+    };
+
+    try {
+      setSubmitting(true);
+      if (editingSnippet) {
+        await updateSnippet(editingSnippet.id, payload);
+        toast.success("Cập nhật câu trả lời nhanh thành công!");
+      } else {
+        await createSnippet(payload);
+        toast.success("Tạo câu trả lời nhanh thành công!");
+      }
+      handleCancelForm();
+    } catch (error: any) {
+      console.error("Error saving snippet:", error);
+      toast.error(error?.response?.data?.message || "Có lỗi xảy ra khi lưu câu trả lời nhanh");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingSnippet) return;
+    try {
+      setSubmitting(true);
+      await deleteSnippet(deletingSnippet.id);
+      toast.success("Xóa câu trả lời nhanh thành công!");
+      setDeletingSnippet(null);
+    } catch (error: any) {
+      console.error("Error deleting snippet:", error);
+      toast.error(error?.response?.data?.message || "Có lỗi xảy ra khi xóa câu trả lời nhanh");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    handleCancelForm();
+    onClose();
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={handleClose}>
+        <DialogContent className="!max-w-[80vw] !max-h-[80vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Zap className="h-5 w-5" />
+              Câu trả lời nhanh
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="flex-1 overflow-hidden flex flex-col space-y-4">
+            {/* Search and Create Button */}
+            <div className="flex items-center gap-3 p-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Tìm theo phím tắt, tiêu đề, nội dung..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Button onClick={handleCreate} disabled={isCreating || !!editingSnippet || submitting} className="shrink-0">
+                <span className="flex items-center">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Tạo mới
+                </span>
+              </Button>
+            </div>
+
+            {/* Create/Edit Form */}
+            {(isCreating || editingSnippet) && (
+              <div className="bg-gray-50 p-4 rounded-lg border space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium text-gray-900">
+                    {editingSnippet ? "Chỉnh sửa câu trả lời nhanh" : "Tạo câu trả lời nhanh"}
+                  </h3>
+                  <Button variant="ghost" size="sm" onClick={handleCancelForm} disabled={submitting}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <Label htmlFor="snippet-shortcut">Phím tắt *</Label>
+                    <div className="relative mt-1">
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">/</span>
+                      <Input
+                        id="snippet-shortcut"
+                        value={formData.shortcut}
+                        onChange={(e) => setFormData({ ...formData, shortcut: e.target.value })}
+                        placeholder="baogia"
+                        disabled={submitting}
+                        className="pl-6"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="snippet-title">Tiêu đề *</Label>
+                    <Input
+                      id="snippet-title"
+                      value={formData.title}
+                      onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                      placeholder="Gửi báo giá"
+                      disabled={submitting}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label>Phạm vi</Label>
+                    <Select
+                      value={formData.scope === "department" ? `department:${formData.department_id ?? departments[0]?.id ?? ""}` : "user"}
+                      onValueChange={(value) => {
+                        if (value === "user") {
+                          setFormData({ ...formData, scope: "user", department_id: null });
+                        } else {
+                          const id = Number(value.split(":")[1]);
+                          setFormData({ ...formData, scope: "department", department_id: Number.isFinite(id) ? id : null });
+                        }
+                      }}
+                      disabled={submitting}
+                    >
+                      <SelectTrigger className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="user">Chỉ mình tôi</SelectItem>
+                        {departments.map((department) => (
+                          <SelectItem key={department.id} value={`department:${department.id}`}>
+                            Phòng ban: {department.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="snippet-content">Nội dung *</Label>
+                  {/* Template Variables Guide */}
+                  <div className="flex flex-wrap items-center gap-2 mt-1 mb-2 text-xs">
+                    <span className="text-gray-500">Chèn biến:</span>
+                    {SNIPPET_VARIABLES.map((variable) => (
+                      <button
+                        key={variable.key}
+                        type="button"
+                        title={variable.label}
+                        onClick={() => insertVariable(variable.key)}
+                        disabled={submitting}
+                        className="bg-blue-50 border border-blue-200 text-blue-700 px-2 py-0.5 rounded hover:bg-blue-100"
+                      >
+                        {`{{${variable.key}}}`}
+                      </button>
+                    ))}
+                  </div>
+                  <Textarea
+                    id="snippet-content"
+                    ref={contentRef}
+                    value={formData.content}
+                    onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                    placeholder="Dạ em chào {{salutation}} {{customer_name}}, em gửi {{salutation}} báo giá mới nhất ạ."
+                    rows={4}
+                    disabled={submitting}
+                  />
+                </div>
+
+                <div className="flex gap-2 pt-2">
+                  <Button onClick={handleSave} disabled={submitting} className="min-w-[100px]">
+                    {submitting ? (
+                      <div className="flex items-center gap-2">
+                        <div className="animate-spin rounded-full h-4 w-4 border-2 border-b-transparent border-white" />
+                        Đang lưu...
+                      </div>
+                    ) : (
+                      <span className="flex items-center">
+                        <Save className="h-4 w-4 mr-2" />
+                        {editingSnippet ? "Cập nhật" : "Tạo mới"}
+                      </span>
+                    )}
+                  </Button>
+                  <Button variant="outline" onClick={handleCancelForm} disabled={submitting}>
+                    Hủy
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Snippets Table */}
+            <div className="flex-1 overflow-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="w-[140px]">Phím tắt</TableHead>
+                    <TableHead className="w-[200px]">Tiêu đề</TableHead>
+                    <TableHead>Nội dung</TableHead>
+                    <TableHead className="w-[160px]">Phạm vi</TableHead>
+                    <TableHead className="w-[120px] text-center">Thao tác</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    Array.from({ length: 3 }).map((_, index) => (
+                      <TableRow key={`skeleton-${index}`}>
+                        {Array.from({ length: 5 }).map((__, cell) => (
+                          <TableCell key={cell}>
+                            <Skeleton className="h-4 w-full" />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  ) : filteredSnippets.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                        {searchTerm ? "Không tìm thấy câu trả lời nhanh nào" : "Chưa có câu trả lời nhanh nào"}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredSnippets.map((snippet) => (
+                      <TableRow key={snippet.id}>
+                        <TableCell className="font-mono text-blue-600">/{snippet.shortcut}</TableCell>
+                        <TableCell className="font-medium">
+                          <div className="truncate" title={snippet.title}>{snippet.title}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="truncate text-gray-600 max-w-[400px]" title={snippet.content}>
+                            {snippet.content}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {snippet.scope === "department"
+                            ? snippet.department?.name || "Phòng ban"
+                            : "Cá nhân"}
+                        </TableCell>
+                        <TableCell>
+                          {canEdit(snippet) && (
+                            <div className="flex items-center justify-center gap-1">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8 w-8 p-0"
+                                title="Chỉnh sửa"
+                                onClick={() => handleEdit(snippet)}
+                                disabled={isCreating || !!editingSnippet || submitting}
+                              >
+                                <Edit className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                title="Xóa"
+                                onClick={() => setDeletingSnippet(snippet)}
+                                disabled={isCreating || !!editingSnippet || submitting}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deletingSnippet} onOpenChange={() => !submitting && setDeletingSnippet(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Xác nhận xóa</AlertDialogTitle>
+            <AlertDialogDescription>
+              Bạn có chắc chắn muốn xóa câu trả lời nhanh &quot;
+              <strong>/{deletingSnippet?.shortcut}</strong>&quot;? Hành động này không thể hoàn tác.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={submitting}>Hủy</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={submitting} className="bg-red-600 hover:bg-red-700">
+              {submitting ? "Đang xóa..." : "Xóa"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import React, { useContext, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, History, UserCheck, UserMinus, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AuthContext } from '@/contexts/AuthContext';
+import { useDynamicPermission } from '@/hooks/useDynamicPermission';
+import { useConversationAssignment } from '@/hooks/zalo-chat/useConversationAssignment';
+import { useChatEmployees } from '@/hooks/zalo-chat/useChatEmployees';
+import { AssignConversationPayload, Conversation } from '@/types/zalo-chat';
+import { getAssigneeName } from '@/lib/zalo-chat-helper';
+
+interface AssignmentSectionProps {
+  conversation: Conversation;
+  onConversationUpdated?: (conversation: Conversation) => void;
+}
+
+export default function AssignmentSection({ conversation, onConversationUpdated }: AssignmentSectionProps) {
+  const { user } = useContext(AuthContext);
+  const { isAdmin, isManager, isViewRole } = useDynamicPermission();
+  const { history, isLoading, error, assign } = useConversationAssignment(conversation.id);
+
+  const [showForm, setShowForm] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [targetUserId, setTargetUserId] = useState<string>('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const currentUserId = user?.id ?? null;
+  const assignedId = conversation.assigned_user_id ?? null;
+  const isOwner = assignedId !== null && assignedId === currentUserId;
+  const canManage = isAdmin || isManager;
+  // Quản lý giao cho bất kỳ ai; nhân viên chỉ chuyển hội thoại của mình hoặc hội thoại chưa giao
+  const canAssign = !isViewRole && (canManage || isOwner || assignedId === null);
+
+  const departmentIds = useMemo(
+    () => (isAdmin ? null : (user?.departments || []).map(d => d.id)),
+    [isAdmin, user?.departments]
+  );
+  const { employees, isLoading: employeesLoading } = useChatEmployees(showForm, departmentIds);
+
+  const submit = async (payload: AssignConversationPayload, successMessage: string) => {
+    try {
+      setSubmitting(true);
+      const updated = await assign(payload);
+      onConversationUpdated?.(updated ?? {
+        ...conversation,
+        assigned_user_id: payload.assigned_user_id,
+        assigned_user: null,
+        assigned_at: new Date().toISOString(),
+      });
+      toast.success(successMessage);
+      setShowForm(false);
+      setTargetUserId('');
+      setNote('');
+    } catch (e: any) {
+      toast.error('Không thể cập nhật người phụ trách', { description: e?.message });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAssign = () => {
+    const id = Number(targetUserId);
+    if (!id) {
+      toast.error('Vui lòng chọn nhân viên');
+      return;
+    }
+    const employee = employees.find(e => e.id === id);
+    submit({ assigned_user_id: id, note: note.trim() || undefined }, `Đã giao cho ${employee?.fullName || 'nhân viên'}`);
+  };
+
+  const formatTime = (value?: string | null) =>
+    value ? new Date(value).toLocaleString('vi-VN', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' }) : '';
+
+  return (
+    <div className="border-b border-border">
+      <div className="px-4 py-2 text-sm font-medium">Người phụ trách</div>
+      <div className="px-4 pb-3 space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="w-9 h-9 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden flex-shrink-0">
+            {conversation.assigned_user?.avatarZalo ? (
+              <img src={conversation.assigned_user.avatarZalo} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <UserCheck className="h-4 w-4 text-gray-500" />
+            )}
+          </div>
+          <div className="min-w-0 flex-1">
+            {assignedId !== null ? (
+              <>
+                <div className="text-sm font-medium truncate">
+                  {isOwner ? 'Bạn' : getAssigneeName(conversation.assigned_user) || `#${assignedId}`}
+                </div>
+                {conversation.assigned_at && (
+                  <div className="text-xs opacity-70">Từ {formatTime(conversation.assigned_at)}</div>
+                )}
+              </>
+            ) : (
+              <div className="text-sm opacity-70">Chưa giao cho ai</div>
+            )}
+          </div>
+        </div>
+
+        {canAssign && !showForm && (
+          <div className="flex flex-wrap gap-2">
+            {!isOwner && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={submitting}
+                onClick={() => currentUserId && submit({ assigned_user_id: currentUserId }, 'Bạn đã nhận xử lý hội thoại')}
+              >
+                <UserCheck className="h-3.5 w-3.5 mr-1" />
+                Nhận xử lý
+              </Button>
+            )}
+            <Button size="sm" variant="outline" disabled={submitting} onClick={() => setShowForm(true)}>
+              <UserPlus className="h-3.5 w-3.5 mr-1" />
+              Giao cho...
+            </Button>
+            {assignedId !== null && (canManage || isOwner) && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-red-600 hover:text-red-700"
+                disabled={submitting}
+                onClick={() => submit({ assigned_user_id: null }, 'Đã bỏ giao hội thoại')}
+              >
+                <UserMinus className="h-3.5 w-3.5 mr-1" />
+                Bỏ giao
+              </Button>
+            )}
+          </div>
+        )}
+
+        {showForm && (
+          <div className="space-y-2 bg-gray-50 border rounded-lg p-3">
+            <Select value={targetUserId} onValueChange={setTargetUserId} disabled={submitting || employeesLoading}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue placeholder={employeesLoading ? 'Đang tải nhân viên...' : 'Chọn nhân viên'} />
+              </SelectTrigger>
+              <SelectContent>
+                {employees
+                  .filter(e => e.id !== assignedId)
+                  .map(e => (
+                    <SelectItem key={e.id} value={String(e.id)}>
+                      {e.fullName}
+                      <span className="text-xs text-gray-400 ml-1">· {e.departmentName}</span>
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Ghi chú bàn giao (không bắt buộc)"
+              rows={2}
+              className="text-sm"
+              disabled={submitting}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleAssign} disabled={submitting || !targetUserId}>
+                {submitting ? 'Đang lưu...' : 'Xác nhận'}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setShowForm(false)} disabled={submitting}>
+                Hủy
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Lịch sử phân công */}
+        <button
+          className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+          onClick={() => setShowHistory(v => !v)}
+        >
+          {showHistory ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          <History className="h-3 w-3" />
+          Lịch sử phân công ({history.length})
+        </button>
+        {showHistory && (
+          <div className="space-y-2 max-h-48 overflow-auto">
+            {isLoading && <div className="text-xs opacity-70">Đang tải...</div>}
+            {error && <div className="text-xs text-red-500">{error}</div>}
+            {!isLoading && !error && history.length === 0 && (
+              <div className="text-xs opacity-70">Chưa có lịch sử phân công</div>
+            )}
+            {history.map(h => (
+              <div key={h.id} className="text-xs border-l-2 border-blue-200 pl-2">
+                <div>
+                  <span className="font-medium">{getAssigneeName(h.assigned_by) || 'Hệ thống'}</span>
+                  {h.to_user
+                    ? <> giao cho <span className="font-medium">{getAssigneeName(h.to_user)}</span></>
+                    : ' bỏ giao'}
+                  {h.from_user && <span className="opacity-70"> (trước: {getAssigneeName(h.from_user)})</span>}
+                </div>
+                {h.note && <div className="text-gray-600 italic">“{h.note}”</div>}
+                <div className="opacity-60">{formatTime(h.created_at)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useDynamicPermission } from '@/hooks/useDynamicPermission';
+import { useConversationNotes } from '@/hooks/zalo-chat/useConversationNotes';
+
+interface NotesSectionProps {
+  conversationId: number;
+}
+
+export default function NotesSection({ conversationId }: NotesSectionProps) {
+  const { isViewRole } = useDynamicPermission();
+  const { notes, isLoading, error, saveNote } = useConversationNotes(conversationId);
+
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    setDraft(notes?.content || '');
+  }, [notes?.content]);
+
+  const history = useMemo(
+    () => (notes?.notes_history || [])
+      .slice()
+      .sort((a, b) => new Date(b.changed_at).getTime() - new Date(a.changed_at).getTime()),
+    [notes?.notes_history]
+  );
+
+  const dirty = draft.trim() !== (notes?.content || '').trim();
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await saveNote(draft.trim());
+      toast.success('Đã lưu ghi chú');
+    } catch (e: any) {
+      toast.error('Không thể lưu ghi chú', { description: e?.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleString('vi-VN', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="border-b border-border">
+      <div className="px-4 py-2 text-sm font-medium">Ghi chú nội bộ</div>
+      <div className="px-4 pb-3 space-y-2">
+        {error && <div className="text-xs text-red-500">{error}</div>}
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={isLoading ? 'Đang tải...' : 'Ghi chú về khách hàng (chỉ nhân viên thấy)'}
+          rows={3}
+          className="text-sm"
+          disabled={isLoading || saving || isViewRole}
+        />
+        {!isViewRole && dirty && (
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              {saving ? 'Đang lưu...' : 'Lưu ghi chú'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setDraft(notes?.content || '')} disabled={saving}>
+              Hủy
+            </Button>
+          </div>
+        )}
+
+        <button
+          className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+          onClick={() => setShowHistory(v => !v)}
+        >
+          {showHistory ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          <History className="h-3 w-3" />
+          Lịch sử ghi chú ({history.length})
+        </button>
+        {showHistory && (
+          <div className="space-y-2 max-h-48 overflow-auto">
+            {history.length === 0 && <div className="text-xs opacity-70">Chưa có lịch sử ghi chú</div>}
+            {history.map((h, idx) => (
+              <div key={`${h.changed_at}-${idx}`} className="text-xs border-l-2 border-purple-200 pl-2">
+                <div className="font-medium">
+                  {h.user_id != null ? h.user_name || `User #${h.user_id}` : 'Hệ thống'}
+                  <span className="font-normal opacity-60"> · {formatTime(h.changed_at)}</span>
+                </div>
+                <div className="text-gray-600 whitespace-pre-wrap break-words">
+                  {h.content || <span className="italic opacity-70">(đã xóa ghi chú)</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
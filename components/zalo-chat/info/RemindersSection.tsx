@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useState } from 'react';
+import { AlarmClock, Check, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useDynamicPermission } from '@/hooks/useDynamicPermission';
+import { useConversationReminders } from '@/hooks/zalo-chat/useConversationReminders';
+import { ConversationReminderStatus } from '@/types/zalo-chat';
+
+interface RemindersSectionProps {
+  conversationId: number;
+}
+
+// Giá trị cho input datetime-local theo giờ máy
+const toLocalInput = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const QUICK_PRESETS: Array<{ label: string; build: () => Date }> = [
+  { label: '1 giờ nữa', build: () => new Date(Date.now() + 60 * 60 * 1000) },
+  { label: '3 giờ nữa', build: () => new Date(Date.now() + 3 * 60 * 60 * 1000) },
+  {
+    label: '9h sáng mai',
+    build: () => {
+      const d = new Date();
+      d.setDate(d.getDate() + 1);
+      d.setHours(9, 0, 0, 0);
+      return d;
+    },
+  },
+];
+
+export default function RemindersSection({ conversationId }: RemindersSectionProps) {
+  const { isViewRole } = useDynamicPermission();
+  const { reminders, isLoading, error, createReminder, updateReminderStatus } = useConversationReminders(conversationId);
+
+  const [showForm, setShowForm] = useState(false);
+  const [remindAt, setRemindAt] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const pending = reminders.filter(r => r.status === 'pending');
+
+  const handleCreate = async () => {
+    const date = new Date(remindAt);
+    if (!remindAt || Number.isNaN(date.getTime())) {
+      toast.error('Vui lòng chọn thời gian nhắc');
+      return;
+    }
+    if (date.getTime() <= Date.now()) {
+      toast.error('Thời gian nhắc phải ở tương lai');
+      return;
+    }
+    try {
+      setSubmitting(true);
+      await createReminder({ remind_at: date.toISOString(), note: note.trim() || undefined });
+      toast.success('Đã đặt lịch nhắc', { description: date.toLocaleString('vi-VN') });
+      setShowForm(false);
+      setRemindAt('');
+      setNote('');
+    } catch (e: any) {
+      toast.error('Không thể đặt lịch nhắc', { description: e?.message });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStatus = async (id: number, status: ConversationReminderStatus) => {
+    try {
+      await updateReminderStatus(id, status);
+    } catch (e: any) {
+      toast.error('Không thể cập nhật lịch nhắc', { description: e?.message });
+    }
+  };
+
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleString('vi-VN', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="border-b border-border">
+      <div className="px-4 py-2 flex items-center justify-between">
+        <span className="text-sm font-medium">Nhắc việc</span>
+        {!isViewRole && !showForm && (
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setShowForm(true)}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Nhắc tôi
+          </Button>
+        )}
+      </div>
+      <div className="px-4 pb-3 space-y-2">
+        {showForm && (
+          <div className="space-y-2 bg-gray-50 border rounded-lg p-3">
+            <div className="flex flex-wrap gap-1">
+              {QUICK_PRESETS.map(p => (
+                <button
+                  key={p.label}
+                  className="px-2 py-0.5 rounded-full border text-xs hover:bg-white"
+                  onClick={() => setRemindAt(toLocalInput(p.build()))}
+                  disabled={submitting}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            <Input
+              type="datetime-local"
+              value={remindAt}
+              min={toLocalInput(new Date())}
+              onChange={(e) => setRemindAt(e.target.value)}
+              className="h-8 text-sm"
+              disabled={submitting}
+            />
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Nội dung nhắc (không bắt buộc)"
+              className="h-8 text-sm"
+              disabled={submitting}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleCreate} disabled={submitting || !remindAt}>
+                {submitting ? 'Đang lưu...' : 'Đặt lịch'}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setShowForm(false)} disabled={submitting}>
+                Hủy
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading && <div className="text-xs opacity-70">Đang tải...</div>}
+        {error && <div className="text-xs text-red-500">{error}</div>}
+        {!isLoading && !error && pending.length === 0 && !showForm && (
+          <div className="text-xs opacity-70">Không có lịch nhắc</div>
+        )}
+        {pending.map(r => {
+          const overdue = new Date(r.remind_at).getTime() <= Date.now();
+          return (
+            <div key={r.id} className="flex items-start gap-2 text-xs">
+              <AlarmClock className={`h-3.5 w-3.5 mt-0.5 flex-shrink-0 ${overdue ? 'text-red-500' : 'text-blue-500'}`} />
+              <div className="flex-1 min-w-0">
+                <div className={overdue ? 'text-red-600 font-medium' : 'font-medium'}>{formatTime(r.remind_at)}</div>
+                {r.note && <div className="text-gray-600 break-words">{r.note}</div>}
+              </div>
+              {!isViewRole && (
+                <div className="flex gap-0.5">
+                  <button
+                    className="p-1 rounded hover:bg-green-50 text-green-600"
+                    title="Đã xong"
+                    onClick={() => handleStatus(r.id, 'done')}
+                  >
+                    <Check className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    className="p-1 rounded hover:bg-red-50 text-red-500"
+                    title="Hủy nhắc"
+                    onClick={() => handleStatus(r.id, 'cancelled')}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Check, Plus, Tag, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useDynamicPermission } from '@/hooks/useDynamicPermission';
+import { useConversationTags } from '@/hooks/zalo-chat/useConversationTags';
+import { Conversation, ConversationTag } from '@/types/zalo-chat';
+import { TAG_COLORS } from '@/lib/zalo-chat-helper';
+
+interface TagsSectionProps {
+  conversation: Conversation;
+  onConversationUpdated?: (conversation: Conversation) => void;
+}
+
+export default function TagsSection({ conversation, onConversationUpdated }: TagsSectionProps) {
+  const { isViewRole } = useDynamicPermission();
+  const [open, setOpen] = useState(false);
+  const { tags: catalogue, isLoading, createTag, setConversationTags } = useConversationTags(open);
+
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(TAG_COLORS[0]);
+  const [saving, setSaving] = useState(false);
+
+  const current = conversation.tags || [];
+  const currentIds = current.map(t => t.id);
+
+  const apply = async (tagIds: number[], fallback: ConversationTag[]) => {
+    try {
+      setSaving(true);
+      const updated = await setConversationTags(conversation.id, tagIds);
+      onConversationUpdated?.({ ...conversation, tags: updated ?? fallback });
+    } catch (e: any) {
+      toast.error('Không thể cập nhật thẻ', { description: e?.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = (tag: ConversationTag) => {
+    const next = currentIds.includes(tag.id)
+      ? current.filter(t => t.id !== tag.id)
+      : [...current, tag];
+    apply(next.map(t => t.id), next);
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (catalogue.some(t => t.name.toLowerCase() === name.toLowerCase())) {
+      toast.error('Thẻ đã tồn tại');
+      return;
+    }
+    try {
+      setSaving(true);
+      const created = await createTag({ name, color: newColor });
+      setNewName('');
+      await apply([...currentIds, created.id], [...current, created]);
+    } catch (e: any) {
+      toast.error('Không thể tạo thẻ', { description: e?.message });
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-b border-border">
+      <div className="px-4 py-2 flex items-center justify-between">
+        <span className="text-sm font-medium">Thẻ</span>
+        {!isViewRole && (
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="ghost" className="h-7 px-2 text-xs">
+                <Tag className="h-3.5 w-3.5 mr-1" />
+                Gắn thẻ
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 p-2">
+              <div className="max-h-48 overflow-auto space-y-0.5">
+                {isLoading && catalogue.length === 0 && (
+                  <div className="text-xs opacity-70 px-2 py-1">Đang tải...</div>
+                )}
+                {!isLoading && catalogue.length === 0 && (
+                  <div className="text-xs opacity-70 px-2 py-1">Chưa có thẻ nào</div>
+                )}
+                {catalogue.map(tag => (
+                  <button
+                    key={tag.id}
+                    className="w-full flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-50 text-sm text-left"
+                    disabled={saving}
+                    onClick={() => toggle(tag)}
+                  >
+                    <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: tag.color }} />
+                    <span className="flex-1 truncate">{tag.name}</span>
+                    {currentIds.includes(tag.id) && <Check className="h-3.5 w-3.5 text-blue-600" />}
+                  </button>
+                ))}
+              </div>
+              <div className="border-t mt-2 pt-2 space-y-2">
+                <div className="flex gap-1">
+                  <Input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                    placeholder="Tên thẻ mới"
+                    className="h-7 text-xs"
+                    disabled={saving}
+                  />
+                  <Button size="sm" className="h-7 px-2" onClick={handleCreate} disabled={saving || !newName.trim()}>
+                    <Plus className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {TAG_COLORS.map(color => (
+                    <button
+                      key={color}
+                      className={`w-5 h-5 rounded-full border-2 ${newColor === color ? 'border-gray-800' : 'border-transparent'}`}
+                      style={{ backgroundColor: color }}
+                      onClick={() => setNewColor(color)}
+                      aria-label={color}
+                    />
+                  ))}
+                </div>
+              </div>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+      <div className="px-4 pb-3 flex flex-wrap gap-1">
+        {current.length === 0 && <span className="text-xs opacity-70">Chưa gắn thẻ</span>}
+        {current.map(tag => (
+          <span
+            key={tag.id}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs text-white"
+            style={{ backgroundColor: tag.color }}
+          >
+            {tag.name}
+            {!isViewRole && (
+              <button onClick={() => toggle(tag)} disabled={saving} className="hover:opacity-80" aria-label="Bỏ thẻ">
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,44 @@
 "use client";
 
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
 import { useDynamicPermission } from '@/hooks/useDynamicPermission';
 import ChatSidebar from './parts/ChatSidebar';
 import ChatMainArea from './parts/ChatMainArea';
 import ChatInfoPanel from './parts/ChatInfoPanel';
-import { Conversation } from '@/types/zalo-chat';
+import { useConversation } from '@/hooks/zalo-chat/useConversation';
+import { Conversation, MessageJumpTarget, MessageLocator } from '@/types/zalo-chat';
+
+type ChatDeepLink = MessageLocator & { conversation_id: number };
+
+// Đọc liên kết /zalo-chat?conversation_id=..&message_id=..|zalo_message_id=.. (mở từ đơn hàng)
+function DeepLinkReader({ onLink }: { onLink: (link: ChatDeepLink) => void }) {
+  const searchParams = useSearchParams();
+  const conversationId = Number(searchParams.get('conversation_id'));
+  const messageId = Number(searchParams.get('message_id')) || null;
+  const zaloMessageId = searchParams.get('zalo_message_id');
+
+  useEffect(() => {
+    if (!conversationId) return;
+    onLink({ conversation_id: conversationId, message_id: messageId, zalo_message_id: zaloMessageId });
+  }, [conversationId, messageId, zaloMessageId, onLink]);
+
+  return null;
+}
 
 export default function ZaloChatLayout() {
   const { user } = useDynamicPermission();
   const userId = useMemo(() => user?.id ? Number(user.id) : null, [user?.id]);
   const [activeConversation, setActiveConversation] = useState<Conversation | null>(null);
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  // Hội thoại vừa được cập nhật từ panel thông tin (phân công...) để đồng bộ sang sidebar
+  const [patchedConversation, setPatchedConversation] = useState<Conversation | null>(null);
+  // Tin nhắn cần nhảy tới khi mở từ kết quả tìm kiếm
+  const [jumpTo, setJumpTo] = useState<MessageJumpTarget | null>(null);
   const hasAutoSelectedRef = React.useRef(false);
+  const [deepLink, setDeepLink] = useState<ChatDeepLink | null>(null);
+  const { conversation: linkedConversation, error: linkedError } = useConversation(deepLink?.conversation_id ?? null);
 
   console.log('🏗️ ZaloChatLayout Debug:', { 
     user, 
@@ -30,6 +56,45 @@ export default function ZaloChatLayout() {
     }
   }, [conversations, activeConversation]);
 
+  const handleConversationUpdated = React.useCallback((updated: Conversation) => {
+    setActiveConversation(prev => (prev && prev.id === updated.id ? { ...prev, ...updated } : prev));
+    setPatchedConversation(updated);
+  }, []);
+
+  const handleSelectConversation = React.useCallback((conversation: Conversation | null) => {
+    setJumpTo(null);
+    setActiveConversation(conversation);
+  }, []);
+
+  const handleOpenSearchHit = React.useCallback((conversation: Conversation, messageId: number) => {
+    hasAutoSelectedRef.current = true;
+    setActiveConversation(prev => (prev && prev.id === conversation.id ? prev : conversation));
+    setJumpTo({ conversation_id: conversation.id, message_id: messageId, requested_at: Date.now() });
+  }, []);
+
+  const handleDeepLink = React.useCallback((link: ChatDeepLink) => {
+    hasAutoSelectedRef.current = true;
+    setDeepLink(link);
+  }, []);
+
+  useEffect(() => {
+    if (!deepLink || !linkedConversation || linkedConversation.id !== deepLink.conversation_id) return;
+    setActiveConversation(linkedConversation);
+    if (deepLink.message_id || deepLink.zalo_message_id) {
+      setJumpTo({ ...deepLink, requested_at: Date.now() });
+    }
+    setDeepLink(null);
+  }, [deepLink, linkedConversation]);
+
+  useEffect(() => {
+    if (!deepLink || !linkedError) return;
+    toast.error('Không mở được hội thoại từ liên kết', { description: linkedError });
+    // Quay về hành vi mặc định: chọn hội thoại đầu tiên
+    setActiveConversation(prev => prev ?? conversations[0] ?? null);
+    hasAutoSelectedRef.current = conversations.length > 0;
+    setDeepLink(null);
+  }, [deepLink, linkedError, conversations]);
+
   if (!userId) {
     return (
       <div className="h-full w-full flex items-center justify-center text-sm opacity-80">
@@ -39,20 +104,25 @@ export default function ZaloChatLayout() {
   }
 
   return (
-    <div className="h-screen w-screen grid overflow-hidden" style={{ gridTemplateColumns: '450px 1fr 0px' }}>
+    <div className="h-screen w-screen grid overflow-hidden" style={{ gridTemplateColumns: '450px 1fr auto' }}>
+      <Suspense fallback={null}>
+        <DeepLinkReader onLink={handleDeepLink} />
+      </Suspense>
       <div className="border-r border-border overflow-hidden">
         <ChatSidebar 
           userId={userId} 
           activeConversationId={activeConversation?.id ?? null} 
-          onSelectConversation={setActiveConversation}
+          onSelectConversation={handleSelectConversation}
           onConversationsChange={setConversations}
+          patchedConversation={patchedConversation}
+          onOpenSearchHit={handleOpenSearchHit}
         />
       </div>
       <div className="overflow-hidden">
-        <ChatMainArea conversation={activeConversation} />
+        <ChatMainArea conversation={activeConversation} jumpTo={jumpTo} />
       </div>
       <div className="border-l border-border overflow-hidden hidden xl:block" style={{ width: 320 }}>
-        <ChatInfoPanel conversation={activeConversation} />
+        <ChatInfoPanel conversation={activeConversation} onConversationUpdated={handleConversationUpdated} />
       </div>
     </div>
   );
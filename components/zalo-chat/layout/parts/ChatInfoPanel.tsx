@@ -3,12 +3,17 @@
 import React, { useMemo } from 'react';
 import { useGroupMembers } from '@/hooks/zalo-chat/useGroupMembers';
 import { Conversation } from '@/types/zalo-chat';
+import AssignmentSection from '@/components/zalo-chat/info/AssignmentSection';
+import TagsSection from '@/components/zalo-chat/info/TagsSection';
+import NotesSection from '@/components/zalo-chat/info/NotesSection';
+import RemindersSection from '@/components/zalo-chat/info/RemindersSection';
 
 interface ChatInfoPanelProps {
   conversation: Conversation | null;
+  onConversationUpdated?: (conversation: Conversation) => void;
 }
 
-export default function ChatInfoPanel({ conversation }: ChatInfoPanelProps) {
+export default function ChatInfoPanel({ conversation, onConversationUpdated }: ChatInfoPanelProps) {
   const params = useMemo(() => {
     if (!conversation) return null;
     return {
@@ -29,11 +34,15 @@ export default function ChatInfoPanel({ conversation }: ChatInfoPanelProps) {
   }
 
   return (
-    <div className="h-full w-full flex flex-col">
+    <div className="h-full w-full overflow-auto">
+      <AssignmentSection conversation={conversation} onConversationUpdated={onConversationUpdated} />
+      <TagsSection conversation={conversation} onConversationUpdated={onConversationUpdated} />
+      <NotesSection conversationId={conversation.id} />
+      <RemindersSection conversationId={conversation.id} />
       <div className="border-b border-border px-4 py-2 text-sm font-medium">
         Thành viên
       </div>
-      <div className="flex-1 overflow-auto p-3 space-y-2">
+      <div className="p-3 space-y-2">
         {isLoading && <div className="text-sm opacity-70">Đang tải...</div>}
         {error && <div className="text-xs text-red-500">{error}</div>}
         {!isLoading && !error && members.map(m => (
@@ -3,16 +3,35 @@
 import React, { useMemo, useRef, useState, useEffect, useLayoutEffect, useContext } from "react";
 import { useMessages } from "@/hooks/zalo-chat/useMessages";
 import { useGroupMembers } from "@/hooks/zalo-chat/useGroupMembers";
+import { useZaloChatRealtime } from "@/hooks/zalo-chat/useZaloChatRealtime";
+import { useChatSnippets } from "@/hooks/zalo-chat/useChatSnippets";
 import TextMessage from "@/components/zalo-chat/messages/MessageTypes/TextMessage";
-import { Conversation } from "@/types/zalo-chat";
+import { Conversation, MessageJumpTarget, MessageLocator } from "@/types/zalo-chat";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Smile, Paperclip, Image, MoreHorizontal, ThumbsUp } from "lucide-react";
+import { Smile, Paperclip, Image, MoreHorizontal, ThumbsUp, SendHorizontal, X, Zap, ArrowDown } from "lucide-react";
 import { useDynamicPermission } from "@/hooks/useDynamicPermission";
 import { AuthContext } from "@/contexts/AuthContext";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import MessageActions from "@/components/zalo-chat/messages/MessageActions";
+import MessageReactions from "@/components/zalo-chat/messages/MessageReactions";
+import MessageSendStatus from "@/components/zalo-chat/messages/MessageSendStatus";
+import MediaMessage, { hasMediaRenderer } from "@/components/zalo-chat/messages/MediaMessage";
+import SystemMessage from "@/components/zalo-chat/messages/MessageTypes/SystemMessage";
+import SnippetPicker, { SnippetPickerHandle } from "@/components/zalo-chat/composer/SnippetPicker";
+import SnippetsModal from "@/components/zalo-chat/composer/SnippetsModal";
+import ComposerAttachments, { ComposerAttachment, ComposerAttachmentMode } from "@/components/zalo-chat/composer/ComposerAttachments";
+import MessageOrderBadge from "@/components/zalo-chat/messages/MessageOrderBadge";
+import { useConversationOrderLinks } from "@/hooks/zalo-chat/useConversationOrderLinks";
+import { buildSnippetContext, CHAT_MAX_ATTACHMENTS, dataUrlToFile, extractMessageText, matchesMessageLocator, readFileAsDataUrl, validateChatAttachment } from "@/lib/zalo-chat-helper";
+import { toast } from "sonner";
+
+interface ChatMainAreaProps {
+  conversation: Conversation | null;
+  jumpTo?: MessageJumpTarget | null; // mở từ kết quả tìm kiếm: tải trang quanh tin nhắn và cuộn tới
+}
 
-export default function ChatMainArea({ conversation }: { conversation: Conversation | null }) {
+export default function ChatMainArea({ conversation, jumpTo }: ChatMainAreaProps) {
   const scrollRef = useRef<HTMLDivElement | null>(null);
   const topRef = useRef<HTMLDivElement | null>(null);
   
@@ -29,6 +48,26 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
   
   // Message input state
   const [messageText, setMessageText] = useState("");
+  const [replyTo, setReplyTo] = useState<any | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  // Tệp đính kèm chờ gửi (base64 giống MultiImageSelector / MultiFileSelector)
+  const [attachmentMode, setAttachmentMode] = useState<ComposerAttachmentMode | null>(null);
+  const [pendingImages, setPendingImages] = useState<ComposerAttachment[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<ComposerAttachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+
+  // Câu trả lời nhanh: gõ "/" ở đầu ô nhập để mở picker
+  const snippetsState = useChatSnippets(canSendMessages);
+  const snippetPickerRef = useRef<SnippetPickerHandle | null>(null);
+  const [snippetPickerDismissed, setSnippetPickerDismissed] = useState(false);
+  const [showSnippetsModal, setShowSnippetsModal] = useState(false);
+  const snippetQuery = messageText.match(/^\/(\S*)$/)?.[1];
+  const showSnippetPicker = canSendMessages && snippetQuery !== undefined && !snippetPickerDismissed;
+  const snippetContext = useMemo(
+    () => buildSnippetContext(conversation, user?.zaloName || user?.fullName || user?.username),
+    [conversation, user]
+  );
 
   // tích lũy theo thời gian tăng dần (cũ -> mới)
   const [acc, setAcc] = useState<any[]>([]);
@@ -66,25 +105,33 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
   // Function to scroll to and highlight a message
   const scrollToMessage = (messageId: number) => {
     const messageElement = document.getElementById(`message-${messageId}`);
-    if (messageElement) {
-      // Highlight the message
-      setHighlightedMessageId(messageId);
-      
-      // Scroll to the message with smooth behavior
-      messageElement.scrollIntoView({ 
-        behavior: 'smooth', 
-        block: 'center' 
-      });
-      
-      // Remove highlight after 3 seconds
-      setTimeout(() => {
-        setHighlightedMessageId(null);
-      }, 3000);
+    if (!messageElement) {
+      // Tin nhắn chưa có trong các trang đã tải (vd: trích dẫn tin nhắn cũ)
+      jumpToMessage({ message_id: messageId });
+      return;
     }
+
+    // Highlight the message
+    setHighlightedMessageId(messageId);
+    
+    // Scroll to the message with smooth behavior
+    messageElement.scrollIntoView({ 
+      behavior: 'smooth', 
+      block: 'center' 
+    });
+    
+    // Remove highlight after 3 seconds
+    setTimeout(() => {
+      setHighlightedMessageId(null);
+    }, 3000);
   };
 
   const [hasAutoScrolled, setHasAutoScrolled] = useState(false);
 
+  // Trang đang xem sau khi nhảy tới tin nhắn cũ (null = đang ở các tin nhắn mới nhất)
+  const [detachedPage, setDetachedPage] = useState<number | null>(null);
+  const pendingScrollIdRef = useRef<number | null>(null);
+
   // giữ vị trí khi prepend
   const [isPaging, setIsPaging] = useState(false);
   const prevH = useRef(0);
@@ -103,8 +150,52 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
     };
   }, [conversation?.id, page, q]);
 
-  const { messages: fetched = [], isLoading, error, pagination } = useMessages(params);
+  const {
+    messages: fetched = [],
+    isLoading,
+    error,
+    pagination,
+    outgoingMessages,
+    sendMessage,
+    sendAttachment,
+    retryMessage,
+    discardMessage,
+    sendReaction,
+    applyPendingReactions,
+    liveMessages,
+    receiveMessage,
+    markRead,
+    syncLatest,
+    loadAround,
+  } = useMessages(params);
+
+  // Nhận tin nhắn mới / trạng thái đã xem theo thời gian thực
+  const nearBottomRef = useRef(true);
+  useZaloChatRealtime({
+    onMessageNew: (data) => {
+      if (!conversation || data.conversation_id !== conversation.id) return;
+      receiveMessage(data.message);
+    },
+    onMessageRead: (data) => {
+      if (!conversation || data.conversation_id !== conversation.id) return;
+      const ids = data.message_ids ? new Set(data.message_ids) : null;
+      markRead(data.message_ids);
+      setAcc(prev => prev.map(m => (
+        m.is_outgoing && !m.is_read && (!ids || ids.has(m.id)) ? { ...m, is_read: true } : m
+      )));
+    },
+    onReconnect: () => {
+      syncLatest();
+    },
+  });
   
+  // Dòng đơn hàng được trích xuất từ tin nhắn của hội thoại (OrderDetail.zaloMessageId)
+  const { byMessageId: orderLinks } = useConversationOrderLinks(conversation?.id ?? null);
+  const renderOrderBadge = (m: any) => {
+    const details = m.zalo_message_id ? orderLinks.get(String(m.zalo_message_id)) : undefined;
+    return details && details.length > 0 ? <MessageOrderBadge details={details} /> : null;
+  };
+
   // Get group members for group conversations
   const { members: groupMembers = [] } = useGroupMembers(
     conversation?.conversation_type === 'group' ? { conversation_id: conversation.id } : null
@@ -120,6 +211,11 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
     setIsPaging(false);
     setHasAutoScrolled(false); // Reset auto-scroll flag
     setErrorTooltip({ show: false, message: '', target: '' }); // Reset error tooltip
+    setReplyTo(null);
+    setAttachmentMode(null);
+    setPendingImages([]);
+    setPendingFiles([]);
+    setDetachedPage(null);
     
     // Log để debug
     if (!conversation) {
@@ -218,25 +314,213 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
     return () => ob.disconnect();
   }, [hasMore, isLoading, isPaging, ready, page, userScrolled]);
 
-  const onScroll = () => { if (!userScrolled) setUserScrolled(true); };
+  // Tải trang chứa tin nhắn và thay cho danh sách hiện tại, sau đó cuộn + tô sáng tin nhắn đó
+  const jumpToMessage = async (target: MessageLocator) => {
+    const result = await loadAround(target);
+    if (!result) return;
+    const found = result.messages.find(m => matchesMessageLocator(m, target));
+    if (!found) {
+      toast.error('Không tìm thấy tin nhắn', { description: 'Tin nhắn có thể đã bị xóa' });
+      return;
+    }
+
+    const asc = [...result.messages].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    const jumpedPage = result.pagination?.page ?? 1;
+    const totalPages = result.pagination?.total_pages;
+    setAcc(asc);
+    setPage(jumpedPage);
+    setHasMore(totalPages !== undefined ? jumpedPage < totalPages : asc.length === LIMIT);
+    setIsPaging(false);
+    setHasAutoScrolled(true);
+    setReady(true);
+    setDetachedPage(jumpedPage > 1 ? jumpedPage : null);
+    pendingScrollIdRef.current = found.id;
+  };
+
+  // Quay về các tin nhắn mới nhất sau khi đã nhảy tới tin nhắn cũ
+  const goToLatest = () => {
+    setDetachedPage(null);
+    setAcc([]);
+    setHasMore(true);
+    setReady(false);
+    setUserScrolled(false);
+    setHasAutoScrolled(false);
+    setPage(1);
+  };
+
+  useEffect(() => {
+    const messageId = pendingScrollIdRef.current;
+    if (messageId === null || !document.getElementById(`message-${messageId}`)) return;
+    pendingScrollIdRef.current = null;
+    scrollToMessage(messageId);
+  }, [acc]); // eslint-disable-line
+
+  // Mở từ kết quả tìm kiếm (chạy sau effect reset khi đổi hội thoại)
+  useEffect(() => {
+    if (!jumpTo || !conversation || jumpTo.conversation_id !== conversation.id) return;
+    jumpToMessage(jumpTo);
+  }, [jumpTo, conversation?.id]); // eslint-disable-line
+
+  const onScroll = () => {
+    if (!userScrolled) setUserScrolled(true);
+    const el = scrollRef.current;
+    if (el) nearBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 150;
+  };
+
+  // Tin nhắn đã tải + tin nhắn realtime + tin nhắn đang gửi từ web (chưa có trong danh sách backend)
+  const displayMessages = useMemo(() => {
+    // Đang xem đoạn tin nhắn cũ: tin nhắn mới / đang gửi chỉ hiện khi quay về cuối
+    if (detachedPage !== null) return applyPendingReactions(acc);
+    const loadedIds = new Set(acc.map(m => m.id));
+    const live = liveMessages.filter(m => !loadedIds.has(m.id));
+    live.forEach(m => loadedIds.add(m.id));
+    return applyPendingReactions([...acc, ...live, ...outgoingMessages.filter(m => !loadedIds.has(m.id))]);
+  }, [acc, liveMessages, outgoingMessages, detachedPage, applyPendingReactions]);
+
+  // Có tin nhắn mới đến: chỉ tự cuộn khi người dùng đang ở cuối danh sách
+  useLayoutEffect(() => {
+    if (liveMessages.length === 0 || !scrollRef.current || !nearBottomRef.current) return;
+    scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [liveMessages.length]);
+
+  // Cuộn xuống cuối khi có tin nhắn mới được gửi
+  useLayoutEffect(() => {
+    if (outgoingMessages.length === 0 || !scrollRef.current) return;
+    scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [outgoingMessages.length]);
+
+  const submitMessage = async (text: string, quoted: any | null) => {
+    const saved = await sendMessage({ text, quoted_message: quoted });
+    if (!saved) {
+      toast.error('Gửi tin nhắn thất bại', { description: 'Bấm "Thử lại" bên dưới tin nhắn để gửi lại.' });
+    }
+  };
+
+  const submitAttachment = async (attachment: ComposerAttachment) => {
+    const file = dataUrlToFile(attachment.base64, attachment.filename, attachment.type);
+    const saved = await sendAttachment({
+      file,
+      preview_url: file.type.startsWith('image/') ? attachment.base64 : undefined,
+    });
+    if (!saved) {
+      toast.error(`Gửi "${attachment.filename}" thất bại`, { description: 'Bấm "Thử lại" bên dưới tin nhắn để gửi lại.' });
+    }
+  };
+
+  const hasPendingAttachments = pendingImages.length > 0 || pendingFiles.length > 0;
+
+  const clearAttachments = () => {
+    setAttachmentMode(null);
+    setPendingImages([]);
+    setPendingFiles([]);
+  };
+
+  // Tệp kéo thả / dán từ clipboard: kiểm tra rồi đưa vào khay đính kèm
+  const addAttachmentFiles = async (fileList: FileList | File[]) => {
+    if (!canSendMessages) return;
+    const incoming = Array.from(fileList);
+    if (incoming.length === 0) return;
+
+    const images: ComposerAttachment[] = [];
+    const files: ComposerAttachment[] = [];
+    for (const file of incoming) {
+      const error = validateChatAttachment(file);
+      if (error) {
+        toast.error(file.name || 'Tệp đính kèm', { description: error });
+        continue;
+      }
+      const isImage = file.type.startsWith('image/');
+      const target = isImage ? images : files;
+      const current = isImage ? pendingImages : pendingFiles;
+      if (current.length + target.length >= CHAT_MAX_ATTACHMENTS) {
+        toast.error(`Chỉ đính kèm tối đa ${CHAT_MAX_ATTACHMENTS} ${isImage ? 'ảnh' : 'tệp'} mỗi lần gửi`);
+        continue;
+      }
+      try {
+        const base64 = await readFileAsDataUrl(file);
+        // Ảnh dán từ clipboard thường không có tên
+        const filename = file.name || `image-${Date.now()}.${file.type.split('/')[1] || 'png'}`;
+        target.push({ base64, filename, size: file.size, type: file.type });
+      } catch {
+        toast.error(`Không thể đọc "${file.name}"`);
+      }
+    }
+
+    if (images.length > 0) setPendingImages(prev => [...prev, ...images]);
+    if (files.length > 0) setPendingFiles(prev => [...prev, ...files]);
+    if (images.length > 0 || files.length > 0) {
+      setAttachmentMode(images.length > 0 ? 'image' : 'file');
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canSendMessages || e.defaultPrevented || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDraggingFiles(false);
+    // Vùng thả của selector trong khay đính kèm đã tự xử lý
+    if (!canSendMessages || e.defaultPrevented || e.dataTransfer.files.length === 0) return;
+    e.preventDefault();
+    addAttachmentFiles(e.dataTransfer.files);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    if (!canSendMessages || e.clipboardData.files.length === 0) return;
+    e.preventDefault();
+    addAttachmentFiles(e.clipboardData.files);
+  };
 
   // Handle message sending
   const handleSendMessage = () => {
-    if (!messageText.trim() || !conversation || !canSendMessages) return;
-    
-    // TODO: Implement actual message sending
-    console.log('Sending message:', messageText, 'to conversation:', conversation.id);
-    
-    // For now, just clear the input
+    const text = messageText.trim();
+    if ((!text && !hasPendingAttachments) || !conversation || !canSendMessages) return;
+
+    const quoted = replyTo;
+    const attachments = [...pendingImages, ...pendingFiles];
+    if (detachedPage !== null) goToLatest();
     setMessageText("");
+    setReplyTo(null);
+    clearAttachments();
+    if (text) submitMessage(text, quoted);
+    attachments.forEach(submitAttachment);
   };
 
   // Handle quick reaction (thumbs up)
   const handleQuickReaction = () => {
     if (!conversation || !canSendMessages) return;
-    
-    // TODO: Implement quick reaction
-    console.log('Sending quick reaction to conversation:', conversation.id);
+    submitMessage('👍', null);
+  };
+
+  const handleReply = (m: any) => {
+    if (!canSendMessages) return;
+    setReplyTo(m);
+    inputRef.current?.focus();
+  };
+
+  const handleReact = async (m: any, reactionType: string) => {
+    if (!canSendMessages) return;
+    try {
+      await sendReaction(m.id, {
+        user_id: String(user?.id ?? ''),
+        user_name: user?.zaloName || user?.fullName || user?.username || '',
+        reaction_type: reactionType,
+        reaction_text: null,
+        created_at: new Date().toISOString(),
+      });
+    } catch (e: any) {
+      toast.error('Không thể thả cảm xúc', { description: e?.message });
+    }
   };
 
   if (!conversation) {
@@ -244,7 +528,21 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
   }
 
   return (
-    <div className="h-full w-full flex flex-col bg-white">
+    <div
+      className="h-full w-full flex flex-col bg-white relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Lớp phủ khi kéo thả tệp vào khung chat */}
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-40 m-2 flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-blue-400 bg-blue-50/90 pointer-events-none">
+          <Paperclip className="h-8 w-8 text-blue-500 mb-2" />
+          <p className="text-sm font-medium text-blue-700">Thả ảnh hoặc tệp để gửi</p>
+          <p className="text-xs text-blue-500 mt-1">Ảnh tối đa 10MB, Word/Excel/PDF tối đa 20MB</p>
+        </div>
+      )}
+
       {/* Header */}
       <div className="border-b border-gray-200 px-6 py-4">
         <div className="flex items-center gap-4">
@@ -305,7 +603,7 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
 
           {/* đẩy phần tin nhắn xuống đáy */}
           <div className="mt-auto space-y-4">
-            {acc.map(m => {
+            {displayMessages.map(m => {
               // Ẩn tin nhắn hệ thống không cần thiết
               if (m.content_type === 'SYSTEM' && m.content?.includes('undo_message')) {
                 return null;
@@ -405,6 +703,20 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
                 } catch {}
               }
 
+              // Các tin nhắn hệ thống còn lại: banner ở giữa
+              if (m.content_type === 'SYSTEM') {
+                return (
+                  <div key={m.id} id={`message-${m.id}`} className={`flex flex-col items-center my-2 ${highlightedMessageId === m.id ? 'bg-yellow-100 rounded-lg p-2 transition-colors duration-300' : ''}`}>
+                    <SystemMessage message={m} />
+                    <div className="text-xs text-gray-400 mt-1">
+                      {formatTimestamp(m.timestamp)}
+                    </div>
+                  </div>
+                );
+              }
+
+              const isMediaMessage = hasMediaRenderer(m);
+
               // Tin nhắn nhận (bên trái)
               if (!m.is_outgoing) {
                 // Tìm avatar từ group members nếu là nhóm
@@ -423,6 +735,48 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
                 const senderAvatar = getSenderAvatar();
                 const senderName = m.sender?.name || m.sender_name || 'Unknown User';
 
+                // Tin nhắn media (ảnh, video, audio, file, sticker, vị trí, danh thiếp)
+                if (isMediaMessage) {
+                  return (
+                    <div key={m.id} id={`message-${m.id}`} className={`group flex items-start gap-2 justify-start ${highlightedMessageId === m.id ? 'bg-yellow-100 rounded-lg p-2 transition-colors duration-300' : ''}`}>
+                      {/* Avatar bên trái */}
+                      <div className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center flex-shrink-0 mt-1 overflow-hidden">
+                        {senderAvatar ? (
+                          <img 
+                            src={senderAvatar.replace(/"/g, '')} 
+                            alt={senderName}
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          <svg className="w-7 h-7 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                          </svg>
+                        )}
+                      </div>
+
+                      <div className="max-w-[70%] break-words">
+                        {/* Tên người gửi */}
+                        <div className="text-xs text-gray-500 mb-1 px-1">
+                          {senderName}
+                        </div>
+
+                        <MediaMessage message={m} />
+                        <MessageReactions reactions={m.reactions} side="left" />
+
+                        {/* Thời gian */}
+                        <div className="text-xs text-gray-400 mt-1 text-left">
+                          {formatTimestamp(m.timestamp)}
+                        </div>
+                        {renderOrderBadge(m)}
+                      </div>
+
+                      {canSendMessages && (
+                        <MessageActions onReply={() => handleReply(m)} onReact={(type) => handleReact(m, type)} />
+                      )}
+                    </div>
+                  );
+                }
+
                 // Xử lý contact card riêng (không có khung bong bóng)
                 if (isContactCard) {
                   let parsed;
@@ -505,6 +859,7 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
                         <div className="text-xs text-gray-400 mt-1 text-left px-1">
                           {formatTimestamp(m.timestamp)}
                         </div>
+                        {renderOrderBadge(m)}
                       </div>
                     </div>
                   );
@@ -569,6 +924,7 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
                         <div className="text-xs text-gray-400 mt-1 text-left px-1">
                           {formatTimestamp(m.timestamp)}
                         </div>
+                        {renderOrderBadge(m)}
                       </div>
                     </div>
                   );
@@ -686,6 +1042,7 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
                           <div className="text-xs text-gray-400 mt-1 text-left">
                             {formatTimestamp(m.timestamp)}
                           </div>
+                          {renderOrderBadge(m)}
                         </div>
                       </div>
                     );
@@ -828,13 +1185,14 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
                         <div className="text-xs text-gray-400 mt-1 text-left">
                           {formatTimestamp(m.timestamp)}
                         </div>
+                        {renderOrderBadge(m)}
                       </div>
                     </div>
                   );
                 }
 
                 return (
-                  <div key={m.id} id={`message-${m.id}`} className={`flex items-start gap-2 justify-start ${highlightedMessageId === m.id ? 'bg-yellow-100 rounded-lg p-2 transition-colors duration-300' : ''}`}>
+                  <div key={m.id} id={`message-${m.id}`} className={`group flex items-start gap-2 justify-start ${highlightedMessageId === m.id ? 'bg-yellow-100 rounded-lg p-2 transition-colors duration-300' : ''}`}>
                     {/* Avatar bên trái */}
                     <div className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center flex-shrink-0 mt-1 overflow-hidden">
                       {senderAvatar ? (
@@ -1541,16 +1899,65 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
                         </div>
                       </div>
                       
+                      <MessageReactions reactions={m.reactions} side="left" />
+
                       {/* Thời gian */}
                       <div className="text-xs text-gray-400 mt-1 text-left">
                         {formatTimestamp(m.timestamp)}
                       </div>
                     </div>
+
+                    {canSendMessages && m.content_type !== 'SYSTEM' && (
+                      <MessageActions onReply={() => handleReply(m)} onReact={(type) => handleReact(m, type)} />
+                    )}
                   </div>
                 );
               }
 
               // Tin nhắn gửi (bên phải)
+              // Tin nhắn media (ảnh, video, audio, file, sticker, vị trí, danh thiếp)
+              if (isMediaMessage) {
+                return (
+                  <div key={m.id} id={`message-${m.id}`} className={`group flex items-start gap-2 justify-end ${highlightedMessageId === m.id ? 'bg-yellow-100 rounded-lg p-2 transition-colors duration-300' : ''}`}>
+                    {canSendMessages && m.id > 0 && (
+                      <MessageActions onReply={() => handleReply(m)} onReact={(type) => handleReact(m, type)} />
+                    )}
+                    <div className="max-w-[70%] break-words flex flex-col items-end">
+                      <MediaMessage message={m} />
+                      <MessageReactions reactions={m.reactions} side="right" />
+
+                      {/* Thời gian */}
+                      <div className="text-xs text-gray-400 mt-1 text-right">
+                        {formatTimestamp(m.timestamp)}
+                      </div>
+
+                      {m.send_status && (
+                        <MessageSendStatus
+                          message={m}
+                          onRetry={() => retryMessage(m.metadata?.client_message_id)}
+                          onDiscard={() => discardMessage(m.metadata?.client_message_id)}
+                        />
+                      )}
+                    </div>
+
+                    {/* Avatar bên phải */}
+                    <div className="w-12 h-12 rounded-full bg-blue-500 flex items-center justify-center flex-shrink-0 mt-1 overflow-hidden">
+                      {user?.avatarZalo ? (
+                        <img 
+                          src={user.avatarZalo} 
+                          alt={user.username || 'User'}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                        </svg>
+                      )}
+                    </div>
+                  </div>
+                );
+              }
+
               // Xử lý contact card riêng (không có khung bong bóng)
               if (isContactCard) {
                 let parsed;
@@ -1912,7 +2319,10 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
               }
 
               return (
-                <div key={m.id} id={`message-${m.id}`} className={`flex items-start gap-2 justify-end ${highlightedMessageId === m.id ? 'bg-yellow-100 rounded-lg p-2 transition-colors duration-300' : ''}`}>
+                <div key={m.id} id={`message-${m.id}`} className={`group flex items-start gap-2 justify-end ${highlightedMessageId === m.id ? 'bg-yellow-100 rounded-lg p-2 transition-colors duration-300' : ''}`}>
+                  {canSendMessages && m.id > 0 && m.content_type !== 'SYSTEM' && (
+                    <MessageActions onReply={() => handleReply(m)} onReact={(type) => handleReact(m, type)} />
+                  )}
                   <div className="max-w-[70%] break-words">
                     {/* Bubble tin nhắn */}
                     <div className="px-4 py-2 rounded-2xl bg-blue-50 text-gray-800 rounded-br-md shadow-sm">
@@ -2443,10 +2853,20 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
                       </div>
                     </div>
                     
+                    <MessageReactions reactions={m.reactions} side="right" />
+
                     {/* Thời gian */}
                     <div className="text-xs text-gray-400 mt-1 text-right">
                       {formatTimestamp(m.timestamp)}
                     </div>
+
+                    {m.send_status && (
+                      <MessageSendStatus
+                        message={m}
+                        onRetry={() => retryMessage(m.metadata?.client_message_id)}
+                        onDiscard={() => discardMessage(m.metadata?.client_message_id)}
+                      />
+                    )}
                   </div>
 
                   {/* Avatar bên phải */}
@@ -2474,8 +2894,45 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
         </div>
       </div>
 
+      {detachedPage !== null && (
+        <div className="relative">
+          <button
+            className="absolute -top-12 left-1/2 -translate-x-1/2 flex items-center gap-1 px-3 py-1.5 rounded-full bg-white shadow-md border border-gray-200 text-xs text-blue-600 hover:bg-blue-50 z-10"
+            onClick={goToLatest}
+          >
+            <ArrowDown className="h-3.5 w-3.5" />
+            Tin nhắn mới nhất
+          </button>
+        </div>
+      )}
+
       {/* Message Input Area */}
       <div className="border-t border-gray-200 px-6 py-4 bg-white">
+        {/* Đang trả lời tin nhắn */}
+        {replyTo && (
+          <div className="flex items-start gap-3 mb-3 pl-3 border-l-4 border-blue-400 bg-gray-50 rounded py-2 pr-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-xs font-bold text-gray-900 mb-1">
+                Trả lời {replyTo.is_outgoing ? 'chính bạn' : (replyTo.sender?.name || replyTo.sender_name || 'Unknown')}
+              </div>
+              <div className="text-xs text-gray-600 truncate">{extractMessageText(replyTo)}</div>
+            </div>
+            <button className="p-1 hover:bg-gray-200 rounded-full" onClick={() => setReplyTo(null)}>
+              <X className="h-4 w-4 text-gray-500" />
+            </button>
+          </div>
+        )}
+        {attachmentMode && (
+          <ComposerAttachments
+            mode={attachmentMode}
+            onModeChange={setAttachmentMode}
+            images={pendingImages}
+            files={pendingFiles}
+            onImagesChange={setPendingImages}
+            onFilesChange={setPendingFiles}
+            onClose={clearAttachments}
+          />
+        )}
         <div className={`flex items-center gap-3 ${!canSendMessages ? 'opacity-50' : ''}`}>
           {/* Emoji Button */}
           <button
@@ -2488,36 +2945,79 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
 
           {/* Text Input */}
           <div className="flex-1 relative">
+            {showSnippetPicker && (
+              <SnippetPicker
+                ref={snippetPickerRef}
+                query={snippetQuery ?? ''}
+                snippets={snippetsState.snippets}
+                isLoading={snippetsState.isLoading}
+                context={snippetContext}
+                onSelect={(text) => {
+                  setMessageText(text);
+                  inputRef.current?.focus();
+                }}
+                onClose={() => setSnippetPickerDismissed(true)}
+                onManage={() => setShowSnippetsModal(true)}
+              />
+            )}
             <input
+              ref={inputRef}
               value={messageText}
-              onChange={(e) => canSendMessages && setMessageText(e.target.value)}
+              onChange={(e) => {
+                if (!canSendMessages) return;
+                setMessageText(e.target.value);
+                if (!e.target.value.startsWith('/')) setSnippetPickerDismissed(false);
+              }}
               placeholder={canSendMessages ? `Nhập @, tin nhắn tới ${(conversation.conversation_name?.replace(/^(PrivateChat_|privatechat_)/i, '') || conversation.conversation_name)}` : 'Không thể gửi tin nhắn'}
               disabled={!canSendMessages}
               className="w-full px-4 py-3 rounded-full border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-gray-50 text-sm"
+              onPaste={handlePaste}
               onKeyDown={(e) => {
+                if (showSnippetPicker && snippetPickerRef.current?.handleKeyDown(e)) {
+                  e.preventDefault();
+                  return;
+                }
                 if (canSendMessages && e.key === 'Enter' && !e.shiftKey) {
                   e.preventDefault();
                   handleSendMessage();
+                } else if (e.key === 'Escape' && replyTo) {
+                  setReplyTo(null);
                 }
               }}
             />
           </div>
 
-          {/* Attachment Buttons */}
           <button
             className="p-2 hover:bg-gray-100 rounded-full transition-colors"
             disabled={!canSendMessages}
-            onClick={() => canSendMessages && console.log('Attach image')}
+            title="Câu trả lời nhanh (gõ /)"
+            onClick={() => {
+              if (!canSendMessages) return;
+              setSnippetPickerDismissed(false);
+              setMessageText('/');
+              inputRef.current?.focus();
+            }}
           >
-            <Image className="h-5 w-5 text-gray-500" />
+            <Zap className="h-5 w-5 text-gray-500" />
           </button>
 
+          {/* Attachment Buttons */}
           <button
-            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            className={`p-2 hover:bg-gray-100 rounded-full transition-colors ${attachmentMode === 'image' ? 'bg-blue-50' : ''}`}
             disabled={!canSendMessages}
-            onClick={() => canSendMessages && console.log('Attach file')}
+            title="Gửi hình ảnh"
+            onClick={() => canSendMessages && setAttachmentMode(attachmentMode === 'image' && !hasPendingAttachments ? null : 'image')}
           >
-            <Paperclip className="h-5 w-5 text-gray-500" />
+            <Image className={`h-5 w-5 ${pendingImages.length > 0 ? 'text-blue-500' : 'text-gray-500'}`} />
+          </button>
+
+          <button
+            className={`p-2 hover:bg-gray-100 rounded-full transition-colors ${attachmentMode === 'file' ? 'bg-blue-50' : ''}`}
+            disabled={!canSendMessages}
+            title="Đính kèm tệp"
+            onClick={() => canSendMessages && setAttachmentMode(attachmentMode === 'file' && !hasPendingAttachments ? null : 'file')}
+          >
+            <Paperclip className={`h-5 w-5 ${pendingFiles.length > 0 ? 'text-blue-500' : 'text-gray-500'}`} />
           </button>
 
           <button
@@ -2532,13 +3032,25 @@ export default function ChatMainArea({ conversation }: { conversation: Conversat
           <button
             className="p-2 hover:bg-gray-100 rounded-full transition-colors"
             disabled={!canSendMessages}
-            onClick={() => canSendMessages && (messageText.trim() ? handleSendMessage() : handleQuickReaction())}
+            onClick={() => canSendMessages && (messageText.trim() || hasPendingAttachments ? handleSendMessage() : handleQuickReaction())}
           >
-            <ThumbsUp className="h-5 w-5 text-gray-500" />
+            {messageText.trim() || hasPendingAttachments ? (
+              <SendHorizontal className="h-5 w-5 text-blue-500" />
+            ) : (
+              <ThumbsUp className="h-5 w-5 text-gray-500" />
+            )}
           </button>
         </div>
       </div>
 
+      {canSendMessages && (
+        <SnippetsModal
+          isOpen={showSnippetsModal}
+          onClose={() => setShowSnippetsModal(false)}
+          snippetsState={snippetsState}
+        />
+      )}
+
       {/* Modal hiển thị ảnh to */}
       {selectedImage && (
         <div 
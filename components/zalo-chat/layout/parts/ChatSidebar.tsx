@@ -3,20 +3,39 @@
 import React, { useMemo, useState, useContext, useRef, useEffect } from 'react';
 import { useConversations, ConversationType } from '@/hooks/zalo-chat/useConversations';
 import { useMultiUserConversations } from '@/hooks/zalo-chat/useMultiUserConversations';
-import { Conversation } from '@/types/zalo-chat';
+import { useZaloChatRealtime } from '@/hooks/zalo-chat/useZaloChatRealtime';
+import { Conversation, ConversationAssignmentFilter, MessageSearchHit } from '@/types/zalo-chat';
+import { getAssigneeName, matchesAssignmentFilter, matchesTagFilter } from '@/lib/zalo-chat-helper';
+import { useConversationTags } from '@/hooks/zalo-chat/useConversationTags';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, Tag } from 'lucide-react';
 import { useDynamicPermission } from '@/hooks/useDynamicPermission';
 import { AuthContext } from '@/contexts/AuthContext';
 import { EmployeeFilterModal } from './EmployeeFilterModal';
+import MessageSearchPanel from '@/components/zalo-chat/search/MessageSearchPanel';
+import { toast } from 'sonner';
 
 interface ChatSidebarProps {
   userId: number;
   activeConversationId: number | null;
   onSelectConversation: (c: Conversation | null) => void;
   onConversationsChange?: (conversations: Conversation[]) => void;
+  patchedConversation?: Conversation | null; // hội thoại vừa cập nhật ở panel thông tin
+  onOpenSearchHit?: (conversation: Conversation, messageId: number) => void;
 }
 
-export default function ChatSidebar({ userId, activeConversationId, onSelectConversation, onConversationsChange }: ChatSidebarProps) {
+const ASSIGNMENT_FILTERS: Array<{ value: ConversationAssignmentFilter; label: string }> = [
+  { value: 'all', label: 'Tất cả' },
+  { value: 'mine', label: 'Của tôi' },
+  { value: 'unassigned', label: 'Chưa giao' },
+  { value: 'others', label: 'Người khác' },
+];
+
+export default function ChatSidebar({ userId, activeConversationId, onSelectConversation, onConversationsChange, patchedConversation, onOpenSearchHit }: ChatSidebarProps) {
   const [search, setSearch] = useState('');
+  // Tìm kiếm tin nhắn: Enter ở ô tìm kiếm mở danh sách kết quả thay cho danh sách hội thoại
+  const [searchInput, setSearchInput] = useState('');
+  const [messageQuery, setMessageQuery] = useState('');
   const [typeFilter, setTypeFilter] = useState<ConversationType | 'all'>('all');
   const [showCategoryDropdown, setShowCategoryDropdown] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -24,6 +43,10 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
   const [activeMinIcon, setActiveMinIcon] = useState<'all' | 'group' | null>('all'); // Track which mini icon is active
   const [showEmployeeFilterModal, setShowEmployeeFilterModal] = useState(false);
   const [selectedEmployeeIds, setSelectedEmployeeIds] = useState<number[]>([]);
+  const [assignmentFilter, setAssignmentFilter] = useState<ConversationAssignmentFilter>('all');
+  const [selectedTagIds, setSelectedTagIds] = useState<number[]>([]);
+  const [showTagFilter, setShowTagFilter] = useState(false);
+  const { tags: tagCatalogue, isLoading: tagsLoading } = useConversationTags(showTagFilter);
 
   const [allConversations, setAllConversations] = useState<Conversation[]>([]);
   const listRef = useRef<HTMLDivElement>(null);
@@ -67,7 +90,8 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
 
   // Chỉ reset khi filter thực sự thay đổi (không có debounce vì đã có trong hook)
   const hasEmployeeFilter = selectedEmployeeIds.length > 0;
-  const filterKey = `${targetUserId}-${search}-${conversationType}-${selectedEmployeeIds.join(',')}`;
+  const currentUserId = user?.id ?? userId;
+  const filterKey = `${targetUserId}-${search}-${conversationType}-${selectedEmployeeIds.join(',')}-${assignmentFilter}-${selectedTagIds.join(',')}`;
   const prevFilterKeyRef = useRef(filterKey);
   const isFirstMountRef = useRef(true);
 
@@ -103,6 +127,9 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
     sort_by: 'last_message_timestamp',
     sort_order: 'desc',
     has_unread: null,
+    assignment: assignmentFilter,
+    assignee_id: currentUserId,
+    tag_ids: selectedTagIds,
     refreshKey,
   });
 
@@ -115,6 +142,9 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
     conversation_type: conversationType,
     sort_by: 'last_message_timestamp',
     sort_order: 'desc',
+    assignment: assignmentFilter,
+    assignee_id: currentUserId,
+    tag_ids: selectedTagIds,
     refreshKey,
   });
 
@@ -195,8 +225,111 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
     return () => observer.disconnect();
   }, [hasMore, isLoading, allConversations.length]);
 
+  // Hội thoại có thuộc phạm vi đang xem không (dùng khi realtime đẩy về hội thoại chưa có trong danh sách)
+  const isInScope = (c: Partial<Conversation>) => {
+    if (search) return false;
+    if (conversationType && c.conversation_type !== conversationType) return false;
+    if (!matchesAssignmentFilter({ assigned_user_id: c.assigned_user_id }, assignmentFilter, currentUserId)) return false;
+    if (!matchesTagFilter({ tags: c.tags }, selectedTagIds)) return false;
+    if (hasEmployeeFilter) return c.user_id !== undefined && selectedEmployeeIds.includes(c.user_id);
+    if (targetUserId !== undefined) return c.user_id === targetUserId;
+    return true;
+  };
+
+  const sortByLastMessage = (list: Conversation[]) =>
+    [...list].sort((a, b) =>
+      new Date(b.last_message_timestamp || 0).getTime() - new Date(a.last_message_timestamp || 0).getTime()
+    );
+
+  // Cập nhật tin nhắn cuối, số chưa đọc và thứ tự hội thoại theo thời gian thực
+  useZaloChatRealtime({
+    onMessageNew: ({ conversation_id, message, conversation }) => {
+      setAllConversations(prev => {
+        const existing = prev.find(c => c.id === conversation_id);
+        if (!existing && !(conversation?.id && isInScope(conversation))) return prev;
+
+        const base = { ...(existing ?? {}), ...(conversation ?? {}) } as Conversation;
+        const isActive = conversation_id === activeConversationId;
+        const updated: Conversation = {
+          ...base,
+          last_message: {
+            id: message.id,
+            content: message.content,
+            content_type: message.content_type,
+            timestamp: message.timestamp,
+            is_outgoing: message.is_outgoing,
+            sender_name: message.sender?.name || '',
+          },
+          last_message_timestamp: message.timestamp,
+          total_messages: conversation?.total_messages ?? (base.total_messages || 0) + 1,
+          unread_count: isActive
+            ? 0
+            : conversation?.unread_count ?? (message.is_outgoing ? base.unread_count || 0 : (base.unread_count || 0) + 1),
+        };
+        return sortByLastMessage([updated, ...prev.filter(c => c.id !== conversation_id)]);
+      });
+    },
+    onMessageRead: ({ conversation_id, unread_count }) => {
+      setAllConversations(prev => prev.map(c => (
+        c.id === conversation_id ? { ...c, unread_count: unread_count ?? 0 } : c
+      )));
+    },
+    onConversationUpdated: ({ conversation }) => {
+      setAllConversations(prev => {
+        const existing = prev.find(c => c.id === conversation.id);
+        if (!existing && !isInScope(conversation)) return prev;
+        const merged = { ...(existing ?? {}), ...conversation } as Conversation;
+        return sortByLastMessage([merged, ...prev.filter(c => c.id !== conversation.id)]);
+      });
+    },
+    onReconnect: () => {
+      // Lấy lại trang đầu để bổ sung các thay đổi bị lỡ khi mất kết nối
+      setPage(1);
+      setRefreshKey(prev => prev + 1);
+    },
+  });
+
+  // Đồng bộ thay đổi từ panel thông tin (giao / nhận hội thoại)
+  useEffect(() => {
+    if (!patchedConversation) return;
+    setAllConversations(prev => prev.map(c => (
+      c.id === patchedConversation.id ? { ...c, ...patchedConversation } : c
+    )));
+  }, [patchedConversation]);
+
+  const handleSelectConversation = (c: Conversation) => {
+    if (c.unread_count > 0) {
+      setAllConversations(prev => prev.map(x => (x.id === c.id ? { ...x, unread_count: 0 } : x)));
+    }
+    onSelectConversation(c);
+  };
+
   // Use conversations directly from API (already filtered by backend)
-  const conversations = allConversations;
+  // Lọc lại theo người phụ trách / thẻ vì có thể thay đổi sau khi tải (realtime / panel thông tin)
+  const conversations = assignmentFilter === 'all' && selectedTagIds.length === 0
+    ? allConversations
+    : allConversations.filter(c =>
+        matchesAssignmentFilter(c, assignmentFilter, currentUserId) && matchesTagFilter(c, selectedTagIds)
+      );
+
+  const handleOpenSearchHit = (hit: MessageSearchHit) => {
+    const existing = allConversations.find(c => c.id === hit.conversation_id);
+    const target = existing ?? (hit.conversation?.conversation_name ? hit.conversation as Conversation : null);
+    if (!target) {
+      toast.error('Không mở được hội thoại chứa tin nhắn này');
+      return;
+    }
+    onOpenSearchHit?.(target, hit.id);
+  };
+
+  const closeMessageSearch = () => {
+    setMessageQuery('');
+    setSearchInput('');
+  };
+
+  const toggleTagFilter = (tagId: number) => {
+    setSelectedTagIds(prev => (prev.includes(tagId) ? prev.filter(id => id !== tagId) : [...prev, tagId]));
+  };
 
   return (
     <div className="h-full flex overflow-hidden">
@@ -301,7 +434,13 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
         <div className="relative">
           <input 
             type="text" 
-            placeholder="Tìm kiếm" 
+            placeholder="Tìm tin nhắn (Enter)" 
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') setMessageQuery(searchInput.trim());
+              if (e.key === 'Escape') closeMessageSearch();
+            }}
             className="w-full pl-8 pr-3 py-2 text-sm bg-gray-100 rounded-lg border-0 focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
           <div className="absolute left-2.5 top-2.5 text-gray-400">
@@ -312,6 +451,7 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
         </div>
       </div>
 
+      <div className={messageQuery ? 'hidden' : 'contents'}>
       {/* Tabs */}
       {!hideTabs && (
       <div className="px-4 py-3 border-b border-gray-200">
@@ -367,6 +507,62 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
       </div>
       )}
 
+      {/* Lọc theo người phụ trách */}
+      <div className="px-4 py-2 border-b border-gray-200 flex gap-1 text-xs">
+        {ASSIGNMENT_FILTERS.map(f => (
+          <button
+            key={f.value}
+            className={`px-2.5 py-1 rounded-full transition-colors ${
+              assignmentFilter === f.value ? 'bg-blue-100 text-blue-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+            onClick={() => setAssignmentFilter(f.value)}
+          >
+            {f.label}
+          </button>
+        ))}
+        <Popover open={showTagFilter} onOpenChange={setShowTagFilter}>
+          <PopoverTrigger asChild>
+            <button
+              className={`ml-auto px-2.5 py-1 rounded-full flex items-center gap-1 transition-colors ${
+                selectedTagIds.length > 0 ? 'bg-blue-100 text-blue-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <Tag className="h-3 w-3" />
+              Thẻ{selectedTagIds.length > 0 && ` (${selectedTagIds.length})`}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-56 p-2">
+            <div className="max-h-60 overflow-auto space-y-0.5">
+              {tagsLoading && tagCatalogue.length === 0 && (
+                <div className="text-xs text-gray-500 px-2 py-1">Đang tải...</div>
+              )}
+              {!tagsLoading && tagCatalogue.length === 0 && (
+                <div className="text-xs text-gray-500 px-2 py-1">Chưa có thẻ nào</div>
+              )}
+              {tagCatalogue.map(tag => (
+                <button
+                  key={tag.id}
+                  className="w-full flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-50 text-sm text-left"
+                  onClick={() => toggleTagFilter(tag.id)}
+                >
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: tag.color }} />
+                  <span className="flex-1 truncate">{tag.name}</span>
+                  {selectedTagIds.includes(tag.id) && <Check className="h-3.5 w-3.5 text-blue-600" />}
+                </button>
+              ))}
+            </div>
+            {selectedTagIds.length > 0 && (
+              <button
+                className="w-full mt-2 pt-2 border-t text-xs text-blue-600 hover:text-blue-700"
+                onClick={() => setSelectedTagIds([])}
+              >
+                Bỏ lọc thẻ
+              </button>
+            )}
+          </PopoverContent>
+        </Popover>
+      </div>
+
         <div className="flex-1 overflow-y-auto overflow-x-hidden" ref={listRef}>
          {isLoading && page === 1 && <div className="p-4 text-sm text-gray-500 text-center">Đang tải...</div>}
          {error && <div className="p-4 text-xs text-red-500 text-center">{error}</div>}
@@ -377,7 +573,7 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
            return (
              <button
                key={c.id}
-               onClick={() => onSelectConversation(c)}
+               onClick={() => handleSelectConversation(c)}
                className={`w-full text-left px-3 py-2 hover:bg-gray-50 transition-colors border-b border-gray-100 ${
                  isActive ? 'bg-blue-50 border-l-4 border-l-blue-500' : ''
                }`}
@@ -475,6 +671,27 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
                        }
                      })()}
                    </div>
+
+                   {c.assigned_user_id != null && (
+                     <div className="text-[11px] text-gray-400 truncate mt-0.5">
+                       Phụ trách: {c.assigned_user_id === currentUserId ? 'Bạn' : getAssigneeName(c.assigned_user) || `#${c.assigned_user_id}`}
+                     </div>
+                   )}
+
+                   {c.tags && c.tags.length > 0 && (
+                     <div className="flex flex-wrap gap-1 mt-1">
+                       {c.tags.slice(0, 3).map(tag => (
+                         <span
+                           key={tag.id}
+                           className="px-1.5 rounded text-[10px] leading-4 text-white truncate max-w-[90px]"
+                           style={{ backgroundColor: tag.color }}
+                         >
+                           {tag.name}
+                         </span>
+                       ))}
+                       {c.tags.length > 3 && <span className="text-[10px] text-gray-400">+{c.tags.length - 3}</span>}
+                     </div>
+                   )}
                  </div>
 
                  {/* Time and Unread Badge */}
@@ -542,6 +759,16 @@ export default function ChatSidebar({ userId, activeConversationId, onSelectConv
     </div>
       </div>
 
+      {messageQuery && (
+        <MessageSearchPanel
+          query={messageQuery}
+          userId={currentUserId}
+          onOpenHit={handleOpenSearchHit}
+          onClose={closeMessageSearch}
+        />
+      )}
+      </div>
+
       {/* Employee Filter Modal */}
       <EmployeeFilterModal
         isOpen={showEmployeeFilterModal}
@@ -0,0 +1,87 @@
+"use client";
+
+import React, { useEffect } from 'react';
+import { ChevronLeft, ChevronRight, Download, X } from 'lucide-react';
+import { MessageMediaItem } from '@/lib/zalo-chat-helper';
+
+export default function MediaLightbox({
+  items,
+  index,
+  onIndexChange,
+  onClose,
+}: {
+  items: MessageMediaItem[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}) {
+  const current = items[index];
+  const hasPrev = index > 0;
+  const hasNext = index < items.length - 1;
+
+  // Điều hướng bằng bàn phím: ← → để chuyển ảnh, Esc để đóng
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && hasPrev) onIndexChange(index - 1);
+      if (e.key === 'ArrowRight' && hasNext) onIndexChange(index + 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, hasPrev, hasNext, onIndexChange, onClose]);
+
+  if (!current) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" onClick={onClose}>
+      <img
+        src={current.url}
+        alt={`Ảnh ${index + 1}`}
+        className="max-w-[90vw] max-h-[85vh] object-contain rounded-lg"
+        onClick={(e) => e.stopPropagation()}
+      />
+
+      <div className="absolute top-4 right-4 flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+        <a
+          href={current.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          download
+          className="bg-black/50 text-white rounded-full w-10 h-10 flex items-center justify-center hover:bg-black/75"
+          title="Tải xuống"
+        >
+          <Download className="w-5 h-5" />
+        </a>
+        <button
+          className="bg-black/50 text-white rounded-full w-10 h-10 flex items-center justify-center hover:bg-black/75"
+          onClick={onClose}
+          title="Đóng"
+        >
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {items.length > 1 && (
+        <>
+          <button
+            className="absolute left-4 bg-black/50 text-white rounded-full w-10 h-10 flex items-center justify-center hover:bg-black/75 disabled:opacity-30"
+            disabled={!hasPrev}
+            onClick={(e) => { e.stopPropagation(); onIndexChange(index - 1); }}
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+          <button
+            className="absolute right-4 bg-black/50 text-white rounded-full w-10 h-10 flex items-center justify-center hover:bg-black/75 disabled:opacity-30"
+            disabled={!hasNext}
+            onClick={(e) => { e.stopPropagation(); onIndexChange(index + 1); }}
+          >
+            <ChevronRight className="w-6 h-6" />
+          </button>
+          <div className="absolute bottom-4 text-white text-sm bg-black/50 rounded-full px-3 py-1">
+            {index + 1} / {items.length}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import React from 'react';
+import { Message } from '@/types/zalo-chat';
+import { getMessageMedia } from '@/lib/zalo-chat-helper';
+import ImageMessage from './MessageTypes/ImageMessage';
+import VideoMessage from './MessageTypes/VideoMessage';
+import AudioMessage from './MessageTypes/AudioMessage';
+import FileMessage from './MessageTypes/FileMessage';
+import StickerMessage from './MessageTypes/StickerMessage';
+import LocationMessage from './MessageTypes/LocationMessage';
+import ContactMessage from './MessageTypes/ContactMessage';
+
+// Tin nhắn có renderer riêng không (đủ dữ liệu media để hiển thị)
+export function hasMediaRenderer(message: Message): boolean {
+  const media = getMessageMedia(message);
+  switch (message.content_type) {
+    case 'IMAGE': return media.items.length > 0;
+    case 'VIDEO':
+    case 'AUDIO': return !!media.url;
+    case 'FILE': return !!(media.url || media.fileName);
+    case 'STICKER': return !!(media.stickerUrl || media.url);
+    case 'LOCATION': return (media.latitude !== undefined && media.longitude !== undefined) || !!media.address;
+    case 'CONTACT': return !!(media.contactName || media.contactId);
+    default: return false;
+  }
+}
+
+export default function MediaMessage({ message }: { message: Message }) {
+  switch (message.content_type) {
+    case 'IMAGE': return <ImageMessage message={message} />;
+    case 'VIDEO': return <VideoMessage message={message} />;
+    case 'AUDIO': return <AudioMessage message={message} />;
+    case 'FILE': return <FileMessage message={message} />;
+    case 'STICKER': return <StickerMessage message={message} />;
+    case 'LOCATION': return <LocationMessage message={message} />;
+    case 'CONTACT': return <ContactMessage message={message} />;
+    default: return null;
+  }
+}
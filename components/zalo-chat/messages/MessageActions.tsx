@@ -0,0 +1,54 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Reply, SmilePlus } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ZALO_REACTIONS } from '@/lib/zalo-chat-helper';
+
+export default function MessageActions({
+  onReply,
+  onReact,
+}: {
+  onReply: () => void;
+  onReact: (reactionType: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div
+      className={`flex items-center gap-1 self-center transition-opacity ${open ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+    >
+      <button
+        className="p-1.5 rounded-full bg-white shadow-sm hover:bg-gray-100"
+        title="Trả lời"
+        onClick={onReply}
+      >
+        <Reply className="h-4 w-4 text-gray-500" />
+      </button>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button className="p-1.5 rounded-full bg-white shadow-sm hover:bg-gray-100" title="Bày tỏ cảm xúc">
+            <SmilePlus className="h-4 w-4 text-gray-500" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent side="top" className="w-auto p-1 rounded-full">
+          <div className="flex items-center gap-1">
+            {ZALO_REACTIONS.map(r => (
+              <button
+                key={r.type}
+                title={r.label}
+                className="text-xl w-9 h-9 rounded-full hover:bg-gray-100 hover:scale-110 transition-transform"
+                onClick={() => {
+                  setOpen(false);
+                  onReact(r.type);
+                }}
+              >
+                {r.emoji}
+              </button>
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import React from 'react';
+import { ShoppingCart } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { OrderDetail } from '@/types';
+import { formatCurrency } from '@/lib/order-helper';
+
+// Cùng nhãn trạng thái với bảng quản lý đơn hàng
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Chờ xử lý',
+  quoted: 'Chưa chốt',
+  completed: 'Đã chốt',
+  demand: 'Nhu cầu',
+  confirmed: 'Đã phản hồi',
+};
+
+interface MessageOrderBadgeProps {
+  details: OrderDetail[];
+}
+
+export default function MessageOrderBadge({ details }: MessageOrderBadgeProps) {
+  const orderIds = Array.from(new Set(details.map(d => d.order_id)));
+  const total = details.reduce((sum, d) => sum + (Number(d.unit_price) || 0) * (d.quantity || 0), 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="mt-1 inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-emerald-50 border border-emerald-200 text-[11px] text-emerald-700 hover:bg-emerald-100">
+          <ShoppingCart className="h-3 w-3" />
+          {orderIds.length === 1 ? `Đơn #${orderIds[0]}` : `${orderIds.length} đơn`} · {details.length} dòng
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="px-3 py-2 border-b text-sm font-medium">
+          Đơn hàng trích xuất từ tin nhắn
+        </div>
+        <div className="max-h-64 overflow-auto divide-y">
+          {details.map(d => (
+            <div key={d.id} className="px-3 py-2 text-xs space-y-0.5">
+              <div className="flex items-start justify-between gap-2">
+                <span className="font-medium text-gray-900 break-words">
+                  {d.product?.productName || d.product_name || d.raw_item || 'Sản phẩm chưa xác định'}
+                </span>
+                <span className="flex-shrink-0 text-gray-500">#{d.order_id}</span>
+              </div>
+              <div className="flex items-center justify-between text-gray-600">
+                <span>
+                  SL {d.quantity} × {formatCurrency(Number(d.unit_price) || 0)}
+                </span>
+                <span className="px-1.5 rounded bg-gray-100">{STATUS_LABELS[d.status || ''] || d.status || 'N/A'}</span>
+              </div>
+              {d.customer_request_summary && (
+                <div className="text-gray-500 italic break-words">{d.customer_request_summary}</div>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="px-3 py-2 border-t text-xs flex justify-between">
+          <span className="text-gray-500">Tạm tính</span>
+          <span className="font-medium">{formatCurrency(total)}</span>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { MessageReaction } from '@/types/zalo-chat';
+import { getReactionEmoji } from '@/lib/zalo-chat-helper';
+
+export default function MessageReactions({
+  reactions,
+  side,
+}: {
+  reactions?: MessageReaction[] | null;
+  side: 'left' | 'right';
+}) {
+  // Gom reaction theo loại: emoji + số lượng + danh sách người thả
+  const groups = useMemo(() => {
+    const map = new Map<string, { emoji: string; count: number; names: string[] }>();
+    (reactions || []).forEach(r => {
+      const key = r.reaction_type;
+      const group = map.get(key) || { emoji: getReactionEmoji(r.reaction_type, r.reaction_text), count: 0, names: [] };
+      group.count++;
+      if (r.user_name) group.names.push(r.user_name);
+      map.set(key, group);
+    });
+    return Array.from(map.values());
+  }, [reactions]);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 -mt-2 ${side === 'right' ? 'justify-end pr-2' : 'justify-start pl-2'}`}>
+      {groups.map(g => (
+        <span
+          key={g.emoji}
+          title={g.names.join(', ')}
+          className="inline-flex items-center gap-0.5 bg-white border border-gray-200 rounded-full px-1.5 py-0.5 text-xs shadow-sm"
+        >
+          <span>{g.emoji}</span>
+          {g.count > 1 && <span className="text-gray-500">{g.count}</span>}
+        </span>
+      ))}
+    </div>
+  );
+}
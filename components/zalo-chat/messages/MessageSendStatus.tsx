@@ -0,0 +1,57 @@
+"use client";
+
+import React from 'react';
+import { Loader2, AlertCircle, Check } from 'lucide-react';
+import { Message } from '@/types/zalo-chat';
+
+export default function MessageSendStatus({
+  message,
+  onRetry,
+  onDiscard,
+}: {
+  message: Message;
+  onRetry: () => void;
+  onDiscard: () => void;
+}) {
+  if (message.send_status === 'pending' && message.upload_progress !== undefined) {
+    return (
+      <div className="flex items-center justify-end gap-2 text-xs text-gray-400 mt-1">
+        <div className="w-24 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 rounded-full transition-all" style={{ width: `${message.upload_progress}%` }} />
+        </div>
+        {message.upload_progress < 100 ? `Đang tải lên ${message.upload_progress}%` : 'Đang gửi…'}
+      </div>
+    );
+  }
+
+  if (message.send_status === 'pending') {
+    return (
+      <div className="flex items-center justify-end gap-1 text-xs text-gray-400 mt-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Đang gửi…
+      </div>
+    );
+  }
+
+  if (message.send_status === 'failed') {
+    return (
+      <div className="flex items-center justify-end gap-2 text-xs text-red-500 mt-1" title={message.send_error || undefined}>
+        <AlertCircle className="h-3 w-3" />
+        <span>Gửi thất bại</span>
+        <button className="underline hover:text-red-700" onClick={onRetry}>Thử lại</button>
+        <button className="text-gray-400 hover:text-gray-600" onClick={onDiscard}>Xóa</button>
+      </div>
+    );
+  }
+
+  if (message.send_status === 'sent') {
+    return (
+      <div className="flex items-center justify-end gap-1 text-xs text-gray-400 mt-1">
+        <Check className="h-3 w-3" />
+        {message.is_read ? 'Đã xem' : 'Đã gửi'}
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Mic } from 'lucide-react';
+import { Message } from '@/types/zalo-chat';
+import { formatDuration, getMessageMedia } from '@/lib/zalo-chat-helper';
+
+export default function AudioMessage({ message }: { message: Message }) {
+  const media = useMemo(() => getMessageMedia(message), [message]);
+
+  return (
+    <div className="flex items-center gap-3 p-3 bg-white rounded-xl shadow-sm w-80">
+      <div className="w-10 h-10 rounded-full bg-blue-500 flex items-center justify-center flex-shrink-0">
+        <Mic className="w-5 h-5 text-white" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <audio src={media.url} controls preload="metadata" className="w-full h-8" />
+        <div className="text-xs text-gray-500 mt-1">
+          Tin nhắn thoại{media.duration !== undefined && ` • ${formatDuration(media.duration)}`}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Message } from '@/types/zalo-chat';
+import { getMessageMedia } from '@/lib/zalo-chat-helper';
+
+export default function ContactMessage({ message }: { message: Message }) {
+  const media = useMemo(() => getMessageMedia(message), [message]);
+  const avatar = media.contactAvatar?.replace(/"/g, '');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden w-72">
+      <div className="bg-blue-500 px-4 py-4 flex items-center gap-3">
+        <div className="w-12 h-12 rounded-full overflow-hidden bg-white border-2 border-white flex-shrink-0 flex items-center justify-center">
+          {avatar ? (
+            <img src={avatar} alt={media.contactName || 'Contact'} className="w-full h-full object-cover" />
+          ) : (
+            <svg className="w-7 h-7 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+            </svg>
+          )}
+        </div>
+        <div className="min-w-0">
+          <div className="text-white font-semibold truncate">{media.contactName || 'Danh thiếp'}</div>
+          {media.contactPhone && <div className="text-white/80 text-sm">{media.contactPhone}</div>}
+        </div>
+      </div>
+      <div className="px-4 py-2 text-xs text-gray-500">Danh thiếp Zalo</div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Download } from 'lucide-react';
+import { Message } from '@/types/zalo-chat';
+import { formatFileSize, getMessageMedia } from '@/lib/zalo-chat-helper';
+
+const FILE_ICON_STYLES: Record<string, { label: string; className: string }> = {
+  pdf: { label: 'PDF', className: 'bg-red-500' },
+  doc: { label: 'W', className: 'bg-blue-600' },
+  docx: { label: 'W', className: 'bg-blue-600' },
+  xls: { label: 'X', className: 'bg-green-600' },
+  xlsx: { label: 'X', className: 'bg-green-600' },
+  csv: { label: 'CSV', className: 'bg-green-600' },
+  ppt: { label: 'P', className: 'bg-orange-500' },
+  pptx: { label: 'P', className: 'bg-orange-500' },
+  zip: { label: 'ZIP', className: 'bg-yellow-600' },
+  rar: { label: 'RAR', className: 'bg-yellow-600' },
+  txt: { label: 'TXT', className: 'bg-gray-500' },
+};
+
+export default function FileMessage({ message }: { message: Message }) {
+  const media = useMemo(() => getMessageMedia(message), [message]);
+  const icon = (media.fileExtension && FILE_ICON_STYLES[media.fileExtension]) || {
+    label: media.fileExtension?.toUpperCase().slice(0, 4) || 'FILE',
+    className: 'bg-gray-500',
+  };
+
+  return (
+    <div className="flex items-center gap-3 p-3 bg-white rounded-xl shadow-sm w-80">
+      <div className={`w-12 h-12 rounded flex items-center justify-center flex-shrink-0 ${icon.className}`}>
+        <span className="text-white font-bold text-sm">{icon.label}</span>
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="font-medium text-sm text-gray-900 truncate" title={media.fileName}>
+          {media.fileName || 'Unknown file'}
+        </div>
+        <div className="text-xs text-gray-500 mt-1">
+          {media.fileSize !== undefined ? formatFileSize(media.fileSize) : 'Không rõ dung lượng'}
+        </div>
+      </div>
+      {media.url && (
+        <a
+          href={media.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          download={media.fileName}
+          className="w-8 h-8 border border-gray-300 rounded flex items-center justify-center hover:bg-gray-100 flex-shrink-0"
+          title="Tải xuống"
+        >
+          <Download className="w-4 h-4 text-gray-600" />
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Message } from '@/types/zalo-chat';
+import { getMessageMedia } from '@/lib/zalo-chat-helper';
+import MediaLightbox from '../MediaLightbox';
+
+export default function ImageMessage({ message }: { message: Message }) {
+  const media = useMemo(() => getMessageMedia(message), [message]);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [failed, setFailed] = useState<Set<number>>(new Set());
+
+  const items = media.items;
+  const isGallery = items.length > 1;
+  const visible = isGallery ? items.slice(0, 4) : items;
+  const hiddenCount = items.length - visible.length;
+
+  return (
+    <div className="max-w-sm">
+      <div className={isGallery ? 'grid grid-cols-2 gap-1' : ''}>
+        {visible.map((item, i) => (
+          <div key={`${item.url}-${i}`} className="relative">
+            {failed.has(i) ? (
+              <div className={`bg-gray-200 rounded-lg flex flex-col items-center justify-center text-gray-500 ${isGallery ? 'h-32' : 'w-64 h-48'}`}>
+                <svg className="w-10 h-10 text-gray-400 mb-1" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M21 19V5c0-1.1-.9-2-2-2H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2zM8.5 13.5l2.5 3.01L14.5 12l4.5 6H5l3.5-4.5z" />
+                </svg>
+                <span className="text-xs">Ảnh không khả dụng</span>
+              </div>
+            ) : (
+              <img
+                src={item.thumbnailUrl || item.url}
+                alt={media.caption || 'Image'}
+                className={`block rounded-lg cursor-pointer hover:opacity-90 transition-opacity object-cover ${isGallery ? 'w-full h-32' : 'w-full h-auto'}`}
+                style={isGallery ? undefined : { maxHeight: '300px' }}
+                onClick={() => setOpenIndex(i)}
+                onError={() => setFailed(prev => new Set(prev).add(i))}
+              />
+            )}
+            {hiddenCount > 0 && i === visible.length - 1 && (
+              <div
+                className="absolute inset-0 bg-black/50 rounded-lg flex items-center justify-center text-white text-xl font-semibold cursor-pointer"
+                onClick={() => setOpenIndex(i)}
+              >
+                +{hiddenCount}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {media.caption && (
+        <div className="mt-1 px-3 py-2 bg-white rounded-lg text-sm text-gray-800" style={{ whiteSpace: 'pre-wrap' }}>
+          {media.caption}
+        </div>
+      )}
+
+      {openIndex !== null && (
+        <MediaLightbox
+          items={items}
+          index={openIndex}
+          onIndexChange={setOpenIndex}
+          onClose={() => setOpenIndex(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { MapPin } from 'lucide-react';
+import { Message } from '@/types/zalo-chat';
+import { getMessageMedia } from '@/lib/zalo-chat-helper';
+
+export default function LocationMessage({ message }: { message: Message }) {
+  const media = useMemo(() => getMessageMedia(message), [message]);
+  const { latitude, longitude } = media;
+  const hasCoordinates = latitude !== undefined && longitude !== undefined;
+
+  const mapsUrl = hasCoordinates
+    ? `https://www.google.com/maps?q=${latitude},${longitude}`
+    : media.url;
+
+  // Khung bản đồ nhỏ quanh vị trí (~1km)
+  const delta = 0.005;
+  const embedUrl = hasCoordinates
+    ? `https://www.openstreetmap.org/export/embed.html?bbox=${longitude! - delta},${latitude! - delta},${longitude! + delta},${latitude! + delta}&layer=mapnik&marker=${latitude},${longitude}`
+    : null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden w-80">
+      {embedUrl && (
+        <iframe
+          src={embedUrl}
+          title="Vị trí"
+          className="w-full h-40 border-0 pointer-events-none"
+          loading="lazy"
+        />
+      )}
+      <a
+        href={mapsUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-start gap-2 p-3 hover:bg-gray-50 transition-colors"
+      >
+        <MapPin className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-gray-900 line-clamp-2">
+            {media.address || 'Vị trí được chia sẻ'}
+          </div>
+          {hasCoordinates && (
+            <div className="text-xs text-gray-500 mt-0.5">
+              {latitude!.toFixed(5)}, {longitude!.toFixed(5)}
+            </div>
+          )}
+        </div>
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Message } from '@/types/zalo-chat';
+import { getMessageMedia } from '@/lib/zalo-chat-helper';
+
+export default function StickerMessage({ message }: { message: Message }) {
+  const media = useMemo(() => getMessageMedia(message), [message]);
+
+  return (
+    <img
+      src={media.stickerUrl || media.url}
+      alt="Sticker"
+      className="w-32 h-32 object-contain"
+    />
+  );
+}
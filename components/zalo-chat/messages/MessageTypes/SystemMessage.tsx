@@ -0,0 +1,23 @@
+"use client";
+
+import React from 'react';
+import { Message } from '@/types/zalo-chat';
+import { parseMessageContent } from '@/lib/zalo-chat-helper';
+
+export default function SystemMessage({ message, avatarUrl }: { message: Message; avatarUrl?: string }) {
+  const parsed = parseMessageContent(message.content);
+  const text = parsed.message || parsed.text || (typeof message.content === 'string' && !parsed.action ? message.content : '') || '📝 Thông báo hệ thống';
+
+  return (
+    <div className="bg-white rounded-3xl px-4 py-2 shadow-sm border border-gray-200 max-w-[80%]">
+      <div className="flex items-center gap-2">
+        {avatarUrl && (
+          <div className="w-6 h-6 rounded-full overflow-hidden bg-gray-200 flex-shrink-0">
+            <img src={avatarUrl} alt="user" className="w-full h-full object-cover" />
+          </div>
+        )}
+        <span className="text-sm text-gray-700">{String(text)}</span>
+      </div>
+    </div>
+  );
+}
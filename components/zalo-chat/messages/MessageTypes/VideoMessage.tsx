@@ -0,0 +1,32 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Message } from '@/types/zalo-chat';
+import { formatDuration, formatFileSize, getMessageMedia } from '@/lib/zalo-chat-helper';
+
+export default function VideoMessage({ message }: { message: Message }) {
+  const media = useMemo(() => getMessageMedia(message), [message]);
+
+  return (
+    <div className="max-w-sm">
+      <video
+        src={media.url}
+        poster={media.thumbnailUrl}
+        controls
+        preload="metadata"
+        className="w-full rounded-lg bg-black"
+        style={{ maxHeight: '320px' }}
+      />
+      <div className="flex items-center gap-2 mt-1 px-1 text-xs text-gray-500">
+        <span>🎬 Video</span>
+        {media.duration !== undefined && <span>{formatDuration(media.duration)}</span>}
+        {media.fileSize !== undefined && <span>{formatFileSize(media.fileSize)}</span>}
+      </div>
+      {media.caption && (
+        <div className="mt-1 px-3 py-2 bg-white rounded-lg text-sm text-gray-800" style={{ whiteSpace: 'pre-wrap' }}>
+          {media.caption}
+        </div>
+      )}
+    </div>
+  );
+}
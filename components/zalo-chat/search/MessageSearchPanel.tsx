@@ -0,0 +1,281 @@
+"use client";
+
+import React, { useContext, useMemo, useState } from 'react';
+import { ArrowLeft, MessageSquare, Users } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { P } from '@/components/common/PDynamic';
+import { useSearch } from '@/hooks/zalo-chat/useSearch';
+import { useChatEmployees } from '@/hooks/zalo-chat/useChatEmployees';
+import { useDynamicPermission } from '@/hooks/useDynamicPermission';
+import { AuthContext } from '@/contexts/AuthContext';
+import { MessageSearchHit } from '@/types/zalo-chat';
+import { buildSearchExcerpt, extractMessageText, groupSearchHits, splitHighlight } from '@/lib/zalo-chat-helper';
+
+interface MessageSearchPanelProps {
+  query: string;
+  userId: number;
+  onOpenHit: (hit: MessageSearchHit) => void;
+  onClose: () => void;
+}
+
+interface MessageSearchData {
+  results?: { messages?: MessageSearchHit[] };
+}
+
+const CONTENT_TYPES: Array<{ value: string; label: string }> = [
+  { value: 'TEXT', label: 'Văn bản' },
+  { value: 'IMAGE', label: 'Hình ảnh' },
+  { value: 'VIDEO', label: 'Video' },
+  { value: 'AUDIO', label: 'Ghi âm' },
+  { value: 'FILE', label: 'Tệp' },
+  { value: 'STICKER', label: 'Sticker' },
+  { value: 'LOCATION', label: 'Vị trí' },
+  { value: 'CONTACT', label: 'Danh thiếp' },
+];
+
+const HITS_PER_GROUP = 3;
+const ALL = 'all';
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {splitHighlight(text, query).map((part, i) => (
+        part.match
+          ? <mark key={i} className="bg-yellow-200 text-gray-900 rounded-sm">{part.text}</mark>
+          : <React.Fragment key={i}>{part.text}</React.Fragment>
+      ))}
+    </>
+  );
+}
+
+export default function MessageSearchPanel({ query, userId, onOpenHit, onClose }: MessageSearchPanelProps) {
+  const { user } = useContext(AuthContext);
+  const { isAdmin, isManager } = useDynamicPermission();
+  const canPickAccount = isAdmin || isManager;
+
+  const [accountId, setAccountId] = useState<string>(canPickAccount ? ALL : String(userId));
+  const [sender, setSender] = useState<{ id: number; name: string } | null>(null);
+  const [contentType, setContentType] = useState<string>(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const departmentIds = useMemo(
+    () => (isAdmin ? null : (user?.departments || []).map(d => d.id)),
+    [isAdmin, user?.departments]
+  );
+  const { employees } = useChatEmployees(canPickAccount, departmentIds);
+
+  const params = useMemo(() => {
+    if (!query) return null;
+    return {
+      q: query,
+      type: 'messages' as const,
+      limit: 100,
+      user_id: accountId === ALL ? null : Number(accountId),
+      sender_id: sender?.id ?? null,
+      content_type: contentType === ALL ? null : contentType,
+      from_date: fromDate || null,
+      to_date: toDate || null,
+    };
+  }, [query, accountId, sender?.id, contentType, fromDate, toDate]);
+
+  const { data, isLoading, error } = useSearch<MessageSearchData>(params);
+  const hits = useMemo(() => data?.results?.messages || [], [data]);
+  const groups = useMemo(() => groupSearchHits(hits), [hits]);
+
+  // Người gửi lấy từ kết quả hiện có, giữ lại người đang chọn dù kết quả thay đổi
+  const senderOptions = useMemo(() => {
+    const map = new Map<number, string>();
+    if (sender) map.set(sender.id, sender.name);
+    hits.forEach(h => {
+      if (!h.is_outgoing && h.sender?.id) map.set(h.sender.id, h.sender.name || `#${h.sender.id}`);
+    });
+    return Array.from(map, ([id, name]) => ({ id, name }));
+  }, [hits, sender]);
+
+  const toggleGroup = (conversationId: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(conversationId)) next.delete(conversationId);
+      else next.add(conversationId);
+      return next;
+    });
+  };
+
+  const hasFilters = sender !== null || contentType !== ALL || !!fromDate || !!toDate
+    || (canPickAccount && accountId !== ALL);
+
+  const resetFilters = () => {
+    setAccountId(canPickAccount ? ALL : String(userId));
+    setSender(null);
+    setContentType(ALL);
+    setFromDate('');
+    setToDate('');
+  };
+
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleString('vi-VN', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <P
+      permission={{ departmentSlug: 'chat', action: 'search' }}
+      fallback={<div className="p-4 text-sm text-gray-500 text-center">Bạn không có quyền tìm kiếm tin nhắn</div>}
+    >
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="px-3 py-2 border-b border-gray-200 space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            <button className="p-1 rounded hover:bg-gray-100" onClick={onClose} title="Quay lại danh sách hội thoại">
+              <ArrowLeft className="h-4 w-4 text-gray-600" />
+            </button>
+            <span className="flex-1 truncate">
+              Tin nhắn chứa <span className="font-medium">“{query}”</span>
+            </span>
+            {hasFilters && (
+              <button className="text-xs text-blue-600 hover:text-blue-700" onClick={resetFilters}>
+                Bỏ lọc
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {canPickAccount && (
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Tài khoản" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Tất cả tài khoản</SelectItem>
+                  {employees.map(e => (
+                    <SelectItem key={e.id} value={String(e.id)}>{e.fullName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select
+              value={sender ? String(sender.id) : ALL}
+              onValueChange={(value) => setSender(value === ALL ? null : senderOptions.find(o => String(o.id) === value) ?? null)}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Người gửi" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Mọi người gửi</SelectItem>
+                {senderOptions.map(o => (
+                  <SelectItem key={o.id} value={String(o.id)}>{o.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={contentType} onValueChange={setContentType}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Loại tin nhắn" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Mọi loại tin nhắn</SelectItem>
+                {CONTENT_TYPES.map(t => (
+                  <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className={`flex items-center gap-1 ${canPickAccount ? '' : 'col-span-2'}`}>
+              <input
+                type="date"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="h-8 min-w-0 flex-1 px-2 text-xs border border-gray-200 rounded-md"
+                title="Từ ngày"
+              />
+              <span className="text-xs text-gray-400">–</span>
+              <input
+                type="date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => setToDate(e.target.value)}
+                className="h-8 min-w-0 flex-1 px-2 text-xs border border-gray-200 rounded-md"
+                title="Đến ngày"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading && <div className="p-4 text-sm text-gray-500 text-center">Đang tìm...</div>}
+          {error && <div className="p-4 text-xs text-red-500 text-center">{error}</div>}
+          {!isLoading && !error && groups.length === 0 && (
+            <div className="p-4 text-sm text-gray-500 text-center">Không tìm thấy tin nhắn nào</div>
+          )}
+          {!isLoading && !error && groups.length > 0 && (
+            <div className="px-4 py-2 text-xs text-gray-500">
+              {hits.length} tin nhắn trong {groups.length} hội thoại
+            </div>
+          )}
+
+          {!isLoading && groups.map(group => {
+            const isExpanded = expanded.has(group.conversation_id);
+            const visibleHits = isExpanded ? group.hits : group.hits.slice(0, HITS_PER_GROUP);
+            const isGroupChat = group.conversation?.conversation_type === 'group';
+            return (
+              <div key={group.conversation_id} className="border-b border-gray-100">
+                <div className="flex items-center gap-2 px-4 pt-3 pb-1">
+                  <div className="w-7 h-7 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden flex-shrink-0">
+                    {group.conversation?.participant?.avatar ? (
+                      <img src={group.conversation.participant.avatar} alt="" className="w-full h-full object-cover" />
+                    ) : isGroupChat ? (
+                      <Users className="h-3.5 w-3.5 text-gray-500" />
+                    ) : (
+                      <MessageSquare className="h-3.5 w-3.5 text-gray-500" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">
+                      {group.conversation?.conversation_name || `Hội thoại #${group.conversation_id}`}
+                    </div>
+                    {group.conversation?.account_display_name && (
+                      <div className="text-[11px] text-gray-400 truncate">{group.conversation.account_display_name}</div>
+                    )}
+                  </div>
+                  <span className="text-xs text-gray-400">{group.hits.length}</span>
+                </div>
+
+                {visibleHits.map(hit => {
+                  const text = extractMessageText(hit) || `[${hit.content_type}]`;
+                  return (
+                    <button
+                      key={hit.id}
+                      className="w-full text-left pr-4 py-2 pl-[3.25rem] hover:bg-gray-50"
+                      onClick={() => onOpenHit(hit)}
+                    >
+                      <div className="flex items-center justify-between gap-2 text-[11px] text-gray-500">
+                        <span className="truncate">{hit.is_outgoing ? 'Bạn' : hit.sender?.name || 'Không rõ'}</span>
+                        <span className="flex-shrink-0">{formatTime(hit.timestamp)}</span>
+                      </div>
+                      <div className="text-sm text-gray-700 line-clamp-2 break-words">
+                        <Highlighted text={buildSearchExcerpt(text, query)} query={query} />
+                      </div>
+                    </button>
+                  );
+                })}
+
+                {group.hits.length > HITS_PER_GROUP && (
+                  <button
+                    className="w-full text-xs text-blue-600 hover:text-blue-700 pb-2"
+                    onClick={() => toggleGroup(group.conversation_id)}
+                  >
+                    {isExpanded ? 'Thu gọn' : `Xem thêm ${group.hits.length - HITS_PER_GROUP} kết quả`}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </P>
+  );
+}
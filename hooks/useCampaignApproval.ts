@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from "react";
+import { campaignApprovalAPI } from "@/lib/campaign-api";
+import { CampaignApprovalSettings } from "@/types";
+import { usePermission } from "@/hooks/usePermission";
+
+/**
+ * Cấu hình duyệt chiến dịch cho người dùng hiện tại.
+ * Khi bật, user-chien-dich phải gửi duyệt thay vì tự lên lịch; admin / manager-chien-dich là người duyệt.
+ */
+export const useCampaignApproval = () => {
+  const { canAccess } = usePermission();
+  const canApprove = canAccess("admin", "read") || canAccess("manager-chien-dich", "read");
+
+  const [settings, setSettings] = useState<CampaignApprovalSettings>({ enabled: false });
+  const [pendingCount, setPendingCount] = useState(0);
+
+  const refreshPending = useCallback(async () => {
+    if (!canApprove) return;
+    try {
+      const response = await campaignApprovalAPI.getPending({ page: 1, limit: 1 });
+      setPendingCount(response.total || 0);
+    } catch (error) {
+      console.error("Error fetching pending approvals:", error);
+    }
+  }, [canApprove]);
+
+  useEffect(() => {
+    campaignApprovalAPI
+      .getSettings()
+      .then((data) => data && setSettings(data))
+      .catch((error) => console.error("Error fetching approval settings:", error));
+  }, []);
+
+  useEffect(() => {
+    refreshPending();
+  }, [refreshPending]);
+
+  const updateSettings = useCallback(async (data: CampaignApprovalSettings) => {
+    const saved = await campaignApprovalAPI.updateSettings(data);
+    setSettings(saved || data);
+  }, []);
+
+  return {
+    settings,
+    canApprove,
+    requiresApproval: settings.enabled && !canApprove,
+    pendingCount,
+    refreshPending,
+    updateSettings,
+  };
+};
@@ -52,6 +52,7 @@ export const useCampaignFilters = () => {
   const statusOptions = useMemo(
     () => [
       { value: CampaignStatus.DRAFT, label: "Bản nháp" },
+      { value: CampaignStatus.PENDING_APPROVAL, label: "Chờ duyệt" },
       { value: CampaignStatus.SCHEDULED, label: "Đã lên lịch" },
       { value: CampaignStatus.RUNNING, label: "Đang chạy" },
       { value: CampaignStatus.PAUSED, label: "Tạm dừng" },
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { campaignContactPolicyAPI } from "@/lib/campaign-api";
+import { CampaignContactCheck, CampaignContactPolicy } from "@/types";
+import { useDebounce } from "@/hooks/useDebounce";
+
+/**
+ * Kiểm tra danh sách SĐT với danh sách chặn và giới hạn tần suất gửi tin chiến dịch.
+ * Chỉ trả về các SĐT bị chặn hoặc đã chạm giới hạn.
+ */
+export const useContactPolicyCheck = (phoneNumbers: string[], excludeCampaignId?: string) => {
+  const [checks, setChecks] = useState<Record<string, CampaignContactCheck>>({});
+  const [policy, setPolicy] = useState<CampaignContactPolicy | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Chỉ nhận kết quả của lần kiểm tra mới nhất, bỏ các phản hồi về muộn của danh sách cũ
+  const requestIdRef = useRef(0);
+
+  // Gom SĐT thành 1 key để không gọi lại API khi chỉ đổi tham chiếu mảng
+  const phonesKey = useDebounce(
+    useMemo(() => Array.from(new Set(phoneNumbers.filter(Boolean))).sort().join(","), [phoneNumbers]),
+    500
+  );
+
+  const refresh = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    if (!phonesKey) {
+      setChecks({});
+      setLoading(false);
+      return;
+    }
+    try {
+      setLoading(true);
+      const response = await campaignContactPolicyAPI.checkPhones(phonesKey.split(","), excludeCampaignId);
+      if (requestId !== requestIdRef.current) return;
+      setPolicy(response.policy);
+      setChecks(
+        Object.fromEntries(
+          (response.results || [])
+            .filter((r) => r.suppressed || r.capped)
+            .map((r) => [r.phone_number, r])
+        )
+      );
+    } catch (error) {
+      console.error("Error checking contact policy:", error);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [phonesKey, excludeCampaignId]);
+
+  useEffect(() => {
+    refresh();
+    return () => {
+      // Danh sách đổi hoặc unmount: phản hồi đang chờ không còn đúng
+      requestIdRef.current++;
+    };
+  }, [refresh]);
+
+  const flagged = Object.values(checks);
+
+  return {
+    checks,
+    policy,
+    loading,
+    suppressedCount: flagged.filter((c) => c.suppressed).length,
+    cappedCount: flagged.filter((c) => !c.suppressed && c.capped).length,
+    refresh,
+  };
+};
@@ -1,6 +1,7 @@
 // hooks/useNotifications.ts
 import { useState, useEffect, useCallback } from "react";
 import { getAccessToken, getUserFromToken } from "@/lib/auth";
+import { useWebSocketContext } from "@/contexts/WebSocketContext";
 import type { Notification } from "@/types";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
@@ -194,6 +195,17 @@ export function useNotifications(): UseNotificationsReturn {
     fetchNotifications();
   }, [fetchNotifications]);
 
+  // Backend đẩy new_notification (vd: nhắc việc hội thoại đến hạn) -> tải lại danh sách
+  const { subscribe, unsubscribe, isConnected } = useWebSocketContext();
+  useEffect(() => {
+    if (!isConnected) return;
+    const handleNewNotification = () => {
+      fetchNotifications();
+    };
+    subscribe("new_notification", handleNewNotification);
+    return () => unsubscribe("new_notification", handleNewNotification);
+  }, [isConnected, fetchNotifications]);
+
   return {
     notifications,
     unreadCount,
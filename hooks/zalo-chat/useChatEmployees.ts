@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { getAccessToken } from '@/lib/auth';
+
+export interface ChatEmployee {
+  id: number;
+  fullName: string;
+  departmentId: number;
+  departmentName: string;
+}
+
+// Danh sách nhân viên theo phòng ban (cùng nguồn /orders/filter-options với EmployeeFilterModal)
+export function useChatEmployees(enabled: boolean, departmentIds: number[] | null) {
+  const [employees, setEmployees] = useState<ChatEmployee[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const departmentKey = departmentIds ? departmentIds.join(',') : 'all';
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const fetchEmployees = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const token = getAccessToken();
+        if (!token) throw new Error('No access token');
+
+        const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/orders/filter-options`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (!response.ok) throw new Error('Failed to fetch filter options');
+
+        const data = await response.json();
+        // null = không giới hạn phòng ban (admin)
+        const departments = (data.departments || []).filter((dept: any) =>
+          departmentIds === null || departmentIds.includes(dept.value)
+        );
+
+        const seen = new Set<number>();
+        const list: ChatEmployee[] = [];
+        departments.forEach((dept: any) => {
+          (dept.users || []).forEach((u: any) => {
+            if (seen.has(u.value)) return;
+            seen.add(u.value);
+            list.push({ id: u.value, fullName: u.label, departmentId: dept.value, departmentName: dept.label });
+          });
+        });
+
+        if (!cancelled) setEmployees(list);
+      } catch (err) {
+        console.error('Error fetching employees:', err);
+        if (!cancelled) setError('Không thể tải danh sách nhân viên');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchEmployees();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, departmentKey]);
+
+  return { employees, isLoading, error };
+}
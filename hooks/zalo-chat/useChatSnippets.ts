@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChatSnippet, CreateChatSnippetDto, UpdateChatSnippetDto } from '@/types/zalo-chat';
+import { chatSnippetsApi } from '@/lib/api';
+
+export interface UseChatSnippetsResult {
+  snippets: ChatSnippet[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  createSnippet: (data: CreateChatSnippetDto) => Promise<ChatSnippet>;
+  updateSnippet: (id: number, data: UpdateChatSnippetDto) => Promise<ChatSnippet>;
+  deleteSnippet: (id: number) => Promise<void>;
+}
+
+// Câu trả lời nhanh của người dùng hiện tại (cá nhân + phòng ban)
+export function useChatSnippets(enabled: boolean = true): UseChatSnippetsResult {
+  const [snippets, setSnippets] = useState<ChatSnippet[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await chatSnippetsApi.getMySnippets();
+      setSnippets(Array.isArray(data) ? data : []);
+    } catch (e: any) {
+      setError(e?.response?.data?.message || e?.message || 'Failed to load snippets');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) fetchData();
+  }, [enabled, fetchData]);
+
+  const createSnippet = useCallback(async (data: CreateChatSnippetDto) => {
+    const created = await chatSnippetsApi.create(data);
+    setSnippets(prev => [...prev, created]);
+    return created;
+  }, []);
+
+  const updateSnippet = useCallback(async (id: number, data: UpdateChatSnippetDto) => {
+    const updated = await chatSnippetsApi.update(id, data);
+    setSnippets(prev => prev.map(s => (s.id === id ? updated : s)));
+    return updated;
+  }, []);
+
+  const deleteSnippet = useCallback(async (id: number) => {
+    await chatSnippetsApi.delete(id);
+    setSnippets(prev => prev.filter(s => s.id !== id));
+  }, []);
+
+  return {
+    snippets,
+    isLoading,
+    error,
+    refetch: fetchData,
+    createSnippet,
+    updateSnippet,
+    deleteSnippet,
+  };
+}
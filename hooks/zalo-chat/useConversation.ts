@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { Conversation } from '@/types/zalo-chat';
+import { getAccessToken } from '@/lib/auth';
+
+// Lấy một hội thoại theo id (mở từ liên kết ngoài, vd: đơn hàng -> chat)
+export function useConversation(conversationId: number | null) {
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setConversation(null);
+    if (!conversationId) return;
+    const abortController = new AbortController();
+
+    const fetchConversation = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const token = getAccessToken();
+        if (!token) throw new Error('No access token available');
+
+        const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/web/conversation/${conversationId}`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+            'Authorization': `Bearer ${token}`,
+          },
+          signal: abortController.signal,
+        });
+
+        if (!res.ok) {
+          const text = await res.text().catch(() => '');
+          throw new Error(`Request failed ${res.status}: ${text || res.statusText}`);
+        }
+
+        const json = await res.json();
+        setConversation(json?.data ?? null);
+      } catch (e: any) {
+        if (e?.name === 'AbortError') return;
+        setError(e?.message || 'Failed to load conversation');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchConversation();
+    return () => abortController.abort();
+  }, [conversationId]);
+
+  return { conversation, isLoading, error };
+}
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AssignConversationPayload,
+  AssignConversationResponse,
+  Conversation,
+  ConversationAssignment,
+} from '@/types/zalo-chat';
+import { getAccessToken } from '@/lib/auth';
+
+export interface UseConversationAssignmentResult {
+  history: ConversationAssignment[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+  assign: (payload: AssignConversationPayload) => Promise<Conversation | null>;
+}
+
+// Lịch sử phân công + giao / bỏ giao hội thoại cho nhân viên
+export function useConversationAssignment(conversationId: number | null): UseConversationAssignmentResult {
+  const [history, setHistory] = useState<ConversationAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!conversationId) return;
+    if (abortRef.current) abortRef.current.abort();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = getAccessToken();
+      if (!token) throw new Error('No access token available');
+
+      const url = `${process.env.NEXT_PUBLIC_BACKEND_URL}/web/conversation/${conversationId}/assignments`;
+      const res = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+          'Authorization': `Bearer ${token}`,
+        },
+        signal: abortController.signal,
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`Request failed ${res.status}: ${text || res.statusText}`);
+      }
+
+      const json = await res.json();
+      setHistory(Array.isArray(json?.data) ? json.data : []);
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return;
+      setError(e?.message || 'Failed to load assignment history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    setHistory([]);
+    if (!conversationId) return;
+    fetchData();
+    return () => {
+      if (abortRef.current) abortRef.current.abort();
+    };
+  }, [conversationId, fetchData]);
+
+  const assign = useCallback(async (payload: AssignConversationPayload) => {
+    if (!conversationId) return null;
+    const token = getAccessToken();
+    if (!token) throw new Error('No access token available');
+
+    const res = await fetch(`/api/zalo-chat/conversation/${conversationId}/assignments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      throw new Error(json?.details || json?.error || `Request failed ${res.status}`);
+    }
+
+    const json: AssignConversationResponse = await res.json();
+    const assignment = json?.data?.assignment;
+    if (assignment) setHistory(prev => [assignment, ...prev.filter(h => h.id !== assignment.id)]);
+    return json?.data?.conversation ?? null;
+  }, [conversationId]);
+
+  return { history, isLoading, error, refetch: fetchData, assign };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ConversationNotes } from '@/types/zalo-chat';
+import { getAccessToken } from '@/lib/auth';
+
+export interface UseConversationNotesResult {
+  notes: ConversationNotes | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+  saveNote: (content: string) => Promise<ConversationNotes | null>;
+}
+
+// Ghi chú nội bộ của hội thoại kèm lịch sử chỉnh sửa
+export function useConversationNotes(conversationId: number | null): UseConversationNotesResult {
+  const [notes, setNotes] = useState<ConversationNotes | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!conversationId) return;
+    if (abortRef.current) abortRef.current.abort();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = getAccessToken();
+      if (!token) throw new Error('No access token available');
+
+      const url = `${process.env.NEXT_PUBLIC_BACKEND_URL}/web/conversation/${conversationId}/notes`;
+      const res = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+          'Authorization': `Bearer ${token}`,
+        },
+        signal: abortController.signal,
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`Request failed ${res.status}: ${text || res.statusText}`);
+      }
+
+      const json = await res.json();
+      setNotes(json?.data ?? { content: '', notes_history: [] });
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return;
+      setError(e?.message || 'Failed to load notes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    setNotes(null);
+    if (!conversationId) return;
+    fetchData();
+    return () => {
+      if (abortRef.current) abortRef.current.abort();
+    };
+  }, [conversationId, fetchData]);
+
+  const saveNote = useCallback(async (content: string) => {
+    if (!conversationId) return null;
+    const token = getAccessToken();
+    if (!token) throw new Error('No access token available');
+
+    const res = await fetch(`/api/zalo-chat/conversation/${conversationId}/notes`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ content }),
+    });
+
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      throw new Error(json?.details || json?.error || `Request failed ${res.status}`);
+    }
+
+    const json = await res.json();
+    const saved: ConversationNotes | null = json?.data ?? null;
+    if (saved) setNotes(saved);
+    return saved;
+  }, [conversationId]);
+
+  return { notes, isLoading, error, refetch: fetchData, saveNote };
+}
@@ -0,0 +1,53 @@
+import { useEffect, useMemo, useState } from 'react';
+import { OrderDetail } from '@/types';
+import { getAccessToken } from '@/lib/auth';
+
+// Các dòng đơn hàng trích xuất từ hội thoại, nhóm theo msgId Zalo của tin nhắn nguồn
+export function useConversationOrderLinks(conversationId: number | null) {
+  const [details, setDetails] = useState<OrderDetail[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    setDetails([]);
+    if (!conversationId) return;
+    let cancelled = false;
+
+    const fetchDetails = async () => {
+      setIsLoading(true);
+      try {
+        const token = getAccessToken();
+        if (!token) throw new Error('No access token');
+
+        const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/order-details/conversation/${conversationId}`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error(`Failed to fetch order details: ${res.status}`);
+
+        const result = await res.json();
+        if (!cancelled) setDetails(Array.isArray(result) ? result : result?.data || []);
+      } catch (err) {
+        // Không chặn khung chat nếu không tải được liên kết đơn hàng
+        console.error('Error fetching conversation order details:', err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchDetails();
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  const byMessageId = useMemo(() => {
+    const map = new Map<string, OrderDetail[]>();
+    details.forEach(detail => {
+      if (!detail.zaloMessageId) return;
+      const key = String(detail.zaloMessageId);
+      map.set(key, [...(map.get(key) || []), detail]);
+    });
+    return map;
+  }, [details]);
+
+  return { details, byMessageId, isLoading };
+}
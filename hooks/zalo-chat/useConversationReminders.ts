@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ConversationReminder,
+  ConversationReminderStatus,
+  CreateConversationReminderDto,
+} from '@/types/zalo-chat';
+import { getAccessToken } from '@/lib/auth';
+
+export interface UseConversationRemindersResult {
+  reminders: ConversationReminder[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+  createReminder: (data: CreateConversationReminderDto) => Promise<ConversationReminder>;
+  updateReminderStatus: (id: number, status: ConversationReminderStatus) => Promise<void>;
+}
+
+async function sendJson(url: string, method: string, body: unknown) {
+  const token = getAccessToken();
+  if (!token) throw new Error('No access token available');
+
+  const res = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    const json = await res.json().catch(() => null);
+    throw new Error(json?.details || json?.error || `Request failed ${res.status}`);
+  }
+  return res.json();
+}
+
+// Nhắc việc theo hội thoại của người dùng hiện tại
+export function useConversationReminders(conversationId: number | null): UseConversationRemindersResult {
+  const [reminders, setReminders] = useState<ConversationReminder[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!conversationId) return;
+    if (abortRef.current) abortRef.current.abort();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = getAccessToken();
+      if (!token) throw new Error('No access token available');
+
+      const url = `${process.env.NEXT_PUBLIC_BACKEND_URL}/web/conversation/${conversationId}/reminders`;
+      const res = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+          'Authorization': `Bearer ${token}`,
+        },
+        signal: abortController.signal,
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`Request failed ${res.status}: ${text || res.statusText}`);
+      }
+
+      const json = await res.json();
+      setReminders(Array.isArray(json?.data) ? json.data : []);
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return;
+      setError(e?.message || 'Failed to load reminders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    setReminders([]);
+    if (!conversationId) return;
+    fetchData();
+    return () => {
+      if (abortRef.current) abortRef.current.abort();
+    };
+  }, [conversationId, fetchData]);
+
+  const createReminder = useCallback(async (data: CreateConversationReminderDto) => {
+    if (!conversationId) throw new Error('No conversation selected');
+    const json = await sendJson(`/api/zalo-chat/conversation/${conversationId}/reminders`, 'POST', data);
+    const created: ConversationReminder = json?.data;
+    setReminders(prev => [...prev, created].sort(
+      (a, b) => new Date(a.remind_at).getTime() - new Date(b.remind_at).getTime()
+    ));
+    return created;
+  }, [conversationId]);
+
+  const updateReminderStatus = useCallback(async (id: number, status: ConversationReminderStatus) => {
+    await sendJson(`/api/zalo-chat/reminders/${id}`, 'PATCH', { status });
+    setReminders(prev => prev.map(r => (r.id === id ? { ...r, status } : r)));
+  }, []);
+
+  return { reminders, isLoading, error, refetch: fetchData, createReminder, updateReminderStatus };
+}
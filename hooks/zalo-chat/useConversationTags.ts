@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ConversationTag, CreateConversationTagDto } from '@/types/zalo-chat';
+import { getAccessToken } from '@/lib/auth';
+
+export interface UseConversationTagsResult {
+  tags: ConversationTag[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  createTag: (data: CreateConversationTagDto) => Promise<ConversationTag>;
+  setConversationTags: (conversationId: number, tagIds: number[]) => Promise<ConversationTag[] | null>;
+}
+
+async function sendJson(url: string, method: string, body: unknown) {
+  const token = getAccessToken();
+  if (!token) throw new Error('No access token available');
+
+  const res = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    const json = await res.json().catch(() => null);
+    throw new Error(json?.details || json?.error || `Request failed ${res.status}`);
+  }
+  return res.json();
+}
+
+// Danh mục thẻ hội thoại dùng chung + gắn thẻ cho hội thoại
+export function useConversationTags(enabled: boolean = true): UseConversationTagsResult {
+  const [tags, setTags] = useState<ConversationTag[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = getAccessToken();
+      if (!token) throw new Error('No access token available');
+
+      const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/web/conversation-tags`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`Request failed ${res.status}: ${text || res.statusText}`);
+      }
+
+      const json = await res.json();
+      setTags(Array.isArray(json?.data) ? json.data : []);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load tags');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) fetchData();
+  }, [enabled, fetchData]);
+
+  const createTag = useCallback(async (data: CreateConversationTagDto) => {
+    const json = await sendJson('/api/zalo-chat/tags', 'POST', data);
+    const created: ConversationTag = json?.data;
+    setTags(prev => [...prev, created]);
+    return created;
+  }, []);
+
+  const setConversationTags = useCallback(async (conversationId: number, tagIds: number[]) => {
+    const json = await sendJson(`/api/zalo-chat/conversation/${conversationId}/tags`, 'PUT', { tag_ids: tagIds });
+    return Array.isArray(json?.data) ? json.data as ConversationTag[] : null;
+  }, []);
+
+  return { tags, isLoading, error, refetch: fetchData, createTag, setConversationTags };
+}
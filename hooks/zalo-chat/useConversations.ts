@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Conversation, ConversationsResponse, PaginationMeta } from '@/types/zalo-chat';
+import { Conversation, ConversationAssignmentFilter, ConversationsResponse, PaginationMeta } from '@/types/zalo-chat';
 import { getAccessToken } from '@/lib/auth';
 
 export type ConversationType = 'private' | 'group' | 'official' | 'business' | 'bot';
@@ -21,6 +21,9 @@ export interface UseConversationsParams {
   to_date?: string | null;   // YYYY-MM-DD
   min_members?: number | null;
   max_members?: number | null;
+  assignment?: ConversationAssignmentFilter | null;
+  assignee_id?: number | null; // người dùng hiện tại, dùng cho assignment = mine / others
+  tag_ids?: number[]; // hội thoại phải có đủ các thẻ này
   refreshKey?: number; // Force refresh key
 }
 
@@ -56,6 +59,11 @@ function buildQuery(params: UseConversationsParams): string {
   if (params.to_date) q.set('to_date', params.to_date);
   if (params.min_members !== undefined && params.min_members !== null) q.set('min_members', String(params.min_members));
   if (params.max_members !== undefined && params.max_members !== null) q.set('max_members', String(params.max_members));
+  if (params.assignment && params.assignment !== 'all') {
+    q.set('assignment', params.assignment);
+    if (params.assignee_id) q.set('assignee_id', String(params.assignee_id));
+  }
+  if (params.tag_ids && params.tag_ids.length > 0) q.set('tag_ids', params.tag_ids.join(','));
   const qs = q.toString();
   return qs ? `?${qs}` : '';
 }
@@ -86,6 +94,9 @@ export function useConversations(params: UseConversationsParams): UseConversatio
     params.to_date,
     params.min_members,
     params.max_members,
+    params.assignment,
+    params.assignee_id,
+    params.tag_ids?.join(','),
     params.refreshKey,
   ]);
 
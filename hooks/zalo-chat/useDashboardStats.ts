@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DashboardPeriod, DashboardStats } from '@/types/zalo-chat';
+import { getAccessToken } from '@/lib/auth';
+
+export interface UseDashboardStatsParams {
+  period: DashboardPeriod;
+  from_date?: string | null; // YYYY-MM-DD, chỉ dùng khi period = custom
+  to_date?: string | null;
+  user_ids?: number[];       // rỗng = toàn bộ phạm vi được phép xem
+}
+
+export interface UseDashboardStatsResult {
+  data: DashboardStats | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+function buildQuery(params: UseDashboardStatsParams): string {
+  const q = new URLSearchParams();
+  q.set('period', params.period);
+  q.set('include', 'analytics');
+  if (params.period === 'custom') {
+    if (params.from_date) q.set('from_date', params.from_date);
+    if (params.to_date) q.set('to_date', params.to_date);
+  }
+  if (params.user_ids && params.user_ids.length > 0) q.set('user_ids', params.user_ids.join(','));
+  return `?${q.toString()}`;
+}
+
+// Số liệu dashboard chat kèm phần phân tích (thời gian phản hồi, heatmap, ...)
+export function useDashboardStats(params: UseDashboardStatsParams): UseDashboardStatsResult {
+  const [data, setData] = useState<DashboardStats | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const query = buildQuery(params);
+
+  const fetchData = useCallback(async () => {
+    if (abortRef.current) abortRef.current.abort();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = getAccessToken();
+      if (!token) throw new Error('No access token available');
+
+      const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/web/dashboard-stats${query}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+          'Authorization': `Bearer ${token}`,
+        },
+        signal: abortController.signal,
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`Request failed ${res.status}: ${text || res.statusText}`);
+      }
+
+      const json = await res.json();
+      setData((json?.data ?? null) as DashboardStats | null);
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return;
+      setError(e?.message || 'Failed to load dashboard stats');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchData();
+    return () => {
+      if (abortRef.current) abortRef.current.abort();
+    };
+  }, [fetchData]);
+
+  return { data, isLoading, error, refetch: fetchData };
+}
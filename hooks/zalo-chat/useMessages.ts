@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Message, MessagesResponse, PaginationMeta } from '@/types/zalo-chat';
+import { Message, MessageLocator, MessageReaction, MessagesResponse, PaginationMeta, SendAttachmentPayload, SendMessagePayload, SendMessageResponse } from '@/types/zalo-chat';
 import { getAccessToken } from '@/lib/auth';
+import { createClientMessageId, extractMessageText } from '@/lib/zalo-chat-helper';
 
 export type MessageContentType =
   | 'TEXT'
@@ -38,6 +39,19 @@ export interface UseMessagesParams {
   is_reply?: boolean | null;
   reaction_type?: string | null;
   is_starred?: boolean | null;
+  around_message_id?: number | null; // trả về trang chứa tin nhắn này (nhảy tới tin nhắn)
+  around_zalo_message_id?: string | null; // như trên nhưng theo msgId Zalo
+}
+
+export interface SendMessageInput {
+  text: string;
+  quoted_message?: Message | null;
+}
+
+export interface SendAttachmentInput {
+  file: File;
+  preview_url?: string; // data URL để hiển thị ngay khi đang tải lên
+  caption?: string;
 }
 
 export interface UseMessagesResult {
@@ -46,6 +60,22 @@ export interface UseMessagesResult {
   error: string | null;
   pagination: PaginationMeta | null;
   refetch: () => void;
+  // Tin nhắn gửi từ web chưa có trong danh sách backend (pending / failed / sent)
+  outgoingMessages: Message[];
+  sendMessage: (input: SendMessageInput) => Promise<Message | null>;
+  sendAttachment: (input: SendAttachmentInput) => Promise<Message | null>;
+  retryMessage: (clientMessageId: string) => Promise<Message | null>;
+  discardMessage: (clientMessageId: string) => void;
+  // Thả reaction: hiện ngay trên mọi nguồn tin nhắn, hoàn tác nếu backend báo lỗi
+  sendReaction: (messageId: number, reaction: MessageReaction) => Promise<void>;
+  applyPendingReactions: <T extends Message>(messages: T[]) => T[];
+  // Tin nhắn nhận realtime / lấp khoảng trống khi reconnect (chưa có trong trang đã tải)
+  liveMessages: Message[];
+  receiveMessage: (message: Message) => void;
+  markRead: (messageIds?: number[]) => void;
+  syncLatest: () => Promise<void>;
+  // Tải trang chứa tin nhắn messageId (nhảy tới tin nhắn); không thay đổi messages của trang hiện tại
+  loadAround: (target: MessageLocator) => Promise<{ messages: Message[]; pagination: PaginationMeta | null } | null>;
 }
 
 function buildQuery(params: UseMessagesParams): string {
@@ -73,18 +103,189 @@ function buildQuery(params: UseMessagesParams): string {
   if (params.is_reply !== undefined && params.is_reply !== null) q.set('is_reply', String(params.is_reply));
   if (params.reaction_type) q.set('reaction_type', params.reaction_type);
   if (params.is_starred !== undefined && params.is_starred !== null) q.set('is_starred', String(params.is_starred));
+  if (params.around_message_id) q.set('around_message_id', String(params.around_message_id));
+  if (params.around_zalo_message_id) q.set('around_zalo_message_id', params.around_zalo_message_id);
   const qs = q.toString();
   return qs ? `?${qs}` : '';
 }
 
+async function requestMessages(params: UseMessagesParams, signal?: AbortSignal): Promise<MessagesResponse> {
+  const token = getAccessToken();
+  if (!token) throw new Error('No access token available');
+
+  const qs = buildQuery(params);
+  const url = `${process.env.NEXT_PUBLIC_BACKEND_URL}/web/messages${qs}`;
+  const res = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
+      'Authorization': `Bearer ${token}`,
+    },
+    signal,
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`Request failed ${res.status}: ${text || res.statusText}`);
+  }
+
+  return res.json();
+}
+
+// id tạm (âm) cho tin nhắn optimistic để không trùng với id thật từ backend
+let optimisticIdSeq = 0;
+
+function buildOptimisticMessage(payload: SendMessagePayload, quoted: Message | null): Message {
+  const now = new Date().toISOString();
+  return {
+    id: -(++optimisticIdSeq),
+    conversation_id: payload.conversation_id,
+    sender_id: 0,
+    content: payload.content,
+    content_type: payload.content_type,
+    timestamp: now,
+    is_outgoing: true,
+    is_read: false,
+    metadata: { client_message_id: payload.client_message_id },
+    created_at: now,
+    updated_at: now,
+    quoted_message_id: payload.quoted_message_id ?? null,
+    quote_text: quoted ? extractMessageText(quoted) : null,
+    reactions: [],
+    sender: { id: 0, name: '', zalo_id: '', is_favorite: false, is_blocked: false },
+    quoted_message: quoted,
+    is_text: true,
+    has_media: false,
+    is_quote: !!quoted,
+    formatted_timestamp: '',
+    send_status: 'pending',
+    send_error: null,
+  };
+}
+
+function buildOptimisticAttachment(payload: SendAttachmentPayload, file: File, previewUrl?: string): Message {
+  const now = new Date().toISOString();
+  const isImage = payload.content_type === 'IMAGE';
+  const content = isImage
+    ? { imageUrl: previewUrl, caption: payload.caption }
+    : { fileName: file.name, fileSize: file.size, caption: payload.caption };
+  return {
+    id: -(++optimisticIdSeq),
+    conversation_id: payload.conversation_id,
+    sender_id: 0,
+    content: JSON.stringify(content),
+    content_type: payload.content_type,
+    timestamp: now,
+    is_outgoing: true,
+    is_read: false,
+    metadata: {
+      client_message_id: payload.client_message_id,
+      media_metadata: { url: previewUrl, fileName: file.name, fileSize: file.size, mimeType: file.type },
+    },
+    created_at: now,
+    updated_at: now,
+    quoted_message_id: null,
+    quote_text: null,
+    reactions: [],
+    sender: { id: 0, name: '', zalo_id: '', is_favorite: false, is_blocked: false },
+    quoted_message: null,
+    is_text: false,
+    has_media: true,
+    is_quote: false,
+    formatted_timestamp: '',
+    send_status: 'pending',
+    send_error: null,
+    upload_progress: 0,
+  };
+}
+
+async function postMessage(payload: SendMessagePayload): Promise<Message | null> {
+  const token = getAccessToken();
+  if (!token) throw new Error('No access token available');
+
+  const res = await fetch('/api/zalo-chat/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!res.ok) {
+    const json = await res.json().catch(() => null);
+    throw new Error(json?.details || json?.error || `Request failed ${res.status}`);
+  }
+
+  const json: SendMessageResponse = await res.json();
+  return json?.data ?? null;
+}
+
+// Dùng XMLHttpRequest thay vì fetch để theo dõi tiến độ tải lên
+function uploadAttachment(
+  payload: SendAttachmentPayload,
+  file: File,
+  onProgress: (percent: number) => void,
+): Promise<Message | null> {
+  const token = getAccessToken();
+  if (!token) return Promise.reject(new Error('No access token available'));
+
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('conversation_id', String(payload.conversation_id));
+  formData.append('content_type', payload.content_type);
+  formData.append('client_message_id', payload.client_message_id);
+  if (payload.caption) formData.append('caption', payload.caption);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', '/api/zalo-chat/attachments');
+    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+
+    xhr.onload = () => {
+      let json: any = null;
+      try {
+        json = JSON.parse(xhr.responseText);
+      } catch {
+        // Ignore parsing errors
+      }
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(json?.details || json?.error || `Request failed ${xhr.status}`));
+        return;
+      }
+      resolve((json as SendMessageResponse | null)?.data ?? null);
+    };
+    xhr.onerror = () => reject(new Error('Không thể tải tệp lên'));
+
+    xhr.send(formData);
+  });
+}
+
+// Khóa của một trang đã tải, dùng để bỏ qua lần tải lại trang vừa lấy bằng loadAround
+function pageKey(params: UseMessagesParams) {
+  return [params.conversation_id, params.page, params.limit, params.search, params.sort_by, params.sort_order].join('|');
+}
+
 export function useMessages(params: UseMessagesParams | null): UseMessagesResult {
 
   const [messages, setMessages] = useState<Message[]>([]);
   const [pagination, setPagination] = useState<PaginationMeta | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [outgoing, setOutgoing] = useState<Message[]>([]);
+  const [live, setLive] = useState<Message[]>([]);
   const refreshRef = useRef(0);
   const abortRef = useRef<AbortController | null>(null);
+  // client_message_id -> hàm gửi để gửi lại khi thất bại
+  const jobsRef = useRef<Map<string, () => Promise<Message | null>>>(new Map());
+  const skipPageKeyRef = useRef<string | null>(null);
+  // message id -> reaction vừa thả, áp lên tin nhắn trang đã tải / realtime / đang gửi
+  const [pendingReactions, setPendingReactions] = useState<Record<number, MessageReaction[]>>({});
 
   const fetchData = useCallback(async () => {
     if (!params) return;
@@ -95,29 +296,17 @@ export function useMessages(params: UseMessagesParams | null): UseMessagesResult
     setIsLoading(true);
     setError(null);
     try {
-      const token = getAccessToken();
-      if (!token) throw new Error('No access token available');
+      const json = await requestMessages(params, abortController.signal);
+      const data = Array.isArray(json?.data) ? json.data : [];
+      setMessages(data);
+      setPagination(json?.pagination || null);
 
-      const qs = buildQuery(params);
-      const url = `${process.env.NEXT_PUBLIC_BACKEND_URL}/web/messages${qs}`;
-      const res = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Master-Key': process.env.NEXT_PUBLIC_MASTER_KEY || 'nkcai',
-          'Authorization': `Bearer ${token}`,
-        },
-        signal: abortController.signal,
+      // Bỏ các tin nhắn đã gửi thành công khi backend đã trả về chúng
+      const fetchedIds = new Set(data.map(m => m.id));
+      setOutgoing(prev => {
+        const next = prev.filter(m => !(m.send_status === 'sent' && fetchedIds.has(m.id)));
+        return next.length === prev.length ? prev : next;
       });
-
-      if (!res.ok) {
-        const text = await res.text().catch(() => '');
-        throw new Error(`Request failed ${res.status}: ${text || res.statusText}`);
-      }
-
-      const json: MessagesResponse = await res.json();
-      setMessages(Array.isArray(json?.data) ? json.data : []);
-      setPagination(json?.pagination || null);
     } catch (e: any) {
       if (e?.name === 'AbortError') return;
       setError(e?.message || 'Failed to load messages');
@@ -126,8 +315,17 @@ export function useMessages(params: UseMessagesParams | null): UseMessagesResult
     }
   }, [params]);
 
+  // Tin nhắn realtime chỉ giữ cho hội thoại đang mở
+  useEffect(() => {
+    setLive([]);
+    setPendingReactions({});
+  }, [params?.conversation_id]);
+
   useEffect(() => {
     if (!params?.conversation_id) return;
+    const skip = skipPageKeyRef.current === pageKey(params);
+    skipPageKeyRef.current = null;
+    if (skip) return;
     fetchData();
     return () => {
       if (abortRef.current) abortRef.current.abort();
@@ -139,7 +337,236 @@ export function useMessages(params: UseMessagesParams | null): UseMessagesResult
     fetchData();
   }, [fetchData]);
 
-  return { messages, isLoading, error, pagination, refetch };
+  const deliver = useCallback(async (clientId: string): Promise<Message | null> => {
+    const job = jobsRef.current.get(clientId);
+    if (!job) return null;
+    const isSame = (m: Message) => m.metadata?.client_message_id === clientId;
+    try {
+      const saved = await job();
+      jobsRef.current.delete(clientId);
+      setOutgoing(prev => prev.map(m => {
+        if (!isSame(m)) return m;
+        if (!saved) return { ...m, send_status: 'sent' as const, upload_progress: undefined };
+        return {
+          ...saved,
+          metadata: { ...saved.metadata, client_message_id: clientId },
+          quoted_message: saved.quoted_message ?? m.quoted_message,
+          send_status: 'sent' as const,
+        };
+      }));
+      return saved;
+    } catch (e: any) {
+      setOutgoing(prev => prev.map(m => (
+        isSame(m) ? { ...m, send_status: 'failed' as const, send_error: e?.message || 'Failed to send message', upload_progress: undefined } : m
+      )));
+      return null;
+    }
+  }, []);
+
+  const sendMessage = useCallback(async (input: SendMessageInput) => {
+    const text = input.text.trim();
+    if (!params?.conversation_id || !text) return null;
+
+    const quoted = input.quoted_message ?? null;
+    const payload: SendMessagePayload = {
+      conversation_id: params.conversation_id,
+      content: JSON.stringify({ text }),
+      content_type: quoted ? 'QUOTE' : 'TEXT',
+      quoted_message_id: quoted?.id ?? null,
+      client_message_id: createClientMessageId(),
+    };
+    jobsRef.current.set(payload.client_message_id, () => postMessage(payload));
+    setOutgoing(prev => [...prev, buildOptimisticMessage(payload, quoted)]);
+    return deliver(payload.client_message_id);
+  }, [params?.conversation_id, deliver]);
+
+  const sendAttachment = useCallback(async (input: SendAttachmentInput) => {
+    if (!params?.conversation_id) return null;
+
+    const payload: SendAttachmentPayload = {
+      conversation_id: params.conversation_id,
+      content_type: input.file.type.startsWith('image/') ? 'IMAGE' : 'FILE',
+      caption: input.caption?.trim() || undefined,
+      client_message_id: createClientMessageId(),
+    };
+    const clientId = payload.client_message_id;
+    const setProgress = (percent: number) => setOutgoing(prev => prev.map(m => (
+      m.metadata?.client_message_id === clientId ? { ...m, upload_progress: percent } : m
+    )));
+
+    jobsRef.current.set(clientId, () => {
+      setProgress(0);
+      return uploadAttachment(payload, input.file, setProgress);
+    });
+    setOutgoing(prev => [...prev, buildOptimisticAttachment(payload, input.file, input.preview_url)]);
+    return deliver(clientId);
+  }, [params?.conversation_id, deliver]);
+
+  const retryMessage = useCallback(async (clientMessageId: string) => {
+    if (!jobsRef.current.has(clientMessageId)) return null;
+    setOutgoing(prev => prev.map(m => (
+      m.metadata?.client_message_id === clientMessageId ? { ...m, send_status: 'pending' as const, send_error: null } : m
+    )));
+    return deliver(clientMessageId);
+  }, [deliver]);
+
+  const discardMessage = useCallback((clientMessageId: string) => {
+    jobsRef.current.delete(clientMessageId);
+    setOutgoing(prev => prev.filter(m => m.metadata?.client_message_id !== clientMessageId));
+  }, []);
+
+  const sendReaction = useCallback(async (messageId: number, reaction: MessageReaction) => {
+    if (!params?.conversation_id) return;
+    // id âm là tin nhắn optimistic chưa được backend lưu
+    if (messageId <= 0) throw new Error('Tin nhắn chưa gửi xong');
+    const token = getAccessToken();
+    if (!token) throw new Error('No access token available');
+
+    const patch = (update: (reactions: MessageReaction[]) => MessageReaction[]) =>
+      setPendingReactions(prev => ({ ...prev, [messageId]: update(prev[messageId] || []) }));
+    patch(reactions => [...reactions, reaction]);
+
+    try {
+      const res = await fetch(`/api/zalo-chat/messages/${messageId}/reactions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ conversation_id: params.conversation_id, reaction_type: reaction.reaction_type }),
+      });
+
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.details || json?.error || `Request failed ${res.status}`);
+      }
+    } catch (e) {
+      patch(reactions => reactions.filter(r => r !== reaction));
+      throw e;
+    }
+  }, [params?.conversation_id]);
+
+  // Bỏ qua reaction đã có trong dữ liệu backend (cùng người, cùng loại) để không hiện trùng
+  const applyPendingReactions = useCallback(<T extends Message>(list: T[]) => list.map(m => {
+    const pending = pendingReactions[m.id];
+    if (!pending?.length) return m;
+    const reactions = m.reactions || [];
+    const extra = pending.filter(r => !reactions.some(x => x.user_id === r.user_id && x.reaction_type === r.reaction_type));
+    return extra.length ? { ...m, reactions: [...reactions, ...extra] } : m;
+  }), [pendingReactions]);
+
+  const mergeLive = useCallback((incoming: Message[]) => {
+    if (incoming.length === 0) return;
+    const byClientId = new Map<string, Message>();
+    incoming.forEach(m => {
+      if (m.metadata?.client_message_id) byClientId.set(m.metadata.client_message_id, m);
+    });
+
+    // Tin nhắn do chính web gửi: thay bản optimistic bằng bản từ backend
+    byClientId.forEach((_, clientId) => jobsRef.current.delete(clientId));
+    setOutgoing(prev => prev.map(m => {
+      const clientId = m.metadata?.client_message_id;
+      const saved = clientId ? byClientId.get(clientId) : undefined;
+      if (!saved) return m;
+      return { ...saved, quoted_message: saved.quoted_message ?? m.quoted_message, send_status: 'sent' as const };
+    }));
+
+    setLive(prev => {
+      const map = new Map<number, Message>();
+      prev.forEach(m => map.set(m.id, m));
+      incoming.forEach(m => map.set(m.id, { ...map.get(m.id), ...m }));
+      return Array.from(map.values()).sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+    });
+  }, []);
+
+  const receiveMessage = useCallback((message: Message) => {
+    if (!params?.conversation_id || message.conversation_id !== params.conversation_id) return;
+    mergeLive([message]);
+  }, [params?.conversation_id, mergeLive]);
+
+  const markRead = useCallback((messageIds?: number[]) => {
+    const ids = messageIds ? new Set(messageIds) : null;
+    const apply = (list: Message[]) => list.map(m => (
+      m.is_outgoing && !m.is_read && (!ids || ids.has(m.id)) ? { ...m, is_read: true } : m
+    ));
+    setLive(apply);
+    setOutgoing(apply);
+  }, []);
+
+  // Lấy lại trang mới nhất (sau khi mất kết nối) để bổ sung tin nhắn bị lỡ
+  const syncLatest = useCallback(async () => {
+    if (!params?.conversation_id) return;
+    try {
+      const json = await requestMessages({ ...params, page: 1 });
+      mergeLive(Array.isArray(json?.data) ? json.data : []);
+    } catch (e) {
+      console.error('Error syncing latest messages:', e);
+    }
+  }, [params, mergeLive]);
+
+  const loadAround = useCallback(async (target: MessageLocator) => {
+    if (!params?.conversation_id) return null;
+    if (abortRef.current) abortRef.current.abort();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const json = await requestMessages({
+        ...params,
+        page: undefined,
+        around_message_id: target.message_id ?? null,
+        around_zalo_message_id: target.message_id ? null : target.zalo_message_id ?? null,
+      }, abortController.signal);
+      const page = json?.pagination?.page ?? 1;
+      // Trang này đã có dữ liệu, khi params.page chuyển sang trang đó thì không cần tải lại
+      skipPageKeyRef.current = pageKey({ ...params, page });
+      return { messages: Array.isArray(json?.data) ? json.data : [], pagination: json?.pagination || null };
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return null;
+      setError(e?.message || 'Failed to load messages');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params]);
+
+  // Bỏ các tin nhắn đã được hiển thị qua outgoingMessages (cùng client_message_id)
+  const liveMessages = useMemo(() => {
+    const outgoingClientIds = new Set(outgoing.map(m => m.metadata?.client_message_id).filter(Boolean));
+    return live.filter(m => (
+      m.conversation_id === params?.conversation_id &&
+      !(m.metadata?.client_message_id && outgoingClientIds.has(m.metadata.client_message_id))
+    ));
+  }, [live, outgoing, params?.conversation_id]);
+
+  const outgoingMessages = useMemo(
+    () => outgoing.filter(m => m.conversation_id === params?.conversation_id),
+    [outgoing, params?.conversation_id]
+  );
+
+  return {
+    messages,
+    isLoading,
+    error,
+    pagination,
+    refetch,
+    outgoingMessages,
+    sendMessage,
+    sendAttachment,
+    retryMessage,
+    discardMessage,
+    sendReaction,
+    applyPendingReactions,
+    liveMessages,
+    receiveMessage,
+    markRead,
+    syncLatest,
+    loadAround,
+  };
 }
 
 
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useState, useRef } from 'react';
-import { Conversation } from '@/types/zalo-chat';
+import { Conversation, ConversationAssignmentFilter } from '@/types/zalo-chat';
 import { getAccessToken } from '@/lib/auth';
 import { ConversationType } from './useConversations';
 
@@ -11,6 +11,9 @@ interface UseMultiUserConversationsParams {
   conversation_type?: ConversationType | null;
   sort_by?: 'last_message_timestamp' | 'created_at';
   sort_order?: 'asc' | 'desc';
+  assignment?: ConversationAssignmentFilter | null;
+  assignee_id?: number | null;
+  tag_ids?: number[];
   refreshKey?: number;
 }
 
@@ -64,6 +67,13 @@ export function useMultiUserConversations(
         if (params.conversation_type) queryParams.set('conversation_type', params.conversation_type);
         queryParams.set('sort_by', params.sort_by || 'last_message_timestamp');
         queryParams.set('sort_order', params.sort_order || 'desc');
+        if (params.assignment && params.assignment !== 'all') {
+          queryParams.set('assignment', params.assignment);
+          if (params.assignee_id) queryParams.set('assignee_id', String(params.assignee_id));
+        }
+        if (params.tag_ids && params.tag_ids.length > 0) {
+          queryParams.set('tag_ids', params.tag_ids.join(','));
+        }
 
         const url = `${process.env.NEXT_PUBLIC_BACKEND_URL}/web/conversations?${queryParams.toString()}`;
         
@@ -126,6 +136,9 @@ export function useMultiUserConversations(
     params.conversation_type,
     params.sort_by,
     params.sort_order,
+    params.assignment,
+    params.assignee_id,
+    params.tag_ids?.join(','),
     params.refreshKey,
   ]);
 
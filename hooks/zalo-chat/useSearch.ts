@@ -11,6 +11,11 @@ export interface UseSearchParams {
   exact_match?: boolean;
   case_sensitive?: boolean;
   include_archived?: boolean;
+  // Bộ lọc cho tìm kiếm tin nhắn
+  sender_id?: number | null;
+  content_type?: string | null;
+  from_date?: string | null; // YYYY-MM-DD
+  to_date?: string | null;   // YYYY-MM-DD
 }
 
 export interface SearchResultItem {
@@ -33,6 +38,10 @@ function buildQuery(params: UseSearchParams): string {
   if (params.exact_match !== undefined) q.set('exact_match', String(params.exact_match));
   if (params.case_sensitive !== undefined) q.set('case_sensitive', String(params.case_sensitive));
   if (params.include_archived !== undefined) q.set('include_archived', String(params.include_archived));
+  if (params.sender_id !== undefined && params.sender_id !== null) q.set('sender_id', String(params.sender_id));
+  if (params.content_type) q.set('content_type', params.content_type);
+  if (params.from_date) q.set('from_date', params.from_date);
+  if (params.to_date) q.set('to_date', params.to_date);
   const qs = q.toString();
   return qs ? `?${qs}` : '';
 }
@@ -91,7 +100,7 @@ export function useSearch<T = any>(params: UseSearchParams | null): UseSearchRes
     return () => {
       if (abortRef.current) abortRef.current.abort();
     };
-  }, [params?.q, params?.user_id, params?.type, params?.limit]);
+  }, [params?.q, params?.user_id, params?.type, params?.limit, params?.sender_id, params?.content_type, params?.from_date, params?.to_date]);
 
   const refetch = useCallback(() => {
     refreshRef.current++;
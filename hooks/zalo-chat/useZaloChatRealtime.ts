@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import { useWebSocketContext } from '@/contexts/WebSocketContext';
+import {
+  ZaloConversationUpdatedEvent,
+  ZaloMessageNewEvent,
+  ZaloMessageReadEvent,
+} from '@/types/zalo-chat';
+
+export interface UseZaloChatRealtimeHandlers {
+  onMessageNew?: (data: ZaloMessageNewEvent) => void;
+  onMessageRead?: (data: ZaloMessageReadEvent) => void;
+  onConversationUpdated?: (data: ZaloConversationUpdatedEvent) => void;
+  // Gọi khi socket kết nối lại sau khi bị mất, dùng để lấp khoảng trống dữ liệu
+  onReconnect?: () => void;
+}
+
+export function useZaloChatRealtime(handlers: UseZaloChatRealtimeHandlers) {
+  const { subscribe, unsubscribe, isConnected } = useWebSocketContext();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const hasConnectedRef = useRef(false);
+  const lostConnectionRef = useRef(false);
+
+  useEffect(() => {
+    if (isConnected) {
+      if (hasConnectedRef.current && lostConnectionRef.current) {
+        lostConnectionRef.current = false;
+        handlersRef.current.onReconnect?.();
+      }
+      hasConnectedRef.current = true;
+    } else if (hasConnectedRef.current) {
+      lostConnectionRef.current = true;
+    }
+  }, [isConnected]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const handleMessageNew = (data: ZaloMessageNewEvent) => {
+      if (!data?.message) return;
+      handlersRef.current.onMessageNew?.(data);
+    };
+
+    const handleMessageRead = (data: ZaloMessageReadEvent) => {
+      if (!data?.conversation_id) return;
+      handlersRef.current.onMessageRead?.(data);
+    };
+
+    const handleConversationUpdated = (data: ZaloConversationUpdatedEvent) => {
+      if (!data?.conversation) return;
+      handlersRef.current.onConversationUpdated?.(data);
+    };
+
+    subscribe('zalo:message:new', handleMessageNew);
+    subscribe('zalo:message:read', handleMessageRead);
+    subscribe('zalo:conversation:updated', handleConversationUpdated);
+
+    return () => {
+      unsubscribe('zalo:message:new', handleMessageNew);
+      unsubscribe('zalo:message:read', handleMessageRead);
+      unsubscribe('zalo:conversation:updated', handleConversationUpdated);
+    };
+  }, [isConnected, subscribe, unsubscribe]);
+
+  return { isConnected };
+}
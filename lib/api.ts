@@ -6,6 +6,7 @@ import {
   UpdateOrderInquiryPresetDto, 
   FindOrderInquiryPresetDto 
 } from '@/types';
+import { ChatSnippet, CreateChatSnippetDto, UpdateChatSnippetDto } from '@/types/zalo-chat';
 
 export const api = axios.create({
   baseURL: process.env.NEXT_PUBLIC_API_URL,
@@ -62,6 +63,33 @@ export const orderInquiryPresetsApi = {
   },
 };
 
+// Zalo chat snippet (câu trả lời nhanh) API functions
+export const chatSnippetsApi = {
+  // Get snippets the current user can use (own + department)
+  getMySnippets: async (): Promise<ChatSnippet[]> => {
+    const response = await api.get('/chat-snippets/my-snippets');
+    return response.data;
+  },
+
+  // Create new snippet
+  create: async (data: CreateChatSnippetDto): Promise<ChatSnippet> => {
+    const response = await api.post('/chat-snippets', data);
+    return response.data;
+  },
+
+  // Update snippet
+  update: async (id: number, data: UpdateChatSnippetDto): Promise<ChatSnippet> => {
+    const response = await api.patch(`/chat-snippets/${id}`, data);
+    return response.data;
+  },
+
+  // Delete snippet
+  delete: async (id: number) => {
+    const response = await api.delete(`/chat-snippets/${id}`);
+    return response.data;
+  },
+};
+
 api.interceptors.request.use(config => {
   const token = getAccessToken();
   if (token) {
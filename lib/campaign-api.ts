@@ -4,6 +4,22 @@ import {
   CampaignFormData,
   CampaignType,
   CampaignStatus,
+  CampaignApprovalEvent,
+  CampaignApprovalSettings,
+  CampaignContactCheck,
+  CampaignContactPolicy,
+  CampaignCustomerOverlap,
+  CampaignReport,
+  CampaignSegment,
+  CampaignSegmentCustomer,
+  CampaignSegmentFilters,
+  CampaignSegmentSource,
+  CampaignSkipReason,
+  CampaignTemplate,
+  CampaignTemplateScope,
+  CampaignSkippedSend,
+  CampaignSuppression,
+  CampaignVariantStat,
   CampaignWithDetails,
 } from "../types";
 
@@ -34,6 +50,14 @@ export interface CampaignResponse {
   };
 }
 
+export interface CampaignReportFilters {
+  campaign_type: CampaignType;
+  from_date?: string;
+  to_date?: string;
+  departments?: string[];
+  employees?: string[];
+}
+
 // Campaign API functions
 export const campaignAPI = {
   // Get logs of a customer in a campaign
@@ -91,13 +115,45 @@ export const campaignAPI = {
     return response.data;
   },
 
-  exportCampaignSummary: async (campaignId: string) => {
+  exportCampaignSummary: async (
+    campaignId: string,
+    params: { include_variants?: boolean } = {}
+  ) => {
     const response = await api.get(`/campaigns/${campaignId}/export-summary`, {
+      params,
       responseType: "blob",
     });
     return response.data;
   },
 
+  // Tỉ lệ phản hồi theo từng biến thể nội dung (A/B test)
+  getVariantStats: async (campaignId: string): Promise<CampaignVariantStat[]> => {
+    const response = await api.get(`/campaigns/${campaignId}/variant-stats`);
+    return response.data;
+  },
+
+  // Báo cáo phễu + so sánh các chiến dịch cùng loại
+  getReport: async (filters: CampaignReportFilters): Promise<CampaignReport> => {
+    const response = await api.get("/campaigns/reports", {
+      params: filters,
+      paramsSerializer: {
+        serialize: (params) => {
+          const searchParams = new URLSearchParams();
+          Object.entries(params).forEach(([key, value]) => {
+            if (value === undefined || value === null || value === "") return;
+            if (Array.isArray(value)) {
+              value.forEach((item) => searchParams.append(key, String(item)));
+            } else {
+              searchParams.append(key, String(value));
+            }
+          });
+          return searchParams.toString();
+        },
+      },
+    });
+    return response.data;
+  },
+
   // Trong file campaign-api.ts
   removeCustomerFromCampaign: async (
     campaignId: string,
@@ -217,6 +273,16 @@ export const campaignAPI = {
     return response.data;
   },
 
+  // Cặp chiến dịch có chung khách hàng trong danh sách cho trước
+  getCustomerOverlaps: async (
+    campaignIds: string[]
+  ): Promise<CampaignCustomerOverlap[]> => {
+    const response = await api.post("/campaigns/customer-overlaps", {
+      campaign_ids: campaignIds,
+    });
+    return response.data;
+  },
+
   // Update campaign status
   updateStatus: async (
     id: string,
@@ -311,6 +377,210 @@ export const campaignCustomerAPI = {
   },
 };
 
+// Danh sách chặn, giới hạn tần suất và log các lượt gửi bị bỏ qua
+export const campaignContactPolicyAPI = {
+  getPolicy: async (): Promise<CampaignContactPolicy> => {
+    const response = await api.get("/campaign-contact-policy");
+    return response.data;
+  },
+
+  updatePolicy: async (data: CampaignContactPolicy): Promise<CampaignContactPolicy> => {
+    const response = await api.put("/campaign-contact-policy", data);
+    return response.data;
+  },
+
+  // Kiểm tra SĐT có bị chặn / đã chạm giới hạn chưa (không tính tin của chính chiến dịch đang xem)
+  checkPhones: async (
+    phoneNumbers: string[],
+    excludeCampaignId?: string
+  ): Promise<{ policy: CampaignContactPolicy; results: CampaignContactCheck[] }> => {
+    const response = await api.post("/campaign-contact-policy/check", {
+      phone_numbers: phoneNumbers,
+      exclude_campaign_id: excludeCampaignId,
+    });
+    return response.data;
+  },
+
+  getSuppressions: async (
+    params: { search?: string; page?: number; limit?: number } = {}
+  ): Promise<{ data: CampaignSuppression[]; total: number }> => {
+    const response = await api.get("/campaign-suppressions", { params });
+    return response.data;
+  },
+
+  addSuppression: async (data: {
+    phone_number: string;
+    full_name?: string;
+    reason?: string;
+  }): Promise<CampaignSuppression> => {
+    const response = await api.post("/campaign-suppressions", data);
+    return response.data;
+  },
+
+  removeSuppression: async (id: string) => {
+    await api.delete(`/campaign-suppressions/${id}`);
+  },
+
+  getSkippedSends: async (
+    params: {
+      campaign_id?: string;
+      reason?: CampaignSkipReason;
+      search?: string;
+      page?: number;
+      limit?: number;
+    } = {}
+  ): Promise<{ data: CampaignSkippedSend[]; total: number }> => {
+    const response = await api.get("/campaign-skipped-sends", { params });
+    return response.data;
+  },
+};
+
+// Duyệt chiến dịch trước khi lên lịch
+export const campaignApprovalAPI = {
+  getSettings: async (): Promise<CampaignApprovalSettings> => {
+    const response = await api.get("/campaign-approval/settings");
+    return response.data;
+  },
+
+  updateSettings: async (data: CampaignApprovalSettings): Promise<CampaignApprovalSettings> => {
+    const response = await api.put("/campaign-approval/settings", data);
+    return response.data;
+  },
+
+  getPending: async (
+    params: { search?: string; page?: number; limit?: number } = {}
+  ): Promise<{ data: CampaignWithDetails[]; total: number }> => {
+    const response = await api.get("/campaigns/pending-approval", { params });
+    return response.data;
+  },
+
+  getHistory: async (campaignId: string): Promise<CampaignApprovalEvent[]> => {
+    const response = await api.get(`/campaigns/${campaignId}/approval-history`);
+    return response.data;
+  },
+
+  // DRAFT -> PENDING_APPROVAL
+  submit: async (campaignId: string, note?: string) => {
+    const response = await api.post(`/campaigns/${campaignId}/approval/submit`, { note });
+    return response.data;
+  },
+
+  // PENDING_APPROVAL -> DRAFT (người tạo rút lại)
+  withdraw: async (campaignId: string) => {
+    const response = await api.post(`/campaigns/${campaignId}/approval/withdraw`);
+    return response.data;
+  },
+
+  comment: async (campaignId: string, comment: string): Promise<CampaignApprovalEvent> => {
+    const response = await api.post(`/campaigns/${campaignId}/approval/comments`, { comment });
+    return response.data;
+  },
+
+  // PENDING_APPROVAL -> SCHEDULED
+  approve: async (campaignId: string, comment?: string) => {
+    const response = await api.post(`/campaigns/${campaignId}/approval/approve`, { comment });
+    return response.data;
+  },
+
+  // PENDING_APPROVAL -> DRAFT, bắt buộc có lý do
+  reject: async (campaignId: string, reason: string) => {
+    const response = await api.post(`/campaigns/${campaignId}/approval/reject`, { reason });
+    return response.data;
+  },
+};
+
+// Thư viện mẫu chiến dịch
+export type CampaignTemplatePayload = Omit<
+  CampaignTemplate,
+  "id" | "department" | "created_by" | "usage_count" | "created_at" | "updated_at"
+>;
+
+export const campaignTemplateAPI = {
+  // Trả về mẫu cá nhân + mẫu được chia sẻ cho phòng ban của người dùng
+  getAll: async (
+    params: { search?: string; campaign_type?: CampaignType; scope?: CampaignTemplateScope } = {}
+  ): Promise<CampaignTemplate[]> => {
+    const response = await api.get("/campaign-templates", { params });
+    return response.data;
+  },
+
+  create: async (data: CampaignTemplatePayload): Promise<CampaignTemplate> => {
+    const response = await api.post("/campaign-templates", data);
+    return response.data;
+  },
+
+  update: async (
+    id: string,
+    data: Partial<Pick<CampaignTemplate, "name" | "description" | "scope">>
+  ): Promise<CampaignTemplate> => {
+    const response = await api.patch(`/campaign-templates/${id}`, data);
+    return response.data;
+  },
+
+  delete: async (id: string) => {
+    await api.delete(`/campaign-templates/${id}`);
+  },
+
+  // Ghi nhận lượt dùng mẫu khi tạo chiến dịch mới
+  markUsed: async (id: string) => {
+    await api.post(`/campaign-templates/${id}/use`);
+  },
+};
+
+// Phân khúc khách hàng: danh sách đặt tên, dùng lại cho nhiều chiến dịch
+export const campaignSegmentAPI = {
+  getAll: async (
+    params: { search?: string; source?: CampaignSegmentSource } = {}
+  ): Promise<CampaignSegment[]> => {
+    const response = await api.get("/campaign-segments", { params });
+    return response.data;
+  },
+
+  getCustomers: async (id: string): Promise<CampaignSegmentCustomer[]> => {
+    const response = await api.get(`/campaign-segments/${id}/customers`);
+    return response.data;
+  },
+
+  // Phân khúc import cần gửi kèm customers, phân khúc động chỉ cần filters
+  create: async (data: {
+    name: string;
+    description?: string;
+    source: CampaignSegmentSource;
+    filters?: CampaignSegmentFilters;
+    customers?: CampaignSegmentCustomer[];
+  }): Promise<CampaignSegment> => {
+    const response = await api.post("/campaign-segments", data);
+    return response.data;
+  },
+
+  update: async (
+    id: string,
+    data: { name?: string; description?: string; filters?: CampaignSegmentFilters; customers?: CampaignSegmentCustomer[] }
+  ): Promise<CampaignSegment> => {
+    const response = await api.patch(`/campaign-segments/${id}`, data);
+    return response.data;
+  },
+
+  delete: async (id: string) => {
+    await api.delete(`/campaign-segments/${id}`);
+  },
+
+  // Tính lại danh sách khách của phân khúc động theo filters đã lưu
+  refresh: async (id: string): Promise<CampaignSegment> => {
+    const response = await api.post(`/campaign-segments/${id}/refresh`);
+    return response.data;
+  },
+
+  // Xem trước số khách (và vài khách đầu) trước khi lưu phân khúc động
+  preview: async (data: {
+    source: Exclude<CampaignSegmentSource, "import">;
+    filters: CampaignSegmentFilters;
+  }): Promise<{ total: number; sample: CampaignSegmentCustomer[] }> => {
+    const response = await api.post("/campaign-segments/preview", data);
+    return response.data;
+  },
+};
+
 // Campaign Schedule API functions
 export const campaignScheduleAPI = {
   getByCampaign: async (campaignId: string) => {
@@ -364,4 +634,35 @@ export const campaignLogAPI = {
     );
     return response.data;
   },
+
+  // Cập nhật trạng thái nhiều log cùng lúc (vd: đánh dấu đã xử lý hàng loạt)
+  bulkUpdateStatus: async (
+    ids: string[],
+    status: string,
+    additionalData?: { staff_reply_content?: string }
+  ): Promise<{ updated: number }> => {
+    const response = await api.patch("/campaign-interaction-logs/bulk-status", {
+      ids,
+      status,
+      ...additionalData,
+    });
+    return response.data;
+  },
+
+  // Hộp thư phản hồi: log của mọi chiến dịch do người dùng hiện tại phụ trách
+  getInbox: async (
+    params: {
+      status?: string;
+      from_date?: string;
+      to_date?: string;
+      search?: string;
+      page?: number;
+      limit?: number;
+    } = {}
+  ): Promise<{ data: any[]; total: number }> => {
+    const response = await api.get("/campaign-interaction-logs/inbox", {
+      params,
+    });
+    return response.data;
+  },
 };
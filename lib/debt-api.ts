@@ -0,0 +1,134 @@
+import { api } from "./api";
+import {
+  CustomerDebtLedger,
+  DebtConfig,
+  DebtCustomerType,
+  DebtImportPreview,
+  DebtImportRow,
+  DebtPaymentPromise,
+  DebtPromiseStats,
+  DebtPromiseStatus,
+  DebtReminderContext,
+  DebtReminderTemplate,
+} from "../types";
+
+export const debtConfigAPI = {
+  // Tìm nhanh cấu hình công nợ theo mã / tên khách hàng
+  search: async (
+    search: string,
+    limit = 20
+  ): Promise<{ data: DebtConfig[]; total: number }> => {
+    const response = await api.get("/debt-configs", {
+      params: { search: search || undefined, page: 1, limit },
+    });
+    return response.data;
+  },
+
+  // Thông tin khách và các phiếu nợ còn lại, dùng để render tin nhắc nợ
+  getReminderContext: async (
+    debtConfigId: number
+  ): Promise<DebtReminderContext> => {
+    const response = await api.get(
+      `/debt-configs/${debtConfigId}/reminder-context`
+    );
+    return response.data;
+  },
+};
+
+export const debtReminderTemplateAPI = {
+  getAll: async (): Promise<DebtReminderTemplate[]> => {
+    const response = await api.get("/debt-reminder-templates");
+    return response.data;
+  },
+
+  // Mỗi loại khách hàng có đúng một mẫu, lưu đè theo customer_type
+  save: async (
+    customerType: DebtCustomerType,
+    data: Pick<DebtReminderTemplate, "steps" | "business_message">
+  ): Promise<DebtReminderTemplate> => {
+    const response = await api.put(
+      `/debt-reminder-templates/${customerType}`,
+      data
+    );
+    return response.data;
+  },
+};
+
+export const debtImportAPI = {
+  // Đọc file và so sánh với dữ liệu hiện tại, chưa ghi gì vào hệ thống
+  preview: async (file: File): Promise<DebtImportPreview> => {
+    const formData = new FormData();
+    formData.append("file", file);
+    const response = await api.post("/debts/import-preview", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+    return response.data;
+  },
+
+  // Kiểm tra lại các dòng sau khi người dùng sửa mã khách / mã nhân viên
+  validate: async (rows: DebtImportRow[]): Promise<DebtImportRow[]> => {
+    const response = await api.post("/debts/import-preview/validate", {
+      rows,
+    });
+    return response.data;
+  },
+
+  commit: async (data: {
+    session_name: string;
+    file_name: string;
+    rows: DebtImportRow[];
+  }): Promise<{ import_session_id: string; imported: number }> => {
+    const response = await api.post("/debts/import-commit", data);
+    return response.data;
+  },
+};
+
+export const debtLedgerAPI = {
+  // Toàn bộ phiếu nợ, lịch sử nhắc nợ và hội thoại Zalo của một khách
+  getByCustomer: async (customerCode: string): Promise<CustomerDebtLedger> => {
+    const response = await api.get(
+      `/debts/customers/${encodeURIComponent(customerCode)}/ledger`
+    );
+    return response.data;
+  },
+};
+
+export const debtPromiseAPI = {
+  getAll: async (params: {
+    status?: DebtPromiseStatus;
+    from?: string;
+    to?: string;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<{ data: DebtPaymentPromise[]; total: number }> => {
+    const response = await api.get("/debt-promises", { params });
+    return response.data;
+  },
+
+  getByDebt: async (debtId: number): Promise<DebtPaymentPromise[]> => {
+    const response = await api.get(`/debts/${debtId}/promises`);
+    return response.data;
+  },
+
+  // Backend đồng bộ lại Debt.pay_later theo lời hẹn mới nhất
+  create: async (
+    data: Pick<
+      DebtPaymentPromise,
+      "debt_id" | "promised_by" | "amount" | "promised_date" | "channel" | "note"
+    >
+  ): Promise<DebtPaymentPromise> => {
+    const response = await api.post("/debt-promises", data);
+    return response.data;
+  },
+
+  cancel: async (id: number): Promise<DebtPaymentPromise> => {
+    const response = await api.patch(`/debt-promises/${id}/cancel`);
+    return response.data;
+  },
+
+  getStats: async (params: { from?: string; to?: string }): Promise<DebtPromiseStats> => {
+    const response = await api.get("/debt-promises/stats", { params });
+    return response.data;
+  },
+};
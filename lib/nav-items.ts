@@ -6,6 +6,7 @@ const baseNavItems = [
     items: [
       { title: "Thống kê giao dịch", url: "/dashboard/transactions", roles: ["admin", "analysis", "PM", "view"] },
       { title: "Thống kê công nợ", url: "/dashboard/debts", roles: ["admin", "manager-cong-no", "user-cong-no", "view"] },
+      { title: "Thống kê chat", url: "/dashboard/chat-analytics", roles: ["admin", "manager-chien-dich", "manager-cong-no", "view"] },
     ],
   },
   {
@@ -29,6 +30,7 @@ const baseNavItems = [
     items: [
       { title: "Quản lý công nợ", url: "/dashboard/manager-debt", roles: ["admin", "manager-cong-no", "user-cong-no", "view"] },
       { title: "Cấu hình nhắc nợ", url: "/dashboard/debt-settings", roles: ["admin", "manager-cong-no", "user-cong-no", "view"] },
+      { title: "Sổ công nợ khách hàng", url: "/dashboard/customer-debt", roles: ["admin", "manager-cong-no", "user-cong-no", "view"] },
     ],
   },
   {
@@ -37,6 +39,7 @@ const baseNavItems = [
     items: [
       { title: "Cấu hình gửi tin nhắn", url: "/dashboard/campaigns", roles: ["admin", "manager-chien-dich", "user-chien-dich", "view"] },
       { title: "Lịch chiến dịch", url: "/dashboard/campaign-schedules", roles: ["admin", "manager-chien-dich", "user-chien-dich", "scheduler", "view"] },
+      { title: "Báo cáo chiến dịch", url: "/dashboard/campaign-reports", roles: ["admin", "manager-chien-dich", "user-chien-dich", "view"] },
     ],
   },
   {
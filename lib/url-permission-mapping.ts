@@ -4,6 +4,7 @@ export const URL_PERMISSION_MAPPING = {
   // 📊 THỐNG KÊ
   '/dashboard/transactions': { name: 'thong-ke-giao-dich', action: 'read' },
   '/dashboard/debts': { name: 'thong-ke-cong-no', action: 'read' },
+  '/dashboard/chat-analytics': { name: 'thong-ke-chat', action: 'read' },
   
   // 💰 GIAO DỊCH
   '/dashboard/manager-order': { name: 'quan-ly-don-hang', action: 'read' },
@@ -15,10 +16,12 @@ export const URL_PERMISSION_MAPPING = {
   // 💳 CÔNG NỢ
   '/dashboard/manager-debt': { name: 'cong-no', action: 'read' },
   '/dashboard/debt-settings': { name: 'cau-hinh-nhac-no', action: 'read' },
+  '/dashboard/customer-debt': { name: 'cong-no', action: 'read' },
   
   // 📢 CHIẾN DỊCH
   '/dashboard/campaigns': { name: 'cau-hinh-gui-tin-nhan', action: 'read' },
   '/dashboard/campaign-schedules': { name: 'lich-chien-dich', action: 'read' },
+  '/dashboard/campaign-reports': { name: 'bao-cao-chien-dich', action: 'read' },
   
   // 👨‍💼 PRODUCT MANAGER
   '/dashboard/manager-pm-transactions': { name: 'quan-ly-giao-dich-pm', action: 'read' },
@@ -24,6 +24,10 @@ export type WSClientEvents =
   | 'campaign:schedule:current-users'
   | 'campaign:schedule:user-joined'
   | 'campaign:schedule:user-left'
+  // Zalo NKC chat events
+  | 'zalo:message:new'
+  | 'zalo:message:read'
+  | 'zalo:conversation:updated'
   | string;
 
 class WSClient {
@@ -0,0 +1,342 @@
+import { Conversation, ConversationAssignee, ConversationAssignmentFilter, Message, MessageLocator, MessageSearchGroup, MessageSearchHit, ResponseTimeBucket, UnansweredAgeBucket } from '@/types/zalo-chat';
+
+// Các loại reaction Zalo hỗ trợ (reaction_type gửi lên backend -> emoji hiển thị)
+export const ZALO_REACTIONS: Array<{ type: string; emoji: string; label: string }> = [
+  { type: '/-strong', emoji: '👍', label: 'Thích' },
+  { type: '/-heart', emoji: '❤️', label: 'Yêu thích' },
+  { type: ':>', emoji: '😆', label: 'Haha' },
+  { type: ':o', emoji: '😮', label: 'Ngạc nhiên' },
+  { type: ':-((', emoji: '😢', label: 'Buồn' },
+  { type: ':-h', emoji: '😡', label: 'Giận dữ' },
+];
+
+export function getReactionEmoji(reactionType: string, reactionText?: string | null) {
+  return ZALO_REACTIONS.find(r => r.type === reactionType)?.emoji || reactionText || reactionType;
+}
+
+export function createClientMessageId() {
+  return `web_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Lấy text hiển thị ngắn gọn từ content (JSON string) của tin nhắn
+export function extractMessageText(message: Pick<Message, 'content' | 'content_type'> | null | undefined): string {
+  if (!message) return '';
+  const content = message.content as unknown;
+
+  if (typeof content === 'string' && content.trim().startsWith('{')) {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed.text) return String(parsed.text);
+      if (parsed.caption) return String(parsed.caption);
+      if (parsed.title) return String(parsed.title);
+      if (parsed.imageUrl) return '📷 Ảnh';
+      if (parsed.fileName) return `📄 ${parsed.fileName}`;
+      if (parsed.message) return String(parsed.message);
+    } catch {
+      // Ignore parsing errors
+    }
+  }
+
+  if (typeof content === 'string') return content;
+
+  switch (message.content_type) {
+    case 'IMAGE': return '📷 Ảnh';
+    case 'VIDEO': return '🎬 Video';
+    case 'AUDIO': return '🎤 Tin nhắn thoại';
+    case 'FILE': return '📄 File';
+    case 'STICKER': return 'Sticker';
+    default: return 'Tin nhắn';
+  }
+}
+
+// Parse content (JSON string) của tin nhắn, trả về {} nếu không phải JSON
+export function parseMessageContent(content: unknown): Record<string, any> {
+  if (content && typeof content === 'object') return content as Record<string, any>;
+  if (typeof content !== 'string' || !content.trim().startsWith('{')) return {};
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export interface MessageMediaItem {
+  url: string;
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface MessageMediaInfo {
+  url?: string;
+  thumbnailUrl?: string;
+  items: MessageMediaItem[];
+  caption?: string;
+  fileName?: string;
+  fileSize?: number;
+  fileExtension?: string;
+  mimeType?: string;
+  duration?: number; // giây
+  width?: number;
+  height?: number;
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+  contactName?: string;
+  contactId?: string;
+  contactAvatar?: string;
+  contactPhone?: string;
+  stickerUrl?: string;
+}
+
+const pick = (...values: any[]) => values.find(v => v !== undefined && v !== null && v !== '');
+
+const toNumber = (value: any): number | undefined => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+// Gom thông tin media từ metadata.media_metadata và content của tin nhắn về một dạng chung
+export function getMessageMedia(message: Pick<Message, 'content' | 'metadata'>): MessageMediaInfo {
+  const content = parseMessageContent(message.content);
+  const meta = parseMessageContent(message.metadata?.media_metadata);
+  const params = parseMessageContent(pick(meta.params, content.params));
+
+  const url = pick(
+    meta.url, meta.hdUrl, meta.normalUrl, meta.fileUrl, meta.imageUrl, meta.videoUrl, meta.audioUrl, meta.href,
+    content.fileUrl, content.imageUrl, content.videoUrl, content.audioUrl, content.url, content.href,
+  );
+  const thumbnailUrl = pick(meta.thumbnailUrl, meta.thumbUrl, meta.thumb, content.thumbnailUrl, content.thumbUrl, content.thumb);
+  const fileName = pick(meta.fileName, meta.file_name, meta.name, content.fileName, content.title);
+
+  // Ảnh gửi theo nhóm (album)
+  const rawItems: any[] = Array.isArray(meta.items) ? meta.items
+    : Array.isArray(meta.images) ? meta.images
+    : Array.isArray(content.images) ? content.images
+    : [];
+  const items: MessageMediaItem[] = rawItems
+    .map(item => (typeof item === 'string' ? { url: item } : {
+      url: pick(item.url, item.hdUrl, item.normalUrl, item.imageUrl),
+      thumbnailUrl: pick(item.thumbnailUrl, item.thumbUrl, item.thumb),
+      width: toNumber(item.width),
+      height: toNumber(item.height),
+    }))
+    .filter(item => !!item.url);
+
+  // media_metadata.duration do backend chuẩn hoá theo giây; params/content là payload gốc của Zalo, tính theo mili giây
+  const zaloDurationMs = toNumber(pick(params.duration, content.duration));
+  const duration = toNumber(meta.duration) ?? (zaloDurationMs !== undefined ? Math.round(zaloDurationMs / 1000) : undefined);
+
+  return {
+    url,
+    thumbnailUrl,
+    items: items.length > 0 ? items : (url ? [{ url, thumbnailUrl, width: toNumber(pick(meta.width, params.width)), height: toNumber(pick(meta.height, params.height)) }] : []),
+    caption: pick(meta.caption, content.caption, content.description),
+    fileName,
+    fileSize: toNumber(pick(meta.fileSize, meta.file_size, meta.size, meta.totalSize, params.fileSize, content.fileSize)),
+    fileExtension: pick(meta.fileExtension, meta.fileExt, content.fileExtension, fileName?.includes('.') ? fileName.split('.').pop() : undefined)?.toLowerCase(),
+    mimeType: pick(meta.mimeType, meta.mime_type, content.mimeType),
+    duration,
+    width: toNumber(pick(meta.width, params.width)),
+    height: toNumber(pick(meta.height, params.height)),
+    latitude: toNumber(pick(meta.latitude, meta.lat, content.latitude, content.lat)),
+    longitude: toNumber(pick(meta.longitude, meta.lng, meta.lon, content.longitude, content.lng)),
+    address: pick(meta.address, meta.title, content.address, content.title),
+    contactName: pick(meta.contactName, meta.displayName, content.contactName),
+    contactId: pick(meta.contactId, meta.userId, content.contactId),
+    contactAvatar: pick(meta.contactAvatar, meta.avatar, content.contactAvatar),
+    contactPhone: pick(meta.phone, meta.phoneNumber, content.phone, content.phoneNumber),
+    stickerUrl: pick(meta.stickerUrl, meta.stickerWebpUrl, content.stickerUrl, content.stickerWebpUrl),
+  };
+}
+
+export function formatFileSize(bytes?: number) {
+  if (bytes === undefined || bytes === null) return '';
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+export function formatDuration(seconds?: number) {
+  if (seconds === undefined) return '';
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+// Giới hạn tệp đính kèm gửi từ khung chat (cùng quy tắc với MultiImageSelector / MultiFileSelector)
+export const CHAT_MAX_ATTACHMENTS = 5;
+export const CHAT_IMAGE_MAX_MB = 10;
+export const CHAT_FILE_MAX_MB = 20;
+export const CHAT_FILE_EXTENSIONS = ['.pdf', '.doc', '.docx', '.xls', '.xlsx'];
+
+export function validateChatAttachment(file: File): string | null {
+  const isImage = file.type.startsWith('image/');
+  const maxSizeMB = isImage ? CHAT_IMAGE_MAX_MB : CHAT_FILE_MAX_MB;
+  if (file.size > maxSizeMB * 1024 * 1024) {
+    return `Tệp quá lớn. Tối đa ${maxSizeMB}MB`;
+  }
+  if (!isImage) {
+    const extension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
+    if (!CHAT_FILE_EXTENSIONS.includes(extension)) {
+      return 'Chỉ chấp nhận ảnh, file Word (.doc, .docx), Excel (.xls, .xlsx), PDF (.pdf)';
+    }
+  }
+  return null;
+}
+
+export function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(new Error('Không thể đọc file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+// Chuyển base64 (data URL) từ các selector về File để upload
+export function dataUrlToFile(dataUrl: string, filename: string, type?: string): File {
+  const [header, data = ''] = dataUrl.split(',');
+  const mime = type || header.match(/:(.*?);/)?.[1] || 'application/octet-stream';
+  const bstr = atob(data);
+  let n = bstr.length;
+  const u8arr = new Uint8Array(n);
+  while (n--) {
+    u8arr[n] = bstr.charCodeAt(n);
+  }
+  return new File([u8arr], filename, { type: mime });
+}
+
+// Biến dùng trong câu trả lời nhanh, điền từ participant của hội thoại
+export const SNIPPET_VARIABLES: Array<{ key: string; label: string }> = [
+  { key: 'customer_name', label: 'Tên khách hàng' },
+  { key: 'salutation', label: 'Cách xưng hô (mặc định "anh/chị")' },
+  { key: 'staff_name', label: 'Tên nhân viên đang chat' },
+];
+
+export interface SnippetContext {
+  customer_name?: string | null;
+  salutation?: string | null;
+  staff_name?: string | null;
+}
+
+export function buildSnippetContext(
+  conversation: Pick<Conversation, 'conversation_name' | 'participant'> | null | undefined,
+  staffName?: string | null,
+): SnippetContext {
+  const participant = conversation?.participant;
+  return {
+    customer_name: participant?.real_name || participant?.name
+      || conversation?.conversation_name?.replace(/^(PrivateChat_|privatechat_)/i, ''),
+    salutation: participant?.salutation || 'anh/chị',
+    staff_name: staffName,
+  };
+}
+
+// Thay {{bien}} bằng giá trị tương ứng, giữ nguyên biến không xác định
+export function renderSnippet(content: string, context: SnippetContext): string {
+  return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+    const value = context[key as keyof SnippetContext];
+    return value ? String(value) : match;
+  });
+}
+
+export function getAssigneeName(assignee: ConversationAssignee | null | undefined): string {
+  if (!assignee) return '';
+  return assignee.fullName || assignee.username || `#${assignee.id}`;
+}
+
+// Lọc hội thoại theo người phụ trách (mine / unassigned / others)
+export function matchesAssignmentFilter(
+  conversation: Pick<Conversation, 'assigned_user_id'>,
+  filter: ConversationAssignmentFilter,
+  currentUserId: number | null | undefined,
+): boolean {
+  const assignedId = conversation.assigned_user_id ?? null;
+  switch (filter) {
+    case 'mine': return assignedId !== null && assignedId === currentUserId;
+    case 'unassigned': return assignedId === null;
+    case 'others': return assignedId !== null && assignedId !== currentUserId;
+    default: return true;
+  }
+}
+
+export const TAG_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899', '#6b7280'];
+
+// Hội thoại phải có đủ tất cả thẻ đang chọn
+export function matchesTagFilter(conversation: Pick<Conversation, 'tags'>, tagIds: number[]): boolean {
+  if (tagIds.length === 0) return true;
+  const ids = new Set((conversation.tags || []).map(t => t.id));
+  return tagIds.every(id => ids.has(id));
+}
+
+// Gom kết quả tìm kiếm tin nhắn theo hội thoại, giữ thứ tự xuất hiện đầu tiên
+export function groupSearchHits(hits: MessageSearchHit[]): MessageSearchGroup[] {
+  const groups = new Map<number, MessageSearchGroup>();
+  hits.forEach(hit => {
+    const id = hit.conversation_id ?? hit.conversation?.id;
+    if (!id) return;
+    const group = groups.get(id);
+    if (group) {
+      group.hits.push(hit);
+      if (!group.conversation && hit.conversation) group.conversation = hit.conversation;
+    } else {
+      groups.set(id, { conversation_id: id, conversation: hit.conversation ?? null, hits: [hit] });
+    }
+  });
+  return Array.from(groups.values());
+}
+
+// Cắt đoạn trích quanh vị trí khớp đầu tiên
+export function buildSearchExcerpt(text: string, query: string, radius = 40): string {
+  const index = query ? text.toLowerCase().indexOf(query.toLowerCase()) : -1;
+  if (index < 0 || text.length <= radius * 2 + query.length) return text;
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + query.length + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+// Tách chuỗi thành các đoạn khớp / không khớp để tô sáng (không dùng HTML từ backend)
+export function splitHighlight(text: string, query: string): Array<{ text: string; match: boolean }> {
+  const keyword = query.trim();
+  if (!keyword) return [{ text, match: false }];
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text
+    .split(new RegExp(`(${escaped})`, 'gi'))
+    .filter(part => part !== '')
+    .map(part => ({ text: part, match: part.toLowerCase() === keyword.toLowerCase() }));
+}
+
+export function matchesMessageLocator(message: Pick<Message, 'id' | 'zalo_message_id'>, locator: MessageLocator): boolean {
+  if (locator.message_id) return message.id === locator.message_id;
+  return !!locator.zalo_message_id && String(message.zalo_message_id ?? '') === String(locator.zalo_message_id);
+}
+
+// Nhãn + màu cho các khoảng thời gian phản hồi / tuổi hội thoại chưa trả lời (thống kê chat)
+export const RESPONSE_TIME_BUCKETS: Array<{ key: ResponseTimeBucket; label: string; color: string }> = [
+  { key: 'under_5m', label: '< 5 phút', color: '#22c55e' },
+  { key: '5_15m', label: '5-15 phút', color: '#84cc16' },
+  { key: '15_60m', label: '15-60 phút', color: '#eab308' },
+  { key: '1_4h', label: '1-4 giờ', color: '#f97316' },
+  { key: 'over_4h', label: '> 4 giờ', color: '#ef4444' },
+];
+
+export const UNANSWERED_AGE_BUCKETS: Array<{ key: UnansweredAgeBucket; label: string; color: string }> = [
+  { key: 'under_1h', label: '< 1 giờ', color: '#22c55e' },
+  { key: '1_4h', label: '1-4 giờ', color: '#eab308' },
+  { key: '4_24h', label: '4-24 giờ', color: '#f97316' },
+  { key: '1_3d', label: '1-3 ngày', color: '#ef4444' },
+  { key: 'over_3d', label: '> 3 ngày', color: '#991b1b' },
+];
+
+export function formatResponseTime(seconds?: number | null): string {
+  if (!seconds || seconds < 0) return '0s';
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} phút`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return minutes ? `${hours} giờ ${minutes} phút` : `${hours} giờ`;
+}
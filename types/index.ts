@@ -4,6 +4,9 @@ export interface Notification {
   title: string;
   content: string;
   is_read: number;
+  // Loại thông báo + id đối tượng liên quan (vd: campaign_approval + id chiến dịch)
+  type?: string | null;
+  reference_id?: string | null;
   created_at: string | Date;
   updated_at?: string | Date;
 }
@@ -223,7 +226,9 @@ export interface OrderDetail {
   }>;
   reason?: string;
   zaloMessageId?: string;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, any> & {
+    trigger_message_id?: string | number; // tin nhắn Zalo đã tạo dòng đơn
+  };
   product?: Product;
   created_at?: string | Date;
   updated_at?: string | Date;
@@ -265,12 +270,53 @@ export interface Debt {
   sale_name_raw?: string;
   employee_code_raw?: string;
   note?: string;
+  paid_at?: string | Date | null; // ngày ghi nhận phiếu được thanh toán hết
+  paid_amount?: number | null; // tổng số đã thanh toán của phiếu
   created_at?: string | Date;
   updated_at?: string | Date;
   deleted_at?: string | Date;
   debt_config_id?: number;
 }
 
+// Import công nợ theo phiên: xem trước thay đổi trước khi ghi
+export type DebtImportChange = "new" | "changed" | "unchanged";
+export type DebtImportIssue = "unknown_customer" | "unmatched_employee";
+
+export interface DebtImportRow {
+  row_number: number; // dòng trong file Excel
+  customer_raw_code: string;
+  invoice_code: string;
+  bill_code?: string;
+  total_amount: number;
+  remaining: number;
+  previous_remaining?: number | null; // số còn lại hiện tại trên hệ thống (nếu phiếu đã tồn tại)
+  issue_date?: string | null;
+  due_date?: string | null;
+  sale_name_raw?: string;
+  employee_code_raw?: string;
+  change: DebtImportChange;
+  issues: DebtImportIssue[];
+}
+
+export interface DebtImportPreview {
+  file_name: string;
+  rows: DebtImportRow[];
+  // Phiếu nợ đang có trên hệ thống nhưng không còn trong file
+  disappeared: Array<
+    Pick<Debt, "id" | "customer_raw_code" | "invoice_code" | "remaining" | "sale_name_raw">
+  >;
+  employees: Array<{ employee_code: string; full_name: string }>;
+  // Lời hẹn đang chờ sẽ được chốt trạng thái nếu import file này
+  promise_updates?: Array<{
+    promise_id: number;
+    invoice_code: string;
+    customer_raw_code: string;
+    amount: number;
+    paid_amount: number;
+    next_status: Exclude<DebtPromiseStatus, "pending" | "cancelled">;
+  }>;
+}
+
 // DebtLog Entity - Updated to match API response structure
 export interface DebtLog {
   id: number;
@@ -294,6 +340,12 @@ export interface DebtLog {
   send_time?: string | Date;
   remind_time_1?: string | Date;
   remind_time_2?: string | Date;
+  // Nhắc nợ lần 3 trở đi theo thang nhắc nợ của mẫu tin
+  extra_reminders?: Array<{
+    step: number;
+    message: string;
+    remind_time?: string | Date;
+  }>;
 
   // Configuration
   is_send?: boolean;
@@ -335,6 +387,39 @@ export interface DebtLog {
   debt_img?: string;
 }
 
+// Mẫu tin nhắc nợ theo loại khách hàng (cash / fixed / non-fixed)
+export type DebtCustomerType = "cash" | "fixed" | "non-fixed";
+
+// Một bậc trong thang nhắc nợ; bậc đầu tiên là tin báo nợ (gap_days = 0)
+export interface DebtReminderStep {
+  label: string;
+  gap_days: number; // số ngày sau bậc trước
+  message: string;
+}
+
+export interface DebtReminderTemplate {
+  id?: number;
+  customer_type: DebtCustomerType;
+  steps: DebtReminderStep[];
+  business_message: string; // tin nhắc nhân viên kinh doanh khi khách không phản hồi hết thang
+  updated_at?: string;
+  actor?: { id: number; fullName: string } | null;
+}
+
+// Dữ liệu thật của một DebtConfig để xem trước tin nhắc nợ
+export interface DebtReminderContext {
+  customer_code: string;
+  customer_name: string;
+  customer_type: DebtCustomerType;
+  customer_gender?: string;
+  employee_name?: string;
+  debts: Array<{
+    invoice_code: string;
+    remaining: number;
+    due_date?: string | null;
+  }>;
+}
+
 // DebtHistory Entity
 export interface DebtHistory {
   id: number;
@@ -345,6 +430,12 @@ export interface DebtHistory {
   first_remind_at?: string | Date;
   second_remind?: string;
   second_remind_at?: string | Date;
+  // Nhắc nợ lần 3 trở đi theo thang nhắc nợ của mẫu tin
+  extra_reminders?: Array<{
+    step: number;
+    message: string;
+    remind_at?: string | Date | null;
+  }>;
   sale_msg?: string;
   conv_id?: string;
   debt_img?: string;
@@ -352,6 +443,70 @@ export interface DebtHistory {
   render?: string;
 }
 
+// Sổ công nợ theo khách hàng (customer_raw_code)
+export interface CustomerDebtLedger {
+  customer_code: string;
+  customer_name?: string | null;
+  customer_type?: string | null;
+  debt_config_id?: number | null;
+  employee?: { id: number; fullName: string } | null; // NV công nợ
+  conv_id?: string | null; // hội thoại Zalo dùng để nhắc nợ
+  conversation_id?: number | null; // id hội thoại tương ứng trong Zalo chat
+  debts: Array<Debt & { sale?: { id: number; fullName: string } | null }>;
+  histories: DebtHistory[];
+}
+
+export type DebtLedgerEventType =
+  | "issued"
+  | "pay_later"
+  | "paid"
+  | "debt_message"
+  | "remind"
+  | "sale_message";
+
+export interface DebtLedgerEvent {
+  key: string;
+  type: DebtLedgerEventType;
+  at: Date;
+  title: string;
+  invoice_code?: string;
+  amount?: number;
+  message?: string;
+  history_id?: number;
+}
+
+// Lời hẹn thanh toán của khách cho một phiếu nợ
+export type DebtPromiseStatus = "pending" | "kept" | "partially_kept" | "broken" | "cancelled";
+export type DebtPromiseChannel = "zalo" | "phone" | "in_person" | "other";
+
+export interface DebtPaymentPromise {
+  id: number;
+  debt_id: number;
+  debt?: Pick<Debt, "id" | "customer_raw_code" | "invoice_code" | "remaining" | "employee_code_raw"> | null;
+  promised_by: string; // người đại diện khách đã hứa
+  amount: number;
+  promised_date: string; // yyyy-MM-dd
+  channel: DebtPromiseChannel;
+  note?: string | null;
+  status: DebtPromiseStatus;
+  remaining_at_promise: number; // số còn lại tại thời điểm hẹn
+  paid_amount?: number | null; // số đã trả, tính lại sau mỗi lần import
+  resolved_at?: string | null;
+  employee?: { id: number; fullName: string } | null; // NV công nợ phụ trách
+  created_by?: { id: number; fullName: string } | null;
+  created_at: string;
+}
+
+export interface DebtPromiseStats {
+  pending: number;
+  kept: number;
+  partially_kept: number;
+  broken: number;
+  promised_amount: number;
+  collected_amount: number;
+  daily: Array<{ date: string; kept: number; partially_kept: number; broken: number }>;
+}
+
 // DTO cho Update User Roles and Permissions
 export interface UpdateUserRolesPermissionsDto {
   departmentIds: number[];
@@ -380,6 +535,7 @@ export enum CampaignType {
 
 export enum CampaignStatus {
   DRAFT = "draft",
+  PENDING_APPROVAL = "pending_approval",
   SCHEDULED = "scheduled",
   RUNNING = "running",
   PAUSED = "paused",
@@ -416,6 +572,161 @@ export interface Campaign {
   customer_count?: number;
   progress_percentage?: number;
   response_rate?: number;
+  variant_stats?: CampaignVariantStat[];
+  // Lý do từ chối gần nhất (chiến dịch bị trả về bản nháp)
+  rejection_reason?: string | null;
+}
+
+// Biến thể nội dung (A/B test) cho tin nhắn đầu tiên của chiến dịch
+export interface CampaignMessageVariant {
+  key: string; // "A", "B", ...
+  text: string;
+  weight: number; // tỉ trọng %, tổng các biến thể = 100
+}
+
+export interface CampaignVariantStat {
+  key: string;
+  customers: number;
+  sent: number;
+  replied: number; // khách đã trả lời (CUSTOMER_REPLIED, kể cả đã chuyển STAFF_HANDLED)
+  reply_rate: number; // %
+}
+
+// Báo cáo hiệu quả chiến dịch: số khách theo trạng thái log hiện tại
+export type CampaignFunnelCounts = Partial<Record<LogStatus, number>>;
+
+export type CampaignReplyTimeBucket =
+  | "under_15m"
+  | "15m_1h"
+  | "1h_4h"
+  | "4h_24h"
+  | "over_24h";
+
+export interface CampaignReportItem {
+  campaign_id: string;
+  name: string;
+  campaign_type: CampaignType;
+  status: CampaignStatus;
+  department?: { id: number; name: string } | null;
+  created_by?: { id: number; fullName: string } | null;
+  created_at: string;
+  customers: number;
+  funnel: CampaignFunnelCounts;
+  avg_reply_minutes: number | null;
+}
+
+export interface CampaignReportBreakdown {
+  id: number;
+  name: string;
+  campaigns: number;
+  customers: number;
+  funnel: CampaignFunnelCounts;
+  avg_reply_minutes: number | null;
+}
+
+// Danh sách chặn + giới hạn tần suất gửi tin chiến dịch cho cùng một SĐT
+export interface CampaignContactPolicy {
+  enabled: boolean;
+  max_messages: number; // số tin chiến dịch tối đa / khách
+  window_days: number; // trong số ngày gần nhất
+}
+
+export interface CampaignSuppression {
+  id: string;
+  phone_number: string;
+  full_name?: string | null;
+  reason?: string | null;
+  created_by?: { id: number; fullName: string } | null;
+  created_at: string;
+}
+
+export interface CampaignContactCheck {
+  phone_number: string;
+  suppressed: boolean;
+  suppression_reason?: string | null;
+  recent_messages: number; // số tin chiến dịch đã nhận trong window_days
+  capped: boolean;
+}
+
+export type CampaignSkipReason = "suppressed" | "frequency_cap";
+
+export interface CampaignSkippedSend {
+  id: string;
+  campaign_id: string;
+  campaign_name: string;
+  phone_number: string;
+  full_name?: string | null;
+  reason: CampaignSkipReason;
+  detail?: string | null;
+  skipped_at: string;
+}
+
+// Số khách trùng giữa hai chiến dịch (so theo số điện thoại), dùng cho cảnh báo trên lịch chiến dịch
+export interface CampaignCustomerOverlap {
+  campaign_a_id: string;
+  campaign_b_id: string;
+  shared_customers: number;
+}
+
+// Duyệt chiến dịch: user-chien-dich gửi duyệt, manager-chien-dich duyệt / từ chối
+export interface CampaignApprovalSettings {
+  enabled: boolean;
+}
+
+export type CampaignApprovalAction = "submitted" | "withdrawn" | "commented" | "approved" | "rejected";
+
+export interface CampaignApprovalEvent {
+  id: string;
+  campaign_id: string;
+  action: CampaignApprovalAction;
+  comment?: string | null; // ghi chú khi gửi duyệt / bình luận / lý do từ chối
+  actor: { id: number; fullName: string };
+  created_at: string;
+}
+
+// Phân khúc khách hàng dùng lại cho nhiều chiến dịch
+export type CampaignSegmentSource = "import" | "order_buyers" | "auto_greeting";
+
+export interface CampaignSegmentFilters {
+  // order_buyers
+  products?: string[];
+  from_date?: string;
+  to_date?: string;
+  departments?: string[];
+  employees?: string[];
+  // auto_greeting
+  customer_status?: "urgent" | "reminder" | "normal";
+  conversation_type?: "group" | "private";
+  active_only?: boolean;
+}
+
+export interface CampaignSegmentCustomer {
+  phone_number: string;
+  full_name: string;
+  salutation?: string;
+  metadata?: Record<string, string>; // các cột thêm trong file Excel, dùng làm biến {{ten_cot}}
+}
+
+export interface CampaignSegment {
+  id: string;
+  name: string;
+  description?: string | null;
+  source: CampaignSegmentSource;
+  filters: CampaignSegmentFilters;
+  // Phân khúc động được backend tính lại từ filters mỗi khi làm mới
+  is_dynamic: boolean;
+  customer_count: number;
+  last_refreshed_at?: string | null;
+  created_by?: { id: number; fullName: string } | null;
+  created_at: string;
+}
+
+export interface CampaignReport {
+  funnel: CampaignFunnelCounts;
+  reply_time_distribution: Partial<Record<CampaignReplyTimeBucket, number>>;
+  campaigns: CampaignReportItem[];
+  by_department: CampaignReportBreakdown[];
+  by_employee: CampaignReportBreakdown[];
 }
 
 export interface CampaignCustomer {
@@ -459,6 +770,7 @@ export interface CampaignInteractionLog {
   error_details?: Record<string, any>;
   conversation_metadata?: Record<string, any>;
   reminder_metadata?: ReminderMetadata;
+  variant_key?: string | null;
 }
 
 // Campaign Configuration Types
@@ -637,6 +949,8 @@ export interface CampaignFormData {
   messages: {
     type: "initial";
     text: string;
+    // Khi có >= 2 biến thể, text = nội dung biến thể A
+    variants?: CampaignMessageVariant[];
     attachment?: {
       type: "image" | "link" | "file";
       url?: string;
@@ -688,7 +1002,31 @@ export interface CampaignFormData {
     phone_number: string;
     full_name: string;
     salutation?: string;
+    // Các cột bổ sung khi import Excel, dùng cho biến {{ten_cot}}
+    metadata?: Record<string, string>;
   }>;
+  // Phân khúc đã gắn với chiến dịch (nếu danh sách khách được lấy từ phân khúc)
+  segment_id?: string | null;
+}
+
+// Mẫu chiến dịch: lưu nội dung, nhắc lại, lịch gửi và cấu hình email để tạo chiến dịch mới (không gồm khách hàng)
+export type CampaignTemplateScope = "private" | "department";
+
+export interface CampaignTemplate {
+  id: string;
+  name: string;
+  description?: string | null;
+  campaign_type: CampaignType;
+  messages: CampaignFormData["messages"];
+  reminders: NonNullable<CampaignFormData["reminders"]>;
+  schedule_config?: CampaignFormData["schedule_config"];
+  email_reports?: CampaignFormData["email_reports"] | null;
+  scope: CampaignTemplateScope;
+  department?: { id: number; name: string } | null;
+  created_by?: { id: number; fullName: string } | null;
+  usage_count?: number;
+  created_at: string;
+  updated_at?: string;
 }
 
 export interface CampaignWithDetails extends Campaign {
@@ -697,6 +1035,8 @@ export interface CampaignWithDetails extends Campaign {
   messages: {
     type: "initial";
     text: string;
+    // Khi có >= 2 biến thể, text = nội dung biến thể A
+    variants?: CampaignMessageVariant[];
     attachment?: {
       type: "image" | "link" | "file";
       url?: string;
@@ -752,7 +1092,10 @@ export interface CampaignWithDetails extends Campaign {
     phone_number: string;
     full_name: string;
     salutation?: string;
+    // Các cột bổ sung khi import Excel, dùng cho biến {{ten_cot}}
+    metadata?: Record<string, string>;
   }>;
+  segment_id?: string | null;
 
   start_date?: string;
   end_date?: string;
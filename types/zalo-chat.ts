@@ -26,9 +26,89 @@ export interface Conversation {
     real_name?: string | null;
     avatar?: string | null;
     zalo_id: string;
+    salutation?: string | null;
   } | null;
   is_group: boolean;
   is_private: boolean;
+  // Nhân viên đang phụ trách hội thoại (null = chưa giao)
+  assigned_user_id?: number | null;
+  assigned_user?: ConversationAssignee | null;
+  assigned_at?: string | null;
+  tags?: ConversationTag[];
+}
+
+export interface ConversationAssignee {
+  id: number;
+  fullName?: string;
+  username?: string;
+  avatarZalo?: string | null;
+}
+
+export type ConversationAssignmentFilter = 'all' | 'mine' | 'unassigned' | 'others';
+
+export interface ConversationAssignment {
+  id: number;
+  conversation_id: number;
+  from_user?: ConversationAssignee | null;
+  to_user?: ConversationAssignee | null;
+  assigned_by?: ConversationAssignee | null;
+  note?: string | null;
+  created_at: string;
+}
+
+export interface AssignConversationPayload {
+  assigned_user_id: number | null; // null = bỏ giao
+  note?: string;
+}
+
+// Thẻ màu gắn cho hội thoại
+export interface ConversationTag {
+  id: number;
+  name: string;
+  color: string; // mã màu hex
+}
+
+export interface CreateConversationTagDto {
+  name: string;
+  color: string;
+}
+
+// Ghi chú nội bộ về khách hàng, lịch sử giống OrderDetail.notes_history
+export interface ConversationNotes {
+  content: string;
+  notes_history: Array<{
+    user_id: number | null;
+    user_name?: string | null;
+    content: string;
+    changed_at: string; // ISO string
+  }>;
+}
+
+export type ConversationReminderStatus = 'pending' | 'done' | 'cancelled';
+
+// Nhắc việc: đến remind_at backend tạo thông báo (NotificationBell) cho người tạo
+export interface ConversationReminder {
+  id: number;
+  conversation_id: number;
+  user_id: number;
+  remind_at: string; // ISO string
+  note?: string | null;
+  status: ConversationReminderStatus;
+  notified_at?: string | null;
+  created_at: string;
+}
+
+export interface CreateConversationReminderDto {
+  remind_at: string;
+  note?: string;
+}
+
+export interface AssignConversationResponse {
+  success: boolean;
+  data: {
+    conversation: Conversation;
+    assignment: ConversationAssignment;
+  };
 }
 
 export interface MessageReaction {
@@ -61,6 +141,7 @@ export interface MessageMetadata {
 export interface Message {
   id: number;
   conversation_id: number;
+  zalo_message_id?: string | null; // msgId gốc của Zalo (OrderDetail.zaloMessageId)
   sender_id: number;
   content: string; // JSON string from backend
   content_type:
@@ -89,6 +170,55 @@ export interface Message {
   has_media: boolean;
   is_quote: boolean;
   formatted_timestamp: string;
+  // Chỉ có ở tin nhắn gửi từ web (optimistic), không có trong dữ liệu backend
+  send_status?: MessageSendStatus;
+  send_error?: string | null;
+  upload_progress?: number; // 0-100, chỉ có khi đang tải tệp đính kèm lên
+}
+
+export type MessageSendStatus = 'pending' | 'failed' | 'sent';
+
+export interface SendMessagePayload {
+  conversation_id: number;
+  content: string; // JSON string, cùng format với Message.content
+  content_type: 'TEXT' | 'QUOTE';
+  quoted_message_id?: number | null;
+  client_message_id: string;
+}
+
+export interface SendAttachmentPayload {
+  conversation_id: number;
+  content_type: 'IMAGE' | 'FILE';
+  caption?: string;
+  client_message_id: string;
+}
+
+export interface SendMessageResponse {
+  success: boolean;
+  data: Message;
+}
+
+export interface SendReactionPayload {
+  conversation_id: number;
+  reaction_type: string;
+}
+
+// Payload các sự kiện realtime của Zalo NKC chat (qua lib/wsClient)
+export interface ZaloMessageNewEvent {
+  conversation_id: number;
+  message: Message;
+  conversation?: Partial<Conversation> | null;
+}
+
+export interface ZaloMessageReadEvent {
+  conversation_id: number;
+  message_ids?: number[];
+  unread_count?: number;
+  read_at?: string;
+}
+
+export interface ZaloConversationUpdatedEvent {
+  conversation: Conversation;
 }
 
 export interface ContactNameHistoryItem {
@@ -239,10 +369,47 @@ export interface DashboardStats {
     error_rate: number;
     uptime: number;
   };
+  // Phân tích chi tiết (chỉ có khi gọi với include=analytics)
+  analytics?: ChatAnalytics;
   generated_at: string;
   period: string;
 }
 
+export type ResponseTimeBucket = 'under_5m' | '5_15m' | '15_60m' | '1_4h' | 'over_4h';
+export type UnansweredAgeBucket = 'under_1h' | '1_4h' | '4_24h' | '1_3d' | 'over_3d';
+
+export interface EmployeeResponseTimeStats {
+  user_id: number;
+  full_name: string;
+  total_replies: number;
+  avg_response_seconds: number;
+  median_response_seconds?: number;
+  buckets: Record<ResponseTimeBucket, number>;
+}
+
+export interface MessageHeatmapCell {
+  weekday: number; // 0 = Chủ nhật ... 6 = Thứ bảy
+  hour: number;    // 0-23
+  count: number;
+}
+
+export interface ConversationTypeStats {
+  conversation_type: 'private' | 'group';
+  conversations: number;
+  messages: number;
+  unanswered: number;
+  avg_response_seconds: number;
+}
+
+export interface ChatAnalytics {
+  response_time_by_employee: EmployeeResponseTimeStats[];
+  unanswered_by_age: Record<UnansweredAgeBucket, number>;
+  message_heatmap: MessageHeatmapCell[];
+  conversation_type_stats: ConversationTypeStats[];
+}
+
+export type DashboardPeriod = 'today' | 'week' | 'month' | 'custom';
+
 export interface PaginationMeta {
   page: number;
   limit: number;
@@ -264,6 +431,29 @@ export interface MessagesResponse {
   filters?: Record<string, any>;
 }
 
+// Tin nhắn khớp tìm kiếm (/web/search?type=messages), kèm hội thoại chứa nó
+export interface MessageSearchHit extends Message {
+  conversation?: Partial<Conversation> & Pick<Conversation, 'id'>;
+}
+
+// Xác định tin nhắn theo id nội bộ hoặc msgId Zalo (liên kết từ đơn hàng)
+export interface MessageLocator {
+  message_id?: number | null;
+  zalo_message_id?: string | null;
+}
+
+// Yêu cầu mở hội thoại tại một tin nhắn; requested_at để nhảy lại cùng tin nhắn nhiều lần
+export interface MessageJumpTarget extends MessageLocator {
+  conversation_id: number;
+  requested_at: number;
+}
+
+export interface MessageSearchGroup {
+  conversation_id: number;
+  conversation: (Partial<Conversation> & Pick<Conversation, 'id'>) | null;
+  hits: MessageSearchHit[];
+}
+
 export interface GroupMembersResponse {
   success: boolean;
   data: GroupMember[];
@@ -272,4 +462,29 @@ export interface GroupMembersResponse {
   filters?: Record<string, any>;
 }
 
+// Câu trả lời nhanh (gõ "/" trong khung chat)
+export type ChatSnippetScope = 'user' | 'department';
+
+export interface ChatSnippet {
+  id: number;
+  shortcut: string; // gõ "/shortcut" để chọn
+  title: string;
+  content: string; // hỗ trợ biến {{customer_name}}, {{salutation}}, {{staff_name}}
+  scope: ChatSnippetScope;
+  user_id: number;
+  department_id?: number | null;
+  user?: { id: number; fullName?: string; username?: string } | null;
+  department?: { id: number; name: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateChatSnippetDto {
+  shortcut: string;
+  title: string;
+  content: string;
+  scope: ChatSnippetScope;
+  department_id?: number | null;
+}
 
+export type UpdateChatSnippetDto = Partial<CreateChatSnippetDto>;
@@ -0,0 +1,211 @@
+import { CampaignCustomerOverlap, CampaignStatus, CampaignType, CampaignWithDetails } from "@/types";
+import { toDateKey, toMinutes, toTime } from "@/utils/campaignSimulation";
+
+export const CAMPAIGN_TYPE_COLORS: Record<CampaignType, { chip: string; dot: string }> = {
+  [CampaignType.HOURLY_KM]: { chip: "bg-blue-50 border-blue-300 text-blue-800", dot: "bg-blue-500" },
+  [CampaignType.DAILY_KM]: { chip: "bg-emerald-50 border-emerald-300 text-emerald-800", dot: "bg-emerald-500" },
+  [CampaignType.THREE_DAY_KM]: { chip: "bg-amber-50 border-amber-300 text-amber-800", dot: "bg-amber-500" },
+  [CampaignType.WEEKLY_SP]: { chip: "bg-purple-50 border-purple-300 text-purple-800", dot: "bg-purple-500" },
+  [CampaignType.WEEKLY_BBG]: { chip: "bg-pink-50 border-pink-300 text-pink-800", dot: "bg-pink-500" },
+};
+
+// Chiến dịch gửi theo time_of_day được coi là chiếm 1 giờ kể từ giờ gửi
+const SINGLE_SEND_WINDOW_MINUTES = 60;
+
+export interface CalendarOccurrence {
+  key: string; // `${campaign.id}_${date}`
+  campaign: CampaignWithDetails;
+  date: string; // YYYY-MM-DD
+  from: string; // HH:mm
+  to: string; // HH:mm
+  // Bản nháp chưa có ngày bắt đầu: vẽ tạm từ hôm nay
+  tentative: boolean;
+}
+
+export interface CalendarConflict {
+  campaign: CampaignWithDetails;
+  sharedCustomers: number;
+}
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const fromDateKey = (key: string) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const diffDays = (fromKey: string, toKey: string) =>
+  Math.round((fromDateKey(toKey).getTime() - fromDateKey(fromKey).getTime()) / 86400000);
+
+// Ngày trong tuần theo quy ước của schedule_config: 1 = CN, 2..7 = Thứ 2..Thứ 7
+const shiftDayOfWeek = (day: number, delta: number) => ((((day - 1 + delta) % 7) + 7) % 7) + 1;
+
+// Chiến dịch tuần / 3 ngày chỉ gửi Thứ 2..Thứ 7 (ModernDaySelector không có CN)
+const SUNDAY = 1;
+
+export const isSundayKey = (key: string) => fromDateKey(key).getDay() === 0;
+
+const getSendDays = (campaign: CampaignWithDetails): number[] | null => {
+  const config = campaign.schedule_config;
+  if (!config || config.type === "hourly") return null;
+  if (config.type === "3_day") return config.days_of_week || [];
+  if (Array.isArray(config.days_of_week) && config.days_of_week.length > 0) return config.days_of_week;
+  return config.day_of_week ? [config.day_of_week] : [];
+};
+
+const getSendWindow = (campaign: CampaignWithDetails): [number, number] | null => {
+  const config = campaign.schedule_config;
+  if (!config) return null;
+  if (config.type === "hourly") {
+    const start = toMinutes(config.start_time);
+    const end = toMinutes(config.end_time);
+    return start === null || end === null ? null : [start, end];
+  }
+  const start = toMinutes(config.time_of_day);
+  // Không kéo sang ngày hôm sau
+  return start === null ? null : [start, Math.min(start + SINGLE_SEND_WINDOW_MINUTES, 24 * 60 - 1)];
+};
+
+export const isCalendarDraggable = (campaign: CampaignWithDetails) => campaign.status === CampaignStatus.DRAFT;
+
+/**
+ * Trải lịch gửi của các chiến dịch ra từng ngày trong khoảng [rangeStart, rangeEnd].
+ * Khoảng chạy lấy từ start_date / end_date; bản nháp chưa có start_date tính tạm từ hôm nay,
+ * chiến dịch chưa có end_date được vẽ tới hết khoảng hiển thị.
+ */
+export function buildCalendarOccurrences(
+  campaigns: CampaignWithDetails[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  now: Date = new Date()
+): CalendarOccurrence[] {
+  const occurrences: CalendarOccurrence[] = [];
+  const todayKey = toDateKey(now);
+
+  campaigns.forEach((campaign) => {
+    const window = getSendWindow(campaign);
+    if (!window) return;
+    const sendDays = getSendDays(campaign);
+    const tentative = !campaign.start_date;
+    const startKey = campaign.start_date
+      ? toDateKey(new Date(campaign.start_date))
+      : campaign.status === CampaignStatus.DRAFT
+      ? todayKey
+      : toDateKey(new Date(campaign.created_at));
+    const endKey = campaign.end_date ? toDateKey(new Date(campaign.end_date)) : null;
+
+    for (let date = rangeStart; date <= rangeEnd; date = addDays(date, 1)) {
+      const dateKey = toDateKey(date);
+      if (dateKey < startKey || (endKey && dateKey > endKey)) continue;
+      if (sendDays && !sendDays.includes(date.getDay() + 1)) continue;
+      occurrences.push({
+        key: `${campaign.id}_${dateKey}`,
+        campaign,
+        date: dateKey,
+        from: toTime(window[0]),
+        to: toTime(window[1]),
+        tentative,
+      });
+    }
+  });
+
+  return occurrences.sort((a, b) => a.from.localeCompare(b.from));
+}
+
+/**
+ * Cảnh báo trùng: hai chiến dịch có chung khách hàng và khung gửi giao nhau trong cùng một ngày.
+ * Trả về Map theo occurrence.key.
+ */
+export function findCalendarConflicts(
+  occurrences: CalendarOccurrence[],
+  overlaps: CampaignCustomerOverlap[]
+): Map<string, CalendarConflict[]> {
+  const shared = new Map<string, number>();
+  overlaps.forEach((o) => {
+    if (o.shared_customers <= 0) return;
+    shared.set(`${o.campaign_a_id}|${o.campaign_b_id}`, o.shared_customers);
+    shared.set(`${o.campaign_b_id}|${o.campaign_a_id}`, o.shared_customers);
+  });
+
+  const conflicts = new Map<string, CalendarConflict[]>();
+  if (shared.size === 0) return conflicts;
+
+  const byDate = new Map<string, CalendarOccurrence[]>();
+  occurrences.forEach((o) => byDate.set(o.date, [...(byDate.get(o.date) || []), o]));
+
+  byDate.forEach((dayOccurrences) => {
+    dayOccurrences.forEach((a) => {
+      dayOccurrences.forEach((b) => {
+        if (a.campaign.id === b.campaign.id) return;
+        const sharedCustomers = shared.get(`${a.campaign.id}|${b.campaign.id}`);
+        if (!sharedCustomers) return;
+        if (a.from >= b.to || b.from >= a.to) return;
+        conflicts.set(a.key, [...(conflicts.get(a.key) || []), { campaign: b.campaign, sharedCustomers }]);
+      });
+    });
+  });
+
+  return conflicts;
+}
+
+const shiftIsoDate = (value: string, delta: number) => {
+  const date = new Date(value);
+  date.setDate(date.getDate() + delta);
+  return date.toISOString();
+};
+
+const isConsecutive = (days: number[]) => {
+  const sorted = [...days].sort((a, b) => a - b);
+  return sorted.every((d, i) => i === 0 || d === sorted[i - 1] + 1);
+};
+
+/**
+ * Kiểm tra lượt kéo thả trước khi dời lịch bản nháp; trả về thông báo lỗi hoặc null nếu hợp lệ.
+ * Không cho ra ngày CN, chiến dịch 3 ngày phải giữ 3 ngày liên tiếp.
+ */
+export function getDraftRescheduleError(campaign: CampaignWithDetails, fromKey: string, toKey: string) {
+  const delta = diffDays(fromKey, toKey);
+  const config = campaign.schedule_config;
+  if (!config || config.type === "hourly") return null;
+
+  const days =
+    config.type === "3_day"
+      ? config.days_of_week || []
+      : [config.day_of_week, ...(Array.isArray(config.days_of_week) ? config.days_of_week : [])].filter(
+          (d): d is number => !!d
+        );
+  const shifted = days.map((d) => shiftDayOfWeek(d, delta));
+  if (shifted.includes(SUNDAY)) return "Chiến dịch không gửi vào Chủ nhật";
+  if (config.type === "3_day" && !isConsecutive(shifted)) return "Chiến dịch 3 ngày phải gửi 3 ngày liên tiếp";
+  return null;
+}
+
+/**
+ * Dời lịch bản nháp khi kéo một lượt gửi từ ngày fromKey sang toKey:
+ * ngày gửi trong tuần (weekly / 3_day) và start_date / end_date cùng dịch đi số ngày tương ứng.
+ */
+export function buildDraftReschedule(campaign: CampaignWithDetails, fromKey: string, toKey: string) {
+  const error = getDraftRescheduleError(campaign, fromKey, toKey);
+  if (error) throw new Error(error);
+
+  const delta = diffDays(fromKey, toKey);
+  const config = campaign.schedule_config;
+  const schedule_config: CampaignWithDetails["schedule_config"] = { ...config };
+
+  if (config.type === "3_day") {
+    schedule_config.days_of_week = (config.days_of_week || []).map((d) => shiftDayOfWeek(d, delta));
+  } else if (config.type === "weekly") {
+    schedule_config.day_of_week = config.day_of_week ? shiftDayOfWeek(config.day_of_week, delta) : config.day_of_week;
+    if (Array.isArray(config.days_of_week)) {
+      schedule_config.days_of_week = config.days_of_week.map((d) => shiftDayOfWeek(d, delta));
+    }
+  }
+
+  const anchor = campaign.start_date || fromDateKey(toDateKey(new Date())).toISOString();
+  return {
+    schedule_config,
+    start_date: config.type === "hourly" || campaign.start_date ? shiftIsoDate(anchor, delta) : undefined,
+    end_date: campaign.end_date ? shiftIsoDate(campaign.end_date, delta) : undefined,
+  };
+}
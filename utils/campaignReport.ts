@@ -0,0 +1,183 @@
+import ExcelJS from "exceljs";
+import {
+  CampaignFunnelCounts,
+  CampaignReplyTimeBucket,
+  CampaignReport,
+  LogStatus,
+} from "@/types";
+
+// Thứ tự các bước trong phễu, khách ở bước sau được tính là đã qua các bước trước
+export const FUNNEL_STAGES: Array<{ key: LogStatus; label: string; color: string }> = [
+  { key: LogStatus.PENDING, label: "Chờ gửi", color: "#94a3b8" },
+  { key: LogStatus.SENT, label: "Đã gửi", color: "#3b82f6" },
+  { key: LogStatus.REMINDER_SENT, label: "Đã nhắc lại", color: "#f59e0b" },
+  { key: LogStatus.CUSTOMER_REPLIED, label: "Khách trả lời", color: "#10b981" },
+  { key: LogStatus.STAFF_HANDLED, label: "Nhân viên xử lý", color: "#8b5cf6" },
+];
+
+export const REPLY_TIME_BUCKETS: Array<{ key: CampaignReplyTimeBucket; label: string; color: string }> = [
+  { key: "under_15m", label: "< 15 phút", color: "#10b981" },
+  { key: "15m_1h", label: "15 - 60 phút", color: "#3b82f6" },
+  { key: "1h_4h", label: "1 - 4 giờ", color: "#f59e0b" },
+  { key: "4h_24h", label: "4 - 24 giờ", color: "#f97316" },
+  { key: "over_24h", label: "> 24 giờ", color: "#ef4444" },
+];
+
+export interface FunnelStep {
+  key: LogStatus;
+  label: string;
+  color: string;
+  count: number;
+  // % so với tổng khách và so với bước liền trước
+  rate: number;
+  stepRate: number;
+}
+
+export const buildFunnel = (counts: CampaignFunnelCounts): FunnelStep[] => {
+  const failed = counts[LogStatus.FAILED] || 0;
+  const reached = FUNNEL_STAGES.map((_, index) =>
+    FUNNEL_STAGES.slice(index).reduce((sum, stage) => sum + (counts[stage.key] || 0), 0)
+  );
+  // Tin gửi lỗi vẫn là khách đã vào phễu
+  reached[0] += failed;
+  const total = reached[0];
+
+  return FUNNEL_STAGES.map((stage, index) => ({
+    ...stage,
+    count: reached[index],
+    rate: total ? (reached[index] / total) * 100 : 0,
+    stepRate: index === 0 ? 100 : reached[index - 1] ? (reached[index] / reached[index - 1]) * 100 : 0,
+  }));
+};
+
+// Tỉ lệ trả lời = khách trả lời (kể cả đã xử lý) / khách đã được gửi
+export const getReplyRate = (counts: CampaignFunnelCounts) => {
+  const funnel = buildFunnel(counts);
+  const sent = funnel[1].count;
+  const replied = funnel[3].count;
+  return sent ? (replied / sent) * 100 : 0;
+};
+
+export const formatReplyMinutes = (minutes: number | null | undefined) => {
+  if (minutes === null || minutes === undefined) return "-";
+  if (minutes < 60) return `${Math.round(minutes)} phút`;
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return rest ? `${hours} giờ ${rest} phút` : `${hours} giờ`;
+};
+
+const styleSheet = (worksheet: ExcelJS.Worksheet) => {
+  const headerRow = worksheet.getRow(1);
+  headerRow.font = { bold: true, color: { argb: "FFFFFF" } };
+  headerRow.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "366092" } };
+  headerRow.alignment = { horizontal: "center", vertical: "middle" };
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    row.eachCell((cell) => {
+      cell.border = {
+        top: { style: "thin" },
+        left: { style: "thin" },
+        bottom: { style: "thin" },
+        right: { style: "thin" },
+      };
+    });
+  });
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+};
+
+const funnelColumns = (counts: CampaignFunnelCounts) => {
+  const funnel = buildFunnel(counts);
+  return [
+    ...funnel.map((step) => step.count),
+    counts[LogStatus.FAILED] || 0,
+    Number(getReplyRate(counts).toFixed(1)),
+  ];
+};
+
+const funnelHeaders = [...FUNNEL_STAGES.map((s) => s.label), "Gửi lỗi", "Tỉ lệ trả lời (%)"];
+
+export async function exportCampaignReportXlsx(report: CampaignReport, fileName: string) {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const funnelSheet = workbook.addWorksheet("Phễu");
+  funnelSheet.columns = [
+    { header: "Bước", width: 22 },
+    { header: "Số khách", width: 12 },
+    { header: "% tổng", width: 10 },
+    { header: "% bước trước", width: 14 },
+  ];
+  buildFunnel(report.funnel).forEach((step) =>
+    funnelSheet.addRow([step.label, step.count, Number(step.rate.toFixed(1)), Number(step.stepRate.toFixed(1))])
+  );
+  styleSheet(funnelSheet);
+
+  const compareSheet = workbook.addWorksheet("So sánh chiến dịch");
+  compareSheet.columns = [
+    { header: "Chiến dịch", width: 36 },
+    { header: "Phòng ban", width: 20 },
+    { header: "Người tạo", width: 22 },
+    { header: "Ngày tạo", width: 12 },
+    { header: "Khách hàng", width: 12 },
+    ...funnelHeaders.map((header) => ({ header, width: 14 })),
+    { header: "TG trả lời TB (phút)", width: 18 },
+  ];
+  report.campaigns.forEach((c) =>
+    compareSheet.addRow([
+      c.name,
+      c.department?.name || "",
+      c.created_by?.fullName || "",
+      c.created_at ? new Date(c.created_at).toLocaleDateString("vi-VN") : "",
+      c.customers,
+      ...funnelColumns(c.funnel),
+      c.avg_reply_minutes !== null ? Math.round(c.avg_reply_minutes) : "",
+    ])
+  );
+  styleSheet(compareSheet);
+
+  const replySheet = workbook.addWorksheet("Thời gian trả lời");
+  replySheet.columns = [
+    { header: "Khoảng thời gian", width: 20 },
+    { header: "Số khách", width: 12 },
+  ];
+  REPLY_TIME_BUCKETS.forEach((b) => replySheet.addRow([b.label, report.reply_time_distribution[b.key] || 0]));
+  styleSheet(replySheet);
+
+  (
+    [
+      ["Phòng ban", report.by_department],
+      ["Nhân viên", report.by_employee],
+    ] as const
+  ).forEach(([title, rows]) => {
+    const sheet = workbook.addWorksheet(title);
+    sheet.columns = [
+      { header: title, width: 28 },
+      { header: "Chiến dịch", width: 12 },
+      { header: "Khách hàng", width: 12 },
+      ...funnelHeaders.map((header) => ({ header, width: 14 })),
+      { header: "TG trả lời TB (phút)", width: 18 },
+    ];
+    rows.forEach((r) =>
+      sheet.addRow([
+        r.name,
+        r.campaigns,
+        r.customers,
+        ...funnelColumns(r.funnel),
+        r.avg_reply_minutes !== null ? Math.round(r.avg_reply_minutes) : "",
+      ])
+    );
+    styleSheet(sheet);
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,136 @@
+import ExcelJS from "exceljs";
+import { CampaignSegmentCustomer, CampaignSegmentSource } from "@/types";
+import { toVariableKey } from "@/utils/campaignUtils";
+
+export const SEGMENT_SOURCE_LABELS: Record<CampaignSegmentSource, string> = {
+  import: "Import Excel",
+  order_buyers: "Khách đã mua hàng",
+  auto_greeting: "Khách chào tự động",
+};
+
+export interface SegmentDiff<T extends CampaignSegmentCustomer> {
+  added: CampaignSegmentCustomer[]; // có trong phân khúc, chưa có trong chiến dịch
+  removed: T[]; // có trong chiến dịch, không còn trong phân khúc
+  changed: CampaignSegmentCustomer[]; // cùng SĐT nhưng khác tên / xưng hô / cột dữ liệu
+  unchanged: number;
+}
+
+export const normalizeSegmentPhone = (p: string) => (p || "").replace(/\D/g, "").replace(/^84(?=\d{8,})/, "0");
+
+const isSameMetadata = (a: Record<string, string> = {}, b: Record<string, string> = {}) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k]);
+};
+
+/**
+ * So sánh danh sách khách hiện tại của chiến dịch với danh sách của phân khúc (khóa theo SĐT).
+ */
+export function diffSegmentCustomers<T extends CampaignSegmentCustomer>(
+  current: T[],
+  segment: CampaignSegmentCustomer[]
+): SegmentDiff<T> {
+  const currentByPhone = new Map(current.map((c) => [normalizeSegmentPhone(c.phone_number), c]));
+  const segmentPhones = new Set<string>();
+  const added: CampaignSegmentCustomer[] = [];
+  const changed: CampaignSegmentCustomer[] = [];
+  let unchanged = 0;
+
+  for (const customer of segment) {
+    const phone = normalizeSegmentPhone(customer.phone_number);
+    if (!phone || segmentPhones.has(phone)) continue;
+    segmentPhones.add(phone);
+
+    const existing = currentByPhone.get(phone);
+    if (!existing) {
+      added.push(customer);
+    } else if (
+      (existing.full_name || "").trim() !== (customer.full_name || "").trim() ||
+      (existing.salutation || "").trim() !== (customer.salutation || "").trim() ||
+      // Phân khúc động (không có cột thêm) không xóa dữ liệu cột của khách đã có
+      (customer.metadata && !isSameMetadata(existing.metadata, customer.metadata))
+    ) {
+      changed.push(customer);
+    } else {
+      unchanged++;
+    }
+  }
+
+  const removed = current.filter((c) => !segmentPhones.has(normalizeSegmentPhone(c.phone_number)));
+
+  return { added, removed, changed, unchanged };
+}
+
+/**
+ * Áp dụng phân khúc vào danh sách chiến dịch.
+ * - replace: lấy đúng danh sách phân khúc (metadata theo phân khúc, giữ của khách đã có nếu phân khúc không có)
+ * - merge: giữ nguyên danh sách hiện tại, chỉ thêm khách mới kèm metadata của họ
+ */
+export function applySegmentCustomers<T extends CampaignSegmentCustomer>(
+  current: T[],
+  segment: CampaignSegmentCustomer[],
+  mode: "replace" | "merge"
+): CampaignSegmentCustomer[] {
+  const { added, changed } = diffSegmentCustomers(current, segment);
+  if (mode === "merge") return [...current, ...added];
+
+  const changedByPhone = new Map(changed.map((c) => [normalizeSegmentPhone(c.phone_number), c]));
+  const segmentPhones = new Set(segment.map((c) => normalizeSegmentPhone(c.phone_number)));
+  const kept = current
+    .filter((c) => segmentPhones.has(normalizeSegmentPhone(c.phone_number)))
+    .map((c) => {
+      const update = changedByPhone.get(normalizeSegmentPhone(c.phone_number));
+      return update
+        ? { ...c, full_name: update.full_name, salutation: update.salutation, metadata: update.metadata ?? c.metadata }
+        : c;
+    });
+  return [...kept, ...added];
+}
+
+/**
+ * Đọc file Excel cùng định dạng file mẫu của chiến dịch:
+ * TÊN KHÁCH HÀNG, SỐ ĐIỆN THOẠI (bắt buộc), NGƯỜI LIÊN HỆ (tùy chọn);
+ * các cột còn lại lưu vào metadata để dùng làm biến {{ten_cot}} như khi import vào chiến dịch.
+ */
+export async function parseSegmentCustomersXlsx(file: File): Promise<CampaignSegmentCustomer[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const worksheet = workbook.getWorksheet(1);
+  if (!worksheet) throw new Error("Không tìm thấy worksheet trong file Excel");
+
+  let fullNameCol = 0,
+    phoneNumberCol = 0,
+    salutationCol = 0;
+  const metadataCols: Array<{ col: number; key: string }> = [];
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    const value = cell.value?.toString().trim().toUpperCase();
+    if (value === "TÊN KHÁCH HÀNG") fullNameCol = colNumber;
+    else if (value === "SỐ ĐIỆN THOẠI") phoneNumberCol = colNumber;
+    else if (value === "NGƯỜI LIÊN HỆ") salutationCol = colNumber;
+    else if (value && toVariableKey(value)) metadataCols.push({ col: colNumber, key: toVariableKey(value) });
+  });
+  if (!fullNameCol || !phoneNumberCol) {
+    throw new Error("File cần có cột TÊN KHÁCH HÀNG và SỐ ĐIỆN THOẠI");
+  }
+
+  const seen = new Set<string>();
+  const customers: CampaignSegmentCustomer[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const phone = normalizeSegmentPhone(row.getCell(phoneNumberCol).text);
+    const fullName = row.getCell(fullNameCol).text.trim();
+    if (!phone || !fullName || seen.has(phone)) return;
+    seen.add(phone);
+    const metadata: Record<string, string> = {};
+    metadataCols.forEach(({ col, key }) => {
+      const value = row.getCell(col).text.trim();
+      if (value) metadata[key] = value;
+    });
+    customers.push({
+      phone_number: phone,
+      full_name: fullName,
+      salutation: salutationCol ? row.getCell(salutationCol).text.trim() || undefined : undefined,
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    });
+  });
+  return customers;
+}
@@ -0,0 +1,237 @@
+import { CampaignFormData } from "@/types";
+import {
+  DailyDatesConfig,
+  DepartmentSchedule,
+  HourlySlotsConfig,
+  ScheduleStatus,
+  ScheduleType,
+} from "@/types/schedule";
+
+export type SimulationDayStatus =
+  | "send"
+  | "holiday"
+  | "off_day"
+  | "outside_department_schedule"
+  | "passed"
+  | "completed";
+
+export interface SimulationEvent {
+  kind: "initial" | "reminder";
+  label: string;
+  // Giờ gửi của khách đầu tiên và khách cuối cùng (HH:mm)
+  from: string;
+  to: string;
+  customers: number;
+  // Số khách có lượt gửi rơi ra ngoài khung giờ chạy → không gửi
+  skipped: number;
+}
+
+export interface SimulationDay {
+  date: string; // YYYY-MM-DD
+  dayOfWeek: number; // 1 = CN, 2..7 = Thứ 2..Thứ 7 (giống DepartmentSchedule)
+  status: SimulationDayStatus;
+  events: SimulationEvent[];
+}
+
+export interface CampaignSimulationInput {
+  scheduleConfig: CampaignFormData["schedule_config"];
+  reminders: Array<{ minutes: number }>;
+  customerCount: number;
+  holidays: Set<string>;
+  departmentSchedules: DepartmentSchedule[];
+  days: number;
+  now?: Date;
+}
+
+export interface CampaignSimulationResult {
+  days: SimulationDay[];
+  // Phòng ban chưa có lịch phù hợp với loại chiến dịch → không giới hạn theo lịch
+  hasDepartmentSchedule: boolean;
+  totalInitial: number;
+  totalReminders: number;
+  totalSkipped: number;
+}
+
+export const SIMULATION_DAY_STATUS_LABELS: Record<SimulationDayStatus, string> = {
+  send: "Gửi tin",
+  holiday: "Ngày nghỉ lễ",
+  off_day: "Không nằm trong ngày gửi",
+  outside_department_schedule: "Ngoài lịch phòng ban",
+  passed: "Đã qua giờ gửi",
+  completed: "Đã gửi hết khách",
+};
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export const toMinutes = (time?: string) => {
+  if (!time) return null;
+  const [h, m] = time.split(":").map(Number);
+  return Number.isFinite(h) && Number.isFinite(m) ? h * 60 + m : null;
+};
+
+export const toTime = (minutes: number) => {
+  const total = Math.round(minutes);
+  const h = Math.floor(total / 60) % 24;
+  const m = total % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+};
+
+const activeSchedules = (schedules: DepartmentSchedule[], type: ScheduleType) =>
+  schedules.filter((s) => s.schedule_type === type && s.status === ScheduleStatus.ACTIVE);
+
+// Lịch theo ngày (DAILY_DATES) áp dụng cho chiến dịch theo giờ
+const isDateInDailySchedules = (schedules: DepartmentSchedule[], date: Date) =>
+  schedules.some((s) =>
+    (s.schedule_config as DailyDatesConfig).dates?.some(
+      (d) =>
+        d.day_of_month === date.getDate() &&
+        (!d.month || d.month === date.getMonth() + 1) &&
+        (!d.year || d.year === date.getFullYear())
+    )
+  );
+
+// Lịch khung giờ (HOURLY_SLOTS) áp dụng cho chiến dịch tuần và 3 ngày
+const isTimeInHourlySchedules = (
+  schedules: DepartmentSchedule[],
+  dayOfWeek: number,
+  dateKey: string,
+  time: string
+) =>
+  schedules.some((s) =>
+    (s.schedule_config as HourlySlotsConfig).slots?.some(
+      (slot) =>
+        (!slot.day_of_week || slot.day_of_week === dayOfWeek) &&
+        (!slot.applicable_date || slot.applicable_date === dateKey) &&
+        slot.start_time <= time &&
+        slot.end_time > time
+    )
+  );
+
+/**
+ * Mô phỏng lịch gửi của chiến dịch trong N ngày tới. Mỗi khách chỉ nhận tin đầu tiên một lần,
+ * vào ngày gửi hợp lệ đầu tiên; các ngày sau đó không còn khách để gửi.
+ * - Chiến dịch theo giờ: khách được gửi lần lượt, chia đều trong khung start_time → end_time,
+ *   mỗi lần nhắc lại tính từ giờ gửi của chính khách đó (cách lần trước `minutes` phút)
+ *   và bị bỏ nếu vượt quá end_time.
+ * - Chiến dịch tuần / 3 ngày: gửi toàn bộ khách lúc time_of_day.
+ */
+export function simulateCampaignSchedule({
+  scheduleConfig,
+  reminders,
+  customerCount,
+  holidays,
+  departmentSchedules,
+  days,
+  now = new Date(),
+}: CampaignSimulationInput): CampaignSimulationResult {
+  const result: CampaignSimulationResult = {
+    days: [],
+    hasDepartmentSchedule: false,
+    totalInitial: 0,
+    totalReminders: 0,
+    totalSkipped: 0,
+  };
+  if (!scheduleConfig) return result;
+
+  const isHourly = scheduleConfig.type === "hourly";
+  const schedules = activeSchedules(
+    departmentSchedules,
+    isHourly ? ScheduleType.DAILY_DATES : ScheduleType.HOURLY_SLOTS
+  );
+  result.hasDepartmentSchedule = schedules.length > 0;
+
+  const sendDays = isHourly
+    ? null
+    : scheduleConfig.type === "3_day"
+    ? scheduleConfig.days_of_week || []
+    : scheduleConfig.day_of_week
+    ? [scheduleConfig.day_of_week]
+    : [];
+
+  const startMinutes = toMinutes(isHourly ? scheduleConfig.start_time : scheduleConfig.time_of_day);
+  const endMinutes = isHourly ? toMinutes(scheduleConfig.end_time) : startMinutes;
+  if (startMinutes === null || endMinutes === null) return result;
+
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const todayKey = toDateKey(now);
+  let sent = false;
+
+  for (let i = 0; i < days; i++) {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + i);
+    const dateKey = toDateKey(date);
+    const dayOfWeek = date.getDay() + 1;
+    const day: SimulationDay = { date: dateKey, dayOfWeek, status: "send", events: [] };
+    result.days.push(day);
+
+    if (sendDays && !sendDays.includes(dayOfWeek)) {
+      day.status = "off_day";
+      continue;
+    }
+    if (holidays.has(dateKey)) {
+      day.status = "holiday";
+      continue;
+    }
+    if (
+      result.hasDepartmentSchedule &&
+      !(isHourly
+        ? isDateInDailySchedules(schedules, date)
+        : isTimeInHourlySchedules(schedules, dayOfWeek, dateKey, toTime(startMinutes)))
+    ) {
+      day.status = "outside_department_schedule";
+      continue;
+    }
+    if (dateKey === todayKey && startMinutes <= nowMinutes) {
+      day.status = "passed";
+      continue;
+    }
+    // Chưa có khách thì vẫn hiện mốc giờ gửi ở mọi ngày hợp lệ
+    if (sent && customerCount > 0) {
+      day.status = "completed";
+      continue;
+    }
+    sent = true;
+
+    const windowMinutes = endMinutes - startMinutes;
+    const interval = isHourly && customerCount > 1 ? windowMinutes / customerCount : 0;
+    const lastInitial = startMinutes + Math.max(0, customerCount - 1) * interval;
+
+    day.events.push({
+      kind: "initial",
+      label: "Tin nhắn đầu tiên",
+      from: toTime(startMinutes),
+      to: toTime(lastInitial),
+      customers: customerCount,
+      skipped: 0,
+    });
+    result.totalInitial += customerCount;
+
+    if (!isHourly) continue;
+
+    let offset = 0;
+    reminders.forEach((reminder, index) => {
+      offset += reminder.minutes;
+      const remaining = windowMinutes - offset;
+      const inWindow =
+        remaining < 0
+          ? 0
+          : interval > 0
+          ? Math.min(customerCount, Math.floor(remaining / interval) + 1)
+          : customerCount;
+      const lastInWindow = startMinutes + offset + Math.max(0, inWindow - 1) * interval;
+
+      day.events.push({
+        kind: "reminder",
+        label: `Nhắc lại lần ${index + 1}`,
+        from: toTime(startMinutes + offset),
+        to: toTime(inWindow > 0 ? lastInWindow : lastInitial + offset),
+        customers: inWindow,
+        skipped: customerCount - inWindow,
+      });
+      result.totalReminders += inWindow;
+      result.totalSkipped += customerCount - inWindow;
+    });
+  }
+
+  return result;
+}
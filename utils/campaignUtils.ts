@@ -1,4 +1,10 @@
-import { Campaign, CampaignWithDetails } from "@/types";
+import {
+  Campaign,
+  CampaignMessageVariant,
+  CampaignTemplate,
+  CampaignTemplateScope,
+  CampaignWithDetails,
+} from "@/types";
 
 // ✅ Helper function để transform Campaign thành CampaignWithDetails  
 export const transformToCampaignWithDetails = (campaign: Partial<CampaignWithDetails>): CampaignWithDetails => {
@@ -36,3 +42,138 @@ export const transformToCampaignWithDetails = (campaign: Partial<CampaignWithDet
     customer_count: campaign.customer_count || 0,
   } as CampaignWithDetails;
 };
+
+// ===== Mẫu chiến dịch =====
+
+export const TEMPLATE_SCOPE_LABELS: Record<CampaignTemplateScope, string> = {
+  private: "Chỉ mình tôi",
+  department: "Chia sẻ cho phòng ban",
+};
+
+// Lấy phần cấu hình dùng lại được của chiến dịch (bỏ khách hàng, lịch chạy thực tế, trạng thái)
+export const buildTemplateContent = (campaign: CampaignWithDetails) => ({
+  campaign_type: campaign.campaign_type,
+  messages: campaign.messages,
+  reminders: campaign.reminders || [],
+  schedule_config: campaign.schedule_config,
+  email_reports: campaign.email_reports || null,
+});
+
+// Dữ liệu khởi tạo CampaignModal từ mẫu, bước khách hàng để trống
+export const templateToCampaignDraft = (template: CampaignTemplate): CampaignWithDetails =>
+  transformToCampaignWithDetails({
+    name: template.name,
+    campaign_type: template.campaign_type,
+    messages: template.messages,
+    reminders: template.reminders,
+    schedule_config: template.schedule_config as CampaignWithDetails["schedule_config"],
+    email_reports: template.email_reports || undefined,
+    customers: [],
+  });
+
+// ===== A/B test nội dung tin nhắn =====
+export const VARIANT_KEYS = ["A", "B", "C", "D"];
+
+// Hash FNV-1a trên số điện thoại -> 0..99, cùng một khách luôn rơi vào cùng biến thể
+const phoneBucket = (phone: string): number => {
+  const normalized = phone.replace(/\D/g, "");
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash % 100;
+};
+
+export const assignVariant = (
+  phone: string,
+  variants: CampaignMessageVariant[]
+): CampaignMessageVariant | null => {
+  if (variants.length === 0) return null;
+  const bucket = phoneBucket(phone);
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight;
+    if (bucket < cumulative) return variant;
+  }
+  return variants[variants.length - 1];
+};
+
+// Chia đều 100% cho n biến thể, phần dư dồn cho biến thể đầu
+export const evenVariantWeights = (count: number): number[] => {
+  if (count <= 0) return [];
+  const base = Math.floor(100 / count);
+  return Array.from({ length: count }, (_, i) => (i === 0 ? 100 - base * (count - 1) : base));
+};
+
+export const countVariantSplit = (
+  customers: Array<{ phone_number: string }>,
+  variants: CampaignMessageVariant[]
+): Record<string, number> => {
+  const counts: Record<string, number> = Object.fromEntries(variants.map((v) => [v.key, 0]));
+  customers.forEach((c) => {
+    const variant = assignVariant(c.phone_number, variants);
+    if (variant) counts[variant.key] = (counts[variant.key] || 0) + 1;
+  });
+  return counts;
+};
+
+// ===== Biến cá nhân hóa nội dung: {{salutation}}, {{full_name}}, {{<cột metadata>}} =====
+export interface CampaignVariable {
+  key: string;
+  label: string;
+}
+
+export const CAMPAIGN_BASE_VARIABLES: CampaignVariable[] = [
+  { key: "salutation", label: "Người liên hệ" },
+  { key: "full_name", label: "Tên khách hàng" },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+// "CÔNG NỢ HIỆN TẠI" -> "cong_no_hien_tai"
+export const toVariableKey = (header: string): string =>
+  header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+export const buildCampaignVariables = (
+  customers: Array<{ metadata?: Record<string, string> }>
+): CampaignVariable[] => {
+  const keys = new Set<string>();
+  customers.forEach((c) => Object.keys(c.metadata || {}).forEach((k) => keys.add(k)));
+  const baseKeys = new Set(CAMPAIGN_BASE_VARIABLES.map((v) => v.key));
+  return [
+    ...CAMPAIGN_BASE_VARIABLES,
+    ...Array.from(keys)
+      .filter((k) => !baseKeys.has(k))
+      .sort()
+      .map((k) => ({ key: k, label: "Cột trong file khách hàng" })),
+  ];
+};
+
+export const extractTemplateVariables = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), (m) => m[1])));
+
+// Render nội dung cho một khách hàng cụ thể (xem trước); {you}/{me} giữ cùng ý nghĩa như khi gửi
+export const renderCampaignMessage = (
+  text: string,
+  customer: { full_name: string; salutation?: string; metadata?: Record<string, string> } | null,
+  senderName = ""
+): string => {
+  if (!customer) return text;
+  const values: Record<string, string> = {
+    ...(customer.metadata || {}),
+    full_name: customer.full_name || "",
+    salutation: customer.salutation || "",
+  };
+  return text
+    .replace(VARIABLE_PATTERN, (match, key: string) => (key in values ? values[key] : match))
+    .replace(/\{you\}/g, customer.salutation || customer.full_name || "")
+    .replace(/\{me\}/g, senderName);
+};
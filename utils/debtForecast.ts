@@ -0,0 +1,383 @@
+import type { AgingData, AgingDailyItem, EmployeePerformance, TrendData } from "@/lib/debt-statistics-api";
+import type { DebtPaymentPromise, DebtPromiseStats } from "@/types";
+
+export const FORECAST_HORIZONS = [4, 6, 8] as const;
+
+export type AgingBucketKey = "1-30" | "31-60" | "61-90" | ">90";
+
+// Thứ tự từ nợ mới đến nợ cũ; width là số ngày một phiếu nằm trong nhóm trước khi sang nhóm kế tiếp
+const AGING_BUCKETS: { key: AgingBucketKey; width: number | null }[] = [
+  { key: "1-30", width: 30 },
+  { key: "31-60", width: 30 },
+  { key: "61-90", width: 30 },
+  { key: ">90", width: null },
+];
+
+// Các nhãn tuổi nợ backend đang trả về (aging / aging-daily)
+const AGING_LABEL_ALIASES: Record<string, AgingBucketKey> = {
+  "0-30": "1-30",
+  "1-30": "1-30",
+  "0-30 ngày": "1-30",
+  "1-30 ngày": "1-30",
+  "31-60": "31-60",
+  "31-60 ngày": "31-60",
+  "61-90": "61-90",
+  "61-90 ngày": "61-90",
+  ">90": ">90",
+  ">90 ngày": ">90",
+};
+
+const MAX_WEEKLY_RATE = 0.95;
+const DAY_MS = 86400000;
+
+const clampRate = (rate: number) => Math.min(MAX_WEEKLY_RATE, Math.max(0, rate));
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const parseDay = (value: string) => startOfDay(new Date(`${value.slice(0, 10)}T00:00:00`));
+
+// Quy tỉ lệ thu trong `days` ngày về tỉ lệ thu mỗi tuần
+const toWeeklyRate = (rate: number, days: number) =>
+  clampRate(1 - Math.pow(1 - Math.min(0.999, Math.max(0, rate)), 7 / days));
+
+const emptyBuckets = (): Record<AgingBucketKey, number> => ({ "1-30": 0, "31-60": 0, "61-90": 0, ">90": 0 });
+
+export const resolveAgingBucket = (label?: string | null): AgingBucketKey | null =>
+  (label && AGING_LABEL_ALIASES[label.trim()]) || null;
+
+export interface RateEstimate {
+  expected: number;
+  low: number;
+  high: number;
+}
+
+export interface PromiseKeepRate extends RateEstimate {
+  resolved: number; // số lời hẹn đã chốt dùng để ước lượng
+}
+
+export interface BucketRate {
+  key: AgingBucketKey;
+  amount: number;
+  rate: RateEstimate | null; // null khi chưa đủ lịch sử để ước lượng
+  source: "aging_history" | "trend" | null;
+}
+
+export interface ForecastWeek {
+  name: string;
+  from: Date;
+  to: Date;
+  aging: number; // dự kiến thu từ nợ theo tuổi nợ
+  promised: number; // dự kiến thu từ lời hẹn đang chờ
+  expected: number;
+  band: [number, number]; // khoảng tin cậy [thấp, cao]
+  cumulative: number;
+}
+
+export interface CollectionForecast {
+  weeks: ForecastWeek[];
+  buckets: BucketRate[];
+  unknownAging: { label: string; amount: number }[]; // nhãn tuổi nợ không nhận diện được, không đưa vào dự báo
+  unratedAmount: number; // nợ thuộc nhóm chưa đủ lịch sử, không đưa vào dự báo
+  pendingPromiseAmount: number; // tổng lời hẹn đang chờ đến hết kỳ dự báo
+  unprojectedPromiseAmount: number; // lời hẹn chưa dự báo được vì chưa có lịch sử giữ hẹn
+  totals: { aging: RateEstimate; promised: RateEstimate; expected: number; low: number; high: number };
+}
+
+export interface EmployeeForecast {
+  employeeCode: string | null; // null: lời hẹn / nợ chưa gán nhân viên
+  outstanding: number;
+  aging: number;
+  promised: number;
+  expected: number;
+  low: number;
+  high: number;
+}
+
+type ForecastPromise = Pick<DebtPaymentPromise, "amount" | "promised_date" | "debt">;
+
+const weightedEstimate = (samples: { value: number; weight: number }[]): RateEstimate | null => {
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+  if (samples.length === 0 || totalWeight <= 0) return null;
+  const mean = samples.reduce((sum, s) => sum + s.value * s.weight, 0) / totalWeight;
+  const variance = samples.reduce((sum, s) => sum + s.weight * (s.value - mean) ** 2, 0) / totalWeight;
+  const std = Math.sqrt(variance);
+  return { expected: clampRate(mean), low: clampRate(mean - std), high: clampRate(mean + std) };
+};
+
+export const getForecastHorizonEnd = (weeks: number, today: Date = new Date()) => {
+  const start = startOfDay(today);
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + weeks * 7 - 1);
+};
+
+/**
+ * Quy collectionRate của các ngày trong kỳ về tỉ lệ thu mỗi tuần của toàn bộ công nợ.
+ * Cần ít nhất 2 ngày dữ liệu; độ lệch chuẩn giữa các ngày làm khoảng tin cậy.
+ */
+export const estimateWeeklyCollectionRate = (trends: TrendData[]): RateEstimate | null => {
+  const rates = trends
+    .map((t) => Number(t.collectionRate))
+    .filter((r) => Number.isFinite(r))
+    .map((r) => Math.min(1, Math.max(0, r / 100)));
+  const dates = trends.map((t) => new Date(t.date).getTime()).filter((t) => !isNaN(t));
+  if (rates.length < 2 || dates.length < 2) return null;
+
+  const estimate = weightedEstimate(rates.map((value) => ({ value, weight: 1 })))!;
+  const spanDays = (Math.max(...dates) - Math.min(...dates)) / DAY_MS + 1;
+  return {
+    expected: toWeeklyRate(estimate.expected, spanDays),
+    low: toWeeklyRate(estimate.low, spanDays),
+    high: toWeeklyRate(estimate.high, spanDays),
+  };
+};
+
+/**
+ * Ước tỉ lệ thu mỗi tuần của từng nhóm tuổi nợ (trừ nhóm mới nhất) từ các ảnh chụp aging-daily liên tiếp.
+ * Số đã thu của nhóm k trở lên = tồn đầu kỳ + phần nợ từ nhóm k-1 chuyển sang - tồn cuối kỳ;
+ * hiệu giữa hai nhóm liền nhau là số thu của riêng nhóm k. Nhóm 1-30 còn nhận nợ mới phát sinh nên không suy ra được.
+ */
+export const estimateBucketRatesFromHistory = (agingDaily: AgingDailyItem[]) => {
+  const snapshots = new Map<string, Record<AgingBucketKey, number>>();
+  agingDaily.forEach((item) => {
+    const key = resolveAgingBucket(item.range);
+    if (!key || !item.date) return;
+    const date = item.date.slice(0, 10);
+    const snapshot = snapshots.get(date) || emptyBuckets();
+    snapshot[key] += Number(item.amount) || 0;
+    snapshots.set(date, snapshot);
+  });
+
+  const dates = Array.from(snapshots.keys()).sort();
+  const samples: Record<AgingBucketKey, { value: number; weight: number }[]> = {
+    "1-30": [],
+    "31-60": [],
+    "61-90": [],
+    ">90": [],
+  };
+
+  for (let i = 1; i < dates.length; i++) {
+    const prev = snapshots.get(dates[i - 1])!;
+    const next = snapshots.get(dates[i])!;
+    const days = (parseDay(dates[i]).getTime() - parseDay(dates[i - 1]).getTime()) / DAY_MS;
+    if (days <= 0) continue;
+
+    const inflows = AGING_BUCKETS.map((_, k) => {
+      if (k === 0) return 0;
+      const younger = AGING_BUCKETS[k - 1];
+      return prev[younger.key] * Math.min(1, days / younger.width!);
+    });
+    const collectedFrom = AGING_BUCKETS.map((_, k) => {
+      const older = AGING_BUCKETS.slice(k);
+      const before = older.reduce((sum, b) => sum + prev[b.key], 0);
+      const after = older.reduce((sum, b) => sum + next[b.key], 0);
+      return Math.max(0, before + inflows[k] - after);
+    });
+
+    for (let k = 1; k < AGING_BUCKETS.length; k++) {
+      const { key } = AGING_BUCKETS[k];
+      const base = prev[key] + inflows[k];
+      if (base <= 0) continue;
+      const collected = Math.max(0, collectedFrom[k] - (collectedFrom[k + 1] ?? 0));
+      samples[key].push({ value: toWeeklyRate(Math.min(1, collected / base), days), weight: base });
+    }
+  }
+
+  return AGING_BUCKETS.reduce(
+    (acc, b) => ({ ...acc, [b.key]: weightedEstimate(samples[b.key]) }),
+    {} as Record<AgingBucketKey, RateEstimate | null>
+  );
+};
+
+export const estimatePromiseKeepRate = (
+  stats?: Pick<DebtPromiseStats, "kept" | "partially_kept" | "broken"> | null
+): PromiseKeepRate | null => {
+  if (!stats) return null;
+  const resolved = stats.kept + stats.partially_kept + stats.broken;
+  if (!resolved) return null;
+  // Trả một phần tính nửa; khoảng tin cậy 95% theo phân phối chuẩn của tỉ lệ
+  const rate = (stats.kept + stats.partially_kept * 0.5) / resolved;
+  const margin = 1.96 * Math.sqrt((rate * (1 - rate)) / resolved);
+  return { expected: rate, low: Math.max(0, rate - margin), high: Math.min(1, rate + margin), resolved };
+};
+
+export const buildCollectionForecast = (params: {
+  aging: AgingData[];
+  agingDaily: AgingDailyItem[];
+  trends: TrendData[];
+  promises: ForecastPromise[];
+  promiseKeepRate: RateEstimate | null;
+  weeks: number;
+  today?: Date;
+}): CollectionForecast => {
+  const { aging, agingDaily, trends, promiseKeepRate, weeks } = params;
+  const start = startOfDay(params.today || new Date());
+  const horizonEnd = getForecastHorizonEnd(weeks, start);
+
+  const amounts = emptyBuckets();
+  const unknownAging: CollectionForecast["unknownAging"] = [];
+  aging.forEach((a) => {
+    const key = resolveAgingBucket(a.range || a.label);
+    const amount = Number(a.amount) || 0;
+    if (key) amounts[key] += amount;
+    else if (amount > 0) unknownAging.push({ label: a.range || a.label, amount });
+  });
+
+  // Nhóm 1-30 được hiệu chỉnh để tỉ lệ thu chung khớp với xu hướng thu của kỳ lọc
+  const historyRates = estimateBucketRatesFromHistory(agingDaily);
+  const trendRate = estimateWeeklyCollectionRate(trends);
+  const youngRate = (() => {
+    const young = amounts["1-30"];
+    if (!trendRate || young <= 0) return null;
+    const older = AGING_BUCKETS.slice(1).filter((b) => historyRates[b.key]);
+    const ratedTotal = young + older.reduce((sum, b) => sum + amounts[b.key], 0);
+    const solve = (pick: keyof RateEstimate) =>
+      clampRate(
+        (trendRate[pick] * ratedTotal - older.reduce((sum, b) => sum + historyRates[b.key]![pick] * amounts[b.key], 0)) /
+          young
+      );
+    const [low, expected, high] = [solve("low"), solve("expected"), solve("high")].sort((a, b) => a - b);
+    return { expected, low, high };
+  })();
+
+  const buckets: BucketRate[] = AGING_BUCKETS.map((b, k) => {
+    const rate = k === 0 ? youngRate : historyRates[b.key];
+    return { key: b.key, amount: amounts[b.key], rate, source: rate ? (k === 0 ? "trend" : "aging_history") : null };
+  });
+  const unratedAmount = buckets.filter((b) => !b.rate).reduce((sum, b) => sum + b.amount, 0);
+
+  // Lời hẹn quá ngày nhưng còn chờ được dồn vào tuần đầu
+  const promises = params.promises.filter((p) => parseDay(p.promised_date) <= horizonEnd);
+  const pendingPromiseAmount = promises.reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
+
+  // Phần đã có lời hẹn được dự báo theo ngày hẹn, không tính lại trong nợ theo tuổi
+  const ratedBuckets = buckets.filter((b) => b.rate);
+  const ratedTotal = ratedBuckets.reduce((sum, b) => sum + b.amount, 0);
+  const agingScale =
+    promiseKeepRate && ratedTotal > 0 ? Math.max(0, ratedTotal - pendingPromiseAmount) / ratedTotal : 1;
+
+  // Số tiền dự kiến thu trong tuần thứ k (0-based) của một nhóm nợ theo mô hình suy giảm hình học
+  const collectedInWeek = (amount: number, weeklyRate: number, k: number) =>
+    amount * Math.pow(1 - weeklyRate, k) * weeklyRate;
+  const agingInWeek = (pick: keyof RateEstimate, k: number) =>
+    ratedBuckets.reduce((sum, b) => sum + collectedInWeek(b.amount * agingScale, b.rate![pick], k), 0);
+
+  let cumulative = 0;
+  const forecastWeeks = Array.from({ length: weeks }, (_, k): ForecastWeek => {
+    const from = new Date(start.getFullYear(), start.getMonth(), start.getDate() + k * 7);
+    const to = new Date(start.getFullYear(), start.getMonth(), start.getDate() + k * 7 + 6);
+
+    const promisedAmount = promises
+      .filter((p) => {
+        const date = parseDay(p.promised_date);
+        return k === 0 ? date <= to : date >= from && date <= to;
+      })
+      .reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
+    const promised = promiseKeepRate ? promisedAmount * promiseKeepRate.expected : 0;
+
+    const aging = agingInWeek("expected", k);
+    const expected = aging + promised;
+    cumulative += expected;
+    return {
+      name: `${from.toLocaleDateString("vi-VN", { day: "2-digit", month: "2-digit" })} - ${to.toLocaleDateString(
+        "vi-VN",
+        { day: "2-digit", month: "2-digit" }
+      )}`,
+      from,
+      to,
+      aging,
+      promised,
+      expected,
+      band: [
+        agingInWeek("low", k) + (promiseKeepRate ? promisedAmount * promiseKeepRate.low : 0),
+        agingInWeek("high", k) + (promiseKeepRate ? promisedAmount * promiseKeepRate.high : 0),
+      ],
+      cumulative,
+    };
+  });
+
+  const sumAging = (pick: keyof RateEstimate) =>
+    forecastWeeks.reduce((sum, _, k) => sum + agingInWeek(pick, k), 0);
+  const sumPromised = (pick: keyof RateEstimate) => (promiseKeepRate ? pendingPromiseAmount * promiseKeepRate[pick] : 0);
+  const agingTotals = { expected: sumAging("expected"), low: sumAging("low"), high: sumAging("high") };
+  const promisedTotals = { expected: sumPromised("expected"), low: sumPromised("low"), high: sumPromised("high") };
+
+  return {
+    weeks: forecastWeeks,
+    buckets,
+    unknownAging,
+    unratedAmount,
+    pendingPromiseAmount,
+    unprojectedPromiseAmount: promiseKeepRate ? 0 : pendingPromiseAmount,
+    totals: {
+      aging: agingTotals,
+      promised: promisedTotals,
+      expected: agingTotals.expected + promisedTotals.expected,
+      low: agingTotals.low + promisedTotals.low,
+      high: agingTotals.high + promisedTotals.high,
+    },
+  };
+};
+
+/**
+ * Chia dự báo chung cho từng nhân viên để tổng các dòng bằng tổng dự báo:
+ * phần theo tuổi nợ chia theo dư nợ nhân với hiệu suất thu so với trung bình,
+ * phần lời hẹn cộng theo nhân viên phụ trách phiếu nợ.
+ */
+export const buildEmployeeForecast = (params: {
+  employees: EmployeePerformance[];
+  forecast: CollectionForecast;
+  promises: ForecastPromise[];
+  promiseKeepRate: RateEstimate | null;
+  weeks: number;
+  today?: Date;
+}): EmployeeForecast[] => {
+  const { employees, forecast, promiseKeepRate } = params;
+  const horizonEnd = getForecastHorizonEnd(params.weeks, params.today);
+
+  const rated = employees.filter((e) => Number.isFinite(Number(e.collectionRate)));
+  const avgRate = rated.length ? rated.reduce((sum, e) => sum + Number(e.collectionRate), 0) / rated.length : 0;
+  const weighted = employees.map((e) => {
+    const outstanding = Math.max(0, (Number(e.totalAmount) || 0) - (Number(e.collectedAmount) || 0));
+    const factor = avgRate > 0 ? Number(e.collectionRate) / avgRate : 1;
+    return { code: e.employeeCode, outstanding, weight: outstanding * (Number.isFinite(factor) ? factor : 1) };
+  });
+  const totalWeight = weighted.reduce((sum, e) => sum + e.weight, 0);
+
+  const rows = new Map<string | null, EmployeeForecast>();
+  const rowOf = (code: string | null, outstanding = 0) => {
+    if (!rows.has(code)) {
+      rows.set(code, { employeeCode: code, outstanding, aging: 0, promised: 0, expected: 0, low: 0, high: 0 });
+    }
+    return rows.get(code)!;
+  };
+  const add = (row: EmployeeForecast, part: "aging" | "promised", estimate: RateEstimate) => {
+    row[part] += estimate.expected;
+    row.expected += estimate.expected;
+    row.low += estimate.low;
+    row.high += estimate.high;
+  };
+  const scale = (estimate: RateEstimate, share: number) => ({
+    expected: estimate.expected * share,
+    low: estimate.low * share,
+    high: estimate.high * share,
+  });
+
+  if (totalWeight > 0) {
+    weighted.forEach((e) => add(rowOf(e.code, e.outstanding), "aging", scale(forecast.totals.aging, e.weight / totalWeight)));
+  } else if (forecast.totals.aging.expected > 0) {
+    add(rowOf(null), "aging", forecast.totals.aging);
+  }
+
+  if (promiseKeepRate) {
+    const codes = new Set(employees.map((e) => e.employeeCode));
+    params.promises
+      .filter((p) => parseDay(p.promised_date) <= horizonEnd)
+      .forEach((p) => {
+        const code = p.debt?.employee_code_raw;
+        add(rowOf(code && codes.has(code) ? code : null), "promised", scale(promiseKeepRate, Number(p.amount) || 0));
+      });
+  }
+
+  return Array.from(rows.values())
+    .filter((r) => r.outstanding > 0 || r.expected > 0)
+    .sort((a, b) => (a.employeeCode === null ? 1 : b.employeeCode === null ? -1 : b.expected - a.expected));
+};
@@ -0,0 +1,325 @@
+import ExcelJS from "exceljs";
+import { CustomerDebtLedger, Debt, DebtLedgerEvent, DebtLedgerEventType } from "@/types";
+
+export const DEBT_LEDGER_EVENT_META: Record<DebtLedgerEventType, { label: string; icon: string; color: string }> = {
+  issued: { label: "Phát sinh", icon: "🧾", color: "bg-orange-100 text-orange-700 border-orange-200" },
+  pay_later: { label: "Hẹn thanh toán", icon: "📅", color: "bg-blue-100 text-blue-700 border-blue-200" },
+  paid: { label: "Đã thanh toán", icon: "✅", color: "bg-green-100 text-green-700 border-green-200" },
+  debt_message: { label: "Báo nợ", icon: "📨", color: "bg-purple-100 text-purple-700 border-purple-200" },
+  remind: { label: "Nhắc nợ", icon: "⏰", color: "bg-amber-100 text-amber-700 border-amber-200" },
+  sale_message: { label: "Nhắc NV kinh doanh", icon: "🚨", color: "bg-rose-100 text-rose-700 border-rose-200" },
+};
+
+const PAID_STATUSES = ["paid", "Đã thanh toán"];
+
+export const isDebtPaid = (debt: Pick<Debt, "status" | "remaining">) =>
+  PAID_STATUSES.includes(debt.status || "") || Number(debt.remaining) <= 0;
+
+// Phiếu đã thanh toán coi như không còn nợ dù remaining chưa được import về 0
+export const getDebtRemaining = (debt: Pick<Debt, "status" | "remaining">) =>
+  isDebtPaid(debt) ? 0 : Math.max(0, Number(debt.remaining) || 0);
+
+export const getDebtPaidAmount = (debt: Pick<Debt, "status" | "remaining" | "total_amount" | "paid_amount">) =>
+  debt.paid_amount !== null && debt.paid_amount !== undefined
+    ? Number(debt.paid_amount) || 0
+    : Math.max(0, (Number(debt.total_amount) || 0) - getDebtRemaining(debt));
+
+const toDate = (value?: string | Date | boolean | null): Date | null => {
+  if (!value || typeof value === "boolean") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const getDebtStatusLabel = (status?: string) =>
+  status === "paid"
+    ? "Đã thanh toán"
+    : status === "pay_later"
+    ? "Đã hẹn thanh toán"
+    : status === "no_information_available"
+    ? "Không có thông tin"
+    : status || "--";
+
+export const summarizeDebtLedger = (ledger: CustomerDebtLedger) => {
+  const today = new Date();
+  return ledger.debts.reduce(
+    (acc, debt) => {
+      const remaining = getDebtRemaining(debt);
+      const due = toDate(debt.due_date);
+      acc.total_amount += Number(debt.total_amount) || 0;
+      acc.remaining += remaining;
+      acc.paid_amount += getDebtPaidAmount(debt);
+      if (remaining > 0 && due && due < today) acc.overdue_amount += remaining;
+      if (remaining > 0) acc.open_count += 1;
+      return acc;
+    },
+    { total_amount: 0, paid_amount: 0, remaining: 0, overdue_amount: 0, open_count: 0 }
+  );
+};
+
+// Gộp phiếu nợ và lịch sử nhắc nợ thành dòng thời gian, mới nhất lên đầu
+export const buildDebtLedgerEvents = (ledger: CustomerDebtLedger): DebtLedgerEvent[] => {
+  const events: DebtLedgerEvent[] = [];
+
+  ledger.debts.forEach((debt) => {
+    const issued = toDate(debt.issue_date) || toDate(debt.created_at);
+    if (issued) {
+      events.push({
+        key: `issued-${debt.id}`,
+        type: "issued",
+        at: issued,
+        title: `Phát sinh hóa đơn ${debt.invoice_code}`,
+        invoice_code: debt.invoice_code,
+        amount: Number(debt.total_amount) || 0,
+      });
+    }
+    const payLater = toDate(debt.pay_later);
+    if (payLater) {
+      events.push({
+        key: `pay-later-${debt.id}`,
+        type: "pay_later",
+        at: payLater,
+        title: `Khách hẹn thanh toán ${debt.invoice_code}`,
+        invoice_code: debt.invoice_code,
+        amount: Number(debt.remaining) || 0,
+      });
+    }
+    const paidAt = isDebtPaid(debt) ? toDate(debt.paid_at) : null;
+    if (paidAt) {
+      events.push({
+        key: `paid-${debt.id}`,
+        type: "paid",
+        at: paidAt,
+        title: `Thanh toán hóa đơn ${debt.invoice_code}`,
+        invoice_code: debt.invoice_code,
+        amount: getDebtPaidAmount(debt),
+      });
+    }
+  });
+
+  ledger.histories.forEach((history) => {
+    const sentAt = toDate(history.send_at);
+    const steps = [
+      { step: 1, message: history.first_remind, at: toDate(history.first_remind_at) },
+      { step: 2, message: history.second_remind, at: toDate(history.second_remind_at) },
+      ...(history.extra_reminders || []).map((r) => ({ step: r.step, message: r.message, at: toDate(r.remind_at) })),
+    ]
+      .filter((r) => r.message && r.at)
+      .sort((a, b) => a.step - b.step);
+    // Tin nhắc NV kinh doanh đi sau lần nhắc cuối cùng đã gửi
+    const lastRemindAt = steps.reduce<Date | null>((last, r) => (!last || r.at! > last ? r.at : last), null);
+
+    const reminders: Array<[string, DebtLedgerEventType, string, string | undefined, Date | null]> = [
+      ["debt", "debt_message", "Gửi tin báo nợ", history.debt_msg, sentAt],
+      ...steps.map((r): [string, DebtLedgerEventType, string, string | undefined, Date | null] => [
+        `remind-${r.step}`,
+        "remind",
+        `Nhắc nợ lần ${r.step}`,
+        r.message,
+        r.at,
+      ]),
+      ["sale", "sale_message", "Nhắc nhân viên kinh doanh", history.sale_msg, lastRemindAt || sentAt],
+    ];
+    reminders.forEach(([key, type, title, message, at]) => {
+      if (!message || !at) return;
+      events.push({ key: `history-${history.id}-${key}`, type, at, title, message, history_id: history.id });
+    });
+  });
+
+  return events.sort((a, b) => b.at.getTime() - a.at.getTime());
+};
+
+const styleSheet = (worksheet: ExcelJS.Worksheet, headerRowNumber: number) => {
+  const headerRow = worksheet.getRow(headerRowNumber);
+  headerRow.font = { bold: true, color: { argb: "FFFFFF" } };
+  headerRow.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "366092" } };
+  headerRow.alignment = { horizontal: "center", vertical: "middle" };
+  worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    if (rowNumber < headerRowNumber) return;
+    row.eachCell((cell) => {
+      cell.border = {
+        top: { style: "thin" },
+        left: { style: "thin" },
+        bottom: { style: "thin" },
+        right: { style: "thin" },
+      };
+    });
+  });
+};
+
+const formatDateCell = (value?: string | Date | boolean | null) => {
+  const date = toDate(value);
+  return date ? date.toLocaleDateString("vi-VN") : "";
+};
+
+export async function exportDebtStatementXlsx(ledger: CustomerDebtLedger, fileName: string) {
+  const summary = summarizeDebtLedger(ledger);
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const statement = workbook.addWorksheet("Sao kê công nợ");
+  statement.columns = [
+    { width: 18 },
+    { width: 18 },
+    { width: 14 },
+    { width: 14 },
+    { width: 16 },
+    { width: 16 },
+    { width: 16 },
+    { width: 14 },
+    { width: 20 },
+    { width: 22 },
+  ];
+  statement.addRow(["SAO KÊ CÔNG NỢ KHÁCH HÀNG"]).font = { bold: true, size: 14 };
+  statement.addRow(["Khách hàng", `${ledger.customer_code}${ledger.customer_name ? ` - ${ledger.customer_name}` : ""}`]);
+  statement.addRow(["NV công nợ", ledger.employee?.fullName || ""]);
+  statement.addRow(["Ngày lập", new Date().toLocaleString("vi-VN")]);
+  (
+    [
+      ["Tổng phát sinh", summary.total_amount],
+      ["Đã thanh toán", summary.paid_amount],
+      ["Còn lại", summary.remaining],
+      ["Quá hạn", summary.overdue_amount],
+    ] as const
+  ).forEach(([label, value]) => (statement.addRow([label, value]).getCell(2).numFmt = "#,##0"));
+  statement.addRow([]);
+
+  const headerRowNumber = statement.rowCount + 1;
+  statement.addRow([
+    "Số chứng từ",
+    "Số hóa đơn",
+    "Ngày chứng từ",
+    "Ngày đến hạn",
+    "Thành tiền",
+    "Đã thanh toán",
+    "Còn lại",
+    "Hẹn thanh toán",
+    "Trạng thái",
+    "NV bán hàng",
+  ]);
+  ledger.debts.forEach((debt) =>
+    statement.addRow([
+      debt.invoice_code,
+      debt.bill_code,
+      formatDateCell(debt.issue_date),
+      formatDateCell(debt.due_date),
+      Number(debt.total_amount) || 0,
+      getDebtPaidAmount(debt),
+      getDebtRemaining(debt),
+      formatDateCell(debt.pay_later),
+      getDebtStatusLabel(debt.status),
+      debt.sale?.fullName || debt.sale_name_raw || "",
+    ])
+  );
+  styleSheet(statement, headerRowNumber);
+  [5, 6, 7].forEach((col) => (statement.getColumn(col).numFmt = "#,##0"));
+
+  const timeline = workbook.addWorksheet("Dòng thời gian");
+  timeline.columns = [
+    { header: "Thời gian", width: 20 },
+    { header: "Sự kiện", width: 20 },
+    { header: "Nội dung", width: 36 },
+    { header: "Hóa đơn", width: 18 },
+    { header: "Số tiền", width: 16 },
+    { header: "Tin nhắn", width: 60 },
+  ];
+  buildDebtLedgerEvents(ledger).forEach((event) =>
+    timeline.addRow([
+      event.at.toLocaleString("vi-VN"),
+      DEBT_LEDGER_EVENT_META[event.type].label,
+      event.title,
+      event.invoice_code || "",
+      event.amount ?? "",
+      event.message || "",
+    ])
+  );
+  timeline.getColumn(5).numFmt = "#,##0";
+  styleSheet(timeline, 1);
+  timeline.views = [{ state: "frozen", ySplit: 1 }];
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] as string);
+
+// Mở sao kê ở cửa sổ riêng để in, tránh in cả sidebar của dashboard
+export function printDebtStatement(ledger: CustomerDebtLedger) {
+  const summary = summarizeDebtLedger(ledger);
+  const money = (value: number) => Math.round(value).toLocaleString("vi-VN");
+  const rows = ledger.debts
+    .map(
+      (debt) => `<tr>
+        <td>${escapeHtml(debt.invoice_code || "")}</td>
+        <td>${escapeHtml(debt.bill_code || "")}</td>
+        <td>${formatDateCell(debt.issue_date)}</td>
+        <td>${formatDateCell(debt.due_date)}</td>
+        <td class="num">${money(Number(debt.total_amount) || 0)}</td>
+        <td class="num">${money(getDebtPaidAmount(debt))}</td>
+        <td class="num">${money(getDebtRemaining(debt))}</td>
+        <td>${escapeHtml(getDebtStatusLabel(debt.status))}</td>
+      </tr>`
+    )
+    .join("");
+  const timelineRows = buildDebtLedgerEvents(ledger)
+    .map(
+      (event) => `<tr>
+        <td>${event.at.toLocaleString("vi-VN")}</td>
+        <td>${escapeHtml(DEBT_LEDGER_EVENT_META[event.type].label)}</td>
+        <td>${escapeHtml(event.title)}</td>
+        <td class="num">${event.amount !== undefined ? money(event.amount) : ""}</td>
+      </tr>`
+    )
+    .join("");
+  const win = window.open("", "_blank", "width=900,height=700");
+  if (!win) return false;
+  win.document.write(`<!DOCTYPE html><html><head><meta charset="utf-8" />
+    <title>Sao kê công nợ ${escapeHtml(ledger.customer_code)}</title>
+    <style>
+      body { font-family: Arial, sans-serif; font-size: 13px; padding: 24px; }
+      h1 { font-size: 18px; margin: 0 0 12px; }
+      h2 { font-size: 15px; margin: 24px 0 0; }
+      table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+      th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+      th { background: #eee; }
+      .num { text-align: right; }
+      .info td { border: none; padding: 2px 8px 2px 0; }
+    </style></head><body>
+    <h1>SAO KÊ CÔNG NỢ KHÁCH HÀNG</h1>
+    <table class="info">
+      <tr><td>Khách hàng:</td><td><b>${escapeHtml(ledger.customer_code)}${
+        ledger.customer_name ? ` - ${escapeHtml(ledger.customer_name)}` : ""
+      }</b></td></tr>
+      <tr><td>NV công nợ:</td><td>${escapeHtml(ledger.employee?.fullName || "--")}</td></tr>
+      <tr><td>Ngày lập:</td><td>${new Date().toLocaleString("vi-VN")}</td></tr>
+      <tr><td>Tổng phát sinh:</td><td>${money(summary.total_amount)}</td></tr>
+      <tr><td>Đã thanh toán:</td><td>${money(summary.paid_amount)}</td></tr>
+      <tr><td>Còn lại:</td><td><b>${money(summary.remaining)}</b></td></tr>
+      <tr><td>Quá hạn:</td><td>${money(summary.overdue_amount)}</td></tr>
+    </table>
+    <table>
+      <thead><tr><th>Số chứng từ</th><th>Số hóa đơn</th><th>Ngày chứng từ</th><th>Ngày đến hạn</th>
+      <th class="num">Thành tiền</th><th class="num">Đã thanh toán</th><th class="num">Còn lại</th><th>Trạng thái</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <h2>Dòng thời gian</h2>
+    <table>
+      <thead><tr><th>Thời gian</th><th>Sự kiện</th><th>Nội dung</th><th class="num">Số tiền</th></tr></thead>
+      <tbody>${timelineRows}</tbody>
+    </table>
+    </body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+}
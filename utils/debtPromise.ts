@@ -0,0 +1,27 @@
+import { DebtPromiseChannel, DebtPromiseStatus } from "@/types";
+
+export const DEBT_PROMISE_STATUS_META: Record<DebtPromiseStatus, { label: string; className: string; color: string }> = {
+  pending: { label: "Đang chờ", className: "bg-blue-100 text-blue-700 border-blue-200", color: "#3B82F6" },
+  kept: { label: "Giữ hẹn", className: "bg-green-100 text-green-700 border-green-200", color: "#10B981" },
+  partially_kept: {
+    label: "Trả một phần",
+    className: "bg-amber-100 text-amber-700 border-amber-200",
+    color: "#F59E0B",
+  },
+  broken: { label: "Lỡ hẹn", className: "bg-red-100 text-red-700 border-red-200", color: "#EF4444" },
+  cancelled: { label: "Đã hủy", className: "bg-gray-100 text-gray-500 border-gray-200", color: "#9CA3AF" },
+};
+
+export const DEBT_PROMISE_CHANNEL_LABELS: Record<DebtPromiseChannel, string> = {
+  zalo: "Zalo",
+  phone: "Điện thoại",
+  in_person: "Gặp trực tiếp",
+  other: "Khác",
+};
+
+// yyyy-MM-dd theo giờ địa phương, tránh lệch ngày khi dùng toISOString
+export const toPromiseDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export const formatPromiseDate = (value?: string | null) =>
+  value ? new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString("vi-VN") : "--";
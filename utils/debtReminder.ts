@@ -0,0 +1,93 @@
+import { DebtCustomerType, DebtReminderContext, DebtReminderStep, DebtReminderTemplate } from "@/types";
+
+export const DEBT_CUSTOMER_TYPE_LABELS: Record<DebtCustomerType, string> = {
+  cash: "Tiền Mặt",
+  fixed: "Cố Định",
+  "non-fixed": "Không Cố Định",
+};
+
+// ===== Biến trong mẫu tin nhắc nợ: {{ten_khach_hang}}, {{danh_sach_hoa_don}}, ... =====
+export const DEBT_REMINDER_VARIABLES: Array<{ key: string; label: string }> = [
+  { key: "xung_ho", label: "Anh / Chị" },
+  { key: "ten_khach_hang", label: "Tên khách hàng" },
+  { key: "ma_khach_hang", label: "Mã khách hàng" },
+  { key: "danh_sach_hoa_don", label: "Danh sách hóa đơn còn nợ" },
+  { key: "so_tien_con_lai", label: "Tổng tiền còn lại" },
+  { key: "han_thanh_toan", label: "Hạn thanh toán gần nhất" },
+  { key: "nhan_vien", label: "Nhân viên công nợ" },
+];
+
+// Thang nhắc nợ tối đa; bậc đầu là tin báo nợ
+export const MAX_DEBT_REMINDER_STEPS = 6;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+const formatMoney = (value: number) => `${Math.round(value).toLocaleString("vi-VN")}đ`;
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString("vi-VN") : "");
+
+export const getDebtStepLabel = (index: number) => (index === 0 ? "Báo nợ" : `Nhắc nợ lần ${index}`);
+
+export const buildDefaultDebtTemplate = (customerType: DebtCustomerType): DebtReminderTemplate => ({
+  customer_type: customerType,
+  steps: [
+    {
+      label: getDebtStepLabel(0),
+      gap_days: 0,
+      message:
+        "Dạ em chào {{xung_ho}} {{ten_khach_hang}}, em gửi thông tin công nợ:\n{{danh_sach_hoa_don}}\nTổng còn lại: {{so_tien_con_lai}}.",
+    },
+    {
+      label: getDebtStepLabel(1),
+      gap_days: 1,
+      message: "Dạ {{xung_ho}} ơi, {{xung_ho}} kiểm tra giúp em công nợ {{so_tien_con_lai}} với ạ.",
+    },
+    {
+      label: getDebtStepLabel(2),
+      gap_days: 1,
+      message: "Dạ {{xung_ho}} ơi, công nợ {{so_tien_con_lai}} đến hạn {{han_thanh_toan}}, {{xung_ho}} phản hồi giúp em ạ.",
+    },
+  ],
+  business_message: "Khách {{ten_khach_hang}} ({{ma_khach_hang}}) chưa phản hồi công nợ {{so_tien_con_lai}}.",
+});
+
+export const buildDebtReminderValues = (context: DebtReminderContext): Record<string, string> => {
+  const remaining = context.debts.reduce((sum, d) => sum + (Number(d.remaining) || 0), 0);
+  const dueDates = context.debts
+    .map((d) => d.due_date)
+    .filter((d): d is string => !!d)
+    .sort();
+  return {
+    xung_ho: context.customer_gender || "Anh/Chị",
+    ten_khach_hang: context.customer_name || "",
+    ma_khach_hang: context.customer_code || "",
+    danh_sach_hoa_don: context.debts
+      .map(
+        (d) =>
+          `- ${d.invoice_code}: ${formatMoney(Number(d.remaining) || 0)}${
+            d.due_date ? ` (hạn ${formatDate(d.due_date)})` : ""
+          }`
+      )
+      .join("\n"),
+    so_tien_con_lai: formatMoney(remaining),
+    han_thanh_toan: formatDate(dueDates[0]),
+    nhan_vien: context.employee_name || "",
+  };
+};
+
+export const renderDebtReminderMessage = (text: string, values: Record<string, string> | null): string =>
+  values ? text.replace(VARIABLE_PATTERN, (match, key: string) => (key in values ? values[key] : match)) : text;
+
+export const findUnknownDebtVariables = (text: string): string[] => {
+  const known = new Set(DEBT_REMINDER_VARIABLES.map((v) => v.key));
+  return Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), (m) => m[1]))).filter((k) => !known.has(k));
+};
+
+// Ngày gửi dự kiến của từng bậc, tính từ ngày báo nợ
+export const getDebtStepDates = (steps: DebtReminderStep[], start: Date = new Date()): Date[] => {
+  let offset = 0;
+  return steps.map((step, index) => {
+    offset += index === 0 ? 0 : Math.max(1, step.gap_days || 0);
+    return new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+  });
+};